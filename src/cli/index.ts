@@ -1,41 +1,252 @@
 #!/usr/bin/env node
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { Command } from 'commander';
 import { VocaEngine } from '../engine';
-import { OpenAIProvider, MockLLMProvider } from '../providers';
-import { InputType } from '../types';
+import { createProviderRegistry, errorCode, OpenAIEmbeddingProvider, MockEmbeddingProvider } from '../providers';
+import { FileStorage } from '../utils';
+import {
+  InputType,
+  DuplicatePolicy,
+  ResilienceOptions,
+  FallbackProviderConfig,
+  SuggestionCacheOptions,
+  GenerateSuggestionsOptions,
+  EmbeddingProvider
+} from '../types';
 
 const program = new Command();
 
 // Global engine instance
 let engine: VocaEngine | null = null;
 
+// Resolve the workspace directory: --data-dir, then VOCA_HOME, then ~/.voca-engine
+function resolveDataDir(): string {
+  const { dataDir } = program.opts();
+  return dataDir || process.env.VOCA_HOME || path.join(os.homedir(), '.voca-engine');
+}
+
+// Days to keep trashed items: --trash-retention-days, then VOCA_TRASH_RETENTION_DAYS; unset keeps them
+function resolveTrashRetentionDays(): number | undefined {
+  const { trashRetentionDays } = program.opts();
+  const value = trashRetentionDays || process.env.VOCA_TRASH_RETENTION_DAYS;
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const days = Number(value);
+  if (!Number.isFinite(days) || days <= 0) {
+    throw new Error(`Invalid trash retention: ${value}. Use a positive number of days`);
+  }
+  return days;
+}
+
+// Edits allowed by --fuzzy; the flag on its own allows two
+function parseFuzzy(value: string | boolean | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === true) {
+    return 2;
+  }
+
+  const edits = Number(value);
+  if (!Number.isInteger(edits) || edits < 0) {
+    throw new Error(`Invalid fuzzy tolerance: ${value}. Use a whole number of edits`);
+  }
+  return edits;
+}
+
+// Duplicate policy given to --duplicates
+function parseDuplicatePolicy(value?: string): DuplicatePolicy | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value !== 'allow' && value !== 'warn' && value !== 'refuse') {
+    throw new Error(`Invalid duplicate policy: ${value}. Use 'allow', 'warn', or 'refuse'`);
+  }
+  return value;
+}
+
+// Name recorded in the journal: VOCA_ACTOR, then the OS user name
+function resolveActor(): string | undefined {
+  if (process.env.VOCA_ACTOR) {
+    return process.env.VOCA_ACTOR;
+  }
+  try {
+    return os.userInfo().username;
+  } catch {
+    return undefined;
+  }
+}
+
+// Provider name: --mock, then --provider, then VOCA_PROVIDER; OpenAI by default
+function resolveProvider(useMock: boolean): string {
+  if (useMock) {
+    return 'mock';
+  }
+  const { provider } = program.opts();
+  return provider || process.env.VOCA_PROVIDER || 'openai';
+}
+
+// Provider settings from the global options, then the environment; unset ones keep the provider's defaults
+function resolveProviderConfig(): Record<string, any> {
+  const { model, baseUrl } = program.opts();
+  return {
+    model: model || process.env.VOCA_MODEL,
+    baseURL: baseUrl || process.env.VOCA_BASE_URL,
+    apiKey: process.env.VOCA_API_KEY
+  };
+}
+
+// Fallback chain from --fallback, then VOCA_FALLBACK: comma-separated names, each with an optional :model
+function resolveFallbackProviders(): FallbackProviderConfig[] {
+  const { fallback } = program.opts();
+  const value: string | undefined = fallback || process.env.VOCA_FALLBACK;
+  if (!value) {
+    return [];
+  }
+
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0).map(item => {
+    const separator = item.indexOf(':');
+    if (separator === -1) {
+      return { provider: item };
+    }
+    return { provider: item.slice(0, separator), providerConfig: { model: item.slice(separator + 1) } };
+  });
+}
+
+// Limits on provider calls from the global options, then the environment; unset ones keep the defaults
+function resolveResilience(): ResilienceOptions {
+  const { timeout, retries, rateLimit } = program.opts();
+  const seconds = parseCount(timeout || process.env.VOCA_TIMEOUT, 'timeout', 'seconds');
+  return {
+    timeoutMs: seconds === undefined ? undefined : seconds * 1000,
+    retries: parseCount(retries || process.env.VOCA_RETRIES, 'retry count', 'retries'),
+    requestsPerMinute: parseCount(rateLimit || process.env.VOCA_RATE_LIMIT, 'rate limit', 'requests per minute')
+  };
+}
+
+// How long generated suggestions are reused: --cache-ttl-days, then VOCA_CACHE_TTL_DAYS; 0 keeps them until clear-cache
+function resolveSuggestionCache(): SuggestionCacheOptions {
+  const { cacheTtlDays } = program.opts();
+  const value = cacheTtlDays || process.env.VOCA_CACHE_TTL_DAYS;
+  if (value === undefined) {
+    return {};
+  }
+
+  const days = Number(value);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(`Invalid cache TTL: ${value}. Use a number of days, or 0 to keep cached suggestions until cleared`);
+  }
+  return { ttlMs: days * 24 * 60 * 60 * 1000 };
+}
+
+// A whole number of at least zero given to an option
+function parseCount(value: string | undefined, name: string, unit: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid ${name}: ${value}. Use a whole number of ${unit}`);
+  }
+  return count;
+}
+
+/**
+ * Embedding provider from --embedding-provider, then VOCA_EMBEDDING_PROVIDER:
+ * openai, mock or none. Without either, only the openai and mock LLM providers
+ * get the matching embeddings, so the texts of users of other providers are
+ * never sent to OpenAI unless they ask for it.
+ */
+function resolveEmbeddingProvider(provider: string): EmbeddingProvider | undefined {
+  const { embeddingProvider } = program.opts();
+  const name: string = embeddingProvider || process.env.VOCA_EMBEDDING_PROVIDER || (provider === 'openai' || provider === 'mock' ? provider : 'none');
+
+  let embeddings: OpenAIEmbeddingProvider | MockEmbeddingProvider;
+  if (name === 'openai') {
+    embeddings = new OpenAIEmbeddingProvider(process.env.OPENAI_API_KEY);
+  } else if (name === 'mock') {
+    embeddings = new MockEmbeddingProvider();
+  } else if (name === 'none') {
+    return undefined;
+  } else {
+    throw new Error(`Unknown embedding provider: ${name}. Use openai, mock or none`);
+  }
+
+  if (process.env.VOCA_EMBEDDING_MODEL) {
+    embeddings.configure({ model: process.env.VOCA_EMBEDDING_MODEL });
+  }
+  return embeddings;
+}
+
 // Initialize engine with appropriate provider
 function initializeEngine(useMock: boolean = false): VocaEngine {
   if (!engine) {
-    const provider = useMock 
-      ? new MockLLMProvider()
-      : new OpenAIProvider(process.env.OPENAI_API_KEY);
-    
+    const provider = resolveProvider(useMock);
     engine = new VocaEngine({
-      llmProvider: provider,
-      defaultSuggestionCount: 5
+      provider,
+      // Mock replies take about as long as a real one, as the CLI has always shown them
+      providerConfig: provider === 'mock' ? { ...resolveProviderConfig(), delay: 500 } : resolveProviderConfig(),
+      providerRegistry: createProviderRegistry(),
+      resilience: resolveResilience(),
+      fallbackProviders: resolveFallbackProviders(),
+      suggestionCache: resolveSuggestionCache(),
+      embeddingProvider: resolveEmbeddingProvider(provider),
+      storage: new FileStorage(resolveDataDir()),
+      defaultSuggestionCount: 5,
+      trashRetentionDays: resolveTrashRetentionDays(),
+      actor: resolveActor(),
+      onWarning: message => console.warn(message)
     });
   }
   return engine;
 }
 
 // Helper function to output JSON response
-function outputJSON(data: any, success: boolean = true, error?: string) {
+function outputJSON(data: any, success: boolean = true, error?: string, code?: string) {
   const response = {
     success,
     data: success ? data : undefined,
     error: error || undefined,
+    code: code || undefined,
     timestamp: new Date()
   };
   console.log(JSON.stringify(response, null, 2));
 }
 
+// Report a failure; provider failures carry a stable code such as 'auth' or 'timeout' for scripts to check
+function outputError(error: unknown) {
+  outputJSON(null, false, (error as Error).message, errorCode(error));
+}
+
+// One compact JSON object per line, for --stream output that scripts read as it arrives (NDJSON)
+function outputEvent(event: 'input' | 'candidate' | 'suggestion' | 'error', data: any) {
+  console.log(JSON.stringify({ event, data, timestamp: new Date() }));
+}
+
+// Report a failure as the last line of --stream output
+function outputEventError(error: unknown) {
+  outputEvent('error', { error: (error as Error).message, code: errorCode(error) });
+}
+
+// Print each candidate as it arrives, then the saved suggestion
+async function streamSuggestion(vocaEngine: VocaEngine, inputId: string, options: GenerateSuggestionsOptions): Promise<void> {
+  const stream = vocaEngine.streamSuggestions(inputId, options);
+  for (;;) {
+    const next = await stream.next();
+    if (next.done) {
+      outputEvent('suggestion', next.value);
+      return;
+    }
+    outputEvent('candidate', next.value);
+  }
+}
+
 // Helper function to parse input type
 function parseInputType(type: string): InputType {
   switch (type.toLowerCase()) {
@@ -62,7 +273,18 @@ function parseTags(tagsString?: string): string[] {
 program
   .name('voca-engine')
   .description('Vocabulary enhancement assistant CLI')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--data-dir <path>', 'Workspace directory for stored data (default: $VOCA_HOME or ~/.voca-engine)')
+  .option('--trash-retention-days <days>', 'Purge trashed items older than this (default: $VOCA_TRASH_RETENTION_DAYS)')
+  .option('--provider <name>', 'LLM provider: openai, anthropic, ollama, openai-compatible or mock (default: $VOCA_PROVIDER or openai)')
+  .option('--model <model>', 'Model for the LLM provider (default: $VOCA_MODEL or the provider default)')
+  .option('--base-url <url>', 'Server address for the LLM provider (default: $VOCA_BASE_URL)')
+  .option('--timeout <seconds>', 'Give up on an LLM call after this long; 0 waits forever (default: $VOCA_TIMEOUT or 30)')
+  .option('--retries <count>', 'Retry rate limits, server and network errors this many times (default: $VOCA_RETRIES or 2)')
+  .option('--rate-limit <requests>', 'Start at most this many LLM calls per minute (default: $VOCA_RATE_LIMIT, unlimited)')
+  .option('--fallback <providers>', 'Providers to try in order when the LLM provider fails, e.g. ollama:llama3.1,mock; cache answers from cached replies (default: $VOCA_FALLBACK)')
+  .option('--embedding-provider <name>', 'Embeddings for similar: openai, mock or none (default: $VOCA_EMBEDDING_PROVIDER, or openai and mock for those LLM providers, none otherwise)')
+  .option('--cache-ttl-days <days>', 'Reuse generated suggestions for this long; 0 keeps them until clear-cache (default: $VOCA_CACHE_TTL_DAYS or 7)');
 
 // Add input command
 program
@@ -70,15 +292,16 @@ program
   .description('Add a new input (expression, explanation, or image)')
   .requiredOption('-t, --type <type>', 'Input type: expression, explanation, or image')
   .requiredOption('-c, --content <content>', 'Input content')
+  .option('--reuse', 'Return a stored input with the same content instead of adding another')
   .option('--mock', 'Use mock LLM provider for testing')
   .action(async (options) => {
     try {
       const vocaEngine = initializeEngine(options.mock);
       const inputType = parseInputType(options.type);
-      const input = await vocaEngine.addInput(inputType, options.content);
+      const input = await vocaEngine.addInput(inputType, options.content, { reuseExisting: !!options.reuse });
       outputJSON(input);
     } catch (error) {
-      outputJSON(null, false, (error as Error).message);
+      outputError(error);
       process.exit(1);
     }
   });
@@ -88,14 +311,26 @@ program
   .command('generate')
   .description('Generate vocabulary suggestions for an input')
   .requiredOption('-i, --input-id <id>', 'Input ID to generate suggestions for')
+  .option('--no-cache', 'Ask the LLM provider without reading or writing cached suggestions')
+  .option('--refresh', 'Ask the LLM provider even when suggestions are cached, and cache the new ones')
+  .option('--stream', 'Print each candidate as it arrives, one JSON object per line (NDJSON)')
   .option('--mock', 'Use mock LLM provider for testing')
   .action(async (options) => {
     try {
       const vocaEngine = initializeEngine(options.mock);
-      const suggestion = await vocaEngine.generateSuggestions(options.inputId);
+      const generateOptions = { cache: options.cache, refresh: !!options.refresh };
+      if (options.stream) {
+        await streamSuggestion(vocaEngine, options.inputId, generateOptions);
+        return;
+      }
+      const suggestion = await vocaEngine.generateSuggestions(options.inputId, generateOptions);
       outputJSON(suggestion);
     } catch (error) {
-      outputJSON(null, false, (error as Error).message);
+      if (options.stream) {
+        outputEventError(error);
+      } else {
+        outputError(error);
+      }
       process.exit(1);
     }
   });
@@ -112,7 +347,7 @@ program
       const collection = await vocaEngine.createCollection(options.name);
       outputJSON(collection);
     } catch (error) {
-      outputJSON(null, false, (error as Error).message);
+      outputError(error);
       process.exit(1);
     }
   });
@@ -121,14 +356,15 @@ program
 program
   .command('list-collections')
   .description('List all collections')
+  .option('-a, --all', 'Include archived collections')
   .option('--mock', 'Use mock LLM provider for testing')
   .action(async (options) => {
     try {
       const vocaEngine = initializeEngine(options.mock);
-      const collections = await vocaEngine.listCollections();
+      const collections = await vocaEngine.listCollections({ includeArchived: !!options.all });
       outputJSON(collections);
     } catch (error) {
-      outputJSON(null, false, (error as Error).message);
+      outputError(error);
       process.exit(1);
     }
   });
@@ -141,20 +377,23 @@ program
   .requiredOption('-s, --suggestion-id <id>', 'Suggestion ID')
   .requiredOption('-c, --collection-id <id>', 'Collection ID')
   .option('-t, --tags <tags>', 'Comma-separated tags')
+  .option('--duplicates <policy>', 'When the collection already has this input: allow, warn (default) or refuse')
   .option('--mock', 'Use mock LLM provider for testing')
   .action(async (options) => {
     try {
+      const duplicates = parseDuplicatePolicy(options.duplicates);
       const vocaEngine = initializeEngine(options.mock);
       const tags = parseTags(options.tags);
       const entry = await vocaEngine.saveEntry(
         options.inputId,
         options.suggestionId,
         options.collectionId,
-        tags
+        tags,
+        { duplicates }
       );
       outputJSON(entry);
     } catch (error) {
-      outputJSON(null, false, (error as Error).message);
+      outputError(error);
       process.exit(1);
     }
   });
@@ -171,7 +410,7 @@ program
       const entries = await vocaEngine.listEntries(options.collectionId);
       outputJSON(entries);
     } catch (error) {
-      outputJSON(null, false, (error as Error).message);
+      outputError(error);
       process.exit(1);
     }
   });
@@ -179,17 +418,61 @@ program
 // Search entries command
 program
   .command('search')
-  .description('Search entries in a collection')
-  .requiredOption('-c, --collection-id <id>', 'Collection ID')
-  .requiredOption('-q, --query <query>', 'Search query')
+  .description('Search entries in a collection, or in every collection without -c')
+  .option('-c, --collection-id <id>', 'Collection ID')
+  .requiredOption('-q, --query <query>', 'Search query: words, "phrases", tag:, type:, saved:, collection:, content:, candidate:, -term, OR, ( )')
+  .option('--ranked', 'Order by relevance and include match highlights')
+  .option('-a, --all', 'Include archived collections when searching every collection')
+  .option('--fuzzy [edits]', 'Also match near-misses within this many jamo or letter edits (default 2)')
   .option('--mock', 'Use mock LLM provider for testing')
   .action(async (options) => {
     try {
+      const fuzzy = parseFuzzy(options.fuzzy);
       const vocaEngine = initializeEngine(options.mock);
-      const entries = await vocaEngine.searchEntries(options.collectionId, options.query);
+      if (options.ranked) {
+        const results = await vocaEngine.rankedSearch(options.query, {
+          collectionId: options.collectionId,
+          includeArchived: !!options.all,
+          fuzzy
+        });
+        outputJSON(results);
+        return;
+      }
+
+      const entries = options.collectionId
+        ? await vocaEngine.searchEntries(options.collectionId, options.query, { fuzzy })
+        : await vocaEngine.searchAllEntries(options.query, { includeArchived: !!options.all, fuzzy });
       outputJSON(entries);
     } catch (error) {
-      outputJSON(null, false, (error as Error).message);
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Similar entries command
+program
+  .command('similar')
+  .description('Find the entries closest in meaning to a text, in a collection or in every collection without -c')
+  .requiredOption('-q, --query <text>', 'Text to compare entries with')
+  .option('-k, --count <k>', 'Number of entries to return', '10')
+  .option('-c, --collection-id <id>', 'Collection ID')
+  .option('-a, --all', 'Include archived collections when searching every collection')
+  .option('--mock', 'Use mock LLM and embedding providers for testing')
+  .action(async (options) => {
+    try {
+      const count = Number(options.count);
+      if (!Number.isInteger(count) || count <= 0) {
+        throw new Error(`Invalid number of results: ${options.count}. Use a positive whole number`);
+      }
+
+      const vocaEngine = initializeEngine(options.mock);
+      const results = await vocaEngine.findSimilarEntries(options.query, count, {
+        collectionId: options.collectionId,
+        includeArchived: !!options.all
+      });
+      outputJSON(results);
+    } catch (error) {
+      outputError(error);
       process.exit(1);
     }
   });
@@ -197,16 +480,207 @@ program
 // Delete entry command
 program
   .command('delete-entry')
-  .description('Delete an entry')
+  .description('Move an entry to the trash')
   .requiredOption('-e, --entry-id <id>', 'Entry ID to delete')
   .option('--mock', 'Use mock LLM provider for testing')
   .action(async (options) => {
     try {
       const vocaEngine = initializeEngine(options.mock);
       await vocaEngine.deleteEntry(options.entryId);
-      outputJSON({ message: 'Entry deleted successfully' });
+      outputJSON({ message: 'Entry moved to the trash' });
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Edit entry command
+program
+  .command('edit-entry')
+  .description('Edit the candidates, favorites, tags, note or example sentence of a saved entry')
+  .requiredOption('-e, --entry-id <id>', 'Entry ID')
+  .option('--candidates <candidates>', 'Comma-separated candidates to keep, in order')
+  .option('--favorites <candidates>', 'Comma-separated candidates to mark as favorites')
+  .option('-t, --tags <tags>', 'Comma-separated tags')
+  .option('--note <note>', 'Free-text note (empty string clears it)')
+  .option('--example <sentence>', 'Example sentence (empty string clears it)')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const split = (value?: string) => value === undefined ? undefined : value.split(',');
+      const entry = await vocaEngine.updateEntry(options.entryId, {
+        candidates: split(options.candidates),
+        favorites: split(options.favorites),
+        tags: split(options.tags),
+        note: options.note,
+        example: options.example
+      });
+      outputJSON(entry);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Add candidate command
+program
+  .command('add-candidate')
+  .description('Add your own alternative to a saved entry')
+  .requiredOption('-e, --entry-id <id>', 'Entry ID')
+  .requiredOption('-w, --candidate <text>', 'Candidate to add')
+  .option('-p, --position <index>', 'Position to insert at (0 is first; default last)')
+  .option('--gloss <gloss>', 'Short definition')
+  .option('--sentence <sentence>', 'Example sentence using the candidate')
+  .option('--register <register>', 'Register or nuance, e.g. formal, literary or casual')
+  .option('--pos <partOfSpeech>', 'Part of speech')
+  .option('--hanja <hanja>', 'Hanja spelling')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const position = parseCount(options.position, 'position', 'candidates before it');
+      const candidate = {
+        text: options.candidate,
+        gloss: options.gloss,
+        example: options.sentence,
+        register: options.register,
+        partOfSpeech: options.pos,
+        hanja: options.hanja
+      };
+      const entry = await vocaEngine.addCandidate(options.entryId, candidate, position);
+      outputJSON(entry);
     } catch (error) {
-      outputJSON(null, false, (error as Error).message);
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Remove candidate command
+program
+  .command('remove-candidate')
+  .description('Remove a candidate from a saved entry')
+  .requiredOption('-e, --entry-id <id>', 'Entry ID')
+  .requiredOption('-w, --candidate <text>', 'Candidate to remove')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const entry = await vocaEngine.removeCandidate(options.entryId, options.candidate);
+      outputJSON(entry);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Reorder candidates command
+program
+  .command('reorder-candidates')
+  .description('Reorder the candidates of a saved entry')
+  .requiredOption('-e, --entry-id <id>', 'Entry ID')
+  .requiredOption('--order <candidates>', 'Comma-separated candidates in the new order')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const entry = await vocaEngine.reorderCandidates(options.entryId, options.order.split(','));
+      outputJSON(entry);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Favorite candidate command
+program
+  .command('favorite-candidate')
+  .description('Mark a candidate of a saved entry as a favorite')
+  .requiredOption('-e, --entry-id <id>', 'Entry ID')
+  .requiredOption('-w, --candidate <text>', 'Candidate to mark')
+  .option('--remove', 'Unmark the candidate instead')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const entry = options.remove
+        ? await vocaEngine.unfavoriteCandidate(options.entryId, options.candidate)
+        : await vocaEngine.favoriteCandidate(options.entryId, options.candidate);
+      outputJSON(entry);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Move entries command
+program
+  .command('move-entry')
+  .description('Move entries to another collection, keeping their ids and save times')
+  .requiredOption('-e, --entry-id <ids...>', 'Entry IDs to move')
+  .requiredOption('-c, --collection-id <id>', 'Target collection ID')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const entries = await vocaEngine.moveEntries(options.entryId, options.collectionId);
+      outputJSON(entries);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Copy entries command
+program
+  .command('copy-entry')
+  .description('Copy entries into another collection as new entries')
+  .requiredOption('-e, --entry-id <ids...>', 'Entry IDs to copy')
+  .requiredOption('-c, --collection-id <id>', 'Target collection ID')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const entries = await vocaEngine.copyEntries(options.entryId, options.collectionId);
+      outputJSON(entries);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Link entry command
+program
+  .command('link-entry')
+  .description('Show an entry in another collection as well, without copying it')
+  .requiredOption('-e, --entry-id <id>', 'Entry ID')
+  .requiredOption('-c, --collection-id <id>', 'Collection ID to add the entry to')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const entry = await vocaEngine.addEntryToCollection(options.entryId, options.collectionId);
+      outputJSON(entry);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Unlink entry command
+program
+  .command('unlink-entry')
+  .description('Remove an entry from one of the collections it appears in')
+  .requiredOption('-e, --entry-id <id>', 'Entry ID')
+  .requiredOption('-c, --collection-id <id>', 'Collection ID to remove the entry from')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const entry = await vocaEngine.removeEntryFromCollection(options.entryId, options.collectionId);
+      outputJSON(entry);
+    } catch (error) {
+      outputError(error);
       process.exit(1);
     }
   });
@@ -224,7 +698,286 @@ program
       const collection = await vocaEngine.renameCollection(options.collectionId, options.newName);
       outputJSON(collection);
     } catch (error) {
-      outputJSON(null, false, (error as Error).message);
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Delete collection command
+program
+  .command('delete-collection')
+  .description('Move a collection to the trash, with its entries (--cascade) or after moving them (--move-to)')
+  .requiredOption('-c, --collection-id <id>', 'Collection ID')
+  .option('--cascade', 'Delete the entries in the collection as well')
+  .option('--move-to <id>', 'Move the entries to another collection first')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      await vocaEngine.deleteCollection(options.collectionId, {
+        cascade: !!options.cascade,
+        moveTo: options.moveTo
+      });
+      outputJSON({ message: 'Collection moved to the trash' });
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// List tags command
+program
+  .command('tags')
+  .description('List tags with the number of entries filed under each, parents included')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const tags = await vocaEngine.listTags();
+      outputJSON(tags);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Rename tag command
+program
+  .command('rename-tag')
+  .description('Rename a tag on every entry, along with the tags below it')
+  .requiredOption('-t, --tag <tag>', 'Tag to rename')
+  .requiredOption('-n, --new-name <tag>', 'New tag name')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const entries = await vocaEngine.renameTag(options.tag, options.newName);
+      outputJSON(entries);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Merge tags command
+program
+  .command('merge-tags')
+  .description('Merge several tags into one on every entry')
+  .requiredOption('-t, --tags <tags>', 'Comma-separated tags to merge')
+  .requiredOption('--into <tag>', 'Tag to merge them into')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const entries = await vocaEngine.mergeTags(parseTags(options.tags), options.into);
+      outputJSON(entries);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Delete tag command
+program
+  .command('delete-tag')
+  .description('Remove a tag, and the tags below it, from every entry')
+  .requiredOption('-t, --tag <tag>', 'Tag to delete')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const entries = await vocaEngine.deleteTag(options.tag);
+      outputJSON(entries);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Duplicates command
+program
+  .command('duplicates')
+  .description('List entries that repeat the same input in a collection')
+  .option('-c, --collection-id <id>', 'Only look in this collection')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const groups = await vocaEngine.findDuplicates({ collectionId: options.collectionId });
+      outputJSON(groups);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Dedupe command
+program
+  .command('dedupe')
+  .description('Merge duplicate entries into the earliest one, moving the rest to the trash')
+  .option('-c, --collection-id <id>', 'Only merge duplicates in this collection')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const report = await vocaEngine.dedupe({ collectionId: options.collectionId });
+      outputJSON(report);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Trash command
+program
+  .command('trash')
+  .description('List deleted entries and collections')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const trash = await vocaEngine.listTrash();
+      outputJSON(trash);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Restore command
+program
+  .command('restore')
+  .description('Restore an entry or a collection from the trash')
+  .option('-e, --entry-id <id>', 'Entry ID to restore')
+  .option('-c, --collection-id <id>', 'Collection ID to restore, with the entries deleted along with it')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      if (!options.entryId === !options.collectionId) {
+        throw new Error('Specify either --entry-id or --collection-id');
+      }
+
+      const vocaEngine = initializeEngine(options.mock);
+      const restored = options.entryId
+        ? await vocaEngine.restoreEntry(options.entryId)
+        : await vocaEngine.restoreCollection(options.collectionId);
+      outputJSON(restored);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Purge command
+program
+  .command('purge')
+  .description('Permanently delete items in the trash (everything unless narrowed down)')
+  .option('-e, --entry-id <ids...>', 'Only purge these entries')
+  .option('-c, --collection-id <ids...>', 'Only purge these collections')
+  .option('--before <date>', 'Only purge items deleted before this date (ISO 8601)')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      let before: Date | undefined;
+      if (options.before) {
+        before = new Date(options.before);
+        if (isNaN(before.getTime())) {
+          throw new Error(`Invalid date: ${options.before}`);
+        }
+      }
+
+      const vocaEngine = initializeEngine(options.mock);
+      const report = await vocaEngine.purgeTrash({
+        before,
+        entryIds: options.entryId,
+        collectionIds: options.collectionId
+      });
+      outputJSON(report);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// History command
+program
+  .command('history')
+  .description('Show the operations that changed an entry, collection, input or suggestion')
+  .requiredOption('-i, --id <id>', 'ID of the record')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const history = await vocaEngine.history(options.id);
+      outputJSON(history);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Undo command
+program
+  .command('undo')
+  .description('Undo the most recent operation')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const record = await vocaEngine.undo();
+      outputJSON(record ? { message: `Undid ${record.operation}`, record } : { message: 'Nothing to undo' });
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Redo command
+program
+  .command('redo')
+  .description('Redo the most recently undone operation')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const record = await vocaEngine.redo();
+      outputJSON(record ? { message: `Redid ${record.operation}`, record } : { message: 'Nothing to redo' });
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Archive collection command
+program
+  .command('archive-collection')
+  .description('Archive a collection, hiding it from listing, search and stats')
+  .requiredOption('-c, --collection-id <id>', 'Collection ID')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const collection = await vocaEngine.archiveCollection(options.collectionId);
+      outputJSON(collection);
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Unarchive collection command
+program
+  .command('unarchive-collection')
+  .description('Restore an archived collection')
+  .requiredOption('-c, --collection-id <id>', 'Collection ID')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const collection = await vocaEngine.unarchiveCollection(options.collectionId);
+      outputJSON(collection);
+    } catch (error) {
+      outputError(error);
       process.exit(1);
     }
   });
@@ -235,6 +988,9 @@ program
   .description('Quick workflow: add input, generate suggestions, and display results')
   .requiredOption('-t, --type <type>', 'Input type: expression, explanation, or image')
   .requiredOption('-c, --content <content>', 'Input content')
+  .option('--no-cache', 'Ask the LLM provider without reading or writing cached suggestions')
+  .option('--refresh', 'Ask the LLM provider even when suggestions are cached, and cache the new ones')
+  .option('--stream', 'Print the input, then each candidate as it arrives, one JSON object per line (NDJSON)')
   .option('--mock', 'Use mock LLM provider for testing')
   .action(async (options) => {
     try {
@@ -243,9 +999,16 @@ program
       // Add input
       const inputType = parseInputType(options.type);
       const input = await vocaEngine.addInput(inputType, options.content);
+      const generateOptions = { cache: options.cache, refresh: !!options.refresh };
+
+      if (options.stream) {
+        outputEvent('input', input);
+        await streamSuggestion(vocaEngine, input.id, generateOptions);
+        return;
+      }
       
       // Generate suggestions
-      const suggestion = await vocaEngine.generateSuggestions(input.id);
+      const suggestion = await vocaEngine.generateSuggestions(input.id, generateOptions);
       
       // Output combined result
       outputJSON({
@@ -253,7 +1016,11 @@ program
         suggestion
       });
     } catch (error) {
-      outputJSON(null, false, (error as Error).message);
+      if (options.stream) {
+        outputEventError(error);
+      } else {
+        outputError(error);
+      }
       process.exit(1);
     }
   });
@@ -262,14 +1029,87 @@ program
 program
   .command('stats')
   .description('Show engine statistics')
+  .option('-a, --all', 'Include archived collections')
   .option('--mock', 'Use mock LLM provider for testing')
   .action(async (options) => {
     try {
       const vocaEngine = initializeEngine(options.mock);
-      const stats = await vocaEngine.getStats();
+      const stats = await vocaEngine.getStats({ includeArchived: !!options.all });
       outputJSON(stats);
     } catch (error) {
-      outputJSON(null, false, (error as Error).message);
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Clear cache command
+program
+  .command('clear-cache')
+  .description('Remove every cached suggestion, so the next generate asks the LLM provider')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const cleared = await vocaEngine.clearSuggestionCache();
+      outputJSON({ cleared });
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Export command
+program
+  .command('export')
+  .description('Export all data as a versioned JSON document')
+  .option('-o, --output <file>', 'Write the export to a file instead of stdout')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const payload = await vocaEngine.exportData();
+      if (options.output) {
+        fs.writeFileSync(options.output, JSON.stringify(payload, null, 2), 'utf8');
+        outputJSON({
+          message: 'Data exported successfully',
+          file: path.resolve(options.output),
+          counts: {
+            collections: payload.data.collections.length,
+            inputs: payload.data.inputs.length,
+            suggestions: payload.data.suggestions.length,
+            entries: payload.data.entries.length
+          }
+        });
+      } else {
+        outputJSON(payload);
+      }
+    } catch (error) {
+      outputError(error);
+      process.exit(1);
+    }
+  });
+
+// Import command
+program
+  .command('import')
+  .description('Import an export file, replacing all data unless --merge is given')
+  .requiredOption('-f, --file <file>', 'Export file to import')
+  .option('--merge', 'Merge into existing data instead of replacing it')
+  .option('--strategy <strategy>', 'Conflict strategy for --merge: keep-ours, take-theirs, newest, or duplicate', 'keep-ours')
+  .option('--merge-collections', 'With --merge, merge collections that have the same name')
+  .option('--mock', 'Use mock LLM provider for testing')
+  .action(async (options) => {
+    try {
+      const vocaEngine = initializeEngine(options.mock);
+      const payload = JSON.parse(fs.readFileSync(options.file, 'utf8'));
+      const report = await vocaEngine.importData(payload, {
+        mode: options.merge ? 'merge' : 'replace',
+        strategy: options.strategy,
+        mergeCollectionsByName: !!options.mergeCollections
+      });
+      outputJSON(report);
+    } catch (error) {
+      outputError(error);
       process.exit(1);
     }
   });
@@ -298,17 +1138,85 @@ program
       '# List all collections',
       'voca-engine list-collections',
       '',
+      '# Curate a saved entry: keep the candidates you like and mark a favorite',
+      'voca-engine edit-entry -e <entry-id> --candidates "부드럽게,조용히" --note "잔잔한 장면에"',
+      'voca-engine favorite-candidate -e <entry-id> -w "부드럽게"',
+      'voca-engine add-candidate -e <entry-id> -w "선율" --gloss "소리의 흐름" --register 문어체 --pos 명사 --hanja 旋律',
+      '',
+      '# Move entries to another collection, or show one entry in two collections',
+      'voca-engine move-entry -e <entry-id> <entry-id> -c <collection-id>',
+      'voca-engine link-entry -e <entry-id> -c <collection-id>',
+      '',
+      '# Find entries saved more than once and merge them',
+      'voca-engine duplicates',
+      'voca-engine dedupe -c <collection-id>',
+      '',
+      '# Deleted entries go to the trash until they are restored or purged',
+      'voca-engine delete-entry -e <entry-id>',
+      'voca-engine trash',
+      'voca-engine restore -e <entry-id>',
+      '',
+      '# See what changed a record, and undo or redo the latest operation',
+      'voca-engine history -i <entry-id>',
+      'voca-engine undo',
+      'voca-engine redo',
+      '',
+      '# Organize tags: nested tags like 장소/카페 also match 장소',
+      'voca-engine tags',
+      'voca-engine rename-tag -t 카페 -n 장소/카페',
+      'voca-engine merge-tags -t "감성,감성적" --into 감성',
+      'voca-engine delete-tag -t draft',
+      '',
+      '# Archive a collection you no longer use, or delete it',
+      'voca-engine archive-collection -c <collection-id>',
+      'voca-engine delete-collection -c <collection-id> --move-to <other-collection-id>',
+      '',
       '# List entries in a collection',
       'voca-engine list-entries -c <collection-id>',
       '',
-      '# Search entries',
+      '# Search entries, or rank matches from every collection by relevance',
       'voca-engine search -c <collection-id> -q "노래"',
+      'voca-engine search -q "잔잔한 노래" --ranked',
+      'voca-engine search -q "잔잔하계" --fuzzy',
+      'voca-engine search -q \'tag:카페 -tag:draft saved:>2026-01-01 "잔잔한 소리" OR 선율\'',
+      '',
+      '# Find entries related in meaning, even without shared words',
+      'voca-engine similar -q "고요한" -k 5',
       '',
       '# Use mock provider for testing (add --mock to any command)',
       'voca-engine quick -t expression -c "테스트 표현" --mock',
       '',
+      '# Pick another LLM provider: a local Ollama model, any OpenAI-compatible server, or Anthropic',
+      'voca-engine --provider ollama --model llama3.1 quick -t expression -c "노래 소리가 잔잔하게 들린다"',
+      'voca-engine --provider openai-compatible --base-url http://localhost:8000/v1 --model <model> generate -i <input-id>',
+      'voca-engine --provider anthropic generate -i <input-id>',
+      '',
+      '# Wait longer for a slow local model, retry more, and stay under a rate limit',
+      'voca-engine --provider ollama --timeout 120 --retries 4 --rate-limit 20 generate -i <input-id>',
+      '',
+      '# Fall back to a local model, then to canned suggestions, when OpenAI fails',
+      'voca-engine --fallback ollama:llama3.1,mock generate -i <input-id>',
+      '',
+      '# Suggestions for the same content are reused for 7 days; ask again, or skip the cache',
+      'voca-engine generate -i <input-id> --refresh',
+      'voca-engine --cache-ttl-days 1 quick -t expression -c "노래 소리가 잔잔하게 들린다" --no-cache',
+      'voca-engine clear-cache',
+      '',
+      '# Print each candidate as soon as it arrives, one JSON object per line',
+      'voca-engine quick -t expression -c "노래 소리가 잔잔하게 들린다" --stream',
+      '',
       '# Show statistics',
-      'voca-engine stats'
+      'voca-engine stats',
+      '',
+      '# Back up all data and restore it later',
+      'voca-engine export -o backup.json',
+      'voca-engine import -f backup.json',
+      '',
+      '# Merge a colleague\'s export into your data, keeping the newest version of each record',
+      'voca-engine import -f colleague.json --merge --strategy newest --merge-collections',
+      '',
+      '# Use a specific workspace directory (or set VOCA_HOME)',
+      'voca-engine list-collections --data-dir ./my-vocab'
     ];
     
     console.log(examples.join('\n'));
@@ -324,6 +1232,8 @@ program
       const hasKey = !!process.env.OPENAI_API_KEY;
       outputJSON({
         hasApiKey: hasKey,
+        provider: resolveProvider(false),
+        availableProviders: createProviderRegistry().names(),
         message: hasKey 
           ? 'OpenAI API key is configured' 
           : 'OpenAI API key is not configured. Set OPENAI_API_KEY environment variable.'
@@ -333,6 +1243,7 @@ program
       console.log('export OPENAI_API_KEY=your-api-key-here');
       console.log('');
       console.log('Or use --mock flag to use the mock provider for testing.');
+      console.log('Other providers are chosen with --provider or VOCA_PROVIDER; Anthropic reads ANTHROPIC_API_KEY.');
     }
   });
 
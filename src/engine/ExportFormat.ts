@@ -0,0 +1,93 @@
+import {
+  StorageProvider,
+  StorageRecordKind,
+  StorageRecordMap,
+  ExportPayload
+} from '../types';
+import { ExpressionInput, Suggestion, Collection, Entry } from '../models';
+import { EXPORT_FORMAT, EXPORT_VERSION, migrateExport, validateExport } from './ExportSchema';
+
+export { EXPORT_FORMAT, EXPORT_VERSION };
+
+// Collections, inputs and suggestions come before the entries that reference them
+export const RECORD_KINDS: StorageRecordKind[] = ['collections', 'inputs', 'suggestions', 'entries'];
+
+// Rehydrate a serialized record into its model, restoring Date fields
+const FROM_JSON: { [K in StorageRecordKind]: (data: any) => StorageRecordMap[K] } = {
+  collections: data => Collection.fromJSON(data),
+  inputs: data => ExpressionInput.fromJSON(data),
+  suggestions: data => Suggestion.fromJSON(data),
+  entries: data => Entry.fromJSON(data)
+};
+
+// Serialize a record through its model, turning Date fields into ISO strings
+const TO_JSON: { [K in StorageRecordKind]: (record: StorageRecordMap[K]) => Record<string, any> } = {
+  collections: record => Collection.fromJSON(record).toJSON(),
+  inputs: record => ExpressionInput.fromJSON(record).toJSON(),
+  suggestions: record => Suggestion.fromJSON(record).toJSON(),
+  entries: record => Entry.fromJSON(record).toJSON()
+};
+
+export function recordFromJSON<K extends StorageRecordKind>(kind: K, data: Record<string, any>): StorageRecordMap[K] {
+  return FROM_JSON[kind](data);
+}
+
+export function recordToJSON<K extends StorageRecordKind>(kind: K, record: StorageRecordMap[K]): Record<string, any> {
+  return TO_JSON[kind](record);
+}
+
+export type ImportedRecords = { [K in StorageRecordKind]: StorageRecordMap[K][] };
+
+/**
+ * Read every record out of a storage provider into a versioned export document.
+ * Records are normalized through the models' toJSON, so dates become ISO strings.
+ */
+export async function buildExport(storage: StorageProvider): Promise<ExportPayload> {
+  const data: ExportPayload['data'] = {
+    collections: [],
+    inputs: [],
+    suggestions: [],
+    entries: []
+  };
+
+  for (const kind of RECORD_KINDS) {
+    data[kind] = await exportKind(storage, kind);
+  }
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    data
+  };
+}
+
+/**
+ * Turn an export document back into model instances, ready to hand to
+ * StorageProvider.importRecords. Older documents are migrated to the current
+ * version first, and the whole document is validated before anything is built.
+ */
+export function parseExport(payload: unknown): ImportedRecords {
+  const { data } = validateExport(migrateExport(payload));
+  const records = {} as ImportedRecords;
+
+  for (const kind of RECORD_KINDS) {
+    (records as Record<StorageRecordKind, unknown[]>)[kind] = data[kind].map(item => FROM_JSON[kind](item));
+  }
+
+  return records;
+}
+
+async function exportKind<K extends StorageRecordKind>(
+  storage: StorageProvider,
+  kind: K
+): Promise<Record<string, any>[]> {
+  const serialize = TO_JSON[kind];
+  const items: Record<string, any>[] = [];
+
+  for await (const record of storage.exportRecords(kind)) {
+    items.push(serialize(record));
+  }
+
+  return items;
+}
@@ -0,0 +1,258 @@
+import { InputType, ExportPayload, StorageRecordKind } from '../types';
+
+export const EXPORT_FORMAT = 'voca-engine-export';
+export const EXPORT_VERSION = 2;
+
+// Upgrades an export document from one version to the next
+export type ExportMigration = (document: Record<string, any>) => Record<string, any>;
+
+/**
+ * Migrations keyed by the version they upgrade from. Each one must return a
+ * document of the following version; importData applies them in sequence
+ * until the document reaches EXPORT_VERSION. When the export shape changes,
+ * bump EXPORT_VERSION and add the step from the previous version here.
+ */
+export const EXPORT_MIGRATIONS: Record<number, ExportMigration> = {
+  // Version 0: the unversioned dump of InMemoryStorage maps, with the
+  // record arrays at the top level instead of under `data`
+  0: document => ({
+    format: EXPORT_FORMAT,
+    version: 1,
+    exportedAt: typeof document.exportedAt === 'string' ? document.exportedAt : new Date().toISOString(),
+    data: {
+      collections: document.collections || [],
+      inputs: document.inputs || [],
+      suggestions: document.suggestions || [],
+      entries: document.entries || []
+    }
+  }),
+  // Version 1: candidates were plain strings; they become candidate objects with only text
+  1: document => ({
+    ...document,
+    version: 2,
+    data: {
+      ...document.data,
+      suggestions: mapRecords(document.data?.suggestions, upgradeCandidates),
+      entries: mapRecords(document.data?.entries, entry => ({
+        ...upgradeCandidates(entry),
+        ...(isObject(entry.suggestion) ? { suggestion: upgradeCandidates(entry.suggestion) } : {})
+      }))
+    }
+  })
+};
+
+// Records a migration cannot read are passed on as they are, for validateExport to report
+function mapRecords(records: unknown, upgrade: (record: Record<string, any>) => Record<string, any>): unknown {
+  return Array.isArray(records) ? records.map(record => isObject(record) ? upgrade(record) : record) : records;
+}
+
+function upgradeCandidates(record: Record<string, any>): Record<string, any> {
+  if (!Array.isArray(record.candidates)) {
+    return record;
+  }
+  return { ...record, candidates: record.candidates.map((item: unknown) => typeof item === 'string' ? { text: item } : item) };
+}
+
+const RECORD_KEYS: StorageRecordKind[] = ['collections', 'inputs', 'suggestions', 'entries'];
+
+/**
+ * Bring any supported export document up to EXPORT_VERSION.
+ * Throws for unknown formats and for documents newer than this release.
+ */
+export function migrateExport(payload: unknown): Record<string, any> {
+  if (!isObject(payload)) {
+    throw new Error('Invalid export: expected a JSON object');
+  }
+
+  let document = payload;
+  let version = detectVersion(document);
+
+  if (version > EXPORT_VERSION) {
+    throw new Error(
+      `Export version ${version} is newer than the supported version ${EXPORT_VERSION}; upgrade voca-engine to import it`
+    );
+  }
+
+  while (version < EXPORT_VERSION) {
+    const migrate = EXPORT_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration available from export version ${version}`);
+    }
+
+    document = migrate(document);
+    if (document.version !== version + 1) {
+      throw new Error(`Migration from export version ${version} produced version ${document.version}`);
+    }
+    version = document.version;
+  }
+
+  return document;
+}
+
+/**
+ * Check that a current-version document has the shape the models expect,
+ * naming the first offending field so broken files are never half-loaded.
+ */
+export function validateExport(document: Record<string, any>): ExportPayload {
+  if (document.format !== EXPORT_FORMAT || document.version !== EXPORT_VERSION) {
+    throw new Error(`Invalid export: expected format "${EXPORT_FORMAT}" version ${EXPORT_VERSION}`);
+  }
+
+  if (!isObject(document.data)) {
+    throw new Error('Invalid export: data must be an object');
+  }
+
+  const data = document.data;
+  for (const kind of RECORD_KEYS) {
+    if (!Array.isArray(data[kind])) {
+      throw new Error(`Invalid export: data.${kind} must be an array`);
+    }
+  }
+
+  data.collections.forEach((item: unknown, index: number) =>
+    validateCollection(item, `data.collections[${index}]`));
+  data.inputs.forEach((item: unknown, index: number) =>
+    validateInput(item, `data.inputs[${index}]`));
+  data.suggestions.forEach((item: unknown, index: number) =>
+    validateSuggestion(item, `data.suggestions[${index}]`));
+  data.entries.forEach((item: unknown, index: number) =>
+    validateEntry(item, `data.entries[${index}]`));
+
+  return document as ExportPayload;
+}
+
+function detectVersion(document: Record<string, any>): number {
+  if (document.format === undefined) {
+    if (RECORD_KEYS.some(key => Array.isArray(document[key]))) {
+      return 0;
+    }
+    throw new Error(`Invalid export: missing "format" field (expected "${EXPORT_FORMAT}")`);
+  }
+
+  if (document.format !== EXPORT_FORMAT) {
+    throw new Error(`Unsupported export format: ${JSON.stringify(document.format)} (expected "${EXPORT_FORMAT}")`);
+  }
+
+  if (!Number.isInteger(document.version) || document.version < 1) {
+    throw new Error(`Invalid export: version must be a positive integer, got ${JSON.stringify(document.version)}`);
+  }
+
+  return document.version;
+}
+
+function validateCollection(item: unknown, path: string): void {
+  const record = expectObject(item, path);
+  expectString(record, 'id', path);
+  expectString(record, 'name', path);
+  expectDate(record, 'createdAt', path);
+  for (const field of ['archivedAt', 'deletedAt']) {
+    if (record[field] !== undefined && record[field] !== null) {
+      expectDate(record, field, path);
+    }
+  }
+  if (record.deletionId !== undefined && typeof record.deletionId !== 'string') {
+    throw new Error(`Invalid export: ${path}.deletionId must be a string`);
+  }
+}
+
+function validateInput(item: unknown, path: string): void {
+  const record = expectObject(item, path);
+  expectString(record, 'id', path);
+  expectString(record, 'content', path);
+  expectDate(record, 'createdAt', path);
+
+  const types = Object.values(InputType) as string[];
+  if (!types.includes(record.type)) {
+    throw new Error(`Invalid export: ${path}.type must be one of ${types.join(', ')}`);
+  }
+}
+
+function validateSuggestion(item: unknown, path: string): void {
+  const record = expectObject(item, path);
+  expectString(record, 'id', path);
+  expectString(record, 'inputId', path);
+  expectCandidateArray(record, 'candidates', path);
+  expectDate(record, 'generatedAt', path);
+  if (record.provider !== undefined && typeof record.provider !== 'string') {
+    throw new Error(`Invalid export: ${path}.provider must be a string`);
+  }
+}
+
+function validateEntry(item: unknown, path: string): void {
+  const record = expectObject(item, path);
+  expectString(record, 'id', path);
+  expectString(record, 'collectionId', path);
+  if (record.collectionIds !== undefined) {
+    expectStringArray(record, 'collectionIds', path);
+  }
+  expectStringArray(record, 'tags', path);
+  if (record.candidates !== undefined) {
+    expectCandidateArray(record, 'candidates', path);
+  }
+  if (record.favorites !== undefined) {
+    expectStringArray(record, 'favorites', path);
+  }
+  for (const field of ['note', 'example', 'deletionId']) {
+    if (record[field] !== undefined && typeof record[field] !== 'string') {
+      throw new Error(`Invalid export: ${path}.${field} must be a string`);
+    }
+  }
+  expectDate(record, 'savedAt', path);
+  for (const field of ['updatedAt', 'deletedAt']) {
+    if (record[field] !== undefined && record[field] !== null) {
+      expectDate(record, field, path);
+    }
+  }
+  validateInput(record.input, `${path}.input`);
+  validateSuggestion(record.suggestion, `${path}.suggestion`);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, path: string): Record<string, any> {
+  if (!isObject(value)) {
+    throw new Error(`Invalid export: ${path} must be an object`);
+  }
+  return value;
+}
+
+function expectString(record: Record<string, any>, field: string, path: string): void {
+  const value = record[field];
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new Error(`Invalid export: ${path}.${field} must be a non-empty string`);
+  }
+}
+
+function expectStringArray(record: Record<string, any>, field: string, path: string): void {
+  const value = record[field];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`Invalid export: ${path}.${field} must be an array of strings`);
+  }
+}
+
+const CANDIDATE_DETAILS = ['gloss', 'example', 'register', 'partOfSpeech', 'hanja'];
+
+function expectCandidateArray(record: Record<string, any>, field: string, path: string): void {
+  const value = record[field];
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid export: ${path}.${field} must be an array of candidates`);
+  }
+  value.forEach((item: unknown, index: number) => {
+    const candidate = expectObject(item, `${path}.${field}[${index}]`);
+    expectString(candidate, 'text', `${path}.${field}[${index}]`);
+    for (const detail of CANDIDATE_DETAILS) {
+      if (candidate[detail] !== undefined && typeof candidate[detail] !== 'string') {
+        throw new Error(`Invalid export: ${path}.${field}[${index}].${detail} must be a string`);
+      }
+    }
+  });
+}
+
+function expectDate(record: Record<string, any>, field: string, path: string): void {
+  const value = record[field];
+  if ((typeof value !== 'string' && typeof value !== 'number') || isNaN(new Date(value).getTime())) {
+    throw new Error(`Invalid export: ${path}.${field} must be a valid date`);
+  }
+}
@@ -0,0 +1,309 @@
+import {
+  StorageProvider,
+  ExpressionInput,
+  Suggestion,
+  Collection,
+  Entry,
+  SearchOptions,
+  SearchResult,
+  TagCount,
+  StoredEmbedding,
+  CachedSuggestion,
+  StorageRecordKind,
+  StorageRecordMap,
+  JournalChange,
+  JournalRecord
+} from '../types';
+import { RECORD_KINDS, recordFromJSON, recordToJSON } from './ExportFormat';
+
+interface Recording {
+  changes: Map<string, JournalChange>;
+  reversible: boolean;
+}
+
+/**
+ * Storage wrapper that snapshots every record the engine writes while a
+ * recording is open. Each record keeps the state from before its first write
+ * and after its last one, so an operation that saves an entry twice still
+ * produces a single change. Reads and the journal itself pass straight through.
+ */
+export class RecordingStorage implements StorageProvider {
+  private readonly storage: StorageProvider;
+  private recording: Recording | null = null;
+
+  constructor(storage: StorageProvider) {
+    this.storage = storage;
+  }
+
+  begin(): void {
+    this.recording = { changes: new Map(), reversible: true };
+  }
+
+  // Close the recording, leaving out records that ended where they started
+  end(): { changes: JournalChange[]; reversible: boolean } {
+    const recording = this.recording;
+    this.recording = null;
+    if (!recording) {
+      return { changes: [], reversible: true };
+    }
+
+    const changes = Array.from(recording.changes.values())
+      .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+    return { changes, reversible: recording.reversible };
+  }
+
+  // Close the recording and write back every record it touched as it was before the first write
+  async rollback(): Promise<void> {
+    const recording = this.recording;
+    this.recording = null;
+    if (recording && recording.reversible) {
+      await writeChanges(this.storage, Array.from(recording.changes.values()), change => change.before);
+    }
+  }
+
+  async saveInput(input: ExpressionInput): Promise<ExpressionInput> {
+    return await this.track('inputs', input.id, () => this.storage.saveInput(input));
+  }
+
+  getInput(id: string): Promise<ExpressionInput | null> {
+    return this.storage.getInput(id);
+  }
+
+  async saveSuggestion(suggestion: Suggestion): Promise<Suggestion> {
+    return await this.track('suggestions', suggestion.id, () => this.storage.saveSuggestion(suggestion));
+  }
+
+  getSuggestion(id: string): Promise<Suggestion | null> {
+    return this.storage.getSuggestion(id);
+  }
+
+  async saveEntry(entry: Entry): Promise<Entry> {
+    return await this.track('entries', entry.id, () => this.storage.saveEntry(entry));
+  }
+
+  getEntry(id: string): Promise<Entry | null> {
+    return this.storage.getEntry(id);
+  }
+
+  listEntries(collectionId: string): Promise<Entry[]> {
+    return this.storage.listEntries(collectionId);
+  }
+
+  async deleteEntry(entryId: string): Promise<void> {
+    await this.track('entries', entryId, () => this.storage.deleteEntry(entryId));
+  }
+
+  searchEntries(options: SearchOptions): Promise<Entry[]> {
+    return this.storage.searchEntries(options);
+  }
+
+  searchRanked(options: SearchOptions): Promise<SearchResult[]> {
+    return this.storage.searchRanked(options);
+  }
+
+  async saveCollection(collection: Collection): Promise<Collection> {
+    return await this.track('collections', collection.id, () => this.storage.saveCollection(collection));
+  }
+
+  getCollection(id: string): Promise<Collection | null> {
+    return this.storage.getCollection(id);
+  }
+
+  listCollections(): Promise<Collection[]> {
+    return this.storage.listCollections();
+  }
+
+  async updateCollection(id: string, updates: Partial<Collection>): Promise<Collection> {
+    return await this.track('collections', id, () => this.storage.updateCollection(id, updates));
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    await this.track('collections', id, () => this.storage.deleteCollection(id));
+  }
+
+  listTags(): Promise<TagCount[]> {
+    return this.storage.listTags();
+  }
+
+  // Snapshot every entry filed under the tags, live or trashed, before they are rewritten
+  async replaceTags(tags: string[], replacement: string | null): Promise<Entry[]> {
+    const ids = new Set<string>();
+    for (const tag of tags) {
+      for (const trashed of [false, true]) {
+        (await this.storage.searchEntries({ query: '', tags: [tag], trashed })).forEach(entry => ids.add(entry.id));
+      }
+    }
+    return await this.trackMany('entries', Array.from(ids), () => this.storage.replaceTags(tags, replacement));
+  }
+
+  getEmbeddings(model: string, texts: string[]): Promise<StoredEmbedding[]> {
+    return this.storage.getEmbeddings(model, texts);
+  }
+
+  // Embeddings are derived from entry text, so saving them is not journaled
+  saveEmbeddings(embeddings: StoredEmbedding[]): Promise<void> {
+    return this.storage.saveEmbeddings(embeddings);
+  }
+
+  deleteEmbeddings(texts: string[]): Promise<void> {
+    return this.storage.deleteEmbeddings(texts);
+  }
+
+  getCachedSuggestion(key: string): Promise<CachedSuggestion | null> {
+    return this.storage.getCachedSuggestion(key);
+  }
+
+  // Cached replies can be asked for again, so neither saving nor clearing them is journaled
+  saveCachedSuggestion(cached: CachedSuggestion): Promise<void> {
+    return this.storage.saveCachedSuggestion(cached);
+  }
+
+  clearSuggestionCache(): Promise<number> {
+    return this.storage.clearSuggestionCache();
+  }
+
+  exportRecords<K extends StorageRecordKind>(kind: K): AsyncIterable<StorageRecordMap[K]> {
+    return this.storage.exportRecords(kind);
+  }
+
+  async importRecords<K extends StorageRecordKind>(kind: K, records: StorageRecordMap[K][]): Promise<void> {
+    await this.trackMany(kind, records.map(record => record.id), () => this.storage.importRecords(kind, records));
+  }
+
+  async deleteRecords(kind: StorageRecordKind, ids: string[]): Promise<void> {
+    await this.trackMany(kind, ids, () => this.storage.deleteRecords(kind, ids));
+  }
+
+  // Too much to snapshot; the operation is journaled but cannot be undone
+  async clear(): Promise<void> {
+    if (this.recording) {
+      this.recording.reversible = false;
+    }
+    await this.storage.clear();
+  }
+
+  appendJournal(record: JournalRecord): Promise<void> {
+    return this.storage.appendJournal(record);
+  }
+
+  listJournal(entityId?: string): Promise<JournalRecord[]> {
+    return this.storage.listJournal(entityId);
+  }
+
+  // Current state of a record as a JSON snapshot, null if it does not exist
+  async snapshot(kind: StorageRecordKind, id: string): Promise<Record<string, any> | null> {
+    const record = await this.read(kind, id);
+    return record ? recordToJSON(kind, record) : null;
+  }
+
+  private async track<T>(kind: StorageRecordKind, id: string, write: () => Promise<T>): Promise<T> {
+    return await this.trackMany(kind, [id], write);
+  }
+
+  private async trackMany<T>(kind: StorageRecordKind, ids: string[], write: () => Promise<T>): Promise<T> {
+    const recording = this.recording;
+    if (!recording || !recording.reversible) {
+      return await write();
+    }
+
+    for (const id of ids) {
+      const key = `${kind}:${id}`;
+      if (!recording.changes.has(key)) {
+        recording.changes.set(key, { kind, id, before: await this.snapshot(kind, id), after: null });
+      }
+    }
+
+    const result = await write();
+
+    for (const id of ids) {
+      recording.changes.get(`${kind}:${id}`)!.after = await this.snapshot(kind, id);
+    }
+    return result;
+  }
+
+  private async read(kind: StorageRecordKind, id: string): Promise<StorageRecordMap[StorageRecordKind] | null> {
+    switch (kind) {
+      case 'inputs':
+        return await this.storage.getInput(id);
+      case 'suggestions':
+        return await this.storage.getSuggestion(id);
+      case 'collections':
+        return await this.storage.getCollection(id);
+      default:
+        return await this.storage.getEntry(id);
+    }
+  }
+}
+
+/**
+ * Replay the journal to find what undo and redo would act on next: undo
+ * takes the latest applied (or redone) record, redo the latest undone one,
+ * and any new operation clears the redo stack.
+ */
+export function replayJournal(records: JournalRecord[]): { undo: JournalRecord[]; redo: JournalRecord[] } {
+  const byId = new Map(records.map(record => [record.id, record]));
+  const undo: JournalRecord[] = [];
+  const redo: JournalRecord[] = [];
+
+  for (const record of records) {
+    const target = record.targetId ? byId.get(record.targetId) : undefined;
+    if (record.action === 'apply') {
+      undo.push(record);
+      redo.length = 0;
+    } else if (record.action === 'undo' && target && undo.includes(target)) {
+      undo.splice(undo.indexOf(target), 1);
+      redo.push(target);
+    } else if (record.action === 'redo' && target && redo.includes(target)) {
+      redo.splice(redo.indexOf(target), 1);
+      undo.push(target);
+    }
+  }
+
+  return { undo, redo };
+}
+
+/**
+ * Put every record a journal record touched back to one side of its changes:
+ * 'before' to undo it, 'after' to redo it. Nothing is written unless every
+ * record still matches the other side, so later edits are never overwritten.
+ */
+export async function revertChanges(
+  storage: RecordingStorage,
+  record: JournalRecord,
+  direction: 'undo' | 'redo'
+): Promise<void> {
+  if (!record.reversible) {
+    throw new Error(`Cannot ${direction} ${record.operation}: it replaced all stored data`);
+  }
+
+  for (const change of record.changes) {
+    const expected = direction === 'undo' ? change.after : change.before;
+    const current = await storage.snapshot(change.kind, change.id);
+    if (JSON.stringify(current) !== JSON.stringify(expected)) {
+      throw new Error(`Cannot ${direction} ${record.operation}: ${change.kind} ${change.id} has changed since`);
+    }
+  }
+
+  await writeChanges(storage, record.changes, change => direction === 'undo' ? change.before : change.after);
+}
+
+// Write each changed record as the chosen side of its change, deleting those that side has none of
+async function writeChanges(
+  storage: StorageProvider,
+  changes: JournalChange[],
+  target: (change: JournalChange) => Record<string, any> | null
+): Promise<void> {
+  // Write parents before the entries that reference them, and delete in the opposite order
+  for (const kind of RECORD_KINDS) {
+    const writes = changes.filter(change => change.kind === kind && target(change));
+    if (writes.length > 0) {
+      await storage.importRecords(kind, writes.map(change => recordFromJSON(kind, target(change)!)));
+    }
+  }
+  for (const kind of [...RECORD_KINDS].reverse()) {
+    const deletes = changes.filter(change => change.kind === kind && !target(change));
+    if (deletes.length > 0) {
+      await storage.deleteRecords(kind, deletes.map(change => change.id));
+    }
+  }
+}
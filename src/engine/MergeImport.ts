@@ -0,0 +1,243 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  StorageProvider,
+  StorageRecordKind,
+  StorageRecordMap,
+  MergeStrategy,
+  ImportMode,
+  ImportOptions,
+  ImportReport
+} from '../types';
+import { ExpressionInput, Suggestion, Collection, Entry } from '../models';
+import { ImportedRecords, RECORD_KINDS } from './ExportFormat';
+
+export const MERGE_STRATEGIES: MergeStrategy[] = ['keep-ours', 'take-theirs', 'newest', 'duplicate'];
+
+interface MergeContext {
+  storage: StorageProvider;
+  strategy: MergeStrategy;
+  report: ImportReport;
+  // Imported id -> id of the stored record it ended up as
+  idMaps: Record<StorageRecordKind, Map<string, string>>;
+  // Final inputs and suggestions by stored id, embedded into merged entries
+  resolvedInputs: Map<string, ExpressionInput>;
+  resolvedSuggestions: Map<string, Suggestion>;
+}
+
+interface KindAdapter<T extends { id: string }> {
+  load(storage: StorageProvider, id: string): Promise<T | null>;
+  // Rewrite references to records that were remapped earlier in the import
+  remap(record: T, context: MergeContext): T;
+  timestamp(record: T): Date;
+  withId(record: T, id: string): T;
+  toJSON(record: T): Record<string, any>;
+  // Combine the winning record with the losing one (entries union their tags and collections)
+  combine?(winner: T, loser: T): T;
+}
+
+const ADAPTERS: { [K in StorageRecordKind]: KindAdapter<StorageRecordMap[K]> } = {
+  collections: {
+    load: (storage, id) => storage.getCollection(id),
+    remap: record => record,
+    timestamp: record => record.createdAt,
+    withId: (record, id) => Collection.fromJSON({ ...Collection.fromJSON(record).toJSON(), id }),
+    toJSON: record => Collection.fromJSON(record).toJSON()
+  },
+
+  inputs: {
+    load: (storage, id) => storage.getInput(id),
+    remap: record => record,
+    timestamp: record => record.createdAt,
+    withId: (record, id) =>
+      ExpressionInput.fromJSON({ ...ExpressionInput.fromJSON(record).toJSON(), id }),
+    toJSON: record => ExpressionInput.fromJSON(record).toJSON()
+  },
+
+  suggestions: {
+    load: (storage, id) => storage.getSuggestion(id),
+    remap: (record, context) => Suggestion.fromJSON({
+      ...Suggestion.fromJSON(record).toJSON(),
+      inputId: remapId(context, 'inputs', record.inputId)
+    }),
+    timestamp: record => record.generatedAt,
+    withId: (record, id) => Suggestion.fromJSON({ ...Suggestion.fromJSON(record).toJSON(), id }),
+    toJSON: record => Suggestion.fromJSON(record).toJSON()
+  },
+
+  entries: {
+    load: (storage, id) => storage.getEntry(id),
+    remap: (record, context) => {
+      const inputId = remapId(context, 'inputs', record.input.id);
+      const suggestionId = remapId(context, 'suggestions', record.suggestion.id);
+      return Entry.fromJSON({
+        ...Entry.fromJSON(record).toJSON(),
+        input: context.resolvedInputs.get(inputId) || ADAPTERS.inputs.withId(record.input, inputId),
+        suggestion: context.resolvedSuggestions.get(suggestionId)
+          || ADAPTERS.suggestions.remap(ADAPTERS.suggestions.withId(record.suggestion, suggestionId), context),
+        collectionId: remapId(context, 'collections', record.collectionId),
+        collectionIds: record.collectionIds.map(id => remapId(context, 'collections', id))
+      });
+    },
+    timestamp: record => record.savedAt,
+    withId: (record, id) => Entry.fromJSON({ ...Entry.fromJSON(record).toJSON(), id }),
+    toJSON: record => Entry.fromJSON(record).toJSON(),
+    combine: (winner, loser) => Entry.fromJSON({
+      ...Entry.fromJSON(winner).toJSON(),
+      collectionIds: Array.from(new Set([...winner.collectionIds, ...loser.collectionIds])),
+      tags: Array.from(new Set([...winner.tags, ...loser.tags]))
+    })
+  }
+};
+
+export function createImportReport(mode: ImportMode): ImportReport {
+  const counts = (): Record<StorageRecordKind, number> => ({
+    collections: 0,
+    inputs: 0,
+    suggestions: 0,
+    entries: 0
+  });
+
+  return {
+    mode,
+    added: counts(),
+    updated: counts(),
+    skipped: counts(),
+    conflicts: []
+  };
+}
+
+/**
+ * Merge imported records into existing storage without clearing it.
+ *
+ * Records whose id is not stored yet are added. Records whose id is already
+ * stored are resolved by the chosen strategy; identical records are skipped.
+ * References between records (entry -> collection/input/suggestion,
+ * suggestion -> input) follow any ids that were remapped along the way.
+ */
+export async function mergeImport(
+  storage: StorageProvider,
+  records: ImportedRecords,
+  options: ImportOptions = {}
+): Promise<ImportReport> {
+  const strategy = options.strategy || 'keep-ours';
+  if (!MERGE_STRATEGIES.includes(strategy)) {
+    throw new Error(`Invalid merge strategy: ${strategy}. Use ${MERGE_STRATEGIES.map(s => `'${s}'`).join(', ')}`);
+  }
+
+  const context: MergeContext = {
+    storage,
+    strategy,
+    report: createImportReport('merge'),
+    idMaps: {
+      collections: new Map(),
+      inputs: new Map(),
+      suggestions: new Map(),
+      entries: new Map()
+    },
+    resolvedInputs: new Map(),
+    resolvedSuggestions: new Map()
+  };
+
+  let collections = records.collections;
+  if (options.mergeCollectionsByName) {
+    collections = await mergeCollectionsByName(context, collections);
+  }
+
+  for (const kind of RECORD_KINDS) {
+    const items: StorageRecordMap[StorageRecordKind][] = kind === 'collections' ? collections : records[kind];
+    await mergeKind(context, kind, items);
+  }
+
+  return context.report;
+}
+
+// Map imported collections onto stored ones with the same name, leaving out trashed ones; returns the rest
+async function mergeCollectionsByName(
+  context: MergeContext,
+  collections: StorageRecordMap['collections'][]
+): Promise<StorageRecordMap['collections'][]> {
+  const byName = new Map<string, StorageRecordMap['collections']>();
+  for (const collection of await context.storage.listCollections()) {
+    if (!collection.deletedAt && !byName.has(collection.name)) {
+      byName.set(collection.name, collection);
+    }
+  }
+
+  const remaining: StorageRecordMap['collections'][] = [];
+  for (const collection of collections) {
+    const existing = byName.get(collection.name);
+    if (existing && existing.id !== collection.id && !(await context.storage.getCollection(collection.id))) {
+      context.idMaps.collections.set(collection.id, existing.id);
+      context.report.skipped.collections++;
+      context.report.conflicts.push({
+        kind: 'collections',
+        id: collection.id,
+        resolution: 'merged-by-name',
+        targetId: existing.id
+      });
+    } else {
+      remaining.push(collection);
+    }
+  }
+
+  return remaining;
+}
+
+async function mergeKind<K extends StorageRecordKind>(
+  context: MergeContext,
+  kind: K,
+  items: StorageRecordMap[K][]
+): Promise<void> {
+  const adapter: KindAdapter<StorageRecordMap[K]> = ADAPTERS[kind];
+  const { report } = context;
+  const toWrite: StorageRecordMap[K][] = [];
+
+  for (const item of items) {
+    const theirs = adapter.remap(item, context);
+    const ours = await adapter.load(context.storage, theirs.id);
+    let result: StorageRecordMap[K] = theirs;
+
+    if (!ours) {
+      toWrite.push(theirs);
+      report.added[kind]++;
+    } else if (JSON.stringify(adapter.toJSON(ours)) === JSON.stringify(adapter.toJSON(theirs))) {
+      result = ours;
+      report.skipped[kind]++;
+    } else if (context.strategy === 'duplicate') {
+      const newId = uuidv4();
+      result = adapter.withId(theirs, newId);
+      context.idMaps[kind].set(theirs.id, newId);
+      toWrite.push(result);
+      report.added[kind]++;
+      report.conflicts.push({ kind, id: theirs.id, resolution: 'duplicated', targetId: newId });
+    } else {
+      const takeTheirs = context.strategy === 'take-theirs' ||
+        (context.strategy === 'newest' && adapter.timestamp(theirs).getTime() > adapter.timestamp(ours).getTime());
+      const winner = takeTheirs ? theirs : ours;
+      const loser = takeTheirs ? ours : theirs;
+      result = adapter.combine ? adapter.combine(winner, loser) : winner;
+
+      if (JSON.stringify(adapter.toJSON(result)) === JSON.stringify(adapter.toJSON(ours))) {
+        report.skipped[kind]++;
+      } else {
+        toWrite.push(result);
+        report.updated[kind]++;
+      }
+      report.conflicts.push({ kind, id: theirs.id, resolution: takeTheirs ? 'took-theirs' : 'kept-ours' });
+    }
+
+    if (kind === 'inputs') {
+      context.resolvedInputs.set(result.id, result as ExpressionInput);
+    } else if (kind === 'suggestions') {
+      context.resolvedSuggestions.set(result.id, result as Suggestion);
+    }
+  }
+
+  if (toWrite.length > 0) {
+    await context.storage.importRecords(kind, toWrite);
+  }
+}
+
+function remapId(context: MergeContext, kind: StorageRecordKind, id: string): string {
+  return context.idMaps[kind].get(id) || id;
+}
@@ -0,0 +1,115 @@
+import {
+  Candidate,
+  CachedSuggestion,
+  ExpressionInput,
+  LLMProvider,
+  ProviderSettings,
+  SuggestionCacheMetrics,
+  SuggestionCacheOptions,
+  SuggestionCacheStore
+} from '../types';
+import { normalizeContent } from '../utils/Duplicates';
+import { PROMPT_VERSION } from '../providers/prompts';
+import { ProviderError } from '../providers/errors';
+
+export const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Inputs that differ only in spacing, case or punctuation share a key, as they do for duplicate detection
+export function suggestionCacheKey(input: ExpressionInput, provider: string, settings: ProviderSettings): string {
+  return JSON.stringify([
+    PROMPT_VERSION,
+    provider,
+    settings.baseURL === undefined ? null : settings.baseURL,
+    settings.model === undefined ? null : settings.model,
+    settings.temperature === undefined ? null : settings.temperature,
+    settings.suggestionCount === undefined ? null : settings.suggestionCount,
+    input.type,
+    normalizeContent(input.content)
+  ]);
+}
+
+/**
+ * Provider replies kept in a store under suggestionCacheKey, reused until
+ * they are older than the TTL, with hit, miss and write counts.
+ */
+export class SuggestionCache {
+  private readonly store: SuggestionCacheStore;
+  private readonly ttlMs: number;
+  private readonly now: () => number;
+  private metrics: SuggestionCacheMetrics = { hits: 0, misses: 0, writes: 0 };
+
+  constructor(store: SuggestionCacheStore, options: SuggestionCacheOptions = {}, now: () => number = () => Date.now()) {
+    this.store = options.store || store;
+    this.ttlMs = options.ttlMs === undefined ? DEFAULT_CACHE_TTL_MS : options.ttlMs;
+    this.now = now;
+  }
+
+  // The cached reply for the key, or null when there is none or it has expired
+  async get(key: string): Promise<CachedSuggestion | null> {
+    const cached = await this.store.getCachedSuggestion(key);
+    if (!cached || this.isExpired(cached)) {
+      this.metrics.misses++;
+      return null;
+    }
+    this.metrics.hits++;
+    return cached;
+  }
+
+  // The cached reply for the key however old it is, without counting a hit or a miss
+  async peek(key: string): Promise<CachedSuggestion | null> {
+    return await this.store.getCachedSuggestion(key);
+  }
+
+  async save(key: string, candidates: Candidate[], provider?: string): Promise<void> {
+    await this.store.saveCachedSuggestion({
+      key,
+      candidates,
+      ...(provider !== undefined ? { provider } : {}),
+      cachedAt: new Date(this.now())
+    });
+    this.metrics.writes++;
+  }
+
+  async clear(): Promise<number> {
+    return await this.store.clearSuggestionCache();
+  }
+
+  getMetrics(): SuggestionCacheMetrics {
+    return { ...this.metrics };
+  }
+
+  private isExpired(cached: CachedSuggestion): boolean {
+    return this.ttlMs > 0 && this.now() - cached.cachedAt.getTime() >= this.ttlMs;
+  }
+}
+
+// The fallback provider name that stands for the suggestion cache
+export const CACHED_PROVIDER_NAME = 'cache';
+
+/**
+ * A fallback member that answers with the first provider's cached reply for
+ * the input, expired or not, once the providers before it have failed. It
+ * fails with 'unavailable' when nothing is cached for the input.
+ */
+export class CachedSuggestionProvider implements LLMProvider {
+  readonly name = CACHED_PROVIDER_NAME;
+  private readonly cache: SuggestionCache;
+  private readonly keyFor: (input: ExpressionInput) => string;
+
+  constructor(cache: SuggestionCache, keyFor: (input: ExpressionInput) => string) {
+    this.cache = cache;
+    this.keyFor = keyFor;
+  }
+
+  configure(): void {
+    // Nothing to configure; the replies are whatever the first provider gave
+  }
+
+  async generateVocabularySuggestions(input: ExpressionInput): Promise<Candidate[]> {
+    const cached = await this.cache.peek(this.keyFor(input));
+    if (!cached) {
+      throw new ProviderError('unavailable', 'No cached suggestions for this input');
+    }
+    return cached.candidates;
+  }
+}
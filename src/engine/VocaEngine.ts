@@ -1,163 +1,438 @@
+import { v4 as uuidv4 } from 'uuid';
 import { 
   VocaEngineOperations, 
   VocaEngineConfig, 
   LLMProvider, 
-  StorageProvider, 
+  EmbeddingProvider,
   InputType,
+  Candidate,
   ExpressionInput as IExpressionInput,
   Suggestion as ISuggestion,
   Collection as ICollection,
-  Entry as IEntry
+  Entry as IEntry,
+  ExportPayload,
+  StorageRecordMap,
+  ImportOptions,
+  ImportReport,
+  ListCollectionsOptions,
+  DeleteCollectionOptions,
+  UpdateEntryOptions,
+  TrashContents,
+  PurgeTrashOptions,
+  PurgeReport,
+  JournalAction,
+  RankedSearchOptions,
+  SearchOptions,
+  SearchResult,
+  TagCount,
+  FindSimilarOptions,
+  SimilarEntry,
+  AddInputOptions,
+  SaveEntryOptions,
+  DuplicatePolicy,
+  DuplicateGroup,
+  DedupeOptions,
+  DedupeReport,
+  AttributedSuggestions,
+  ProviderHealth,
+  GenerateSuggestionsOptions,
+  SuggestionCacheMetrics,
+  JournalChange,
+  JournalRecord as IJournalRecord
 } from '../types';
 
-import { ExpressionInput, Suggestion, Collection, Entry } from '../models';
+import { ExpressionInput, Suggestion, Collection, Entry, JournalRecord } from '../models';
 import { InMemoryStorage } from '../utils/InMemoryStorage';
+import { parseSearchQuery, toPlainQuery } from '../utils/SearchQuery';
+import { isWithinTag, normalizeTag } from '../utils/Tags';
+import { embeddedTexts, nearestEntries } from '../utils/Embeddings';
+import { contentKey, findDuplicateGroups, isSameContent, mergeDuplicates, uniqueCandidates } from '../utils/Duplicates';
+import { candidateTexts, findCandidate, toCandidate } from '../utils/Candidates';
+import { buildExport, parseExport, ImportedRecords, RECORD_KINDS } from './ExportFormat';
+import { createImportReport, mergeImport } from './MergeImport';
+import { RecordingStorage, replayJournal, revertChanges } from './Journal';
+import { createProviderRegistry } from '../providers/ProviderRegistry';
+import { ResilientProvider } from '../providers/ResilientProvider';
+import { FallbackProvider } from '../providers/FallbackProvider';
+import { generateAttributed, providerName } from '../providers/attribution';
+import { ProviderError, toProviderError } from '../providers/errors';
+import { CACHED_PROVIDER_NAME, CachedSuggestionProvider, SuggestionCache, suggestionCacheKey } from './SuggestionCache';
+
+// Texts sent to the embedding provider per request
+const EMBEDDING_BATCH_SIZE = 64;
 
 export class VocaEngine implements VocaEngineOperations {
   private llmProvider: LLMProvider;
-  private storage: StorageProvider;
+  // Recorded on suggestions when the provider does not say which provider answered
+  private providerName?: string;
+  private embeddingProvider?: EmbeddingProvider;
+  private storage: RecordingStorage;
+  private suggestionCache?: SuggestionCache;
   private config: {
     defaultSuggestionCount: number;
+    trashRetentionDays?: number;
+    actor?: string;
+    duplicatePolicy: DuplicatePolicy;
+    onWarning?: (message: string) => void;
   };
+  // Mutations run one at a time so each journal record holds only its own changes
+  private pending: Promise<void> = Promise.resolve();
 
   constructor(config: VocaEngineConfig) {
-    this.llmProvider = config.llmProvider;
-    this.storage = config.storage || new InMemoryStorage();
+    this.storage = new RecordingStorage(config.storage || new InMemoryStorage());
+    if (config.suggestionCache) {
+      this.suggestionCache = new SuggestionCache(this.storage, config.suggestionCache);
+    }
+    this.providerName = config.llmProvider ? providerName(config.llmProvider) : config.provider;
+    this.llmProvider = this.resolveLLMProvider(config);
+    this.embeddingProvider = config.embeddingProvider;
     this.config = {
-      defaultSuggestionCount: config.defaultSuggestionCount || 5
+      defaultSuggestionCount: config.defaultSuggestionCount || 5,
+      trashRetentionDays: config.trashRetentionDays,
+      actor: config.actor,
+      duplicatePolicy: config.duplicatePolicy || 'warn',
+      onWarning: config.onWarning
     };
   }
 
-  async addInput(type: InputType, content: string): Promise<IExpressionInput> {
-    if (!content || content.trim().length === 0) {
-      throw new Error('Input content cannot be empty');
+  async addInput(type: InputType, content: string, options: AddInputOptions = {}): Promise<IExpressionInput> {
+    return await this.mutate('addInput', async () => {
+      if (!content || content.trim().length === 0) {
+        throw new Error('Input content cannot be empty');
+      }
+
+      if (options.reuseExisting) {
+        const key = contentKey(type, content);
+        for await (const existing of this.storage.exportRecords('inputs')) {
+          if (contentKey(existing.type, existing.content) === key) {
+            return existing;
+          }
+        }
+      }
+
+      const input = new ExpressionInput(type, content.trim());
+      return await this.storage.saveInput(input);
+    });
+  }
+
+  async generateSuggestions(inputId: string, options: GenerateSuggestionsOptions = {}): Promise<ISuggestion> {
+    const { input, cache, key, cached } = await this.prepareGeneration(inputId, options);
+    if (cached) {
+      return await this.storeSuggestion(inputId, cached.candidates, cached.provider);
     }
 
-    const input = new ExpressionInput(type, content.trim());
-    return await this.storage.saveInput(input);
+    let result: AttributedSuggestions;
+    try {
+      result = await generateAttributed(this.llmProvider, input);
+    } catch (error) {
+      throw generationFailure(error);
+    }
+
+    // Candidates that differ only in spacing or punctuation are kept once
+    return await this.storeSuggestion(inputId, uniqueCandidates(result.candidates || []), result.provider, cache, key);
   }
 
-  async generateSuggestions(inputId: string): Promise<ISuggestion> {
-    const input = await this.storage.getInput(inputId);
-    if (!input) {
-      throw new Error(`Input with id ${inputId} not found`);
+  /**
+   * Yields candidates as the provider produces them, and returns the saved
+   * Suggestion once the stream completes; a caller that stops reading early
+   * saves nothing. Providers that cannot stream, such as a fallback chain,
+   * yield every candidate at once. The cache is used as in generateSuggestions.
+   */
+  async *streamSuggestions(inputId: string, options: GenerateSuggestionsOptions = {}): AsyncGenerator<Candidate, ISuggestion, undefined> {
+    const { input, cache, key, cached } = await this.prepareGeneration(inputId, options);
+    if (cached) {
+      yield* cached.candidates.map(toCandidate);
+      return await this.storeSuggestion(inputId, cached.candidates, cached.provider);
     }
 
+    let candidates: Candidate[] = [];
+    let answeredBy: string | undefined;
     try {
-      const candidates = await this.llmProvider.generateVocabularySuggestions(input);
-      
-      if (!candidates || candidates.length === 0) {
-        throw new Error('No suggestions generated');
+      if (this.llmProvider.streamVocabularySuggestions) {
+        for await (const value of this.llmProvider.streamVocabularySuggestions(input)) {
+          const unique = uniqueCandidates([...candidates, value]);
+          if (unique.length > candidates.length) {
+            candidates = unique;
+            yield toCandidate(unique[unique.length - 1]);
+          }
+        }
+      } else {
+        const result = await generateAttributed(this.llmProvider, input);
+        answeredBy = result.provider;
+        candidates = uniqueCandidates(result.candidates || []);
+        yield* candidates.map(toCandidate);
       }
-
-      const suggestion = new Suggestion(inputId, candidates);
-      return await this.storage.saveSuggestion(suggestion);
     } catch (error) {
-      throw new Error(`Failed to generate suggestions: ${error}`);
+      throw generationFailure(error);
     }
+
+    return await this.storeSuggestion(inputId, candidates, answeredBy, cache, key);
   }
 
   async createCollection(name: string): Promise<ICollection> {
-    if (!name || name.trim().length === 0) {
-      throw new Error('Collection name cannot be empty');
-    }
+    return await this.mutate('createCollection', async () => {
+      if (!name || name.trim().length === 0) {
+        throw new Error('Collection name cannot be empty');
+      }
 
-    const collection = new Collection(name.trim());
-    return await this.storage.saveCollection(collection);
+      const collection = new Collection(name.trim());
+      return await this.storage.saveCollection(collection);
+    });
   }
 
-  async listCollections(): Promise<ICollection[]> {
-    return await this.storage.listCollections();
+  async listCollections(options: ListCollectionsOptions = {}): Promise<ICollection[]> {
+    const collections = (await this.storage.listCollections()).filter(collection => !collection.deletedAt);
+    return options.includeArchived
+      ? collections
+      : collections.filter(collection => !collection.archivedAt);
   }
 
   async saveEntry(
     inputId: string, 
     suggestionId: string, 
     collectionId: string, 
-    tags?: string[]
+    tags?: string[],
+    options: SaveEntryOptions = {}
   ): Promise<IEntry> {
-    // Validate all required entities exist
-    const input = await this.storage.getInput(inputId);
-    if (!input) {
-      throw new Error(`Input with id ${inputId} not found`);
-    }
+    return await this.mutate('saveEntry', async () => {
+      // Validate all required entities exist
+      const input = await this.storage.getInput(inputId);
+      if (!input) {
+        throw new Error(`Input with id ${inputId} not found`);
+      }
 
-    const suggestion = await this.storage.getSuggestion(suggestionId);
-    if (!suggestion) {
-      throw new Error(`Suggestion with id ${suggestionId} not found`);
-    }
+      const suggestion = await this.storage.getSuggestion(suggestionId);
+      if (!suggestion) {
+        throw new Error(`Suggestion with id ${suggestionId} not found`);
+      }
 
-    const collection = await this.storage.getCollection(collectionId);
-    if (!collection) {
-      throw new Error(`Collection with id ${collectionId} not found`);
-    }
+      await this.requireCollection(collectionId);
 
-    // Validate that the suggestion belongs to the input
-    if (suggestion.inputId !== inputId) {
-      throw new Error('Suggestion does not belong to the specified input');
-    }
+      // Validate that the suggestion belongs to the input
+      if (suggestion.inputId !== inputId) {
+        throw new Error('Suggestion does not belong to the specified input');
+      }
 
-    // Clean and validate tags
-    const cleanTags = tags ? 
-      tags
-        .map(tag => tag.trim())
-        .filter(tag => tag.length > 0)
-        .filter((tag, index, arr) => arr.indexOf(tag) === index) // Remove duplicates
-      : [];
+      // Clean and validate tags
+      const cleanTags = tags ? cleanTagList(tags) : [];
 
-    const entry = new Entry(input, suggestion, collectionId, cleanTags);
-    return await this.storage.saveEntry(entry);
+      const entry = new Entry(input, suggestion, collectionId, cleanTags);
+      await this.checkDuplicate(entry, options.duplicates || this.config.duplicatePolicy);
+      return await this.storage.saveEntry(entry);
+    });
   }
 
   async listEntries(collectionId: string): Promise<IEntry[]> {
-    const collection = await this.storage.getCollection(collectionId);
-    if (!collection) {
-      throw new Error(`Collection with id ${collectionId} not found`);
-    }
+    await this.requireCollection(collectionId);
 
     return await this.storage.listEntries(collectionId);
   }
 
+  // Move an entry to the trash; restoreEntry brings it back until it is purged
   async deleteEntry(entryId: string): Promise<void> {
-    const entry = await this.storage.getEntry(entryId);
-    if (!entry) {
-      throw new Error(`Entry with id ${entryId} not found`);
-    }
+    await this.purgeExpiredTrash();
+    await this.mutate('deleteEntry', async () => {
+      const [entry] = await this.requireEntries([entryId]);
 
-    await this.storage.deleteEntry(entryId);
+      await this.storage.saveEntry(Entry.fromJSON(entry).moveToTrash());
+    });
   }
 
-  async searchEntries(collectionId: string, query: string): Promise<IEntry[]> {
+  async searchEntries(collectionId: string, query: string, options?: { fuzzy?: number }): Promise<IEntry[]> {
     if (!query || query.trim().length === 0) {
       return await this.listEntries(collectionId);
     }
 
-    const collection = await this.storage.getCollection(collectionId);
-    if (!collection) {
-      throw new Error(`Collection with id ${collectionId} not found`);
-    }
+    await this.requireCollection(collectionId);
 
     return await this.storage.searchEntries({
       collectionId,
-      query: query.trim()
+      ...this.parseQuery(query),
+      fuzzy: options?.fuzzy
+    });
+  }
+
+  // Groups of live entries that repeat the same input content in a shared collection
+  async findDuplicates(options: DedupeOptions = {}): Promise<DuplicateGroup[]> {
+    return (await this.duplicateGroups(options)).map(entries => ({ content: entries[0].input.content, entries }));
+  }
+
+  /**
+   * Merge each group of duplicates into its earliest saved entry, which
+   * gains the candidates, tags and collections of the others; the others
+   * move to the trash. Undo restores them all in one step.
+   */
+  async dedupe(options: DedupeOptions = {}): Promise<DedupeReport> {
+    return await this.mutate('dedupe', async () => {
+      const groups = await this.duplicateGroups(options);
+      const merged = groups.map(group => mergeDuplicates(group));
+      const trashed = groups.flatMap(group => group.slice(1).map(entry => Entry.fromJSON(entry).moveToTrash()));
+
+      await this.storage.importRecords('entries', [...merged, ...trashed]);
+      return { merged, trashed: trashed.map(entry => entry.id) };
     });
   }
 
   async renameCollection(collectionId: string, newName: string): Promise<ICollection> {
-    if (!newName || newName.trim().length === 0) {
-      throw new Error('Collection name cannot be empty');
-    }
+    return await this.mutate('renameCollection', async () => {
+      if (!newName || newName.trim().length === 0) {
+        throw new Error('Collection name cannot be empty');
+      }
 
-    const collection = await this.storage.getCollection(collectionId);
-    if (!collection) {
-      throw new Error(`Collection with id ${collectionId} not found`);
-    }
+      const collection = await this.storage.getCollection(collectionId);
+      if (!collection) {
+        throw new Error(`Collection with id ${collectionId} not found`);
+      }
+
+      return await this.storage.updateCollection(collectionId, { 
+        name: newName.trim() 
+      });
+    });
+  }
+
+  /**
+   * Move a collection to the trash. Its entries are trashed along with it
+   * (cascade) or moved to another collection first (moveTo); entries that
+   * also appear in other collections stay there.
+   */
+  async deleteCollection(collectionId: string, options: DeleteCollectionOptions = {}): Promise<void> {
+    await this.purgeExpiredTrash();
+    await this.mutate('deleteCollection', async () => {
+      const collection = await this.requireCollection(collectionId);
+
+      if (options.cascade && options.moveTo) {
+        throw new Error('Use either cascade or moveTo when deleting a collection, not both');
+      }
+
+      if (options.moveTo) {
+        if (options.moveTo === collectionId) {
+          throw new Error('Cannot move entries into the collection being deleted');
+        }
+        await this.requireCollection(options.moveTo);
+      }
+
+      const entries = await this.storage.listEntries(collectionId);
+      if (entries.length > 0 && !options.cascade && !options.moveTo) {
+        throw new Error(
+          `Collection ${collection.name} has ${entries.length} entries; use cascade to delete them or moveTo to keep them`
+        );
+      }
+
+      // Entries trashed with the collection share its deletion id, so restoring it finds them
+      const deletedAt = new Date();
+      const deletionId = uuidv4();
+      const updated: Entry[] = [];
+      for (const entry of entries) {
+        const model = Entry.fromJSON(entry);
+        if (options.moveTo) {
+          // Keep the entry id and savedAt, only change where it is filed
+          updated.push(entry.collectionId === collectionId
+            ? model.moveTo(options.moveTo)
+            : model.addToCollection(options.moveTo).removeFromCollection(collectionId));
+        } else if (entry.collectionIds.length === 1) {
+          updated.push(model.moveToTrash(deletedAt, deletionId));
+        }
+      }
+
+      // All entries are written in one batch; mutate puts them back if trashing the collection fails
+      await this.storage.importRecords('entries', updated);
+      await this.storage.updateCollection(collectionId, { deletedAt, deletionId });
+    });
+  }
+
+  async archiveCollection(collectionId: string): Promise<ICollection> {
+    return await this.mutate('archiveCollection', async () => {
+      const collection = await this.storage.getCollection(collectionId);
+      if (!collection) {
+        throw new Error(`Collection with id ${collectionId} not found`);
+      }
+
+      if (collection.archivedAt) {
+        return collection;
+      }
+
+      return await this.storage.saveCollection(Collection.fromJSON(collection).archive());
+    });
+  }
+
+  async unarchiveCollection(collectionId: string): Promise<ICollection> {
+    return await this.mutate('unarchiveCollection', async () => {
+      const collection = await this.storage.getCollection(collectionId);
+      if (!collection) {
+        throw new Error(`Collection with id ${collectionId} not found`);
+      }
+
+      if (!collection.archivedAt) {
+        return collection;
+      }
+
+      return await this.storage.saveCollection(Collection.fromJSON(collection).unarchive());
+    });
+  }
+
+  // Trashed collections and entries, most recently deleted first
+  async listTrash(): Promise<TrashContents> {
+    await this.purgeExpiredTrash();
+    return await this.findTrash();
+  }
+
+  async restoreEntry(entryId: string): Promise<IEntry> {
+    await this.purgeExpiredTrash();
+    return await this.mutate('restoreEntry', async () => {
+      const entry = await this.storage.getEntry(entryId);
+      if (!entry) {
+        throw new Error(`Entry with id ${entryId} not found`);
+      }
+      if (!entry.deletedAt) {
+        throw new Error(`Entry with id ${entryId} is not in the trash`);
+      }
+
+      const live = await this.liveCollectionIds(entry.collectionIds);
+      if (live.length === 0) {
+        throw new Error(`Restore collection ${entry.collectionId} before restoring entry ${entryId}`);
+      }
+
+      return await this.storage.saveEntry(Entry.fromJSON(entry).restore());
+    });
+  }
 
-    return await this.storage.updateCollection(collectionId, { 
-      name: newName.trim() 
+  // Restore a collection together with the entries that were trashed with it
+  async restoreCollection(collectionId: string): Promise<ICollection> {
+    await this.purgeExpiredTrash();
+    return await this.mutate('restoreCollection', async () => {
+      const collection = await this.storage.getCollection(collectionId);
+      if (!collection) {
+        throw new Error(`Collection with id ${collectionId} not found`);
+      }
+      if (!collection.deletedAt) {
+        throw new Error(`Collection with id ${collectionId} is not in the trash`);
+      }
+
+      // Collections trashed before deletion ids were recorded matched their entries by deletedAt
+      const trashedWith = await this.storage.searchEntries({ query: '', collectionId, trashed: true });
+      const restored = trashedWith
+        .filter(entry => collection.deletionId
+          ? entry.deletionId === collection.deletionId
+          : entry.deletedAt!.getTime() === collection.deletedAt!.getTime())
+        .map(entry => Entry.fromJSON(entry).restore());
+      if (restored.length > 0) {
+        await this.storage.importRecords('entries', restored);
+      }
+
+      return await this.storage.updateCollection(collectionId, { deletedAt: undefined, deletionId: undefined });
     });
   }
 
+  /**
+   * Permanently delete items from the trash: everything by default, or only
+   * items deleted before `before` and/or the given ids. Purging a collection
+   * also purges the trashed entries left without a collection and removes it
+   * from the collections of live entries.
+   */
+  async purgeTrash(options: PurgeTrashOptions = {}): Promise<PurgeReport> {
+    return await this.mutate('purgeTrash', () => this.purge(options));
+  }
+
   // Additional utility methods
   async getInputById(id: string): Promise<IExpressionInput | null> {
     return await this.storage.getInput(id);
@@ -176,34 +451,703 @@ export class VocaEngine implements VocaEngineOperations {
   }
 
   async updateEntryTags(entryId: string, tags: string[]): Promise<IEntry> {
-    const entry = await this.storage.getEntry(entryId);
-    if (!entry) {
-      throw new Error(`Entry with id ${entryId} not found`);
-    }
+    return await this.mutate('updateEntryTags', async () => {
+      const entry = await this.storage.getEntry(entryId);
+      if (!entry) {
+        throw new Error(`Entry with id ${entryId} not found`);
+      }
+
+      // Clean tags
+      const cleanTags = cleanTagList(tags);
+
+      // Keep the id, savedAt and curation of the entry
+      const updatedEntry = Entry.fromJSON(entry).updateTags(cleanTags);
+
+      return await this.storage.saveEntry(updatedEntry);
+    });
+  }
+
+  /**
+   * Edit the curated side of a saved entry: which candidates it keeps and in
+   * what order, which are favorites, its tags, note and example sentence.
+   * The entry keeps its id and savedAt, and the generated suggestion is left
+   * untouched so the original candidates remain available.
+   */
+  async updateEntry(entryId: string, updates: UpdateEntryOptions): Promise<IEntry> {
+    return await this.mutate('updateEntry', () => this.editEntry(entryId, updates));
+  }
+
+  // Add an alternative of your own, with or without details; position is a 0-based index, default last
+  async addCandidate(entryId: string, candidate: string | Candidate, position?: number): Promise<IEntry> {
+    return await this.mutate('addCandidate', async () => {
+      const [entry] = await this.requireEntries([entryId]);
+      const value = toCandidate(candidate);
+      if (value.text.length === 0) {
+        throw new Error('Candidate cannot be empty');
+      }
+      if (findCandidate(entry.candidates, value.text)) {
+        throw new Error(`Candidate "${value.text}" is already in entry ${entryId}`);
+      }
+      if (position !== undefined && !Number.isInteger(position)) {
+        throw new Error(`Invalid position: ${position}. Use a whole number`);
+      }
+
+      const candidates: Candidate[] = [...entry.candidates];
+      const index = position === undefined ? candidates.length : Math.max(0, Math.min(candidates.length, position));
+      candidates.splice(index, 0, value);
+      return await this.editEntry(entryId, { candidates });
+    });
+  }
+
+  async removeCandidate(entryId: string, candidate: string): Promise<IEntry> {
+    return await this.mutate('removeCandidate', async () => {
+      const [entry] = await this.requireEntries([entryId]);
+      requireCandidate(entry, candidate);
+
+      return await this.editEntry(entryId, {
+        candidates: entry.candidates.filter(c => c.text !== candidate)
+      });
+    });
+  }
+
+  async reorderCandidates(entryId: string, candidates: string[]): Promise<IEntry> {
+    return await this.mutate('reorderCandidates', async () => {
+      const [entry] = await this.requireEntries([entryId]);
+      const ordered = cleanList(candidates);
+      if (ordered.length !== entry.candidates.length || ordered.some(c => !findCandidate(entry.candidates, c))) {
+        throw new Error(`Reordered candidates must be exactly the current candidates of entry ${entryId}`);
+      }
+
+      return await this.editEntry(entryId, { candidates: ordered });
+    });
+  }
+
+  async favoriteCandidate(entryId: string, candidate: string): Promise<IEntry> {
+    return await this.mutate('favoriteCandidate', async () => {
+      const [entry] = await this.requireEntries([entryId]);
+      requireCandidate(entry, candidate);
+
+      return await this.editEntry(entryId, { favorites: [...entry.favorites, candidate] });
+    });
+  }
+
+  async unfavoriteCandidate(entryId: string, candidate: string): Promise<IEntry> {
+    return await this.mutate('unfavoriteCandidate', async () => {
+      const [entry] = await this.requireEntries([entryId]);
+      requireCandidate(entry, candidate);
+
+      return await this.editEntry(entryId, { favorites: entry.favorites.filter(c => c !== candidate) });
+    });
+  }
 
-    // Clean tags
-    const cleanTags = tags
-      .map(tag => tag.trim())
-      .filter(tag => tag.length > 0)
-      .filter((tag, index, arr) => arr.indexOf(tag) === index); // Remove duplicates
+  async moveEntry(entryId: string, collectionId: string): Promise<IEntry> {
+    const [entry] = await this.mutate('moveEntry', () => this.moveEntriesInto([entryId], collectionId));
+    return entry;
+  }
+
+  /**
+   * Re-file entries under another home collection. Ids, savedAt and any
+   * other collections the entries appear in are kept.
+   */
+  async moveEntries(entryIds: string[], collectionId: string): Promise<IEntry[]> {
+    return await this.mutate('moveEntries', () => this.moveEntriesInto(entryIds, collectionId));
+  }
+
+  async copyEntry(entryId: string, collectionId: string): Promise<IEntry> {
+    const [entry] = await this.mutate('copyEntry', () => this.copyEntriesInto([entryId], collectionId));
+    return entry;
+  }
+
+  // Save independent copies, with new ids, of entries into a collection
+  async copyEntries(entryIds: string[], collectionId: string): Promise<IEntry[]> {
+    return await this.mutate('copyEntries', () => this.copyEntriesInto(entryIds, collectionId));
+  }
 
-    const updatedEntry = new Entry(
-      entry.input,
-      entry.suggestion,
-      entry.collectionId,
-      cleanTags,
-      entry.id
-    );
+  // Show an entry in another collection as well, without duplicating it
+  async addEntryToCollection(entryId: string, collectionId: string): Promise<IEntry> {
+    return await this.mutate('addEntryToCollection', async () => {
+      const [entry] = await this.requireEntries([entryId]);
+      await this.requireCollection(collectionId);
 
-    return await this.storage.saveEntry(updatedEntry);
+      return await this.storage.saveEntry(Entry.fromJSON(entry).addToCollection(collectionId));
+    });
   }
 
-  async searchAllEntries(query: string, options?: { tags?: string[]; limit?: number }): Promise<IEntry[]> {
+  async removeEntryFromCollection(entryId: string, collectionId: string): Promise<IEntry> {
+    return await this.mutate('removeEntryFromCollection', async () => {
+      const [entry] = await this.requireEntries([entryId]);
+      if (!entry.collectionIds.includes(collectionId)) {
+        throw new Error(`Entry ${entryId} is not in collection ${collectionId}`);
+      }
+      if (entry.collectionIds.length === 1) {
+        throw new Error(`Entry ${entryId} is only in collection ${collectionId}; delete it instead`);
+      }
+
+      return await this.storage.saveEntry(Entry.fromJSON(entry).removeFromCollection(collectionId));
+    });
+  }
+
+  async searchAllEntries(
+    query: string,
+    options?: { tags?: string[]; limit?: number; includeArchived?: boolean; fuzzy?: number }
+  ): Promise<IEntry[]> {
     return await this.storage.searchEntries({
-      query: query.trim(),
+      ...this.parseQuery(query),
       tags: options?.tags,
-      limit: options?.limit
+      limit: options?.limit,
+      fuzzy: options?.fuzzy,
+      excludeCollectionIds: await this.hiddenCollectionIds(!!options?.includeArchived)
+    });
+  }
+
+  /**
+   * Full-text search ranked by relevance, with the matched parts of each
+   * entry highlighted. Searches one collection, or every collection except
+   * trashed and (unless included) archived ones.
+   */
+  async rankedSearch(query: string, options: RankedSearchOptions = {}): Promise<SearchResult[]> {
+    if (options.collectionId) {
+      await this.requireCollection(options.collectionId);
+    }
+
+    return await this.storage.searchRanked({
+      ...this.parseQuery(query),
+      collectionId: options.collectionId,
+      excludeCollectionIds: options.collectionId ? undefined : await this.hiddenCollectionIds(!!options.includeArchived),
+      tags: options.tags,
+      limit: options.limit,
+      offset: options.offset,
+      fuzzy: options.fuzzy
+    });
+  }
+
+  /**
+   * The k entries closest in meaning to the text, most similar first, each
+   * scored by its input content or candidate nearest to the text. Entry
+   * texts are embedded when the entry is saved, or on the first search that
+   * needs them for entries saved without an embedding provider; the search
+   * text itself is never stored. Searches one collection, or every collection
+   * except trashed and (unless included) archived ones.
+   */
+  async findSimilarEntries(text: string, k: number = 10, options: FindSimilarOptions = {}): Promise<SimilarEntry[]> {
+    if (!this.embeddingProvider) {
+      throw new Error('No embedding provider configured');
+    }
+    if (!text || text.trim().length === 0) {
+      throw new Error('Search text cannot be empty');
+    }
+    if (!Number.isInteger(k) || k <= 0) {
+      throw new Error(`Invalid number of results: ${k}. Use a positive whole number`);
+    }
+    if (options.collectionId) {
+      await this.requireCollection(options.collectionId);
+    }
+
+    const entries = await this.storage.searchEntries({
+      query: '',
+      collectionId: options.collectionId,
+      excludeCollectionIds: options.collectionId ? undefined : await this.hiddenCollectionIds(!!options.includeArchived)
+    });
+    const query = text.trim();
+    const texts = new Set(entries.flatMap(entry => embeddedTexts(entry).map(match => match.text)));
+    const vectors = await this.embedTexts(this.embeddingProvider, Array.from(texts));
+    const queryVector = vectors.get(query) || (await this.embed(this.embeddingProvider, [query]))[0];
+
+    return nearestEntries(queryVector, entries, vectors, k);
+  }
+
+  // Tags in use, most used first; a parent tag counts every entry filed below it
+  async listTags(): Promise<TagCount[]> {
+    return await this.storage.listTags();
+  }
+
+  /**
+   * Rename a tag in every entry, trashed ones included. Tags below it move
+   * along ('장소/카페' becomes '공간/카페' when '장소' is renamed to '공간'),
+   * and entries that already carry the new name keep a single copy.
+   */
+  async renameTag(tag: string, newTag: string): Promise<IEntry[]> {
+    return await this.mutate('renameTag', async () => {
+      const from = await this.requireTag(tag);
+      return await this.storage.replaceTags([from], requireTagOutside([from], requireTagName(newTag)));
+    });
+  }
+
+  // Fold several tags, and the tags below them, into one
+  async mergeTags(tags: string[], into: string): Promise<IEntry[]> {
+    return await this.mutate('mergeTags', async () => {
+      const sources: string[] = [];
+      for (const tag of cleanTagList(tags)) {
+        sources.push(await this.requireTag(tag));
+      }
+      if (sources.length === 0) {
+        throw new Error('No tags to merge');
+      }
+      return await this.storage.replaceTags(sources, requireTagOutside(sources, requireTagName(into)));
+    });
+  }
+
+  // Remove a tag, and the tags below it, from every entry
+  async deleteTag(tag: string): Promise<IEntry[]> {
+    return await this.mutate('deleteTag', async () => {
+      return await this.storage.replaceTags([await this.requireTag(tag)], null);
+    });
+  }
+
+  /**
+   * A provider instance wins over a provider name. With fallbackProviders the
+   * result is a chain that tries it first; resilience wraps each provider of
+   * the chain on its own, so retries end before the next provider is tried.
+   */
+  private resolveLLMProvider(config: VocaEngineConfig): LLMProvider {
+    const resilient = (provider: LLMProvider) =>
+      config.resilience ? new ResilientProvider(provider, config.resilience) : provider;
+    const primary = resilient(this.createLLMProvider(config));
+    if (!config.fallbackProviders || config.fallbackProviders.length === 0) {
+      return primary;
+    }
+
+    const registry = config.providerRegistry || createProviderRegistry();
+    return new FallbackProvider([
+      { name: this.primaryProviderName(), provider: primary },
+      ...config.fallbackProviders.map(fallback => ({
+        name: fallback.provider,
+        provider: fallback.provider === CACHED_PROVIDER_NAME
+          ? this.cachedProvider()
+          : resilient(registry.create(fallback.provider, fallback.providerConfig))
+      }))
+    ], config.circuitBreaker);
+  }
+
+  // The 'cache' fallback member, reading replies cached under the first provider's keys
+  private cachedProvider(): LLMProvider {
+    if (!this.suggestionCache) {
+      throw new Error(`The "${CACHED_PROVIDER_NAME}" fallback provider needs suggestionCache in the engine config`);
+    }
+    return new CachedSuggestionProvider(this.suggestionCache, input => {
+      const key = this.cacheKey(input);
+      if (key === undefined) {
+        throw new ProviderError('unavailable', 'No cached suggestions for a provider without a name');
+      }
+      return key;
+    });
+  }
+
+  /**
+   * The key the primary provider's replies for the input are cached under,
+   * or undefined for a provider without a name or class, whose replies cannot
+   * be told apart from another's and so are not cached.
+   */
+  private cacheKey(input: IExpressionInput): string | undefined {
+    if (this.providerName === undefined) {
+      return undefined;
+    }
+    const settings = this.llmProvider.getSettings ? this.llmProvider.getSettings() : {};
+    return suggestionCacheKey(input, this.providerName, settings);
+  }
+
+  // The input, and its cached reply unless the options skip or refresh the cache
+  private async prepareGeneration(inputId: string, options: GenerateSuggestionsOptions) {
+    const input = await this.storage.getInput(inputId);
+    if (!input) {
+      throw new Error(`Input with id ${inputId} not found`);
+    }
+
+    const cache = options.cache === false ? undefined : this.suggestionCache;
+    const key = this.cacheKey(input);
+    const cached = cache && key !== undefined && !options.refresh ? await cache.get(key) : null;
+    return { input, cache, key, cached };
+  }
+
+  // Save the candidates as a suggestion, caching them when a cache and key are given
+  private async storeSuggestion(
+    inputId: string,
+    candidates: Candidate[],
+    answeredBy: string | undefined,
+    cache?: SuggestionCache,
+    key?: string
+  ): Promise<ISuggestion> {
+    if (candidates.length === 0) {
+      throw new ProviderError('invalid-output', 'Failed to generate suggestions: No suggestions generated');
+    }
+
+    // A fallback provider's reply is not cached under the first provider's key, so it is not reused once that one recovers
+    const fromPrimary = !(this.llmProvider instanceof FallbackProvider) || answeredBy === this.llmProvider.name;
+    if (cache && key !== undefined && fromPrimary) {
+      await cache.save(key, candidates, answeredBy || this.providerName);
+    }
+
+    const suggestion = Suggestion.create(inputId, candidates, answeredBy || this.providerName);
+    return await this.mutate('generateSuggestions', () => this.storage.saveSuggestion(suggestion));
+  }
+
+  // The name of the first provider of a fallback chain
+  private primaryProviderName(): string {
+    return this.providerName || 'primary';
+  }
+
+  private createLLMProvider(config: VocaEngineConfig): LLMProvider {
+    if (config.llmProvider) {
+      return config.llmProvider;
+    }
+    if (!config.provider) {
+      throw new Error('No LLM provider configured. Pass llmProvider or a provider name');
+    }
+    const registry = config.providerRegistry || createProviderRegistry();
+    return registry.create(config.provider, config.providerConfig);
+  }
+
+  private async editEntry(entryId: string, updates: UpdateEntryOptions): Promise<IEntry> {
+    const [stored] = await this.requireEntries([entryId]);
+    let entry = Entry.fromJSON(stored);
+
+    if (updates.candidates !== undefined) {
+      const candidates = cleanCandidates(updates.candidates, entry.candidates);
+      if (candidates.length === 0) {
+        throw new Error('An entry must keep at least one candidate');
+      }
+      entry = entry.withCandidates(candidates);
+    }
+
+    if (updates.favorites !== undefined) {
+      entry = entry.withFavorites(cleanList(updates.favorites));
+    }
+
+    if (updates.tags !== undefined) {
+      entry = entry.updateTags(cleanTagList(updates.tags));
+    }
+
+    if (updates.note !== undefined) {
+      entry = entry.withNote(updates.note?.trim() || undefined);
+    }
+
+    if (updates.example !== undefined) {
+      entry = entry.withExample(updates.example?.trim() || undefined);
+    }
+
+    return await this.storage.saveEntry(entry);
+  }
+
+  // Run a mutating operation after the ones already queued and journal the records it changed
+  private mutate<T>(
+    operation: string,
+    run: () => Promise<T>,
+    meta: { action?: JournalAction; targetId?: string } = {}
+  ): Promise<T> {
+    return this.enqueue(() => this.record(operation, run, meta));
+  }
+
+  // Run tasks one at a time, in the order they were queued
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task);
+    this.pending = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  /**
+   * Journal the records an operation changed. An operation that fails has
+   * whatever it wrote put back and is not journaled, so the journal always
+   * matches what is stored and its own error is the one reported.
+   */
+  private async record<T>(
+    operation: string,
+    run: () => Promise<T>,
+    meta: { action?: JournalAction; targetId?: string }
+  ): Promise<T> {
+    this.storage.begin();
+    let result: T;
+    try {
+      result = await run();
+    } catch (error) {
+      await this.storage.rollback().catch(() => undefined);
+      throw error;
+    }
+
+    const { changes, reversible } = this.storage.end();
+    if (changes.length > 0 || !reversible) {
+      await this.storage.appendJournal(new JournalRecord(operation, changes, {
+        ...meta,
+        actor: this.config.actor,
+        reversible
+      }));
+    }
+    await this.refreshEmbeddings(changes);
+    return result;
+  }
+
+  /**
+   * Keep stored vectors in step with the entries an operation changed: embed
+   * texts they gained and delete those no entry, live or trashed, uses any
+   * more. The operation has already succeeded, so a failure is only a warning;
+   * texts left unembedded are embedded by the next similarity search.
+   */
+  private async refreshEmbeddings(changes: JournalChange[]): Promise<void> {
+    const provider = this.embeddingProvider;
+    const entryChanges = changes.filter(change => change.kind === 'entries');
+    if (!provider || entryChanges.length === 0) {
+      return;
+    }
+
+    const textsOf = (data: Record<string, any> | null) =>
+      data ? embeddedTexts(Entry.fromJSON(data)).map(match => match.text) : [];
+    const before = new Set(entryChanges.flatMap(change => textsOf(change.before)));
+    const after = new Set(entryChanges.flatMap(change => textsOf(change.after)));
+
+    try {
+      await this.embedTexts(provider, Array.from(after).filter(text => !before.has(text)));
+
+      const dropped = Array.from(before).filter(text => !after.has(text));
+      if ((await this.storage.getEmbeddings(provider.getModel(), dropped)).length === 0) {
+        return;
+      }
+      const inUse = new Set<string>();
+      for await (const entry of this.storage.exportRecords('entries')) {
+        embeddedTexts(entry).forEach(match => inUse.add(match.text));
+      }
+      await this.storage.deleteEmbeddings(dropped.filter(text => !inUse.has(text)));
+    } catch (error) {
+      this.warn(`Could not update stored embeddings: ${(error as Error).message}`);
+    }
+  }
+
+  // Reads the journal in the queue, so operations queued earlier are already in it
+  private async revert(direction: 'undo' | 'redo'): Promise<IJournalRecord | null> {
+    const stack = replayJournal(await this.storage.listJournal())[direction];
+    const target = stack[stack.length - 1];
+    if (!target) {
+      return null;
+    }
+
+    await this.record(target.operation, () => revertChanges(this.storage, target, direction), {
+      action: direction,
+      targetId: target.id
     });
+    return target;
+  }
+
+  private async loadRecords(records: ImportedRecords): Promise<void> {
+    for (const kind of RECORD_KINDS) {
+      await this.storage.importRecords(kind, records[kind] as StorageRecordMap[typeof kind][]);
+    }
+  }
+
+  private async moveEntriesInto(entryIds: string[], collectionId: string): Promise<IEntry[]> {
+    const entries = await this.requireEntries(entryIds);
+    await this.requireCollection(collectionId);
+
+    const moved = entries.map(entry => Entry.fromJSON(entry).moveTo(collectionId));
+    await this.storage.importRecords('entries', moved);
+    return moved;
+  }
+
+  private async copyEntriesInto(entryIds: string[], collectionId: string): Promise<IEntry[]> {
+    const entries = await this.requireEntries(entryIds);
+    await this.requireCollection(collectionId);
+
+    const copies = entries.map(entry => Entry.fromJSON(entry).copyTo(collectionId));
+    await this.storage.importRecords('entries', copies);
+    return copies;
+  }
+
+  private async requireCollection(collectionId: string): Promise<ICollection> {
+    const collection = await this.storage.getCollection(collectionId);
+    if (!collection) {
+      throw new Error(`Collection with id ${collectionId} not found`);
+    }
+    if (collection.deletedAt) {
+      throw new Error(`Collection with id ${collectionId} is in the trash`);
+    }
+    return collection;
+  }
+
+  // Load every entry before changing any, so a bad id leaves storage untouched
+  private async requireEntries(entryIds: string[]): Promise<IEntry[]> {
+    if (entryIds.length === 0) {
+      throw new Error('No entry ids given');
+    }
+
+    const entries: IEntry[] = [];
+    for (const entryId of Array.from(new Set(entryIds))) {
+      const entry = await this.storage.getEntry(entryId);
+      if (!entry) {
+        throw new Error(`Entry with id ${entryId} not found`);
+      }
+      if (entry.deletedAt) {
+        throw new Error(`Entry with id ${entryId} is in the trash`);
+      }
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  // A tag some entry is filed under, live or trashed
+  private async requireTag(tag: string): Promise<string> {
+    const name = requireTagName(tag);
+    for (const trashed of [false, true]) {
+      if ((await this.storage.searchEntries({ query: '', tags: [name], trashed, limit: 1 })).length > 0) {
+        return name;
+      }
+    }
+    throw new Error(`Tag "${name}" not found`);
+  }
+
+  // Apply the duplicate policy to an entry about to be saved; a warning nobody receives is not looked for
+  private async checkDuplicate(entry: IEntry, policy: DuplicatePolicy): Promise<void> {
+    if (policy === 'allow' || (policy === 'warn' && !this.config.onWarning)) {
+      return;
+    }
+
+    const matches = (await this.storage.listEntries(entry.collectionId)).filter(other => isSameContent(other, entry));
+    if (matches.length === 0) {
+      return;
+    }
+
+    // Entries are listed newest first; name the one saved earliest, as dedupe would keep it
+    const existing = matches.reduce((earliest, other) => other.savedAt < earliest.savedAt ? other : earliest);
+
+    const message = `Entry ${existing.id} in collection ${entry.collectionId} already has the input "${existing.input.content}"`;
+    if (policy === 'refuse') {
+      throw new Error(message);
+    }
+    this.warn(message);
+  }
+
+  private warn(message: string): void {
+    if (this.config.onWarning) {
+      this.config.onWarning(message);
+    }
+  }
+
+  private async duplicateGroups(options: DedupeOptions): Promise<IEntry[][]> {
+    if (options.collectionId) {
+      await this.requireCollection(options.collectionId);
+    }
+    return findDuplicateGroups(await this.storage.searchEntries({ query: '', collectionId: options.collectionId }));
+  }
+
+  // Plain words go to storage as free text; anything using the query syntax goes as a parsed filter
+  private parseQuery(query: string): Pick<SearchOptions, 'query' | 'filter'> {
+    const filter = parseSearchQuery(query);
+    if (!filter) {
+      return { query: '' };
+    }
+
+    const text = toPlainQuery(filter);
+    return text !== null ? { query: text } : { query: '', filter };
+  }
+
+  // Vectors for the entry texts, embedding and storing only those not stored yet
+  private async embedTexts(provider: EmbeddingProvider, texts: string[]): Promise<Map<string, number[]>> {
+    const model = provider.getModel();
+    const vectors = new Map<string, number[]>();
+    (await this.storage.getEmbeddings(model, texts)).forEach(embedding => vectors.set(embedding.text, embedding.vector));
+
+    const missing = texts.filter(text => !vectors.has(text));
+    if (missing.length > 0) {
+      const embedded = await this.embed(provider, missing);
+      const stored = missing.map((text, i) => ({ model, text, vector: embedded[i] }));
+      await this.storage.saveEmbeddings(stored);
+      stored.forEach(embedding => vectors.set(embedding.text, embedding.vector));
+    }
+    return vectors;
+  }
+
+  // One vector per text from the provider, asked for in batches
+  private async embed(provider: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const embedded = await provider.embed(batch);
+      if (embedded.length !== batch.length) {
+        throw new Error(`Embedding provider returned ${embedded.length} vectors for ${batch.length} texts`);
+      }
+      vectors.push(...embedded);
+    }
+    return vectors;
+  }
+
+  // Collections whose entries global search leaves out: trashed, and archived unless included
+  private async hiddenCollectionIds(includeArchived: boolean): Promise<string[]> {
+    const collections = await this.storage.listCollections();
+    return collections
+      .filter(collection => collection.deletedAt || (!includeArchived && collection.archivedAt))
+      .map(collection => collection.id);
+  }
+
+  private async liveCollectionIds(collectionIds: string[]): Promise<string[]> {
+    const live: string[] = [];
+    for (const id of collectionIds) {
+      const collection = await this.storage.getCollection(id);
+      if (collection && !collection.deletedAt) {
+        live.push(id);
+      }
+    }
+    return live;
+  }
+
+  private async findTrash(): Promise<TrashContents> {
+    const collections = (await this.storage.listCollections()).filter(collection => collection.deletedAt);
+    const entries = await this.storage.searchEntries({ query: '', trashed: true });
+    const byDeletedAt = (a: { deletedAt?: Date }, b: { deletedAt?: Date }) =>
+      b.deletedAt!.getTime() - a.deletedAt!.getTime();
+
+    return {
+      collections: collections.sort(byDeletedAt),
+      entries: entries.sort(byDeletedAt)
+    };
+  }
+
+  // Apply the retention period, if one is configured. Runs before every operation that
+  // reads or changes the trash, and before getStats
+  private async purgeExpiredTrash(): Promise<void> {
+    if (!this.config.trashRetentionDays) {
+      return;
+    }
+    const before = new Date(Date.now() - this.config.trashRetentionDays * 24 * 60 * 60 * 1000);
+    await this.mutate('purgeTrash', () => this.purge({ before }));
+  }
+
+  private async purge(options: PurgeTrashOptions): Promise<PurgeReport> {
+    const trash = await this.findTrash();
+    const selected = (item: { id: string; deletedAt?: Date }, ids?: string[]): boolean =>
+      (!options.before || item.deletedAt!.getTime() < options.before.getTime()) &&
+      (!ids || ids.includes(item.id));
+
+    // Ids alone only select their own kind
+    const idsGiven = !!(options.entryIds || options.collectionIds);
+    const collections = trash.collections.filter(collection =>
+      selected(collection, idsGiven ? options.collectionIds || [] : undefined));
+    const purgedIds = new Set(collections.map(collection => collection.id));
+    const entries = trash.entries.filter(entry =>
+      selected(entry, idsGiven ? options.entryIds || [] : undefined) ||
+      entry.collectionIds.every(id => purgedIds.has(id)));
+
+    for (const entry of entries) {
+      await this.storage.deleteEntry(entry.id);
+    }
+
+    // Entries staying in the trash forget purged collections too
+    for (const entry of trash.entries) {
+      if (!entries.includes(entry) && entry.collectionIds.some(id => purgedIds.has(id))) {
+        await this.storage.saveEntry(Array.from(purgedIds).reduce(
+          (model, id) => model.removeFromCollection(id),
+          Entry.fromJSON(entry)
+        ));
+      }
+    }
+
+    for (const collection of collections) {
+      for (const entry of await this.storage.listEntries(collection.id)) {
+        if (entry.collectionIds.length > 1) {
+          await this.storage.saveEntry(Entry.fromJSON(entry).removeFromCollection(collection.id));
+        } else {
+          await this.storage.deleteEntry(entry.id);
+        }
+      }
+      await this.storage.deleteCollection(collection.id);
+    }
+
+    return { collections: collections.length, entries: entries.length };
   }
 
   // Configuration methods
@@ -211,6 +1155,21 @@ export class VocaEngine implements VocaEngineOperations {
     this.llmProvider.configure(config);
   }
 
+  // Circuit state and counts for each provider of the fallback chain; empty without fallbackProviders
+  getProviderHealth(): ProviderHealth[] {
+    return this.llmProvider instanceof FallbackProvider ? this.llmProvider.getHealth() : [];
+  }
+
+  // Hits, misses and writes of the suggestion cache since the engine was created; zeros without suggestionCache
+  getCacheMetrics(): SuggestionCacheMetrics {
+    return this.suggestionCache ? this.suggestionCache.getMetrics() : { hits: 0, misses: 0, writes: 0 };
+  }
+
+  // Drop every cached reply, returning how many there were; uses the storage when no cache store was configured
+  async clearSuggestionCache(): Promise<number> {
+    return this.suggestionCache ? await this.suggestionCache.clear() : await this.storage.clearSuggestionCache();
+  }
+
   setDefaultSuggestionCount(count: number): void {
     this.config.defaultSuggestionCount = Math.max(1, Math.min(10, count));
   }
@@ -220,41 +1179,130 @@ export class VocaEngine implements VocaEngineOperations {
   }
 
   // Export/Import functionality for data persistence
-  async exportData(): Promise<Record<string, any>> {
-    if (this.storage instanceof InMemoryStorage) {
-      return this.storage.exportData();
-    }
-    
-    // For other storage providers, we'd need to implement export logic
-    throw new Error('Export not supported for this storage provider');
+  async exportData(): Promise<ExportPayload> {
+    return await buildExport(this.storage);
   }
 
-  async importData(data: Record<string, any>): Promise<void> {
-    if (this.storage instanceof InMemoryStorage) {
-      this.storage.importData(data);
-      return;
-    }
-    
-    // For other storage providers, we'd need to implement import logic
-    throw new Error('Import not supported for this storage provider');
+  // Replaces all stored data with an export document, or merges it in with mode 'merge'
+  async importData(data: unknown, options: ImportOptions = {}): Promise<ImportReport> {
+    return await this.mutate('importData', async () => {
+      const records = parseExport(data);
+
+      if (options.mode === 'merge') {
+        return await mergeImport(this.storage, records, options);
+      }
+
+      // The document is fully validated above; the current data is read back so a load
+      // that fails partway can put it in place again
+      const previous = parseExport(await buildExport(this.storage));
+      await this.storage.clear();
+      try {
+        await this.loadRecords(records);
+      } catch (error) {
+        await this.storage.clear();
+        await this.loadRecords(previous);
+        throw error;
+      }
+
+      const report = createImportReport('replace');
+      for (const kind of RECORD_KINDS) {
+        report.added[kind] = records[kind].length;
+      }
+      return report;
+    });
+  }
+
+  // Operations that changed an entry, collection, input or suggestion, oldest first
+  async history(entityId: string): Promise<IJournalRecord[]> {
+    return await this.storage.listJournal(entityId);
+  }
+
+  // Revert the most recent operation that has not been undone; null when there is none
+  async undo(): Promise<IJournalRecord | null> {
+    return await this.enqueue(() => this.revert('undo'));
+  }
+
+  // Apply again the most recently undone operation; null when there is none
+  async redo(): Promise<IJournalRecord | null> {
+    return await this.enqueue(() => this.revert('redo'));
   }
 
   // Statistics and debugging
-  async getStats(): Promise<{ collections: number; entries: number; totalSuggestions: number }> {
-    const collections = await this.listCollections();
+  async getStats(
+    options: ListCollectionsOptions = {}
+  ): Promise<{ collections: number; archivedCollections: number; entries: number; totalSuggestions: number }> {
+    await this.purgeExpiredTrash();
+    const allCollections = await this.listCollections({ includeArchived: true });
+    const collections = options.includeArchived
+      ? allCollections
+      : allCollections.filter(collection => !collection.archivedAt);
+    // Entries in several collections are counted once
+    const counted = new Set<string>();
     let totalEntries = 0;
     let totalSuggestions = 0;
 
     for (const collection of collections) {
-      const entries = await this.listEntries(collection.id);
+      const entries = (await this.listEntries(collection.id)).filter(entry => !counted.has(entry.id));
+      entries.forEach(entry => counted.add(entry.id));
       totalEntries += entries.length;
-      totalSuggestions += entries.reduce((sum, entry) => sum + entry.suggestion.candidates.length, 0);
+      totalSuggestions += entries.reduce((sum, entry) => sum + entry.candidates.length, 0);
     }
 
     return {
       collections: collections.length,
+      archivedCollections: allCollections.filter(collection => collection.archivedAt).length,
       entries: totalEntries,
       totalSuggestions
     };
   }
+}
+
+// Trim values, dropping empty ones and duplicates
+function cleanList(values: string[]): string[] {
+  return values
+    .map(value => value.trim())
+    .filter(value => value.length > 0)
+    .filter((value, index, arr) => arr.indexOf(value) === index); // Remove duplicates
+}
+
+// Like cleanList for candidates; a plain text takes the details of the current candidate with that text
+function cleanCandidates(values: (string | Candidate)[], current: Candidate[]): Candidate[] {
+  const candidates = values.map(value =>
+    toCandidate(typeof value === 'string' ? findCandidate(current, value.trim()) || value : value));
+  const texts = cleanList(candidateTexts(candidates));
+  return texts.map(text => candidates.find(candidate => candidate.text === text)!);
+}
+
+// Like cleanList, also tidying the levels of hierarchical tags: '장소 / 카페' -> '장소/카페'
+function cleanTagList(tags: string[]): string[] {
+  return cleanList(tags.map(normalizeTag));
+}
+
+function requireTagName(tag: string): string {
+  const name = normalizeTag(tag);
+  if (name.length === 0) {
+    throw new Error('Tag name cannot be empty');
+  }
+  return name;
+}
+
+// A tag moved below itself would keep growing: '장소' renamed to '장소/카페' turns '장소/카페' into '장소/카페/카페'
+function requireTagOutside(sources: string[], target: string): string {
+  const source = sources.find(candidate => candidate !== target && isWithinTag(target, candidate));
+  if (source !== undefined) {
+    throw new Error(`Cannot move tag "${source}" into its own subtag "${target}"`);
+  }
+  return target;
+}
+
+function requireCandidate(entry: IEntry, candidate: string): void {
+  if (!findCandidate(entry.candidates, candidate)) {
+    throw new Error(`Candidate "${candidate}" is not in entry ${entry.id}`);
+  }
+}
+
+// Keep the code of a provider failure, so callers can tell a bad key from a timeout
+function generationFailure(error: unknown): ProviderError {
+  const failure = toProviderError(error);
+  return new ProviderError(failure.code, `Failed to generate suggestions: ${failure.message}`, failure.status);
 }
\ No newline at end of file
@@ -0,0 +1,140 @@
+import { migrateExport, validateExport, EXPORT_FORMAT, EXPORT_VERSION } from '../ExportSchema';
+import { VocaEngine } from '../VocaEngine';
+import { MockLLMProvider } from '../../providers';
+
+function validDocument(): Record<string, any> {
+  const input = { id: 'in-1', type: 'expression', content: '잔잔하게', createdAt: '2026-01-01T00:00:00.000Z' };
+  const suggestion = {
+    id: 'sg-1',
+    inputId: 'in-1',
+    candidates: [{ text: '부드럽게', gloss: '거칠지 않고 순하게' }],
+    generatedAt: '2026-01-01T00:00:00.000Z'
+  };
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: '2026-01-02T00:00:00.000Z',
+    data: {
+      collections: [{ id: 'col-1', name: '모음', createdAt: '2026-01-01T00:00:00.000Z' }],
+      inputs: [input],
+      suggestions: [suggestion],
+      entries: [{
+        id: 'en-1',
+        input: { ...input },
+        suggestion: { ...suggestion, candidates: [...suggestion.candidates] },
+        collectionId: 'col-1',
+        tags: ['감성'],
+        savedAt: '2026-01-02T00:00:00.000Z'
+      }]
+    }
+  };
+}
+
+// The records of a document as versions 0 and 1 stored them, with candidates as plain strings
+function plainCandidates(data: Record<string, any>): Record<string, any> {
+  const plain = (suggestion: Record<string, any>) => ({
+    ...suggestion,
+    candidates: suggestion.candidates.map((candidate: { text: string }) => candidate.text)
+  });
+  return {
+    suggestions: data.suggestions.map(plain),
+    entries: data.entries.map((entry: Record<string, any>) => ({ ...entry, suggestion: plain(entry.suggestion) }))
+  };
+}
+
+describe('ExportSchema', () => {
+  describe('migrateExport', () => {
+    it('should leave current documents unchanged', () => {
+      const document = validDocument();
+      expect(migrateExport(document)).toBe(document);
+    });
+
+    it('should upgrade unversioned dumps to the current version', () => {
+      const { data } = validDocument();
+      const migrated = migrateExport({ ...data, ...plainCandidates(data) });
+
+      expect(migrated.format).toBe(EXPORT_FORMAT);
+      expect(migrated.version).toBe(EXPORT_VERSION);
+      expect(migrated.data.entries[0].id).toBe(data.entries[0].id);
+      expect(migrated.data.entries[0].suggestion.candidates).toEqual([{ text: '부드럽게' }]);
+      expect(() => validateExport(migrated)).not.toThrow();
+    });
+
+    it('should turn plain string candidates of version 1 into candidate objects', () => {
+      const document = validDocument();
+      const entry = document.data.entries[0];
+      const version1 = {
+        ...document,
+        version: 1,
+        data: {
+          ...document.data,
+          ...plainCandidates(document.data),
+          entries: [{ ...plainCandidates(document.data).entries[0], candidates: ['부드럽게', '나직이'], favorites: ['나직이'] }]
+        }
+      };
+
+      const migrated = migrateExport(version1);
+
+      expect(migrated.version).toBe(2);
+      expect(migrated.data.suggestions[0].candidates).toEqual([{ text: '부드럽게' }]);
+      expect(migrated.data.entries[0].suggestion.candidates).toEqual([{ text: '부드럽게' }]);
+      expect(migrated.data.entries[0].candidates).toEqual([{ text: '부드럽게' }, { text: '나직이' }]);
+      expect(migrated.data.entries[0].favorites).toEqual(['나직이']);
+      expect(migrated.data.entries[0].input).toEqual(entry.input);
+      expect(() => validateExport(migrated)).not.toThrow();
+    });
+
+    it('should reject documents newer than the supported version', () => {
+      expect(() => migrateExport({ ...validDocument(), version: EXPORT_VERSION + 1 }))
+        .toThrow(`Export version ${EXPORT_VERSION + 1} is newer than the supported version ${EXPORT_VERSION}`);
+    });
+
+    it('should reject unknown formats and missing versions', () => {
+      expect(() => migrateExport({ format: 'other-app' })).toThrow('Unsupported export format: "other-app"');
+      expect(() => migrateExport({ format: EXPORT_FORMAT })).toThrow('version must be a positive integer');
+      expect(() => migrateExport({ hello: 'world' })).toThrow('missing "format" field');
+      expect(() => migrateExport([])).toThrow('expected a JSON object');
+    });
+  });
+
+  describe('validateExport', () => {
+    it('should accept a well-formed document', () => {
+      expect(() => validateExport(validDocument())).not.toThrow();
+    });
+
+    it('should name the offending field', () => {
+      const missingArray = validDocument();
+      delete missingArray.data.suggestions;
+      expect(() => validateExport(missingArray)).toThrow('data.suggestions must be an array');
+
+      const badDate = validDocument();
+      badDate.data.entries[0].savedAt = 'yesterday';
+      expect(() => validateExport(badDate)).toThrow('data.entries[0].savedAt must be a valid date');
+
+      const badType = validDocument();
+      badType.data.inputs[0].type = 'video';
+      expect(() => validateExport(badType)).toThrow('data.inputs[0].type must be one of');
+
+      const badCandidates = validDocument();
+      badCandidates.data.entries[0].suggestion.candidates = [1, 2];
+      expect(() => validateExport(badCandidates))
+        .toThrow('data.entries[0].suggestion.candidates[0] must be an object');
+
+      const badDetail = validDocument();
+      badDetail.data.suggestions[0].candidates[0].hanja = 7;
+      expect(() => validateExport(badDetail)).toThrow('data.suggestions[0].candidates[0].hanja must be a string');
+    });
+  });
+
+  it('should leave stored data untouched when an import is invalid', async () => {
+    const engine = new VocaEngine({ llmProvider: new MockLLMProvider() });
+    await engine.createCollection('기존 모음');
+
+    const broken = validDocument();
+    broken.data.entries[0].id = '';
+
+    await expect(engine.importData(broken)).rejects.toThrow('data.entries[0].id must be a non-empty string');
+    expect(await engine.listCollections()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,164 @@
+import { VocaEngine } from '../VocaEngine';
+import { MockLLMProvider } from '../../providers';
+import { InMemoryStorage } from '../../utils';
+import { ExpressionInput, Suggestion, Collection, Entry } from '../../models';
+import { ExportPayload, ImportOptions } from '../../types';
+
+function exportOf(collections: Collection[], entries: Entry[]): ExportPayload {
+  return {
+    format: 'voca-engine-export',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    data: {
+      collections: collections.map(c => c.toJSON()),
+      inputs: entries.map(e => ExpressionInput.fromJSON(e.input).toJSON()),
+      suggestions: entries.map(e => Suggestion.fromJSON(e.suggestion).toJSON()),
+      entries: entries.map(e => e.toJSON())
+    }
+  };
+}
+
+function withChanges(entry: Entry, changes: Record<string, any>): Entry {
+  return Entry.fromJSON({ ...entry.toJSON(), ...changes });
+}
+
+describe('VocaEngine merge import', () => {
+  let storage: InMemoryStorage;
+  let engine: VocaEngine;
+  let collection: Collection;
+  let ours: Entry;
+
+  beforeEach(async () => {
+    storage = new InMemoryStorage();
+    engine = new VocaEngine({ llmProvider: new MockLLMProvider(), storage });
+
+    collection = Collection.fromJSON({ id: 'col-1', name: '일상 표현 모음', createdAt: '2026-01-01T00:00:00Z' });
+    const input = ExpressionInput.fromJSON({ id: 'in-1', type: 'expression', content: '잔잔하게', createdAt: '2026-01-01T00:00:00Z' });
+    const suggestion = Suggestion.fromJSON({ id: 'sg-1', inputId: 'in-1', candidates: ['부드럽게'], generatedAt: '2026-01-01T00:00:00Z' });
+    ours = Entry.fromJSON({
+      id: 'en-1',
+      input,
+      suggestion,
+      collectionId: collection.id,
+      tags: ['감성'],
+      savedAt: '2026-01-02T00:00:00Z'
+    });
+
+    await engine.importData(exportOf([collection], [ours]));
+  });
+
+  it('should add new records without removing existing ones', async () => {
+    const input = ExpressionInput.createExpression('노래');
+    const other = new Entry(input, new Suggestion(input.id, ['선율']), collection.id, ['음악']);
+
+    const report = await engine.importData(exportOf([collection], [other]), { mode: 'merge' });
+
+    expect(await engine.listEntries(collection.id)).toHaveLength(2);
+    expect(report.mode).toBe('merge');
+    expect(report.added.entries).toBe(1);
+    expect(report.skipped.collections).toBe(1);
+    expect(report.conflicts).toHaveLength(0);
+  });
+
+  it('should keep our entry by default and union the tags', async () => {
+    const theirs = withChanges(ours, { tags: ['카페'], savedAt: '2026-03-01T00:00:00Z' });
+
+    const report = await engine.importData(exportOf([collection], [theirs]), { mode: 'merge' });
+
+    const entry = await engine.getEntryById('en-1');
+    expect(entry?.savedAt.toISOString()).toBe('2026-01-02T00:00:00.000Z');
+    expect(entry?.tags).toEqual(['감성', '카페']);
+    expect(report.updated.entries).toBe(1);
+    expect(report.conflicts).toEqual([{ kind: 'entries', id: 'en-1', resolution: 'kept-ours' }]);
+  });
+
+  it('should take their entry with take-theirs', async () => {
+    const theirs = withChanges(ours, { tags: ['카페'], savedAt: '2025-12-01T00:00:00Z' });
+
+    await engine.importData(exportOf([collection], [theirs]), { mode: 'merge', strategy: 'take-theirs' });
+
+    const entry = await engine.getEntryById('en-1');
+    expect(entry?.savedAt.toISOString()).toBe('2025-12-01T00:00:00.000Z');
+    expect(entry?.tags).toEqual(['카페', '감성']);
+  });
+
+  it('should keep whichever entry was saved last with newest', async () => {
+    const older = withChanges(ours, { tags: ['오래됨'], savedAt: '2025-12-01T00:00:00Z' });
+    const newer = withChanges(ours, { tags: ['최신'], savedAt: '2026-03-01T00:00:00Z' });
+
+    const first = await engine.importData(exportOf([], [older]), { mode: 'merge', strategy: 'newest' });
+    expect(first.conflicts[0].resolution).toBe('kept-ours');
+    expect((await engine.getEntryById('en-1'))?.savedAt.toISOString()).toBe('2026-01-02T00:00:00.000Z');
+
+    const second = await engine.importData(exportOf([], [newer]), { mode: 'merge', strategy: 'newest' });
+    expect(second.conflicts[0].resolution).toBe('took-theirs');
+    expect((await engine.getEntryById('en-1'))?.savedAt.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+  });
+
+  it('should store conflicting records under new ids with duplicate', async () => {
+    const theirCollection = Collection.fromJSON({ ...collection.toJSON(), name: '다른 이름' });
+    const theirs = withChanges(ours, {
+      input: { ...ExpressionInput.fromJSON(ours.input).toJSON(), content: '잔잔하게 흐르는' },
+      tags: ['카페']
+    });
+
+    const report = await engine.importData(
+      exportOf([theirCollection], [theirs]),
+      { mode: 'merge', strategy: 'duplicate' }
+    );
+
+    const collections = await engine.listCollections();
+    expect(collections).toHaveLength(2);
+
+    const duplicated = report.conflicts.find(c => c.kind === 'entries');
+    expect(duplicated?.resolution).toBe('duplicated');
+
+    const copy = await engine.getEntryById(duplicated!.targetId!);
+    const newCollectionId = report.conflicts.find(c => c.kind === 'collections')!.targetId;
+    const newInputId = report.conflicts.find(c => c.kind === 'inputs')!.targetId;
+    expect(copy?.collectionId).toBe(newCollectionId);
+    expect(copy?.input.id).toBe(newInputId);
+    expect(copy?.input.content).toBe('잔잔하게 흐르는');
+    expect(copy?.tags).toEqual(['카페']);
+    expect((await engine.getEntryById('en-1'))?.tags).toEqual(['감성']);
+  });
+
+  it('should merge collections with the same name when asked', async () => {
+    const theirCollection = Collection.fromJSON({ id: 'col-2', name: '일상 표현 모음', createdAt: '2026-02-01T00:00:00Z' });
+    const input = ExpressionInput.createExpression('노래');
+    const other = new Entry(input, new Suggestion(input.id, ['선율']), theirCollection.id);
+
+    const report = await engine.importData(
+      exportOf([theirCollection], [other]),
+      { mode: 'merge', mergeCollectionsByName: true }
+    );
+
+    expect(await engine.listCollections()).toHaveLength(1);
+    expect(await engine.listEntries(collection.id)).toHaveLength(2);
+    expect(report.conflicts).toEqual([
+      { kind: 'collections', id: 'col-2', resolution: 'merged-by-name', targetId: 'col-1' }
+    ]);
+  });
+
+  it('should not merge collections into a trashed one with the same name', async () => {
+    await engine.deleteCollection(collection.id, { cascade: true });
+    const theirCollection = Collection.fromJSON({ id: 'col-2', name: '일상 표현 모음', createdAt: '2026-02-01T00:00:00Z' });
+    const input = ExpressionInput.createExpression('노래');
+    const other = new Entry(input, new Suggestion(input.id, ['선율']), theirCollection.id);
+
+    const report = await engine.importData(
+      exportOf([theirCollection], [other]),
+      { mode: 'merge', mergeCollectionsByName: true }
+    );
+
+    expect((await engine.listCollections()).map(c => c.id)).toEqual(['col-2']);
+    expect((await engine.searchEntries('col-2', '노래')).map(entry => entry.id)).toEqual([other.id]);
+    expect(report.added.collections).toBe(1);
+    expect(report.conflicts).toEqual([]);
+  });
+
+  it('should reject unknown strategies', async () => {
+    await expect(engine.importData(exportOf([], []), { mode: 'merge', strategy: 'random' as unknown as ImportOptions['strategy'] }))
+      .rejects.toThrow('Invalid merge strategy: random');
+  });
+});
@@ -0,0 +1,219 @@
+import { SuggestionCache, suggestionCacheKey, DEFAULT_CACHE_TTL_MS } from '../SuggestionCache';
+import { VocaEngine } from '../VocaEngine';
+import { ProviderRegistry } from '../../providers/ProviderRegistry';
+import { MockLLMProvider } from '../../providers/MockLLMProvider';
+import { FallbackProvider } from '../../providers/FallbackProvider';
+import { ProviderError } from '../../providers/errors';
+import { ExpressionInput } from '../../models';
+import { InMemoryStorage } from '../../utils/InMemoryStorage';
+import { InputType, LLMProvider, ProviderSettings } from '../../types';
+
+// A provider that counts its calls and numbers its replies, so a reused reply is easy to spot
+function countingProvider(): LLMProvider & { calls: number; settings: ProviderSettings; failure?: Error } {
+  const provider = {
+    name: 'counting',
+    calls: 0,
+    settings: { model: 'gpt-4o-mini', temperature: 0.7, suggestionCount: 5 } as ProviderSettings,
+    failure: undefined as Error | undefined,
+    generateVocabularySuggestions: async () => {
+      provider.calls++;
+      if (provider.failure) {
+        throw provider.failure;
+      }
+      return [`부드럽게 ${provider.calls}`];
+    },
+    getSettings: () => provider.settings,
+    configure: jest.fn()
+  };
+  return provider;
+}
+
+describe('SuggestionCache', () => {
+  const input = ExpressionInput.createExpression('노래 소리가 잔잔하게 들린다');
+  const settings = { model: 'gpt-4o-mini', temperature: 0.7 };
+
+  it('should key replies by normalized content, type, provider and settings', () => {
+    const key = suggestionCacheKey(input, 'openai', settings);
+
+    expect(suggestionCacheKey(ExpressionInput.createExpression('노래 소리가  잔잔하게 들린다!'), 'openai', settings)).toBe(key);
+    expect(suggestionCacheKey(ExpressionInput.createExplanation('노래 소리가 잔잔하게 들린다'), 'openai', settings)).not.toBe(key);
+    expect(suggestionCacheKey(input, 'anthropic', settings)).not.toBe(key);
+    expect(suggestionCacheKey(input, 'openai', { ...settings, model: 'gpt-4o' })).not.toBe(key);
+    expect(suggestionCacheKey(input, 'openai', { ...settings, temperature: 0 })).not.toBe(key);
+    expect(suggestionCacheKey(input, 'openai', { ...settings, baseURL: 'http://localhost:8000/v1' })).not.toBe(key);
+  });
+
+  it('should count a reply older than the TTL as a miss', async () => {
+    let time = 0;
+    const cache = new SuggestionCache(new InMemoryStorage(), { ttlMs: 1000 }, () => time);
+    await cache.save('a', [{ text: '부드럽게' }], 'openai');
+
+    time = 999;
+    expect(await cache.get('a')).toMatchObject({ candidates: [{ text: '부드럽게' }], provider: 'openai', cachedAt: new Date(0) });
+    time = 1000;
+    expect(await cache.get('a')).toBeNull();
+    expect(await cache.get('b')).toBeNull();
+    expect(cache.getMetrics()).toEqual({ hits: 1, misses: 2, writes: 1 });
+  });
+
+  it('should keep replies until cleared with a TTL of 0, and expire them after 7 days by default', async () => {
+    let time = 0;
+    const store = new InMemoryStorage();
+    const forever = new SuggestionCache(store, { ttlMs: 0 }, () => time);
+    const weekly = new SuggestionCache(store, {}, () => time);
+    await forever.save('a', [{ text: '부드럽게' }]);
+
+    time = DEFAULT_CACHE_TTL_MS;
+    expect(await forever.get('a')).not.toBeNull();
+    expect(await weekly.get('a')).toBeNull();
+  });
+
+  describe('with VocaEngine', () => {
+    it('should reuse a reply for the same content and count hits and misses', async () => {
+      const provider = countingProvider();
+      const engine = new VocaEngine({ llmProvider: provider, suggestionCache: {} });
+      const first = await engine.addInput(InputType.Expression, '잔잔하게');
+      const second = await engine.addInput(InputType.Expression, ' 잔잔하게! ');
+
+      const generated = await engine.generateSuggestions(first.id);
+      const reused = await engine.generateSuggestions(second.id);
+
+      expect(provider.calls).toBe(1);
+      expect(reused.inputId).toBe(second.id);
+      expect(reused.id).not.toBe(generated.id);
+      expect(reused.candidates).toEqual(generated.candidates);
+      expect(await engine.getSuggestionById(reused.id)).not.toBeNull();
+      expect(engine.getCacheMetrics()).toEqual({ hits: 1, misses: 1, writes: 1 });
+    });
+
+    it('should ask again when the provider settings change', async () => {
+      const provider = countingProvider();
+      const engine = new VocaEngine({ llmProvider: provider, suggestionCache: {} });
+      const added = await engine.addInput(InputType.Expression, '잔잔하게');
+
+      await engine.generateSuggestions(added.id);
+      provider.settings = { ...provider.settings, temperature: 0.2 };
+      await engine.generateSuggestions(added.id);
+
+      expect(provider.calls).toBe(2);
+    });
+
+    it('should refresh a cached reply or bypass the cache on request', async () => {
+      const provider = countingProvider();
+      const engine = new VocaEngine({ llmProvider: provider, suggestionCache: {} });
+      const added = await engine.addInput(InputType.Expression, '잔잔하게');
+
+      await engine.generateSuggestions(added.id);
+      const refreshed = await engine.generateSuggestions(added.id, { refresh: true });
+      const uncached = await engine.generateSuggestions(added.id, { cache: false });
+      const reused = await engine.generateSuggestions(added.id);
+
+      expect(refreshed.candidates.map(candidate => candidate.text)).toEqual(['부드럽게 2']);
+      expect(uncached.candidates.map(candidate => candidate.text)).toEqual(['부드럽게 3']);
+      expect(reused.candidates.map(candidate => candidate.text)).toEqual(['부드럽게 2']);
+      expect(engine.getCacheMetrics()).toEqual({ hits: 1, misses: 1, writes: 2 });
+    });
+
+    it('should cache streamed replies and stream cached ones', async () => {
+      const provider = countingProvider();
+      const engine = new VocaEngine({ llmProvider: provider, suggestionCache: {} });
+      const added = await engine.addInput(InputType.Expression, '잔잔하게');
+      const streamed = async () => {
+        const texts: string[] = [];
+        for await (const candidate of engine.streamSuggestions(added.id)) {
+          texts.push(candidate.text);
+        }
+        return texts;
+      };
+
+      expect(await streamed()).toEqual(['부드럽게 1']);
+      expect(await streamed()).toEqual(['부드럽게 1']);
+      expect((await engine.generateSuggestions(added.id)).candidates).toEqual([{ text: '부드럽게 1' }]);
+      expect(provider.calls).toBe(1);
+      expect(engine.getCacheMetrics()).toEqual({ hits: 2, misses: 1, writes: 1 });
+    });
+
+    it('should not cache without suggestionCache, and keep replies in the given store', async () => {
+      const provider = countingProvider();
+      const uncached = new VocaEngine({ llmProvider: provider });
+      const added = await uncached.addInput(InputType.Expression, '잔잔하게');
+      await uncached.generateSuggestions(added.id);
+      await uncached.generateSuggestions(added.id);
+      expect(provider.calls).toBe(2);
+
+      const store = new InMemoryStorage();
+      const storage = new InMemoryStorage();
+      const engine = new VocaEngine({ llmProvider: provider, storage, suggestionCache: { store } });
+      const input = await engine.addInput(InputType.Expression, '잔잔하게');
+      await engine.generateSuggestions(input.id);
+
+      expect(await store.clearSuggestionCache()).toBe(1);
+      expect(await storage.clearSuggestionCache()).toBe(0);
+    });
+
+    it('should not cache a fallback provider\'s reply under the first provider', async () => {
+      const hosted = countingProvider();
+      hosted.failure = new ProviderError('quota', 'You exceeded your current quota', 429);
+      const registry = new ProviderRegistry();
+      registry.register('hosted', () => hosted);
+      registry.register('mock', () => new MockLLMProvider());
+      const engine = new VocaEngine({
+        provider: 'hosted',
+        providerRegistry: registry,
+        fallbackProviders: [{ provider: 'mock' }],
+        suggestionCache: {}
+      });
+      const added = await engine.addInput(InputType.Expression, '잔잔하게');
+
+      expect((await engine.generateSuggestions(added.id)).provider).toBe('mock');
+      hosted.failure = undefined;
+      const recovered = await engine.generateSuggestions(added.id);
+      const reused = await engine.generateSuggestions(added.id);
+
+      expect(recovered.provider).toBe('hosted');
+      expect(reused).toMatchObject({ provider: 'hosted', candidates: recovered.candidates });
+      expect(hosted.calls).toBe(2);
+      expect(await engine.clearSuggestionCache()).toBe(1);
+    });
+
+    it('should cache the first provider\'s replies of a chain passed as an instance', async () => {
+      const hosted = countingProvider();
+      const llmProvider = new FallbackProvider([{ name: 'hosted', provider: hosted }, { name: 'mock', provider: new MockLLMProvider() }]);
+      const engine = new VocaEngine({ llmProvider, suggestionCache: {} });
+      const added = await engine.addInput(InputType.Expression, '잔잔하게');
+
+      await engine.generateSuggestions(added.id);
+      expect(await engine.generateSuggestions(added.id)).toMatchObject({ provider: 'hosted', candidates: [{ text: '부드럽게 1' }] });
+      expect(hosted.calls).toBe(1);
+    });
+
+    it('should keep the replies of providers that differ only in name or server apart', async () => {
+      const storage = new InMemoryStorage();
+      const ask = async (provider: LLMProvider) => {
+        const engine = new VocaEngine({ llmProvider: provider, storage, suggestionCache: {} });
+        const added = await engine.addInput(InputType.Expression, '잔잔하게');
+        return (await engine.generateSuggestions(added.id)).candidates[0].text;
+      };
+      const first = countingProvider();
+      const renamed = { ...countingProvider(), name: 'other' };
+      const moved = countingProvider();
+      moved.settings = { ...moved.settings, baseURL: 'http://localhost:8000/v1' };
+
+      expect(await ask(first)).toBe('부드럽게 1');
+      expect(await ask(renamed)).toBe('부드럽게 1');
+      expect(await ask(moved)).toBe('부드럽게 1');
+      expect(await ask(countingProvider())).toBe('부드럽게 1');
+      expect(await storage.clearSuggestionCache()).toBe(3);
+    });
+
+    it('should not cache the replies of a provider without a name or class', async () => {
+      const { name, ...anonymous } = countingProvider();
+      const engine = new VocaEngine({ llmProvider: anonymous, suggestionCache: {} });
+      const added = await engine.addInput(InputType.Expression, '잔잔하게');
+
+      await engine.generateSuggestions(added.id);
+      await engine.generateSuggestions(added.id);
+      expect(engine.getCacheMetrics()).toEqual({ hits: 0, misses: 0, writes: 0 });
+    });
+  });
+});
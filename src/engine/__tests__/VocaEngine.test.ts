@@ -1,6 +1,8 @@
 import { VocaEngine } from '../VocaEngine';
-import { MockLLMProvider } from '../../providers';
-import { InputType } from '../../types';
+import { MockLLMProvider, MockEmbeddingProvider } from '../../providers';
+import { InMemoryStorage, SqliteStorage } from '../../utils';
+import { Entry } from '../../models';
+import { InputType, Candidate } from '../../types';
 
 describe('VocaEngine', () => {
   let engine: VocaEngine;
@@ -45,12 +47,114 @@ describe('VocaEngine', () => {
       expect(suggestion.candidates.length).toBeGreaterThan(0);
     });
 
+    it('should keep the details the provider gives each candidate', async () => {
+      const input = await engine.addInput(InputType.Expression, '노래');
+      const suggestion = await engine.generateSuggestions(input.id);
+
+      expect(suggestion.candidates).toContainEqual({
+        text: '선율',
+        gloss: '소리의 높낮이와 길이가 어우러진 흐름',
+        example: '피아노 선율이 방을 채웠다.',
+        register: '문어체',
+        partOfSpeech: '명사',
+        hanja: '旋律'
+      });
+    });
+
+    it('should accept plain strings from a provider, without repeats', async () => {
+      const plainEngine = new VocaEngine({
+        llmProvider: { generateVocabularySuggestions: async () => ['부드럽게', ' 조용히 ', '부드럽게.'], configure: () => undefined }
+      });
+      const input = await plainEngine.addInput(InputType.Expression, '잔잔하게');
+      const suggestion = await plainEngine.generateSuggestions(input.id);
+
+      expect(suggestion.candidates).toEqual([{ text: '부드럽게' }, { text: '조용히' }]);
+    });
+
     it('should throw error for non-existent input', async () => {
       await expect(engine.generateSuggestions('non-existent-id'))
         .rejects.toThrow('Input with id non-existent-id not found');
     });
   });
 
+  describe('streamSuggestions', () => {
+    it('should yield candidates one at a time and return the saved suggestion', async () => {
+      const input = await engine.addInput(InputType.Expression, '잔잔하게');
+      const stream = engine.streamSuggestions(input.id);
+
+      const first = await stream.next();
+      expect(first).toEqual({ done: false, value: expect.objectContaining({ text: '부드럽게' }) });
+
+      const texts = [(first.value as Candidate).text];
+      let next = await stream.next();
+      while (!next.done) {
+        texts.push(next.value.text);
+        next = await stream.next();
+      }
+
+      expect(texts).toEqual(['부드럽게', '조용히', '평온하게', '고요하게', '은은하게']);
+      expect(next.value.candidates.map(candidate => candidate.text)).toEqual(texts);
+      expect(await engine.getSuggestionById(next.value.id)).toEqual(next.value);
+    });
+
+    it('should skip repeats and yield every candidate of a provider that cannot stream', async () => {
+      const streaming = new VocaEngine({
+        llmProvider: {
+          generateVocabularySuggestions: async () => [],
+          streamVocabularySuggestions: async function* () {
+            yield* ['부드럽게', ' 조용히 ', '부드럽게.'];
+          },
+          configure: () => undefined
+        }
+      });
+      const plain = new VocaEngine({
+        llmProvider: { generateVocabularySuggestions: async () => ['부드럽게', '부드럽게!', '조용히'], configure: () => undefined }
+      });
+
+      for (const candidateEngine of [streaming, plain]) {
+        const input = await candidateEngine.addInput(InputType.Expression, '잔잔하게');
+        const yielded: Candidate[] = [];
+        for await (const candidate of candidateEngine.streamSuggestions(input.id)) {
+          yielded.push(candidate);
+        }
+        expect(yielded).toEqual([{ text: '부드럽게' }, { text: '조용히' }]);
+      }
+    });
+
+    it('should save nothing when the stream fails or the caller stops early', async () => {
+      const storage = new InMemoryStorage();
+      let fail = true;
+      const streamingEngine = new VocaEngine({
+        storage,
+        llmProvider: {
+          generateVocabularySuggestions: async () => [],
+          streamVocabularySuggestions: async function* () {
+            yield '부드럽게';
+            if (fail) {
+              throw new Error('connection reset');
+            }
+            yield '조용히';
+          },
+          configure: () => undefined
+        }
+      });
+      const input = await streamingEngine.addInput(InputType.Expression, '잔잔하게');
+      const drain = async () => {
+        for await (const _candidate of streamingEngine.streamSuggestions(input.id)) {
+          // Read to the end
+        }
+      };
+
+      await expect(drain()).rejects.toMatchObject({ code: 'network', message: 'Failed to generate suggestions: connection reset' });
+
+      fail = false;
+      for await (const _candidate of streamingEngine.streamSuggestions(input.id)) {
+        break;
+      }
+      expect(storage.getStats().suggestions).toBe(0);
+    });
+  });
+
   describe('createCollection', () => {
     it('should create a collection', async () => {
       const name = '일상 표현 모음';
@@ -118,6 +222,54 @@ describe('VocaEngine', () => {
       expect(results[0].input.content).toContain('노래');
     });
 
+    it('should find entries by initial consonants', async () => {
+      const input = await engine.addInput(InputType.Expression, '노래 소리');
+      const suggestion = await engine.generateSuggestions(input.id);
+      const collection = await engine.createCollection('테스트');
+      await engine.saveEntry(input.id, suggestion.id, collection.id);
+
+      expect(await engine.searchEntries(collection.id, 'ㄴㄹ')).toHaveLength(1);
+      expect(await engine.searchAllEntries('노ㄹ ㅅ')).toHaveLength(1);
+      expect(await engine.searchAllEntries('ㄴㅅ')).toHaveLength(0);
+    });
+
+    it('should tolerate typos when fuzzy matching is on', async () => {
+      const input = await engine.addInput(InputType.Expression, '잔잔하게 흐르는 노래');
+      const suggestion = await engine.generateSuggestions(input.id);
+      const collection = await engine.createCollection('테스트');
+      await engine.saveEntry(input.id, suggestion.id, collection.id);
+
+      expect(await engine.searchEntries(collection.id, '잔잔하계')).toHaveLength(0);
+      expect(await engine.searchEntries(collection.id, '잔잔하계', { fuzzy: 1 })).toHaveLength(1);
+      expect(await engine.searchAllEntries('잔잔하계', { fuzzy: 1 })).toHaveLength(1);
+      expect(await engine.rankedSearch('잔잔하계', { fuzzy: 1 })).toHaveLength(1);
+    });
+
+    it('should accept the query syntax in every search', async () => {
+      const cafe = await engine.createCollection('카페');
+      const music = await engine.createCollection('음악');
+      for (const [type, content, collectionId, tags] of [
+        [InputType.Image, '창가 자리 사진', cafe.id, ['카페']],
+        [InputType.Expression, '잔잔한 소리', music.id, ['draft']],
+        [InputType.Expression, '선율이 흐른다', music.id, []]
+      ] as Array<[InputType, string, string, string[]]>) {
+        const input = await engine.addInput(type, content);
+        const suggestion = await engine.generateSuggestions(input.id);
+        await engine.saveEntry(input.id, suggestion.id, collectionId, tags);
+      }
+
+      const contents = (entries: Array<{ input: { content: string } }>) => entries.map(e => e.input.content).sort();
+      expect(contents(await engine.searchAllEntries('tag:카페 type:image OR 선율'))).toEqual(['선율이 흐른다', '창가 자리 사진']);
+      expect(contents(await engine.searchAllEntries('"잔잔한 소리" -tag:draft'))).toEqual([]);
+      expect(contents(await engine.searchEntries(music.id, '-tag:draft'))).toEqual(['선율이 흐른다']);
+      // Plain words match each on its own, as they do next to a filter
+      expect(contents(await engine.searchAllEntries('흐른다 선율'))).toEqual(['선율이 흐른다']);
+      expect(contents(await engine.searchAllEntries('흐른다 type:expression 선율'))).toEqual(['선율이 흐른다']);
+      expect((await engine.rankedSearch(`collection:${music.id} 선율`)).map(r => r.entry.input.content)).toEqual(['선율이 흐른다']);
+
+      await expect(engine.searchAllEntries('tag:카페 (선율')).rejects.toThrow('Invalid search query: unclosed "(" at character 8');
+    });
+
     it('should return all entries for empty query', async () => {
       const input = await engine.addInput(InputType.Expression, '테스트');
       const suggestion = await engine.generateSuggestions(input.id);
@@ -129,6 +281,864 @@ describe('VocaEngine', () => {
       
       expect(searchResults).toEqual(allEntries);
     });
+
+    it('should rank results across visible collections with highlights', async () => {
+      const visible = await engine.createCollection('보이는 모음');
+      const archived = await engine.createCollection('보관 모음');
+      for (const [content, collectionId] of [['잔잔한 노래', visible.id], ['잔잔한 바다', archived.id]]) {
+        const input = await engine.addInput(InputType.Expression, content);
+        const suggestion = await engine.generateSuggestions(input.id);
+        await engine.saveEntry(input.id, suggestion.id, collectionId);
+      }
+      await engine.archiveCollection(archived.id);
+
+      const results = await engine.rankedSearch('잔잔한');
+      expect(results.map(r => r.entry.input.content)).toEqual(['잔잔한 노래']);
+      expect(results[0].highlights[0]).toEqual({ field: 'content', text: '잔잔한 노래', ranges: [[0, 3]] });
+
+      expect(await engine.rankedSearch('잔잔한', { includeArchived: true })).toHaveLength(2);
+      expect(await engine.rankedSearch('잔잔한', { collectionId: archived.id })).toHaveLength(1);
+      await expect(engine.rankedSearch('잔잔한', { collectionId: 'missing' }))
+        .rejects.toThrow('Collection with id missing not found');
+    });
+  });
+
+  describe('exportData/importData', () => {
+    it('should export a versioned document with ISO dates', async () => {
+      const collection = await engine.createCollection('테스트');
+      const input = await engine.addInput(InputType.Expression, '잔잔하게');
+      const suggestion = await engine.generateSuggestions(input.id);
+      await engine.saveEntry(input.id, suggestion.id, collection.id, ['감성']);
+
+      const exported = await engine.exportData();
+
+      expect(exported.format).toBe('voca-engine-export');
+      expect(exported.version).toBe(2);
+      expect(exported.data.collections).toHaveLength(1);
+      expect(exported.data.entries).toHaveLength(1);
+      expect(typeof exported.data.entries[0].savedAt).toBe('string');
+      expect(typeof exported.data.entries[0].input.createdAt).toBe('string');
+    });
+
+    it('should restore an export into a different storage provider', async () => {
+      const collection = await engine.createCollection('테스트');
+      const input = await engine.addInput(InputType.Expression, '잔잔하게');
+      const suggestion = await engine.generateSuggestions(input.id);
+      const entry = await engine.saveEntry(input.id, suggestion.id, collection.id, ['감성']);
+
+      const exported = JSON.parse(JSON.stringify(await engine.exportData()));
+
+      const storage = new SqliteStorage();
+      const restored = new VocaEngine({ llmProvider: mockProvider, storage });
+      await restored.importData(exported);
+
+      const entries = await restored.listEntries(collection.id);
+      expect(entries).toHaveLength(1);
+      expect(entries[0].id).toBe(entry.id);
+      expect(entries[0].savedAt).toBeInstanceOf(Date);
+      expect(entries[0].savedAt.getTime()).toBe(entry.savedAt.getTime());
+      expect(await restored.getInputById(input.id)).not.toBeNull();
+      storage.close();
+    });
+
+    it('should replace existing data on import', async () => {
+      const exported = await engine.exportData();
+      await engine.createCollection('나중에 만든 모음');
+
+      await engine.importData(exported);
+
+      expect(await engine.listCollections()).toHaveLength(0);
+    });
+
+    it('should keep the existing data when a replace import fails partway', async () => {
+      const storage = new InMemoryStorage();
+      engine = new VocaEngine({ llmProvider: mockProvider, storage });
+      await engine.createCollection('남길 모음');
+      const exported = await engine.exportData();
+      await engine.createCollection('나중에 만든 모음');
+
+      jest.spyOn(storage, 'importRecords').mockRejectedValueOnce(new Error('disk full'));
+      await expect(engine.importData(exported)).rejects.toThrow('disk full');
+
+      expect((await engine.listCollections()).map(c => c.name).sort()).toEqual(['나중에 만든 모음', '남길 모음']);
+    });
+
+    it('should reject documents in an unknown format', async () => {
+      await expect(engine.importData({ format: 'other-app', version: 1, data: {} }))
+        .rejects.toThrow('Unsupported export format');
+    });
+  });
+
+  describe('deleteCollection', () => {
+    let collectionId: string;
+    let entryId: string;
+
+    beforeEach(async () => {
+      const collection = await engine.createCollection('삭제할 모음');
+      const input = await engine.addInput(InputType.Expression, '노래 소리');
+      const suggestion = await engine.generateSuggestions(input.id);
+      const entry = await engine.saveEntry(input.id, suggestion.id, collection.id, ['음악']);
+      collectionId = collection.id;
+      entryId = entry.id;
+    });
+
+    it('should refuse to delete a collection with entries without cascade or moveTo', async () => {
+      await expect(engine.deleteCollection(collectionId))
+        .rejects.toThrow('Collection 삭제할 모음 has 1 entries');
+      expect(await engine.getCollectionById(collectionId)).not.toBeNull();
+    });
+
+    it('should trash the entries with cascade', async () => {
+      await engine.deleteCollection(collectionId, { cascade: true });
+
+      expect(await engine.listCollections()).toHaveLength(0);
+      expect((await engine.getCollectionById(collectionId))?.deletedAt).toBeInstanceOf(Date);
+      expect((await engine.getEntryById(entryId))?.deletedAt).toBeInstanceOf(Date);
+      await expect(engine.listEntries(collectionId)).rejects.toThrow('is in the trash');
+    });
+
+    it('should put the entries back when a cascade fails partway', async () => {
+      const storage = new InMemoryStorage();
+      engine = new VocaEngine({ llmProvider: mockProvider, storage });
+      const collection = await engine.createCollection('실패할 모음');
+      const input = await engine.addInput(InputType.Expression, '노래 소리');
+      const suggestion = await engine.generateSuggestions(input.id);
+      const entry = await engine.saveEntry(input.id, suggestion.id, collection.id);
+
+      jest.spyOn(storage, 'updateCollection').mockRejectedValueOnce(new Error('disk full'));
+      await expect(engine.deleteCollection(collection.id, { cascade: true })).rejects.toThrow('disk full');
+
+      expect((await engine.getEntryById(entry.id))?.deletedAt).toBeUndefined();
+      expect((await engine.listEntries(collection.id)).map(e => e.id)).toEqual([entry.id]);
+      expect((await engine.history(entry.id)).map(r => r.operation)).toEqual(['saveEntry']);
+    });
+
+    it('should move the entries with moveTo, keeping id and savedAt', async () => {
+      const target = await engine.createCollection('남길 모음');
+      const before = await engine.getEntryById(entryId);
+
+      await engine.deleteCollection(collectionId, { moveTo: target.id });
+
+      const moved = await engine.getEntryById(entryId);
+      expect((await engine.getCollectionById(collectionId))?.deletedAt).toBeInstanceOf(Date);
+      expect(moved?.collectionId).toBe(target.id);
+      expect(moved?.savedAt.getTime()).toBe(before?.savedAt.getTime());
+      expect(moved?.tags).toEqual(['음악']);
+    });
+
+    it('should reject an unknown moveTo collection', async () => {
+      await expect(engine.deleteCollection(collectionId, { moveTo: 'missing' }))
+        .rejects.toThrow('Collection with id missing not found');
+    });
+
+    it('should delete an empty collection without options', async () => {
+      const empty = await engine.createCollection('빈 모음');
+      await engine.deleteCollection(empty.id);
+      expect((await engine.listTrash()).collections.map(c => c.id)).toEqual([empty.id]);
+    });
+  });
+
+  describe('moving and copying entries', () => {
+    let source: string;
+    let target: string;
+    let entryIds: string[];
+
+    beforeEach(async () => {
+      source = (await engine.createCollection('원래 모음')).id;
+      target = (await engine.createCollection('새 모음')).id;
+      entryIds = [];
+      for (const content of ['잔잔한 노래', '비 오는 날']) {
+        const input = await engine.addInput(InputType.Expression, content);
+        const suggestion = await engine.generateSuggestions(input.id);
+        entryIds.push((await engine.saveEntry(input.id, suggestion.id, source, ['감성'])).id);
+      }
+    });
+
+    it('should move an entry keeping its id and savedAt', async () => {
+      const before = await engine.getEntryById(entryIds[0]);
+
+      const moved = await engine.moveEntry(entryIds[0], target);
+
+      expect(moved.id).toBe(entryIds[0]);
+      expect(moved.collectionId).toBe(target);
+      expect(moved.savedAt.getTime()).toBe(before?.savedAt.getTime());
+      expect((await engine.listEntries(source)).map(e => e.id)).toEqual([entryIds[1]]);
+      expect((await engine.listEntries(target)).map(e => e.id)).toEqual([entryIds[0]]);
+    });
+
+    it('should move several entries at once', async () => {
+      await engine.moveEntries(entryIds, target);
+
+      expect(await engine.listEntries(source)).toHaveLength(0);
+      expect(await engine.listEntries(target)).toHaveLength(2);
+    });
+
+    it('should not move anything when one of the ids is unknown', async () => {
+      await expect(engine.moveEntries([entryIds[0], 'missing'], target))
+        .rejects.toThrow('Entry with id missing not found');
+      expect(await engine.listEntries(source)).toHaveLength(2);
+    });
+
+    it('should copy entries as new entries', async () => {
+      const copies = await engine.copyEntries(entryIds, target);
+
+      expect(copies).toHaveLength(2);
+      expect(copies.map(c => c.id)).not.toContain(entryIds[0]);
+      expect(copies[0].tags).toEqual(['감성']);
+      expect(await engine.listEntries(source)).toHaveLength(2);
+      expect(await engine.listEntries(target)).toHaveLength(2);
+    });
+
+    it('should show an entry in several collections without duplicating it', async () => {
+      const linked = await engine.addEntryToCollection(entryIds[0], target);
+
+      expect(linked.collectionIds).toEqual([source, target]);
+      expect((await engine.listEntries(target)).map(e => e.id)).toEqual([entryIds[0]]);
+      expect(await engine.searchEntries(target, '노래')).toHaveLength(1);
+      expect((await engine.getStats()).entries).toBe(2);
+
+      const unlinked = await engine.removeEntryFromCollection(entryIds[0], source);
+      expect(unlinked.collectionId).toBe(target);
+      expect(await engine.listEntries(source)).toHaveLength(1);
+    });
+
+    it('should refuse to remove an entry from its only collection', async () => {
+      await expect(engine.removeEntryFromCollection(entryIds[0], source))
+        .rejects.toThrow('delete it instead');
+    });
+
+    it('should keep linked entries when their other collection is deleted with cascade', async () => {
+      await engine.addEntryToCollection(entryIds[0], target);
+
+      await engine.deleteCollection(source, { cascade: true });
+
+      expect((await engine.getEntryById(entryIds[1]))?.deletedAt).toBeInstanceOf(Date);
+      expect((await engine.listEntries(target)).map(e => e.id)).toEqual([entryIds[0]]);
+
+      await engine.purgeTrash();
+      expect(await engine.getEntryById(entryIds[1])).toBeNull();
+      const survivor = await engine.getEntryById(entryIds[0]);
+      expect(survivor?.collectionIds).toEqual([target]);
+    });
+  });
+
+  describe('curating entries', () => {
+    let entryId: string;
+    let generated: Candidate[];
+    let texts: string[];
+
+    beforeEach(async () => {
+      const collection = await engine.createCollection('큐레이션');
+      const input = await engine.addInput(InputType.Expression, '잔잔한 노래');
+      const suggestion = await engine.generateSuggestions(input.id);
+      const entry = await engine.saveEntry(input.id, suggestion.id, collection.id);
+      entryId = entry.id;
+      generated = [...suggestion.candidates];
+      texts = generated.map(candidate => candidate.text);
+    });
+
+    it('should start with the generated candidates and no favorites', async () => {
+      const entry = await engine.getEntryById(entryId);
+      expect(entry?.candidates).toEqual(generated);
+      expect(entry?.favorites).toEqual([]);
+    });
+
+    it('should keep only the chosen candidates without changing id, savedAt or the suggestion', async () => {
+      const before = await engine.getEntryById(entryId);
+
+      const updated = await engine.updateEntry(entryId, {
+        candidates: [texts[1], texts[0]],
+        favorites: [texts[0]],
+        note: '  잔잔한 장면에  ',
+        example: '음악이 부드럽게 흘렀다'
+      });
+
+      expect(updated.id).toBe(entryId);
+      expect(updated.savedAt.getTime()).toBe(before?.savedAt.getTime());
+      expect(updated.updatedAt).toBeInstanceOf(Date);
+      // Candidates named by text keep their details
+      expect(updated.candidates).toEqual([generated[1], generated[0]]);
+      expect(updated.favorites).toEqual([texts[0]]);
+      expect(updated.note).toBe('잔잔한 장면에');
+      expect(updated.example).toBe('음악이 부드럽게 흘렀다');
+      expect(updated.suggestion.candidates).toEqual(generated);
+      expect((await engine.getSuggestionById(updated.suggestion.id))?.candidates).toEqual(generated);
+    });
+
+    it('should replace the details of a candidate given as an object', async () => {
+      const updated = await engine.updateEntry(entryId, {
+        candidates: [{ text: texts[0], gloss: ' 새 뜻풀이 ', register: '' }, texts[1]]
+      });
+
+      expect(updated.candidates).toEqual([{ text: texts[0], gloss: '새 뜻풀이' }, generated[1]]);
+    });
+
+    it('should clear the note with an empty string', async () => {
+      await engine.updateEntry(entryId, { note: '메모' });
+      const cleared = await engine.updateEntry(entryId, { note: '' });
+      expect(cleared.note).toBeUndefined();
+    });
+
+    it('should add, remove and reorder candidates', async () => {
+      await engine.addCandidate(entryId, { text: '나직이', gloss: '소리가 꽤 낮게', partOfSpeech: '부사' }, 0);
+      await engine.removeCandidate(entryId, texts[0]);
+      const entry = await engine.reorderCandidates(entryId, [...texts.slice(1), '나직이']);
+
+      expect(entry.candidates).toEqual([
+        ...generated.slice(1),
+        { text: '나직이', gloss: '소리가 꽤 낮게', partOfSpeech: '부사' }
+      ]);
+    });
+
+    it('should unmark favorites whose candidate is removed', async () => {
+      await engine.favoriteCandidate(entryId, texts[0]);
+      const entry = await engine.removeCandidate(entryId, texts[0]);
+      expect(entry.favorites).toEqual([]);
+    });
+
+    it('should reject invalid edits', async () => {
+      await expect(engine.favoriteCandidate(entryId, '없는 후보'))
+        .rejects.toThrow('Candidate "없는 후보" is not in entry');
+      await expect(engine.addCandidate(entryId, texts[0]))
+        .rejects.toThrow('is already in entry');
+      await expect(engine.addCandidate(entryId, '나직이', NaN))
+        .rejects.toThrow('Invalid position: NaN. Use a whole number');
+      await expect(engine.reorderCandidates(entryId, texts.slice(1)))
+        .rejects.toThrow('Reordered candidates must be exactly the current candidates');
+      await expect(engine.updateEntry(entryId, { candidates: [' '] }))
+        .rejects.toThrow('An entry must keep at least one candidate');
+    });
+
+    it('should search curated candidates', async () => {
+      const entry = await engine.addCandidate(entryId, '나직이');
+      const results = await engine.searchEntries(entry.collectionId, '나직');
+      expect(results.map(e => e.id)).toEqual([entryId]);
+    });
+  });
+
+  describe('tags', () => {
+    let collectionId: string;
+    let cafeId: string;
+    let musicId: string;
+
+    const saveTagged = async (content: string, tags: string[]) => {
+      const input = await engine.addInput(InputType.Expression, content);
+      const suggestion = await engine.generateSuggestions(input.id);
+      return (await engine.saveEntry(input.id, suggestion.id, collectionId, tags)).id;
+    };
+
+    beforeEach(async () => {
+      collectionId = (await engine.createCollection('태그 모음')).id;
+      cafeId = await saveTagged('카페에서 창을 바라보는 상황', [' 장소 / 카페 ', '감성']);
+      musicId = await saveTagged('노래 소리가 잔잔하게 들린다', ['음악', '감성적']);
+    });
+
+    it('should normalize nested tags and find entries by their parent tag', async () => {
+      expect((await engine.getEntryById(cafeId))?.tags).toEqual(['장소/카페', '감성']);
+      expect((await engine.searchAllEntries('tag:장소')).map(e => e.id)).toEqual([cafeId]);
+      expect(await engine.listTags()).toEqual([
+        { tag: '감성', count: 1 },
+        { tag: '감성적', count: 1 },
+        { tag: '음악', count: 1 },
+        { tag: '장소', count: 1 },
+        { tag: '장소/카페', count: 1 }
+      ]);
+    });
+
+    it('should rename a tag with the tags below it', async () => {
+      const renamed = await engine.renameTag('장소', '공간');
+
+      expect(renamed.map(e => e.id)).toEqual([cafeId]);
+      expect((await engine.getEntryById(cafeId))?.tags).toEqual(['공간/카페', '감성']);
+      expect((await engine.history(cafeId)).map(r => r.operation)).toEqual(['saveEntry', 'renameTag']);
+    });
+
+    it('should merge tags into one and undo it in one step', async () => {
+      await engine.mergeTags(['감성', '감성적'], '감성');
+
+      expect(await engine.listTags()).toContainEqual({ tag: '감성', count: 2 });
+      expect((await engine.getEntryById(musicId))?.tags).toEqual(['음악', '감성']);
+
+      expect((await engine.undo())?.operation).toBe('mergeTags');
+      expect((await engine.getEntryById(musicId))?.tags).toEqual(['음악', '감성적']);
+      expect((await engine.getEntryById(cafeId))?.tags).toEqual(['장소/카페', '감성']);
+    });
+
+    it('should delete a tag from trashed entries as well', async () => {
+      await engine.deleteEntry(musicId);
+      await engine.deleteTag('음악');
+
+      expect((await engine.getEntryById(musicId))?.tags).toEqual(['감성적']);
+    });
+
+    it('should reject unknown and empty tags', async () => {
+      await expect(engine.renameTag('없는 태그', '새 태그')).rejects.toThrow('Tag "없는 태그" not found');
+      await expect(engine.renameTag('음악', ' / ')).rejects.toThrow('Tag name cannot be empty');
+      await expect(engine.mergeTags([], '감성')).rejects.toThrow('No tags to merge');
+      await expect(engine.renameTag('장소', '장소/카페')).rejects.toThrow('Cannot move tag "장소" into its own subtag "장소/카페"');
+      await expect(engine.mergeTags(['음악', '장소'], '장소/실내')).rejects.toThrow('Cannot move tag "장소" into its own subtag "장소/실내"');
+      await expect(engine.deleteTag('장소/카페/실내')).rejects.toThrow('Tag "장소/카페/실내" not found');
+    });
+  });
+
+  describe('duplicates', () => {
+    let collectionId: string;
+    let inputId: string;
+    let suggestionId: string;
+
+    beforeEach(async () => {
+      collectionId = (await engine.createCollection('중복 모음')).id;
+      inputId = (await engine.addInput(InputType.Expression, '노래 소리가 잔잔하게 들린다')).id;
+      suggestionId = (await engine.generateSuggestions(inputId)).id;
+    });
+
+    it('should reuse an input with the same normalized content when asked', async () => {
+      const reused = await engine.addInput(InputType.Expression, ' 노래소리가, 잔잔하게 들린다. ', { reuseExisting: true });
+      expect(reused.id).toBe(inputId);
+
+      const added = await engine.addInput(InputType.Expression, '노래소리가 잔잔하게 들린다');
+      expect(added.id).not.toBe(inputId);
+    });
+
+    it('should warn about or refuse a duplicate entry per policy', async () => {
+      const warnings: string[] = [];
+      const storage = new InMemoryStorage();
+      engine = new VocaEngine({ llmProvider: mockProvider, storage, onWarning: message => warnings.push(message) });
+      const collection = await engine.createCollection('정책');
+      const input = await engine.addInput(InputType.Expression, '잔잔한 노래');
+      const suggestion = await engine.generateSuggestions(input.id);
+      const again = await engine.addInput(InputType.Expression, '잔잔한  노래!');
+
+      const first = await engine.saveEntry(input.id, suggestion.id, collection.id);
+      const second = await engine.saveEntry(input.id, suggestion.id, collection.id);
+      expect(warnings).toEqual([`Entry ${first.id} in collection ${collection.id} already has the input "잔잔한 노래"`]);
+
+      // Explicit save times, so the newest-first listing puts the duplicate ahead of the first entry
+      await storage.saveEntry(Entry.fromJSON({ ...first, savedAt: '2026-01-01T00:00:00.000Z' }));
+      await storage.saveEntry(Entry.fromJSON({ ...second, savedAt: '2026-01-02T00:00:00.000Z' }));
+
+      const suggestionAgain = await engine.generateSuggestions(again.id);
+      await expect(engine.saveEntry(again.id, suggestionAgain.id, collection.id, [], { duplicates: 'refuse' }))
+        .rejects.toThrow(`Entry ${first.id} in collection ${collection.id} already has the input`);
+      expect(await engine.listEntries(collection.id)).toHaveLength(2);
+    });
+
+    it('should not look for duplicates when no one receives the warning', async () => {
+      const storage = new InMemoryStorage();
+      engine = new VocaEngine({ llmProvider: mockProvider, storage });
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const listEntries = jest.spyOn(storage, 'listEntries');
+      const collection = await engine.createCollection('조용히');
+      const input = await engine.addInput(InputType.Expression, '잔잔한 노래');
+      const suggestion = await engine.generateSuggestions(input.id);
+
+      await engine.saveEntry(input.id, suggestion.id, collection.id);
+      await engine.saveEntry(input.id, suggestion.id, collection.id);
+      expect(listEntries).not.toHaveBeenCalled();
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('should merge duplicates into the earliest entry and trash the rest', async () => {
+      const first = await engine.saveEntry(inputId, suggestionId, collectionId, ['음악']);
+      const second = await engine.saveEntry(inputId, suggestionId, collectionId, ['감성'], { duplicates: 'allow' });
+      await engine.addCandidate(second.id, '나직이');
+
+      const [group] = await engine.findDuplicates();
+      expect(group.content).toBe('노래 소리가 잔잔하게 들린다');
+      expect(group.entries.map(e => e.id)).toEqual([first.id, second.id]);
+
+      const report = await engine.dedupe();
+      expect(report.merged.map(e => e.id)).toEqual([first.id]);
+      expect(report.trashed).toEqual([second.id]);
+      expect(report.merged[0].tags).toEqual(['음악', '감성']);
+      expect(report.merged[0].candidates).toContainEqual({ text: '나직이' });
+      expect((await engine.listEntries(collectionId)).map(e => e.id)).toEqual([first.id]);
+      expect(await engine.findDuplicates()).toEqual([]);
+
+      await engine.undo();
+      expect(await engine.listEntries(collectionId)).toHaveLength(2);
+    });
+  });
+
+  describe('trash', () => {
+    let collectionId: string;
+    let entryIds: string[];
+
+    beforeEach(async () => {
+      collectionId = (await engine.createCollection('휴지통 테스트')).id;
+      entryIds = [];
+      for (const content of ['잔잔한 노래', '조용한 노래']) {
+        const input = await engine.addInput(InputType.Expression, content);
+        const suggestion = await engine.generateSuggestions(input.id);
+        entryIds.push((await engine.saveEntry(input.id, suggestion.id, collectionId)).id);
+      }
+    });
+
+    it('should move deleted entries to the trash and hide them', async () => {
+      await engine.deleteEntry(entryIds[0]);
+
+      expect((await engine.listEntries(collectionId)).map(e => e.id)).toEqual([entryIds[1]]);
+      expect((await engine.searchEntries(collectionId, '노래')).map(e => e.id)).toEqual([entryIds[1]]);
+      expect((await engine.searchAllEntries('노래')).map(e => e.id)).toEqual([entryIds[1]]);
+      expect((await engine.getStats()).entries).toBe(1);
+
+      const trash = await engine.listTrash();
+      expect(trash.entries.map(e => e.id)).toEqual([entryIds[0]]);
+    });
+
+    it('should restore a trashed entry', async () => {
+      await engine.deleteEntry(entryIds[0]);
+
+      const restored = await engine.restoreEntry(entryIds[0]);
+
+      expect(restored.deletedAt).toBeUndefined();
+      expect(await engine.listEntries(collectionId)).toHaveLength(2);
+      expect((await engine.listTrash()).entries).toHaveLength(0);
+    });
+
+    it('should restore a collection with the entries trashed along with it', async () => {
+      await engine.deleteEntry(entryIds[0]);
+      await engine.deleteCollection(collectionId, { cascade: true });
+
+      await expect(engine.restoreEntry(entryIds[1]))
+        .rejects.toThrow(`Restore collection ${collectionId} before restoring entry ${entryIds[1]}`);
+
+      await engine.restoreCollection(collectionId);
+
+      expect(await engine.listCollections()).toHaveLength(1);
+      // The entry deleted on its own stays in the trash
+      expect((await engine.listEntries(collectionId)).map(e => e.id)).toEqual([entryIds[1]]);
+      expect((await engine.listTrash()).entries.map(e => e.id)).toEqual([entryIds[0]]);
+    });
+
+    it('should restore the entries of a cascade even when their deletion times differ', async () => {
+      const storage = new InMemoryStorage();
+      engine = new VocaEngine({ llmProvider: mockProvider, storage });
+      const collection = await engine.createCollection('복원할 모음');
+      const input = await engine.addInput(InputType.Expression, '잔잔한 노래');
+      const suggestion = await engine.generateSuggestions(input.id);
+      const entry = await engine.saveEntry(input.id, suggestion.id, collection.id);
+      await engine.deleteCollection(collection.id, { cascade: true });
+
+      // As if the entry's deletion time had been stored with a different precision
+      const trashed = (await storage.getEntry(entry.id))!;
+      await storage.saveEntry(Entry.fromJSON({ ...trashed, deletedAt: new Date(trashed.deletedAt!.getTime() + 1) }));
+
+      await engine.restoreCollection(collection.id);
+      expect((await engine.listEntries(collection.id)).map(e => e.id)).toEqual([entry.id]);
+    });
+
+    it('should refuse to edit or delete trashed entries again', async () => {
+      await engine.deleteEntry(entryIds[0]);
+
+      await expect(engine.deleteEntry(entryIds[0])).rejects.toThrow(`Entry with id ${entryIds[0]} is in the trash`);
+      await expect(engine.updateEntry(entryIds[0], { note: '메모' })).rejects.toThrow('is in the trash');
+      await expect(engine.restoreEntry(entryIds[1])).rejects.toThrow('is not in the trash');
+    });
+
+    it('should purge the trash permanently', async () => {
+      await engine.deleteEntry(entryIds[0]);
+      await engine.deleteCollection(collectionId, { cascade: true });
+
+      const report = await engine.purgeTrash();
+
+      expect(report).toEqual({ collections: 1, entries: 2 });
+      expect(await engine.getCollectionById(collectionId)).toBeNull();
+      expect(await engine.getEntryById(entryIds[0])).toBeNull();
+      expect(await engine.listTrash()).toEqual({ collections: [], entries: [] });
+    });
+
+    it('should purge only the given entries or items deleted before a date', async () => {
+      await engine.deleteEntry(entryIds[0]);
+      await engine.deleteEntry(entryIds[1]);
+
+      expect(await engine.purgeTrash({ before: new Date(0) })).toEqual({ collections: 0, entries: 0 });
+      expect(await engine.purgeTrash({ entryIds: [entryIds[0]] })).toEqual({ collections: 0, entries: 1 });
+      expect((await engine.listTrash()).entries.map(e => e.id)).toEqual([entryIds[1]]);
+    });
+
+    it('should purge items older than the retention period automatically', async () => {
+      const storage = new InMemoryStorage();
+      const retaining = new VocaEngine({ llmProvider: mockProvider, storage, trashRetentionDays: 30 });
+      const collection = await retaining.createCollection('보존 기간');
+      const input = await retaining.addInput(InputType.Expression, '오래된 노래');
+      const suggestion = await retaining.generateSuggestions(input.id);
+      const entry = await retaining.saveEntry(input.id, suggestion.id, collection.id);
+
+      // Trashed 31 days ago
+      const old = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+      await storage.saveEntry(Entry.fromJSON(entry).moveToTrash(old));
+
+      expect((await retaining.listTrash()).entries).toHaveLength(0);
+      expect(await retaining.getEntryById(entry.id)).toBeNull();
+    });
+
+    it('should not restore an entry past the retention period', async () => {
+      const storage = new InMemoryStorage();
+      const retaining = new VocaEngine({ llmProvider: mockProvider, storage, trashRetentionDays: 30 });
+      const collection = await retaining.createCollection('보존 기간');
+      const input = await retaining.addInput(InputType.Expression, '오래된 노래');
+      const suggestion = await retaining.generateSuggestions(input.id);
+      const entry = await retaining.saveEntry(input.id, suggestion.id, collection.id);
+
+      const old = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+      await storage.saveEntry(Entry.fromJSON(entry).moveToTrash(old));
+
+      await expect(retaining.restoreEntry(entry.id)).rejects.toThrow(`Entry with id ${entry.id} not found`);
+    });
+  });
+
+  describe('journal', () => {
+    let collectionId: string;
+    let entryId: string;
+
+    beforeEach(async () => {
+      collectionId = (await engine.createCollection('기록 모음')).id;
+      const input = await engine.addInput(InputType.Expression, '잔잔한 노래');
+      const suggestion = await engine.generateSuggestions(input.id);
+      entryId = (await engine.saveEntry(input.id, suggestion.id, collectionId)).id;
+    });
+
+    it('should list the operations that changed a record, oldest first', async () => {
+      await engine.renameCollection(collectionId, '새 이름');
+      await engine.updateEntryTags(entryId, ['카페']);
+
+      expect((await engine.history(collectionId)).map(r => r.operation))
+        .toEqual(['createCollection', 'renameCollection']);
+
+      const [saved, tagged] = await engine.history(entryId);
+      expect(saved.operation).toBe('saveEntry');
+      expect(saved.changes[0].before).toBeNull();
+      expect(tagged.operation).toBe('updateEntryTags');
+      expect(tagged.changes[0].before!.tags).toEqual([]);
+      expect(tagged.changes[0].after!.tags).toEqual(['카페']);
+    });
+
+    it('should undo and redo the latest operation', async () => {
+      await engine.renameCollection(collectionId, '새 이름');
+
+      const undone = await engine.undo();
+      expect(undone?.operation).toBe('renameCollection');
+      expect((await engine.getCollectionById(collectionId))?.name).toBe('기록 모음');
+
+      const redone = await engine.redo();
+      expect(redone?.id).toBe(undone?.id);
+      expect((await engine.getCollectionById(collectionId))?.name).toBe('새 이름');
+
+      expect((await engine.history(collectionId)).map(r => r.action))
+        .toEqual(['apply', 'apply', 'undo', 'redo']);
+    });
+
+    it('should undo several operations in reverse order', async () => {
+      await engine.deleteEntry(entryId);
+      expect(await engine.listEntries(collectionId)).toHaveLength(0);
+
+      expect((await engine.undo())?.operation).toBe('deleteEntry');
+      expect((await engine.listEntries(collectionId)).map(e => e.id)).toEqual([entryId]);
+
+      expect((await engine.undo())?.operation).toBe('saveEntry');
+      expect(await engine.getEntryById(entryId)).toBeNull();
+
+      expect((await engine.undo())?.operation).toBe('generateSuggestions');
+      const addInput = await engine.undo();
+      expect(addInput?.operation).toBe('addInput');
+      expect(await engine.getInputById(addInput!.changes[0].id)).toBeNull();
+    });
+
+    it('should return null when there is nothing to undo or redo', async () => {
+      const fresh = new VocaEngine({ llmProvider: mockProvider });
+
+      expect(await fresh.undo()).toBeNull();
+      expect(await fresh.redo()).toBeNull();
+    });
+
+    it('should forget undone operations once a new one is applied', async () => {
+      await engine.renameCollection(collectionId, '새 이름');
+      await engine.undo();
+      await engine.archiveCollection(collectionId);
+
+      expect(await engine.redo()).toBeNull();
+      expect((await engine.undo())?.operation).toBe('archiveCollection');
+      expect((await engine.getCollectionById(collectionId))?.name).toBe('기록 모음');
+    });
+
+    it('should undo an operation that is still queued', async () => {
+      const renaming = engine.renameCollection(collectionId, '새 이름');
+      const undoing = engine.undo();
+      await renaming;
+
+      expect((await undoing)?.operation).toBe('renameCollection');
+      expect((await engine.getCollectionById(collectionId))?.name).toBe('기록 모음');
+    });
+
+    it('should report the error of a failed operation without journaling it', async () => {
+      const storage = new InMemoryStorage();
+      const journaled = new VocaEngine({ llmProvider: mockProvider, storage });
+      const collection = await journaled.createCollection('원래 이름');
+
+      jest.spyOn(storage, 'appendJournal').mockRejectedValue(new Error('journal unavailable'));
+      jest.spyOn(storage, 'updateCollection').mockRejectedValueOnce(new Error('disk full'));
+      await expect(journaled.renameCollection(collection.id, '새 이름')).rejects.toThrow('disk full');
+      expect(storage.appendJournal).not.toHaveBeenCalled();
+    });
+
+    it('should record a replacing import but refuse to undo it', async () => {
+      const exported = await engine.exportData();
+      await engine.importData(exported);
+
+      await expect(engine.undo()).rejects.toThrow('Cannot undo importData');
+    });
+
+    it('should refuse to undo when a record was changed outside the journal', async () => {
+      const storage = new InMemoryStorage();
+      const journaled = new VocaEngine({ llmProvider: mockProvider, storage });
+      const collection = await journaled.createCollection('원래 이름');
+      await journaled.renameCollection(collection.id, '새 이름');
+      await storage.updateCollection(collection.id, { name: '다른 이름' });
+
+      await expect(journaled.undo())
+        .rejects.toThrow(`Cannot undo renameCollection: collections ${collection.id} has changed since`);
+      expect((await journaled.getCollectionById(collection.id))?.name).toBe('다른 이름');
+    });
+
+    it('should stamp records with the configured actor', async () => {
+      const journaled = new VocaEngine({ llmProvider: mockProvider, actor: 'mina' });
+      const collection = await journaled.createCollection('작성자');
+
+      const [record] = await journaled.history(collection.id);
+      expect(record.actor).toBe('mina');
+      expect(record.timestamp).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('archiveCollection', () => {
+    it('should hide archived collections from listing, global search and stats', async () => {
+      const collection = await engine.createCollection('보관할 모음');
+      const input = await engine.addInput(InputType.Expression, '잔잔한 노래');
+      const suggestion = await engine.generateSuggestions(input.id);
+      await engine.saveEntry(input.id, suggestion.id, collection.id);
+
+      const archived = await engine.archiveCollection(collection.id);
+      expect(archived.archivedAt).toBeInstanceOf(Date);
+
+      expect(await engine.listCollections()).toHaveLength(0);
+      expect(await engine.listCollections({ includeArchived: true })).toHaveLength(1);
+      expect(await engine.searchAllEntries('노래')).toHaveLength(0);
+      expect(await engine.searchAllEntries('노래', { includeArchived: true })).toHaveLength(1);
+      expect(await engine.searchEntries(collection.id, '노래')).toHaveLength(1);
+
+      const stats = await engine.getStats();
+      expect(stats.collections).toBe(0);
+      expect(stats.archivedCollections).toBe(1);
+      expect(stats.entries).toBe(0);
+    });
+
+    it('should restore a collection with unarchiveCollection', async () => {
+      const collection = await engine.createCollection('복원할 모음');
+      await engine.archiveCollection(collection.id);
+
+      const restored = await engine.unarchiveCollection(collection.id);
+      expect(restored.archivedAt).toBeUndefined();
+      expect(await engine.listCollections()).toHaveLength(1);
+    });
+  });
+
+  describe('findSimilarEntries', () => {
+    let embeddingProvider: MockEmbeddingProvider;
+    let storage: InMemoryStorage;
+    let calmId: string;
+    let rainId: string;
+
+    const stored = async (texts: string[]) =>
+      (await storage.getEmbeddings('mock-embedding', texts)).map(embedding => embedding.text);
+
+    beforeEach(async () => {
+      embeddingProvider = new MockEmbeddingProvider();
+      storage = new InMemoryStorage();
+      engine = new VocaEngine({ llmProvider: mockProvider, embeddingProvider, storage });
+
+      const collectionId = (await engine.createCollection('의미 모음')).id;
+      const save = async (type: InputType, content: string, candidates: string[]) => {
+        const input = await engine.addInput(type, content);
+        const suggestion = await engine.generateSuggestions(input.id);
+        const entry = await engine.saveEntry(input.id, suggestion.id, collectionId);
+        return (await engine.updateEntry(entry.id, { candidates })).id;
+      };
+      calmId = await save(InputType.Explanation, '밤의 카페 분위기', ['잔잔하게', '나직이']);
+      rainId = await save(InputType.Explanation, '비 오는 날의 풍경', ['촉촉한', '운치 있는']);
+    });
+
+    it('should find entries related in meaning without shared words', async () => {
+      const [best, next] = await engine.findSimilarEntries('고요한', 2);
+
+      expect(best.entry.id).toBe(calmId);
+      expect(best.match).toEqual({ field: 'candidates', text: '잔잔하게' });
+      expect(best.score).toBeGreaterThan(next.score);
+      expect(next.entry.id).toBe(rainId);
+    });
+
+    it('should embed entry texts when saved and never store the search text', async () => {
+      expect(await stored(['밤의 카페 분위기', '잔잔하게', '촉촉한'])).toEqual(['밤의 카페 분위기', '잔잔하게', '촉촉한']);
+      const embed = jest.spyOn(embeddingProvider, 'embed');
+
+      await engine.findSimilarEntries('고요한');
+      await engine.findSimilarEntries('고요한');
+      expect(embed.mock.calls).toEqual([[['고요한']], [['고요한']]]);
+      expect(await stored(['고요한'])).toEqual([]);
+
+      // A search for an entry text reuses its stored vector
+      await engine.findSimilarEntries('잔잔하게');
+      expect(embed).toHaveBeenCalledTimes(2);
+    });
+
+    it('should embed texts of entries saved before the provider was configured on the first search', async () => {
+      const shared = new InMemoryStorage();
+      const plain = new VocaEngine({ llmProvider: mockProvider, storage: shared });
+      const collectionId = (await plain.createCollection('나중에')).id;
+      const input = await plain.addInput(InputType.Expression, '새벽 공기');
+      await plain.saveEntry(input.id, (await plain.generateSuggestions(input.id)).id, collectionId);
+
+      const later = new VocaEngine({ llmProvider: mockProvider, embeddingProvider, storage: shared });
+      const [found] = await later.findSimilarEntries('새벽 공기', 1);
+      expect(found.entry.input.content).toBe('새벽 공기');
+    });
+
+    it('should delete the vectors of texts no entry uses any more', async () => {
+      await engine.updateEntry(calmId, { candidates: ['잔잔하게', '고즈넉이'] });
+      expect(await stored(['나직이', '고즈넉이'])).toEqual(['고즈넉이']);
+
+      // Trashed entries can come back, so their texts stay embedded until purged
+      await engine.deleteEntry(rainId);
+      expect(await stored(['비 오는 날의 풍경', '촉촉한'])).toHaveLength(2);
+      await engine.purgeTrash();
+      expect(await stored(['비 오는 날의 풍경', '촉촉한'])).toEqual([]);
+      expect(await stored(['잔잔하게'])).toEqual(['잔잔하게']);
+    });
+
+    it('should keep an operation that succeeded when embedding its texts fails', async () => {
+      const warnings: string[] = [];
+      const failing = new VocaEngine({
+        llmProvider: mockProvider,
+        embeddingProvider,
+        storage,
+        onWarning: message => warnings.push(message)
+      });
+      jest.spyOn(embeddingProvider, 'embed').mockRejectedValueOnce(new Error('offline'));
+
+      const updated = await failing.updateEntry(calmId, { candidates: ['잔잔하게', '고즈넉이'] });
+      expect(updated.candidates.map(c => c.text)).toEqual(['잔잔하게', '고즈넉이']);
+      expect(warnings).toEqual(['Could not update stored embeddings: offline']);
+      expect((await failing.findSimilarEntries('고즈넉이', 1))[0].match.text).toBe('고즈넉이');
+    });
+
+    it('should reject searches it cannot run', async () => {
+      await expect(engine.findSimilarEntries(' ')).rejects.toThrow('Search text cannot be empty');
+      await expect(engine.findSimilarEntries('고요한', 0)).rejects.toThrow('Invalid number of results: 0');
+
+      const plain = new VocaEngine({ llmProvider: mockProvider });
+      await expect(plain.findSimilarEntries('고요한')).rejects.toThrow('No embedding provider configured');
+    });
   });
 
   describe('getStats', () => {
@@ -145,5 +1155,15 @@ describe('VocaEngine', () => {
       expect(stats.entries).toBe(1);
       expect(stats.totalSuggestions).toBeGreaterThan(0);
     });
+
+    it('should count the candidates kept on each entry', async () => {
+      const collection = await engine.createCollection('테스트');
+      const input = await engine.addInput(InputType.Expression, '테스트');
+      const suggestion = await engine.generateSuggestions(input.id);
+      const entry = await engine.saveEntry(input.id, suggestion.id, collection.id);
+      await engine.removeCandidate(entry.id, suggestion.candidates[0].text);
+
+      expect((await engine.getStats()).totalSuggestions).toBe(suggestion.candidates.length - 1);
+    });
   });
 });
\ No newline at end of file
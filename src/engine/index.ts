@@ -1 +1,3 @@
-export { VocaEngine } from './VocaEngine';
\ No newline at end of file
+export { VocaEngine } from './VocaEngine';
+export { EXPORT_FORMAT, EXPORT_VERSION, EXPORT_MIGRATIONS } from './ExportSchema';
+export type { ExportMigration } from './ExportSchema';
\ No newline at end of file
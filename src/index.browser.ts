@@ -1,27 +1,108 @@
 // Browser-compatible entry point for VocaEngine
-// Excludes CLI and Node.js specific functionality
+// Excludes CLI and Node.js specific functionality (OpenAIProvider, FileStorage, SqliteStorage);
+// providers are imported module by module, as the providers index loads the OpenAI SDK
 
 export { VocaEngine } from './engine';
-export { MockLLMProvider } from './providers';
-export { InMemoryStorage } from './utils';
+export { MockLLMProvider } from './providers/MockLLMProvider';
+export { ChatCompletionsProvider } from './providers/ChatCompletionsProvider';
+export { AnthropicProvider } from './providers/AnthropicProvider';
+export { ProviderRegistry, createProviderRegistry } from './providers/ProviderRegistry';
+export { ResilientProvider } from './providers/ResilientProvider';
+export { FallbackProvider } from './providers/FallbackProvider';
+export { ProviderError, toProviderError, errorCode } from './providers/errors';
+export { MockEmbeddingProvider } from './providers/MockEmbeddingProvider';
+export type { ResilienceClock } from './providers/ResilientProvider';
+export type { FallbackMember } from './providers/FallbackProvider';
+export { InMemoryStorage } from './utils/InMemoryStorage';
+export { IndexedDBStorage } from './utils/IndexedDBStorage';
+export type { IndexedDBStorageOptions } from './utils/IndexedDBStorage';
+export { SearchIndex, tokenize, highlightEntry } from './utils/SearchIndex';
+export {
+  decompose,
+  getChoseong,
+  toJamo,
+  isChoseong,
+  isHangulSyllable,
+  containsChoseong,
+  matchesChoseong
+} from './utils/Hangul';
+export type { HangulSyllable } from './utils/Hangul';
+export { fuzzyFind, matchDistance } from './utils/Fuzzy';
+export type { FuzzyMatch } from './utils/Fuzzy';
+export { parseSearchQuery, matchesSearchQuery } from './utils/SearchQuery';
+export { normalizeTag, matchesTags, countTags } from './utils/Tags';
+export { cosineSimilarity } from './utils/Embeddings';
+export { normalizeContent, findDuplicateGroups } from './utils/Duplicates';
+export { toCandidate } from './utils/Candidates';
 export { 
   ExpressionInput, 
   Suggestion, 
   Collection, 
-  Entry 
+  Entry,
+  JournalRecord
 } from './models';
 
 // Export types but not OpenAIProvider for browser compatibility
 export type {
   InputType,
   ExpressionInput as IExpressionInput,
+  Candidate,
   Suggestion as ISuggestion,
   Collection as ICollection,
   Entry as IEntry,
   VocaEngineOperations,
   LLMProvider,
+  LLMProviderFactory,
+  LLMProviderRegistry,
+  ProviderErrorCode,
+  ResilienceOptions,
+  AttributedSuggestions,
+  FallbackProviderConfig,
+  CircuitBreakerOptions,
+  CircuitState,
+  ProviderHealth,
+  ProviderSettings,
+  ProviderCallOptions,
+  GenerateSuggestionsOptions,
+  SuggestionCacheOptions,
+  SuggestionCacheStore,
+  SuggestionCacheMetrics,
+  CachedSuggestion,
+  EmbeddingProvider,
+  StoredEmbedding,
+  SimilarEntry,
+  FindSimilarOptions,
+  AddInputOptions,
+  SaveEntryOptions,
+  DuplicatePolicy,
+  DuplicateGroup,
+  DedupeOptions,
+  DedupeReport,
   SuggestionContext,
   SearchOptions,
+  SearchField,
+  SearchHighlight,
+  SearchResult,
+  RankedSearchOptions,
+  SearchQueryNode,
+  TagCount,
+  ListCollectionsOptions,
+  DeleteCollectionOptions,
+  UpdateEntryOptions,
+  TrashContents,
+  PurgeTrashOptions,
+  PurgeReport,
   VocaEngineConfig,
-  StorageProvider
+  StorageProvider,
+  StorageRecordKind,
+  StorageRecordMap,
+  ExportPayload,
+  ImportMode,
+  MergeStrategy,
+  ImportOptions,
+  ImportConflict,
+  ImportReport,
+  JournalAction,
+  JournalChange,
+  JournalRecord as IJournalRecord
 } from './types';
\ No newline at end of file
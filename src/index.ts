@@ -1,11 +1,49 @@
 // Main Node.js entry point for VocaEngine
-export { VocaEngine } from './engine';
-export { MockLLMProvider, OpenAIProvider } from './providers';
-export { InMemoryStorage } from './utils';
+export { VocaEngine, EXPORT_FORMAT, EXPORT_VERSION, EXPORT_MIGRATIONS } from './engine';
+export type { ExportMigration } from './engine';
+export {
+  MockLLMProvider,
+  OpenAIProvider,
+  ChatCompletionsProvider,
+  AnthropicProvider,
+  ProviderRegistry,
+  createProviderRegistry,
+  ResilientProvider,
+  FallbackProvider,
+  ProviderError,
+  toProviderError,
+  errorCode,
+  MockEmbeddingProvider,
+  OpenAIEmbeddingProvider
+} from './providers';
+export type { ResilienceClock, FallbackMember } from './providers';
+export { InMemoryStorage, FileStorage, SqliteStorage, IndexedDBStorage, SearchIndex, tokenize, highlightEntry } from './utils';
+export {
+  decompose,
+  getChoseong,
+  toJamo,
+  isChoseong,
+  isHangulSyllable,
+  containsChoseong,
+  matchesChoseong,
+  fuzzyFind,
+  matchDistance,
+  parseSearchQuery,
+  matchesSearchQuery,
+  normalizeTag,
+  matchesTags,
+  countTags,
+  cosineSimilarity,
+  normalizeContent,
+  findDuplicateGroups,
+  toCandidate
+} from './utils';
+export type { HangulSyllable, FuzzyMatch } from './utils';
 export { 
   ExpressionInput, 
   Suggestion, 
   Collection, 
-  Entry 
+  Entry,
+  JournalRecord
 } from './models';
 export * from './types';
\ No newline at end of file
@@ -5,6 +5,9 @@ export class Collection implements ICollection {
   public readonly id: string;
   public readonly name: string;
   public readonly createdAt: Date;
+  public readonly archivedAt?: Date;
+  public readonly deletedAt?: Date;
+  public readonly deletionId?: string;
 
   constructor(name: string, id?: string) {
     this.id = id || uuidv4();
@@ -19,6 +22,15 @@ export class Collection implements ICollection {
   static fromJSON(data: any): Collection {
     const collection = new Collection(data.name, data.id);
     (collection as any).createdAt = new Date(data.createdAt);
+    if (data.archivedAt) {
+      (collection as any).archivedAt = new Date(data.archivedAt);
+    }
+    if (data.deletedAt) {
+      (collection as any).deletedAt = new Date(data.deletedAt);
+    }
+    if (data.deletionId) {
+      (collection as any).deletionId = data.deletionId;
+    }
     return collection;
   }
 
@@ -26,7 +38,10 @@ export class Collection implements ICollection {
     return {
       id: this.id,
       name: this.name,
-      createdAt: this.createdAt.toISOString()
+      createdAt: this.createdAt.toISOString(),
+      ...(this.archivedAt ? { archivedAt: this.archivedAt.toISOString() } : {}),
+      ...(this.deletedAt ? { deletedAt: this.deletedAt.toISOString() } : {}),
+      ...(this.deletionId ? { deletionId: this.deletionId } : {})
     };
   }
 
@@ -34,6 +49,22 @@ export class Collection implements ICollection {
     return new Collection(newName, this.id);
   }
 
+  archive(): Collection {
+    return Collection.fromJSON({ ...this.toJSON(), archivedAt: new Date() });
+  }
+
+  unarchive(): Collection {
+    return Collection.fromJSON({ ...this.toJSON(), archivedAt: undefined });
+  }
+
+  isArchived(): boolean {
+    return !!this.archivedAt;
+  }
+
+  isTrashed(): boolean {
+    return !!this.deletedAt;
+  }
+
   isValidName(): boolean {
     return this.name.trim().length > 0;
   }
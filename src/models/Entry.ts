@@ -1,26 +1,43 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Entry as IEntry, ExpressionInput, Suggestion } from '../types';
+import { Candidate, Entry as IEntry, ExpressionInput, Suggestion } from '../types';
+import { ExpressionInput as ExpressionInputModel } from './ExpressionInput';
+import { Suggestion as SuggestionModel } from './Suggestion';
+import { toCandidate } from '../utils/Candidates';
 
 export class Entry implements IEntry {
   public readonly id: string;
   public readonly input: ExpressionInput;
   public readonly suggestion: Suggestion;
   public readonly collectionId: string;
+  public readonly collectionIds: string[];
   public readonly tags: string[];
+  public readonly candidates: Candidate[];
+  public readonly favorites: string[];
+  public readonly note?: string;
+  public readonly example?: string;
   public readonly savedAt: Date;
+  public readonly updatedAt?: Date;
+  public readonly deletedAt?: Date;
+  public readonly deletionId?: string;
 
   constructor(
     input: ExpressionInput,
     suggestion: Suggestion,
     collectionId: string,
     tags: string[] = [],
-    id?: string
+    id?: string,
+    collectionIds: string[] = []
   ) {
     this.id = id || uuidv4();
     this.input = input;
     this.suggestion = suggestion;
     this.collectionId = collectionId;
+    // The home collection always comes first, without duplicates
+    this.collectionIds = Array.from(new Set([collectionId, ...collectionIds]));
     this.tags = [...tags]; // Create a copy to prevent mutations
+    // Curation starts from the generated candidates; the suggestion itself is never edited
+    this.candidates = suggestion.candidates.map(toCandidate);
+    this.favorites = [];
     this.savedAt = new Date();
   }
 
@@ -35,27 +52,111 @@ export class Entry implements IEntry {
 
   static fromJSON(data: any): Entry {
     const entry = new Entry(
-      data.input,
-      data.suggestion,
+      ExpressionInputModel.fromJSON(data.input),
+      SuggestionModel.fromJSON(data.suggestion),
       data.collectionId,
       data.tags,
-      data.id
+      data.id,
+      data.collectionIds
     );
     (entry as any).savedAt = new Date(data.savedAt);
+    if (Array.isArray(data.candidates)) {
+      (entry as any).candidates = data.candidates.map(toCandidate);
+    }
+    if (Array.isArray(data.favorites)) {
+      (entry as any).favorites = [...data.favorites];
+    }
+    if (data.note) {
+      (entry as any).note = data.note;
+    }
+    if (data.example) {
+      (entry as any).example = data.example;
+    }
+    if (data.updatedAt) {
+      (entry as any).updatedAt = new Date(data.updatedAt);
+    }
+    if (data.deletedAt) {
+      (entry as any).deletedAt = new Date(data.deletedAt);
+    }
+    if (data.deletionId) {
+      (entry as any).deletionId = data.deletionId;
+    }
     return entry;
   }
 
   toJSON(): Record<string, any> {
     return {
       id: this.id,
-      input: this.input,
-      suggestion: this.suggestion,
+      input: ExpressionInputModel.fromJSON(this.input).toJSON(),
+      suggestion: SuggestionModel.fromJSON(this.suggestion).toJSON(),
       collectionId: this.collectionId,
+      collectionIds: [...this.collectionIds],
       tags: [...this.tags],
-      savedAt: this.savedAt.toISOString()
+      candidates: this.candidates.map(toCandidate),
+      favorites: [...this.favorites],
+      ...(this.note ? { note: this.note } : {}),
+      ...(this.example ? { example: this.example } : {}),
+      savedAt: this.savedAt.toISOString(),
+      ...(this.updatedAt ? { updatedAt: this.updatedAt.toISOString() } : {}),
+      ...(this.deletedAt ? { deletedAt: this.deletedAt.toISOString() } : {}),
+      ...(this.deletionId ? { deletionId: this.deletionId } : {})
     };
   }
 
+  moveToTrash(deletedAt: Date = new Date(), deletionId?: string): Entry {
+    return Entry.fromJSON({ ...this.toJSON(), deletedAt, deletionId });
+  }
+
+  restore(): Entry {
+    return Entry.fromJSON({ ...this.toJSON(), deletedAt: undefined, deletionId: undefined });
+  }
+
+  isTrashed(): boolean {
+    return !!this.deletedAt;
+  }
+
+  belongsTo(collectionId: string): boolean {
+    return this.collectionIds.includes(collectionId);
+  }
+
+  // Change the home collection, keeping the id, savedAt and other memberships
+  moveTo(collectionId: string): Entry {
+    if (collectionId === this.collectionId) {
+      return this;
+    }
+    return this.withCollections(collectionId, this.collectionIds.filter(id => id !== this.collectionId));
+  }
+
+  // A new entry with the same content and curation, saved now in one collection
+  copyTo(collectionId: string): Entry {
+    return Entry.fromJSON({
+      ...this.toJSON(),
+      id: uuidv4(),
+      collectionId,
+      collectionIds: [collectionId],
+      savedAt: new Date()
+    });
+  }
+
+  addToCollection(collectionId: string): Entry {
+    if (this.belongsTo(collectionId)) {
+      return this;
+    }
+    return this.withCollections(this.collectionId, [...this.collectionIds, collectionId]);
+  }
+
+  // Removing the home collection promotes the next membership to home
+  removeFromCollection(collectionId: string): Entry {
+    if (!this.belongsTo(collectionId)) {
+      return this;
+    }
+    const remaining = this.collectionIds.filter(id => id !== collectionId);
+    if (remaining.length === 0) {
+      throw new Error(`Entry ${this.id} must belong to at least one collection`);
+    }
+    return this.withCollections(remaining[0], remaining);
+  }
+
   getTags(): string[] {
     return [...this.tags];
   }
@@ -72,57 +173,54 @@ export class Entry implements IEntry {
     if (this.hasTag(tag)) {
       return this;
     }
-    return new Entry(
-      this.input,
-      this.suggestion,
-      this.collectionId,
-      [...this.tags, tag],
-      this.id
-    );
+    return this.edit({ tags: [...this.tags, tag] });
   }
 
   removeTag(tag: string): Entry {
-    const newTags = this.tags.filter(t => t !== tag);
-    return new Entry(
-      this.input,
-      this.suggestion,
-      this.collectionId,
-      newTags,
-      this.id
-    );
+    return this.edit({ tags: this.tags.filter(t => t !== tag) });
   }
 
   updateTags(tags: string[]): Entry {
-    return new Entry(
-      this.input,
-      this.suggestion,
-      this.collectionId,
-      [...tags],
-      this.id
-    );
+    return this.edit({ tags: [...tags] });
   }
 
-  matchesQuery(query: string): boolean {
-    const lowerQuery = query.toLowerCase();
-    
-    // Search in input content
-    if (this.input.content.toLowerCase().includes(lowerQuery)) {
-      return true;
-    }
-    
-    // Search in suggestion candidates
-    if (this.suggestion.candidates.some(candidate => 
-      candidate.toLowerCase().includes(lowerQuery)
-    )) {
-      return true;
-    }
-    
-    // Search in tags
-    if (this.tags.some(tag => tag.toLowerCase().includes(lowerQuery))) {
-      return true;
+  // Replace the curated candidates; favorites that were dropped are unmarked
+  withCandidates(candidates: (string | Candidate)[]): Entry {
+    const kept = candidates.map(toCandidate);
+    return this.edit({
+      candidates: kept,
+      favorites: this.favorites.filter(favorite => kept.some(candidate => candidate.text === favorite))
+    });
+  }
+
+  withFavorites(favorites: string[]): Entry {
+    const texts = this.getCandidateTexts();
+    const unknown = favorites.find(favorite => !texts.includes(favorite));
+    if (unknown !== undefined) {
+      throw new Error(`Candidate "${unknown}" is not in entry ${this.id}`);
     }
-    
-    return false;
+    // Keep favorites in candidate order
+    return this.edit({ favorites: texts.filter(text => favorites.includes(text)) });
+  }
+
+  withNote(note?: string): Entry {
+    return this.edit({ note });
+  }
+
+  withExample(example?: string): Entry {
+    return this.edit({ example });
+  }
+
+  isFavorite(candidate: string): boolean {
+    return this.favorites.includes(candidate);
+  }
+
+  getCandidateTexts(): string[] {
+    return this.candidates.map(candidate => candidate.text);
+  }
+
+  getCandidate(text: string): Candidate | undefined {
+    return this.candidates.find(candidate => candidate.text === text);
   }
 
   getInputType(): string {
@@ -130,6 +228,15 @@ export class Entry implements IEntry {
   }
 
   getCandidateCount(): number {
-    return this.suggestion.candidates.length;
+    return this.candidates.length;
+  }
+
+  private withCollections(collectionId: string, collectionIds: string[]): Entry {
+    return Entry.fromJSON({ ...this.toJSON(), collectionId, collectionIds });
+  }
+
+  // Content edits keep the id and savedAt and record when they happened
+  private edit(changes: Record<string, any>): Entry {
+    return Entry.fromJSON({ ...this.toJSON(), ...changes, updatedAt: new Date() });
   }
 }
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JournalRecord as IJournalRecord, JournalAction, JournalChange } from '../types';
+
+export class JournalRecord implements IJournalRecord {
+  public readonly id: string;
+  public readonly operation: string;
+  public readonly action: JournalAction;
+  public readonly targetId?: string;
+  public readonly actor?: string;
+  public readonly timestamp: Date;
+  public readonly reversible: boolean;
+  public readonly changes: JournalChange[];
+
+  constructor(
+    operation: string,
+    changes: JournalChange[],
+    options: { action?: JournalAction; targetId?: string; actor?: string; reversible?: boolean } = {},
+    id?: string
+  ) {
+    this.id = id || uuidv4();
+    this.operation = operation;
+    this.action = options.action || 'apply';
+    this.targetId = options.targetId;
+    this.actor = options.actor;
+    this.timestamp = new Date();
+    this.reversible = options.reversible !== false;
+    this.changes = changes.map(change => ({ ...change }));
+  }
+
+  static fromJSON(data: any): JournalRecord {
+    const record = new JournalRecord(
+      data.operation,
+      data.changes,
+      {
+        action: data.action,
+        targetId: data.targetId,
+        actor: data.actor,
+        reversible: data.reversible
+      },
+      data.id
+    );
+    (record as any).timestamp = new Date(data.timestamp);
+    return record;
+  }
+
+  toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      operation: this.operation,
+      action: this.action,
+      ...(this.targetId ? { targetId: this.targetId } : {}),
+      ...(this.actor ? { actor: this.actor } : {}),
+      timestamp: this.timestamp.toISOString(),
+      reversible: this.reversible,
+      changes: this.changes.map(change => ({ ...change }))
+    };
+  }
+
+  // Ids of every record the operation touched
+  getEntityIds(): string[] {
+    return Array.from(new Set(this.changes.map(change => change.id)));
+  }
+
+  touches(entityId: string): boolean {
+    return this.changes.some(change => change.id === entityId);
+  }
+}
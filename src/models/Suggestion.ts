@@ -1,25 +1,31 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Suggestion as ISuggestion } from '../types';
+import { Candidate, Suggestion as ISuggestion } from '../types';
+import { toCandidate } from '../utils/Candidates';
 
 export class Suggestion implements ISuggestion {
   public readonly id: string;
   public readonly inputId: string;
-  public readonly candidates: string[];
+  public readonly candidates: Candidate[];
   public readonly generatedAt: Date;
+  public readonly provider?: string;
 
-  constructor(inputId: string, candidates: string[], id?: string) {
+  // Plain strings, as stored before candidates had details, become candidates with text only
+  constructor(inputId: string, candidates: (string | Candidate)[], id?: string, provider?: string) {
     this.id = id || uuidv4();
     this.inputId = inputId;
-    this.candidates = [...candidates]; // Create a copy to prevent mutations
+    this.candidates = candidates.map(toCandidate); // Create copies to prevent mutations
     this.generatedAt = new Date();
+    if (provider) {
+      this.provider = provider;
+    }
   }
 
-  static create(inputId: string, candidates: string[]): Suggestion {
-    return new Suggestion(inputId, candidates);
+  static create(inputId: string, candidates: (string | Candidate)[], provider?: string): Suggestion {
+    return new Suggestion(inputId, candidates, undefined, provider);
   }
 
   static fromJSON(data: any): Suggestion {
-    const suggestion = new Suggestion(data.inputId, data.candidates, data.id);
+    const suggestion = new Suggestion(data.inputId, data.candidates, data.id, data.provider || undefined);
     (suggestion as any).generatedAt = new Date(data.generatedAt);
     return suggestion;
   }
@@ -28,13 +34,18 @@ export class Suggestion implements ISuggestion {
     return {
       id: this.id,
       inputId: this.inputId,
-      candidates: [...this.candidates],
-      generatedAt: this.generatedAt.toISOString()
+      candidates: this.candidates.map(toCandidate),
+      generatedAt: this.generatedAt.toISOString(),
+      ...(this.provider ? { provider: this.provider } : {})
     };
   }
 
-  getCandidates(): string[] {
-    return [...this.candidates];
+  getCandidates(): Candidate[] {
+    return this.candidates.map(toCandidate);
+  }
+
+  getCandidateTexts(): string[] {
+    return this.candidates.map(candidate => candidate.text);
   }
 
   getCandidateCount(): number {
@@ -45,12 +56,12 @@ export class Suggestion implements ISuggestion {
     return this.candidates.length > 0;
   }
 
-  addCandidate(candidate: string): Suggestion {
-    return new Suggestion(this.inputId, [...this.candidates, candidate], this.id);
+  addCandidate(candidate: string | Candidate): Suggestion {
+    return new Suggestion(this.inputId, [...this.candidates, candidate], this.id, this.provider);
   }
 
-  filterCandidates(predicate: (candidate: string) => boolean): Suggestion {
+  filterCandidates(predicate: (candidate: Candidate) => boolean): Suggestion {
     const filteredCandidates = this.candidates.filter(predicate);
-    return new Suggestion(this.inputId, filteredCandidates, this.id);
+    return new Suggestion(this.inputId, filteredCandidates, this.id, this.provider);
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
 export { ExpressionInput } from './ExpressionInput';
 export { Suggestion } from './Suggestion';
 export { Collection } from './Collection';
-export { Entry } from './Entry';
\ No newline at end of file
+export { Entry } from './Entry';
+export { JournalRecord } from './JournalRecord';
\ No newline at end of file
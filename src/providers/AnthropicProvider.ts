@@ -0,0 +1,130 @@
+import { LLMProvider, ExpressionInput, Candidate, ProviderSettings, ProviderCallOptions } from '../types';
+import { ProviderError, toProviderError } from './errors';
+import { ChatMessage, StructuredRequestOptions, SYSTEM_PROMPT, SUGGESTIONS_SCHEMA, requestSuggestions, streamSuggestions, replyTokenLimit } from './prompts';
+import { FetchFunction, defaultFetch, environmentVariable, joinURL, postJSON, postEventStream } from './http';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// The model is made to call this tool, so its input arrives already shaped by SUGGESTIONS_SCHEMA
+const SUGGESTIONS_TOOL = {
+  name: 'suggest_vocabulary',
+  description: '어휘 대안 후보를 제출합니다.',
+  input_schema: SUGGESTIONS_SCHEMA
+};
+
+// Suggestions from the Anthropic Messages API; the key defaults to ANTHROPIC_API_KEY
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private config: Record<string, any>;
+
+  constructor(apiKey?: string) {
+    this.config = {
+      apiKey: apiKey || environmentVariable('ANTHROPIC_API_KEY'),
+      baseURL: 'https://api.anthropic.com',
+      model: 'claude-3-5-haiku-latest',
+      temperature: 0.7,
+      suggestionCount: 5,
+      repairAttempts: 1,
+      allowPartial: false
+    };
+  }
+
+  configure(config: Record<string, any>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  async generateVocabularySuggestions(input: ExpressionInput, options: ProviderCallOptions = {}): Promise<Candidate[]> {
+    this.checkKey();
+
+    try {
+      const fetchFn: FetchFunction = this.config.fetch || defaultFetch();
+
+      return await requestSuggestions(input, this.config.suggestionCount, this.structuredOptions(), async messages => {
+        const url = joinURL(this.config.baseURL, 'v1/messages');
+        const response = await postJSON(fetchFn, url, this.headers(), this.requestBody(messages), options.signal);
+
+        // The tool input is the structured reply; fall back to text blocks if the model answered in prose
+        const blocks: { type: string; name?: string; input?: unknown; text?: string }[] = response.content || [];
+        const toolUse = blocks.find(block => block.type === 'tool_use' && block.name === SUGGESTIONS_TOOL.name);
+        const content = toolUse
+          ? JSON.stringify(toolUse.input)
+          : blocks.filter(block => block.type === 'text').map(block => block.text).join('\n');
+        if (!content) {
+          throw new ProviderError('invalid-output', 'No content received from Anthropic');
+        }
+        return content;
+      });
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async *streamVocabularySuggestions(input: ExpressionInput, options: ProviderCallOptions = {}): AsyncGenerator<Candidate> {
+    this.checkKey();
+
+    try {
+      const fetchFn: FetchFunction = this.config.fetch || defaultFetch();
+      yield* streamSuggestions(input, this.config.suggestionCount, this.structuredOptions(),
+        messages => this.streamReply(fetchFn, messages, options.signal));
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  // The tool input as it streams in, or the text when the model answered in prose
+  private async *streamReply(fetchFn: FetchFunction, messages: ChatMessage[], signal?: AbortSignal): AsyncGenerator<string> {
+    const url = joinURL(this.config.baseURL, 'v1/messages');
+    const body = { ...this.requestBody(messages), stream: true };
+    for await (const event of postEventStream(fetchFn, url, this.headers(), body, signal)) {
+      if (event.type === 'error') {
+        const code = event.error?.type === 'overloaded_error' ? 'server' : 'unknown';
+        throw new ProviderError(code, `Anthropic stream failed: ${event.error?.message || event.error?.type}`);
+      }
+      if (event.type === 'content_block_delta') {
+        const piece = event.delta?.type === 'input_json_delta' ? event.delta.partial_json : event.delta?.text;
+        if (piece) {
+          yield piece;
+        }
+      }
+    }
+  }
+
+  private checkKey(): void {
+    if (!this.config.apiKey) {
+      throw new ProviderError('auth', 'No Anthropic API key configured. Set ANTHROPIC_API_KEY');
+    }
+  }
+
+  private headers(): Record<string, string> {
+    return { 'x-api-key': this.config.apiKey, 'anthropic-version': ANTHROPIC_VERSION };
+  }
+
+  private requestBody(messages: ChatMessage[]): Record<string, any> {
+    return {
+      model: this.config.model,
+      system: SYSTEM_PROMPT,
+      messages,
+      tools: [SUGGESTIONS_TOOL],
+      tool_choice: { type: 'tool', name: SUGGESTIONS_TOOL.name },
+      temperature: this.config.temperature,
+      max_tokens: replyTokenLimit(this.config.suggestionCount, this.config.maxTokens)
+    };
+  }
+
+  private structuredOptions(): StructuredRequestOptions {
+    return { repairAttempts: this.config.repairAttempts, allowPartial: this.config.allowPartial };
+  }
+
+  getModel(): string {
+    return this.config.model;
+  }
+
+  getSettings(): ProviderSettings {
+    return {
+      baseURL: this.config.baseURL,
+      model: this.config.model,
+      temperature: this.config.temperature,
+      suggestionCount: this.config.suggestionCount
+    };
+  }
+}
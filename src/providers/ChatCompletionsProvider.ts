@@ -0,0 +1,119 @@
+import { LLMProvider, ExpressionInput, Candidate, ProviderSettings, ProviderCallOptions } from '../types';
+import { ProviderError, toProviderError } from './errors';
+import { ChatMessage, StructuredRequestOptions, SYSTEM_PROMPT, requestSuggestions, streamSuggestions, chatResponseFormat, replyTokenLimit } from './prompts';
+import { FetchFunction, defaultFetch, joinURL, postJSON, postEventStream } from './http';
+
+/**
+ * Any server that speaks the OpenAI chat completions API, such as Ollama
+ * (http://localhost:11434/v1), vLLM or the llama.cpp server. Configure the
+ * baseURL up to and including the API version, and the model it serves;
+ * apiKey is only sent when given. Replies are requested in JSON mode; set
+ * responseFormat to 'json_schema' for servers that enforce a schema, or to
+ * 'text' for ones with no JSON mode. Streaming asks the server for
+ * server-sent events, which all of these support.
+ */
+export class ChatCompletionsProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  private config: Record<string, any>;
+
+  constructor(config: Record<string, any> = {}) {
+    this.config = {
+      temperature: 0.7,
+      suggestionCount: 5,
+      responseFormat: 'json_object',
+      repairAttempts: 1,
+      allowPartial: false,
+      ...config
+    };
+  }
+
+  configure(config: Record<string, any>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  async generateVocabularySuggestions(input: ExpressionInput, options: ProviderCallOptions = {}): Promise<Candidate[]> {
+    this.checkConfig();
+
+    try {
+      const fetchFn: FetchFunction = this.config.fetch || defaultFetch();
+
+      return await requestSuggestions(input, this.config.suggestionCount, this.structuredOptions(), async messages => {
+        const url = joinURL(this.config.baseURL, 'chat/completions');
+        const response = await postJSON(fetchFn, url, this.headers(), this.requestBody(messages), options.signal);
+
+        const content = response.choices?.[0]?.message?.content;
+        if (!content) {
+          throw new ProviderError('invalid-output', `No content received from ${this.config.model}`);
+        }
+        return content;
+      });
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async *streamVocabularySuggestions(input: ExpressionInput, options: ProviderCallOptions = {}): AsyncGenerator<Candidate> {
+    this.checkConfig();
+
+    try {
+      const fetchFn: FetchFunction = this.config.fetch || defaultFetch();
+      const url = joinURL(this.config.baseURL, 'chat/completions');
+
+      yield* streamSuggestions(input, this.config.suggestionCount, this.structuredOptions(),
+        messages => this.streamReply(fetchFn, url, messages, options.signal));
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  // The text of a streamed reply, piece by piece
+  private async *streamReply(fetchFn: FetchFunction, url: string, messages: ChatMessage[], signal?: AbortSignal): AsyncGenerator<string> {
+    const body = { ...this.requestBody(messages), stream: true };
+    for await (const event of postEventStream(fetchFn, url, this.headers(), body, signal)) {
+      const content = event.choices?.[0]?.delta?.content;
+      if (content) {
+        yield content;
+      }
+    }
+  }
+
+  private checkConfig(): void {
+    if (!this.config.baseURL) {
+      throw new ProviderError('config', 'No base URL configured for the chat completions provider');
+    }
+    if (!this.config.model) {
+      throw new ProviderError('config', 'No model configured for the chat completions provider');
+    }
+  }
+
+  private headers(): Record<string, string> {
+    return this.config.apiKey ? { authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+
+  private requestBody(messages: ChatMessage[]): Record<string, any> {
+    return {
+      model: this.config.model,
+      messages: [{ role: 'system', content: SYSTEM_PROMPT }, ...messages],
+      temperature: this.config.temperature,
+      max_tokens: replyTokenLimit(this.config.suggestionCount, this.config.maxTokens),
+      response_format: chatResponseFormat(this.config.responseFormat)
+    };
+  }
+
+  private structuredOptions(): StructuredRequestOptions {
+    return { repairAttempts: this.config.repairAttempts, allowPartial: this.config.allowPartial };
+  }
+
+  getModel(): string {
+    return this.config.model;
+  }
+
+  getSettings(): ProviderSettings {
+    return {
+      baseURL: this.config.baseURL,
+      model: this.config.model,
+      temperature: this.config.temperature,
+      suggestionCount: this.config.suggestionCount
+    };
+  }
+}
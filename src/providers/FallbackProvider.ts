@@ -0,0 +1,158 @@
+import {
+  LLMProvider,
+  ExpressionInput,
+  Candidate,
+  AttributedSuggestions,
+  CircuitBreakerOptions,
+  ProviderHealth,
+  ProviderSettings,
+  ProviderCallOptions
+} from '../types';
+import { ProviderError, toProviderError } from './errors';
+import { generateAttributed } from './attribution';
+
+// A provider of the chain, under the name recorded on the suggestions it produces
+export interface FallbackMember {
+  name: string;
+  provider: LLMProvider;
+}
+
+interface MemberState {
+  member: FallbackMember;
+  health: ProviderHealth;
+  // Set while a half-open circuit's trial call is running, so concurrent calls skip the provider
+  probing: boolean;
+}
+
+/**
+ * Tries an ordered list of providers, such as a hosted model, then a local
+ * one, then MockLLMProvider, and answers with the first that succeeds. Each
+ * provider has a circuit breaker: after failureThreshold failures in a row
+ * it is skipped for cooldownMs, then given one trial call. Settings passed
+ * to configure go to every provider of the chain.
+ */
+export class FallbackProvider implements LLMProvider {
+  private readonly members: MemberState[];
+  private readonly now: () => number;
+  private options: Required<CircuitBreakerOptions>;
+
+  constructor(members: FallbackMember[], options: CircuitBreakerOptions = {}, now: () => number = () => Date.now()) {
+    if (members.length === 0) {
+      throw new Error('A fallback chain needs at least one provider');
+    }
+
+    this.members = members.map(member => ({
+      member,
+      health: { name: member.name, state: 'closed', successes: 0, failures: 0, consecutiveFailures: 0 },
+      probing: false
+    }));
+    this.now = now;
+    this.options = {
+      failureThreshold: options.failureThreshold === undefined ? 3 : options.failureThreshold,
+      cooldownMs: options.cooldownMs === undefined ? 60000 : options.cooldownMs
+    };
+  }
+
+  // The chain goes by its first provider's name, as its replies are cached under it
+  get name(): string {
+    return this.members[0].member.name;
+  }
+
+  configure(config: Record<string, any>): void {
+    this.members.forEach(state => state.member.provider.configure(config));
+  }
+
+  // The first provider's settings; replies from the others are not meant to be cached under them
+  getSettings(): ProviderSettings {
+    const first = this.members[0].member.provider;
+    return first.getSettings ? first.getSettings() : {};
+  }
+
+  async generateVocabularySuggestions(input: ExpressionInput, options?: ProviderCallOptions): Promise<(string | Candidate)[]> {
+    return (await this.generateAttributedSuggestions(input, options)).candidates;
+  }
+
+  // Each provider gets the caller's options; once the caller aborts, the rest are not tried
+  async generateAttributedSuggestions(input: ExpressionInput, options: ProviderCallOptions = {}): Promise<AttributedSuggestions> {
+    const problems: string[] = [];
+
+    for (const state of this.members) {
+      const { name, provider } = state.member;
+      if (!this.admit(state)) {
+        problems.push(`${name}: skipped while its circuit is open`);
+        continue;
+      }
+
+      try {
+        const result = await generateAttributed(provider, input, options);
+        if (!result.candidates || result.candidates.length === 0) {
+          throw new ProviderError('invalid-output', 'No suggestions generated');
+        }
+        this.recordSuccess(state);
+        // A nested chain names the provider within it that answered
+        return { candidates: result.candidates, provider: result.provider || name };
+      } catch (error) {
+        const failure = toProviderError(error);
+        this.recordFailure(state, failure);
+        if (options.signal?.aborted) {
+          throw failure;
+        }
+        problems.push(`${name}: ${failure.message}`);
+      }
+    }
+
+    throw new ProviderError('unavailable', `Every provider failed. ${problems.join('; ')}`);
+  }
+
+  // The health of each provider, in chain order
+  getHealth(): ProviderHealth[] {
+    return this.members.map(state => {
+      this.refresh(state);
+      return { ...state.health, ...(state.health.lastError ? { lastError: { ...state.health.lastError } } : {}) };
+    });
+  }
+
+  // Whether a call may go to the provider now; an open circuit whose cooldown is over becomes half-open
+  private admit(state: MemberState): boolean {
+    this.refresh(state);
+    if (state.health.state === 'open' || state.probing) {
+      return false;
+    }
+    if (state.health.state === 'half-open') {
+      state.probing = true;
+    }
+    return true;
+  }
+
+  private refresh(state: MemberState): void {
+    const { health } = state;
+    if (health.state === 'open' && health.openUntil && health.openUntil.getTime() <= this.now()) {
+      health.state = 'half-open';
+    }
+  }
+
+  private recordSuccess(state: MemberState): void {
+    const { health } = state;
+    health.successes++;
+    health.consecutiveFailures = 0;
+    health.lastSuccessAt = new Date(this.now());
+    health.state = 'closed';
+    delete health.openUntil;
+    state.probing = false;
+  }
+
+  // A failed trial call reopens the circuit at once; otherwise it opens after failureThreshold in a row
+  private recordFailure(state: MemberState, failure: ProviderError): void {
+    const { health } = state;
+    health.failures++;
+    health.consecutiveFailures++;
+    health.lastFailureAt = new Date(this.now());
+    health.lastError = { code: failure.code, message: failure.message };
+
+    if (state.probing || health.consecutiveFailures >= this.options.failureThreshold) {
+      health.state = 'open';
+      health.openUntil = new Date(this.now() + this.options.cooldownMs);
+    }
+    state.probing = false;
+  }
+}
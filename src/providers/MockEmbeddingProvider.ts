@@ -0,0 +1,70 @@
+import { EmbeddingProvider } from '../types';
+
+// Buckets the hashed character features are spread over
+const FEATURE_DIMENSIONS = 128;
+
+// Weight of a shared meaning relative to one shared character feature
+const CONCEPT_WEIGHT = 3;
+
+// Word stems that mean much the same thing, so offline tests can find related words that share no characters
+const CONCEPTS: string[][] = [
+  ['잔잔', '고요', '조용', '평온', '은은', '차분', '나직', '부드럽'],
+  ['노래', '선율', '멜로디', '가락', '음악', '하모니'],
+  ['소리', '음향', '울림', '반향', '목소리', '음성'],
+  ['아늑', '따뜻', '포근', '여유', '편안'],
+  ['풍경', '경치', '전망', '장관', '파노라마', '비스타']
+];
+
+// FNV-1a, so the same feature always lands in the same bucket
+function hash(feature: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    value ^= feature.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+/**
+ * Deterministic embeddings for tests and offline use. Characters and
+ * character pairs are hashed into buckets, and a small lexicon of Korean
+ * near-synonyms adds a shared dimension per meaning, so '고요한' lands close
+ * to '잔잔하게' without a network call.
+ */
+export class MockEmbeddingProvider implements EmbeddingProvider {
+  private config: Record<string, any> = { model: 'mock-embedding' };
+
+  configure(config: Record<string, any>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getModel(): string {
+    return this.config.model;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array(FEATURE_DIMENSIONS + CONCEPTS.length).fill(0);
+    const chars = Array.from(text.toLowerCase().replace(/\s+/g, ''));
+
+    chars.forEach((char, i) => {
+      vector[hash(char) % FEATURE_DIMENSIONS] += 1;
+      if (i + 1 < chars.length) {
+        vector[hash(char + chars[i + 1]) % FEATURE_DIMENSIONS] += 1;
+      }
+    });
+
+    CONCEPTS.forEach((stems, concept) => {
+      if (stems.some(stem => text.includes(stem))) {
+        vector[FEATURE_DIMENSIONS + concept] += CONCEPT_WEIGHT;
+      }
+    });
+
+    // Unit length, so a dot product is the cosine similarity
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return length === 0 ? vector : vector.map(value => value / length);
+  }
+}
@@ -1,16 +1,45 @@
-import { LLMProvider, ExpressionInput, InputType } from '../types';
+import { LLMProvider, ExpressionInput, InputType, Candidate, ProviderCallOptions } from '../types';
+
+function candidate(text: string, gloss: string, example: string, register: string, partOfSpeech: string, hanja?: string): Candidate {
+  return { text, gloss, example, register, partOfSpeech, ...(hanja ? { hanja } : {}) };
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
 
 export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
   private config: Record<string, any> = {};
 
   configure(config: Record<string, any>): void {
     this.config = { ...this.config, ...config };
   }
 
-  async generateVocabularySuggestions(input: ExpressionInput): Promise<string[]> {
+  async generateVocabularySuggestions(input: ExpressionInput): Promise<Candidate[]> {
     // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 500));
+    await wait(this.getDelay());
+    return this.suggestionsFor(input);
+  }
+
+  // The same suggestions, one at a time over the same delay, until the signal aborts
+  async *streamVocabularySuggestions(input: ExpressionInput, options: ProviderCallOptions = {}): AsyncGenerator<Candidate> {
+    const suggestions = this.suggestionsFor(input);
+    for (const suggestion of suggestions) {
+      await wait(this.getDelay() / suggestions.length);
+      if (options.signal?.aborted) {
+        return;
+      }
+      yield suggestion;
+    }
+  }
+
+  // How long a reply takes, as if it came over the network; none unless configured
+  private getDelay(): number {
+    return typeof this.config.delay === 'number' ? this.config.delay : 0;
+  }
 
+  private suggestionsFor(input: ExpressionInput): Candidate[] {
     // Generate mock suggestions based on input type and content
     switch (input.type) {
       case InputType.Expression:
@@ -23,16 +52,40 @@ export class MockLLMProvider implements LLMProvider {
         return this.generateImageSuggestions(input.content);
       
       default:
-        return ['제안1', '제안2', '제안3'];
+        return [{ text: '제안1' }, { text: '제안2' }, { text: '제안3' }];
     }
   }
 
-  private generateExpressionSuggestions(content: string): string[] {
-    const suggestions: Record<string, string[]> = {
-      '잔잔하게': ['부드럽게', '조용히', '평온하게', '고요하게', '은은하게'],
-      '들린다': ['울려 퍼진다', '들려온다', '스며든다', '전해진다', '흘러나온다'],
-      '노래': ['멜로디', '선율', '가락', '음성', '하모니'],
-      '소리': ['음향', '울림', '반향', '목소리', '음성']
+  private generateExpressionSuggestions(content: string): Candidate[] {
+    const suggestions: Record<string, Candidate[]> = {
+      '잔잔하게': [
+        candidate('부드럽게', '거칠지 않고 순하게', '바람이 부드럽게 뺨을 스쳤다.', '중립', '부사'),
+        candidate('조용히', '소리 없이 고요하게', '음악이 조용히 흘러나왔다.', '구어체', '부사'),
+        candidate('평온하게', '걱정 없이 고요하고 평화롭게', '호수가 평온하게 빛났다.', '문어체', '부사', '平穩'),
+        candidate('고요하게', '조용하고 잠잠하게', '밤이 고요하게 깊어 갔다.', '문어체', '부사'),
+        candidate('은은하게', '드러나지 않고 그윽하게', '꽃향기가 은은하게 퍼졌다.', '문학적', '부사', '隱隱')
+      ],
+      '들린다': [
+        candidate('울려 퍼진다', '소리가 멀리까지 퍼져 나간다', '종소리가 마을에 울려 퍼진다.', '문어체', '동사구'),
+        candidate('들려온다', '소리가 이쪽으로 전해 온다', '멀리서 웃음소리가 들려온다.', '중립', '동사'),
+        candidate('스며든다', '소리나 느낌이 조금씩 배어든다', '빗소리가 방 안으로 스며든다.', '문학적', '동사'),
+        candidate('전해진다', '소리나 소식이 건너와 닿는다', '떨림이 손끝으로 전해진다.', '중립', '동사'),
+        candidate('흘러나온다', '안에서 밖으로 새어 나온다', '창문 틈으로 노래가 흘러나온다.', '중립', '동사')
+      ],
+      '노래': [
+        candidate('멜로디', '음의 높낮이가 이어진 가락', '익숙한 멜로디가 귓가에 맴돌았다.', '구어체', '명사'),
+        candidate('선율', '소리의 높낮이와 길이가 어우러진 흐름', '피아노 선율이 방을 채웠다.', '문어체', '명사', '旋律'),
+        candidate('가락', '소리의 높낮이와 장단의 흐름', '구성진 가락에 어깨가 들썩였다.', '고유어', '명사'),
+        candidate('음성', '사람의 목소리', '그녀의 음성이 떨렸다.', '격식체', '명사', '音聲'),
+        candidate('하모니', '여러 소리가 어울리는 조화', '합창단의 하모니가 아름다웠다.', '구어체', '명사')
+      ],
+      '소리': [
+        candidate('음향', '소리와 그 울림', '공연장의 음향이 훌륭했다.', '전문어', '명사', '音響'),
+        candidate('울림', '소리가 퍼져 울리는 것', '북의 울림이 가슴까지 닿았다.', '중립', '명사'),
+        candidate('반향', '소리가 부딪혀 되돌아오는 것', '동굴 안에 반향이 길게 남았다.', '문어체', '명사', '反響'),
+        candidate('목소리', '사람의 목에서 나는 소리', '낯익은 목소리가 들렸다.', '중립', '명사'),
+        candidate('음성', '사람의 목소리', '안내 음성이 흘러나왔다.', '격식체', '명사', '音聲')
+      ]
     };
 
     // Find matching keywords and return suggestions
@@ -44,63 +97,63 @@ export class MockLLMProvider implements LLMProvider {
 
     // Default suggestions for expressions
     return [
-      '아름답게 표현된',
-      '감성적인',
-      '서정적인',
-      '운율이 있는',
-      '정감이 넘치는'
+      candidate('아름답게 표현된', '곱고 보기 좋게 드러낸', '아름답게 표현된 문장이 마음에 남았다.', '문어체', '관형구'),
+      candidate('감성적인', '감정이나 느낌이 풍부한', '감성적인 글귀가 눈에 띄었다.', '구어체', '관형사형', '感性的'),
+      candidate('서정적인', '감정을 정서적으로 드러내는', '서정적인 노랫말이 인상 깊었다.', '문학적', '관형사형', '抒情的'),
+      candidate('운율이 있는', '말의 가락과 리듬이 살아 있는', '운율이 있는 문장은 읽기 즐겁다.', '문어체', '관형구', '韻律'),
+      candidate('정감이 넘치는', '따뜻한 정이 가득한', '정감이 넘치는 골목을 걸었다.', '구어체', '관형구', '情感')
     ];
   }
 
-  private generateExplanationSuggestions(content: string): string[] {
+  private generateExplanationSuggestions(content: string): Candidate[] {
     if (content.includes('카페')) {
       return [
-        '아늑한 분위기',
-        '따뜻한 공간',
-        '여유로운 시간',
-        '감성적인 순간',
-        '일상의 쉼표'
+        candidate('아늑한 분위기', '포근하고 편안한 느낌', '카페는 아늑한 분위기로 가득했다.', '구어체', '명사구'),
+        candidate('따뜻한 공간', '정겹고 편안한 곳', '작지만 따뜻한 공간이었다.', '중립', '명사구', '空間'),
+        candidate('여유로운 시간', '바쁘지 않고 느긋한 때', '여유로운 시간을 보내며 책을 읽었다.', '중립', '명사구'),
+        candidate('감성적인 순간', '감정이 깊이 움직이는 때', '창가에서 감성적인 순간을 맞았다.', '구어체', '명사구', '感性的 瞬間'),
+        candidate('일상의 쉼표', '바쁜 하루 속 잠깐의 휴식', '커피 한 잔은 일상의 쉼표다.', '문학적', '명사구', '日常')
       ];
     }
 
     if (content.includes('창')) {
       return [
-        '바깥 풍경',
-        '시야에 들어오는',
-        '창밖의 세상',
-        '유리창 너머',
-        '투명한 경계'
+        candidate('바깥 풍경', '밖에 펼쳐진 경치', '바깥 풍경이 천천히 바뀌었다.', '중립', '명사구', '風景'),
+        candidate('시야에 들어오는', '눈에 보이기 시작하는', '시야에 들어오는 산이 푸르렀다.', '문어체', '관형구', '視野'),
+        candidate('창밖의 세상', '창문 너머로 보이는 세계', '창밖의 세상은 비에 젖어 있었다.', '문학적', '명사구'),
+        candidate('유리창 너머', '유리창의 건너편', '유리창 너머로 노을이 졌다.', '중립', '명사구', '琉璃窓'),
+        candidate('투명한 경계', '안과 밖을 비치듯 나누는 선', '창은 방과 거리 사이의 투명한 경계였다.', '문학적', '명사구', '透明 境界')
       ];
     }
 
     // Default suggestions for explanations
     return [
-      '상황적 맥락',
-      '분위기 있는',
-      '감정이 담긴',
-      '순간적인',
-      '인상적인'
+      candidate('상황적 맥락', '일이 벌어진 형편과 앞뒤 관계', '상황적 맥락을 먼저 살펴야 한다.', '격식체', '명사구', '狀況的 脈絡'),
+      candidate('분위기 있는', '은근한 멋이 느껴지는', '분위기 있는 조명이 켜졌다.', '구어체', '관형구', '雰圍氣'),
+      candidate('감정이 담긴', '마음의 느낌이 들어 있는', '감정이 담긴 목소리로 말했다.', '중립', '관형구', '感情'),
+      candidate('순간적인', '아주 짧은 동안의', '순간적인 판단이 중요했다.', '중립', '관형사형', '瞬間的'),
+      candidate('인상적인', '강하게 기억에 남는', '인상적인 장면이 이어졌다.', '중립', '관형사형', '印象的')
     ];
   }
 
-  private generateImageSuggestions(content: string): string[] {
+  private generateImageSuggestions(content: string): Candidate[] {
     if (content.includes('풍경') || content.includes('landscape')) {
       return [
-        '파노라마',
-        '장관',
-        '경치',
-        '전망',
-        '비스타'
+        candidate('파노라마', '넓게 펼쳐진 전경', '정상에서 파노라마가 펼쳐졌다.', '구어체', '명사'),
+        candidate('장관', '굉장하고 볼만한 광경', '해돋이는 그야말로 장관이었다.', '문어체', '명사', '壯觀'),
+        candidate('경치', '자연의 아름다운 모습', '창밖 경치가 그림 같았다.', '중립', '명사', '景致'),
+        candidate('전망', '멀리 바라보이는 경치', '전망이 탁 트인 언덕에 올랐다.', '중립', '명사', '展望'),
+        candidate('비스타', '길게 트인 조망', '가로수 사이로 비스타가 열렸다.', '전문어', '명사')
       ];
     }
 
     // Default suggestions for images
     return [
-      '시각적 표현',
-      '이미지로 담긴',
-      '화면 속의',
-      '포착된 순간',
-      '그림 같은'
+      candidate('시각적 표현', '눈으로 보이게 드러낸 것', '시각적 표현이 돋보이는 사진이다.', '격식체', '명사구', '視覺的 表現'),
+      candidate('이미지로 담긴', '그림이나 사진 속에 들어 있는', '이미지로 담긴 기억이 선명했다.', '구어체', '관형구'),
+      candidate('화면 속의', '화면 안에 보이는', '화면 속의 바다가 반짝였다.', '구어체', '관형구', '畫面'),
+      candidate('포착된 순간', '재빨리 잡아낸 한때', '포착된 순간이 생생했다.', '문어체', '명사구', '捕捉 瞬間'),
+      candidate('그림 같은', '그림처럼 아름다운', '그림 같은 마을이 나타났다.', '구어체', '관형구')
     ];
   }
 
@@ -0,0 +1,67 @@
+import { OpenAI } from 'openai';
+import { EmbeddingProvider } from '../types';
+import { ProviderError, toProviderError } from './errors';
+
+/**
+ * Embeddings from the OpenAI API, or any server that implements its
+ * /embeddings endpoint: configure a baseURL (or set OPENAI_BASE_URL) and
+ * the model it serves.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  // Created on first use, so constructing the provider never needs a key
+  private openai?: OpenAI;
+  private config: Record<string, any>;
+
+  constructor(apiKey?: string) {
+    this.config = {
+      apiKey: apiKey || process.env.OPENAI_API_KEY,
+      model: 'text-embedding-3-small'
+    };
+  }
+
+  configure(config: Record<string, any>): void {
+    this.config = { ...this.config, ...config };
+
+    if (config.apiKey || config.baseURL) {
+      this.openai = undefined;
+    }
+  }
+
+  getModel(): string {
+    return this.config.model;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    if (!this.config.apiKey) {
+      throw new ProviderError('auth', 'No OpenAI API key configured. Set OPENAI_API_KEY');
+    }
+
+    try {
+      const response = await this.client().embeddings.create({
+        model: this.config.model,
+        input: texts,
+        dimensions: this.config.dimensions
+      });
+
+      // Each embedding carries the position of its text; don't rely on the response order
+      return [...response.data]
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  private client(): OpenAI {
+    if (!this.openai) {
+      this.openai = new OpenAI({
+        apiKey: this.config.apiKey,
+        baseURL: this.config.baseURL
+      });
+    }
+    return this.openai;
+  }
+}
@@ -1,131 +1,120 @@
 import { OpenAI } from 'openai';
-import { LLMProvider, ExpressionInput, InputType } from '../types';
+import { LLMProvider, ExpressionInput, Candidate, ProviderSettings, ProviderCallOptions } from '../types';
+import { ProviderError, toProviderError } from './errors';
+import { ChatMessage, StructuredRequestOptions, SYSTEM_PROMPT, requestSuggestions, streamSuggestions, chatResponseFormat, replyTokenLimit } from './prompts';
 
 export class OpenAIProvider implements LLMProvider {
-  private openai: OpenAI;
+  readonly name = 'openai';
+  // Created on first use, so constructing the provider never needs a key
+  private openai?: OpenAI;
   private config: Record<string, any>;
 
   constructor(apiKey?: string) {
-    this.openai = new OpenAI({
-      apiKey: apiKey || process.env.OPENAI_API_KEY
-    });
-    
     this.config = {
+      apiKey: apiKey || process.env.OPENAI_API_KEY,
       model: 'gpt-3.5-turbo',
       temperature: 0.7,
-      maxTokens: 150,
-      suggestionCount: 5
+      suggestionCount: 5,
+      responseFormat: 'json_object',
+      repairAttempts: 1,
+      allowPartial: false,
+      // The same as ResilientProvider's default, which passes its own with each call; 0 leaves the SDK's default
+      timeoutMs: 30000
     };
   }
 
   configure(config: Record<string, any>): void {
     this.config = { ...this.config, ...config };
     
-    if (config.apiKey) {
-      this.openai = new OpenAI({
-        apiKey: config.apiKey
-      });
+    if (config.apiKey || config.baseURL || config.timeoutMs !== undefined) {
+      this.openai = undefined;
     }
   }
 
-  async generateVocabularySuggestions(input: ExpressionInput): Promise<string[]> {
+  async generateVocabularySuggestions(input: ExpressionInput, options: ProviderCallOptions = {}): Promise<Candidate[]> {
+    this.checkKey();
+
     try {
-      const prompt = this.buildPrompt(input);
-      
-      const response = await this.openai.chat.completions.create({
-        model: this.config.model,
-        messages: [
-          {
-            role: 'system',
-            content: '당신은 한국어 어휘 향상을 돕는 전문가입니다. 사용자의 입력에 대해 더 다양하고 풍부한 어휘 표현을 제안해주세요.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: this.config.temperature,
-        max_tokens: this.config.maxTokens,
-        top_p: 1,
-        frequency_penalty: 0,
-        presence_penalty: 0
+      return await requestSuggestions(input, this.config.suggestionCount, this.structuredOptions(), async messages => {
+        const response = await this.client().chat.completions.create(
+          { ...this.requestBody(messages), stream: false },
+          this.requestOptions(options)
+        );
+
+        const content = response.choices[0]?.message?.content;
+        if (!content) {
+          throw new ProviderError('invalid-output', 'No content received from OpenAI');
+        }
+        return content;
       });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No content received from OpenAI');
-      }
-
-      return this.parseSuggestions(content);
     } catch (error) {
-      console.error('Error generating suggestions with OpenAI:', error);
-      throw new Error(`Failed to generate vocabulary suggestions: ${error}`);
+      throw toProviderError(error);
     }
   }
 
-  private buildPrompt(input: ExpressionInput): string {
-    const baseInstruction = `다음 ${this.getInputTypeDescription(input.type)}에 대해 ${this.config.suggestionCount}개의 어휘 대안을 제안해주세요.`;
-    
-    switch (input.type) {
-      case InputType.Expression:
-        return `${baseInstruction}
-
-표현: "${input.content}"
-
-위 표현을 더 풍부하고 다양하게 표현할 수 있는 어휘나 구문을 제안해주세요. 각 제안은 한 줄씩 번호 없이 나열해주세요.`;
-
-      case InputType.Explanation:
-        return `${baseInstruction}
-
-상황 설명: "${input.content}"
+  async *streamVocabularySuggestions(input: ExpressionInput, options: ProviderCallOptions = {}): AsyncGenerator<Candidate> {
+    this.checkKey();
 
-위 상황을 표현할 때 사용할 수 있는 감각적이고 생동감 있는 어휘나 표현을 제안해주세요. 각 제안은 한 줄씩 번호 없이 나열해주세요.`;
-
-      case InputType.Image:
-        return `${baseInstruction}
-
-이미지 정보: "${input.content}"
-
-위 이미지를 묘사할 때 사용할 수 있는 시각적이고 표현력이 풍부한 어휘나 구문을 제안해주세요. 각 제안은 한 줄씩 번호 없이 나열해주세요.`;
+    try {
+      yield* streamSuggestions(input, this.config.suggestionCount, this.structuredOptions(), messages => this.streamReply(messages, options));
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
 
-      default:
-        return `${baseInstruction}
+  // The text of a streamed reply, piece by piece
+  private async *streamReply(messages: ChatMessage[], options: ProviderCallOptions): AsyncGenerator<string> {
+    const stream = await this.client().chat.completions.create({ ...this.requestBody(messages), stream: true }, this.requestOptions(options));
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) {
+        yield content;
+      }
+    }
+  }
 
-내용: "${input.content}"
+  // The caller's signal, and its timeout in place of the client's for this call
+  private requestOptions(options: ProviderCallOptions): { signal?: AbortSignal; timeout?: number } {
+    return {
+      ...(options.signal ? { signal: options.signal } : {}),
+      ...(options.timeoutMs ? { timeout: options.timeoutMs } : {})
+    };
+  }
 
-위 내용과 관련된 다양한 어휘 표현을 제안해주세요. 각 제안은 한 줄씩 번호 없이 나열해주세요.`;
+  private checkKey(): void {
+    if (!this.config.apiKey) {
+      throw new ProviderError('auth', 'No OpenAI API key configured. Set OPENAI_API_KEY');
     }
   }
 
-  private getInputTypeDescription(type: InputType): string {
-    switch (type) {
-      case InputType.Expression:
-        return '표현';
-      case InputType.Explanation:
-        return '상황 설명';
-      case InputType.Image:
-        return '이미지';
-      default:
-        return '입력';
-    }
+  private requestBody(messages: ChatMessage[]) {
+    return {
+      model: this.config.model,
+      messages: [{ role: 'system' as const, content: SYSTEM_PROMPT }, ...messages],
+      temperature: this.config.temperature,
+      max_tokens: replyTokenLimit(this.config.suggestionCount, this.config.maxTokens),
+      top_p: 1,
+      frequency_penalty: 0,
+      presence_penalty: 0,
+      response_format: chatResponseFormat(this.config.responseFormat)
+    };
   }
 
-  private parseSuggestions(content: string): string[] {
-    // Split by lines and clean up
-    const lines = content
-      .split('\n')
-      .map(line => line.trim())
-      .filter(line => line.length > 0)
-      .filter(line => !line.match(/^\d+\./)) // Remove numbered lists
-      .filter(line => !line.includes(':')) // Remove lines with colons (likely headers)
-      .slice(0, this.config.suggestionCount);
-
-    // If we got fewer suggestions than expected, pad with generic ones
-    while (lines.length < this.config.suggestionCount && lines.length < 5) {
-      lines.push(`대안 표현 ${lines.length + 1}`);
+  private client(): OpenAI {
+    if (!this.openai) {
+      // Retries are left to ResilientProvider, so a failed call is not retried twice over
+      this.openai = new OpenAI({
+        apiKey: this.config.apiKey,
+        baseURL: this.config.baseURL,
+        maxRetries: 0,
+        timeout: this.config.timeoutMs > 0 ? this.config.timeoutMs : undefined
+      });
     }
+    return this.openai;
+  }
 
-    return lines;
+  private structuredOptions(): StructuredRequestOptions {
+    return { repairAttempts: this.config.repairAttempts, allowPartial: this.config.allowPartial };
   }
 
   // Utility methods
@@ -133,6 +122,15 @@ export class OpenAIProvider implements LLMProvider {
     return this.config.model;
   }
 
+  getSettings(): ProviderSettings {
+    return {
+      baseURL: this.config.baseURL,
+      model: this.config.model,
+      temperature: this.config.temperature,
+      suggestionCount: this.config.suggestionCount
+    };
+  }
+
   setModel(model: string): void {
     this.config.model = model;
   }
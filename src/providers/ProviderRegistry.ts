@@ -0,0 +1,66 @@
+import { LLMProvider, LLMProviderFactory, LLMProviderRegistry } from '../types';
+import { MockLLMProvider } from './MockLLMProvider';
+import { ChatCompletionsProvider } from './ChatCompletionsProvider';
+import { AnthropicProvider } from './AnthropicProvider';
+
+// Ollama serves the chat completions API here by default
+const OLLAMA_BASE_URL = 'http://localhost:11434/v1';
+
+export class ProviderRegistry implements LLMProviderRegistry {
+  private factories = new Map<string, LLMProviderFactory>();
+
+  // A later registration under the same name replaces the earlier one
+  register(name: string, factory: LLMProviderFactory): void {
+    this.factories.set(name, factory);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  // Settings left undefined are dropped, so they never override a provider's defaults
+  create(name: string, config: Record<string, any> = {}): LLMProvider {
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown provider: ${name}. Available providers: ${this.names().join(', ')}`);
+    }
+
+    const settings = Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+    return factory(settings);
+  }
+}
+
+/**
+ * A registry with the built-in providers: 'openai', 'anthropic', 'mock',
+ * 'openai-compatible' for any chat completions server (set baseURL and
+ * model), and 'ollama', which is the same with Ollama's local address.
+ */
+export function createProviderRegistry(): ProviderRegistry {
+  const registry = new ProviderRegistry();
+
+  registry.register('openai', config => {
+    // Loaded on first use, so importing the engine does not load the OpenAI SDK
+    const { OpenAIProvider } = require('./OpenAIProvider') as typeof import('./OpenAIProvider');
+    const provider = new OpenAIProvider(config.apiKey);
+    provider.configure(config);
+    return provider;
+  });
+  registry.register('anthropic', config => {
+    const provider = new AnthropicProvider(config.apiKey);
+    provider.configure(config);
+    return provider;
+  });
+  registry.register('openai-compatible', config => new ChatCompletionsProvider(config));
+  registry.register('ollama', config => new ChatCompletionsProvider({ baseURL: OLLAMA_BASE_URL, ...config }));
+  registry.register('mock', config => {
+    const provider = new MockLLMProvider();
+    provider.configure(config);
+    return provider;
+  });
+
+  return registry;
+}
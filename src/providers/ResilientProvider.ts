@@ -0,0 +1,188 @@
+import {
+  LLMProvider,
+  ExpressionInput,
+  Candidate,
+  AttributedSuggestions,
+  ResilienceOptions,
+  ProviderSettings,
+  ProviderCallOptions
+} from '../types';
+import { ProviderError, toProviderError } from './errors';
+import { generateAttributed, providerName } from './attribution';
+
+const RATE_WINDOW_MS = 60000;
+
+// Time as ResilientProvider sees it; tests pass their own to avoid real waits
+export interface ResilienceClock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+  random(): number;
+}
+
+const systemClock: ResilienceClock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+  random: () => Math.random()
+};
+
+/**
+ * Wraps another provider with a timeout per call, retries with exponential
+ * backoff and jitter for failures that may clear by themselves (rate limits,
+ * 5xx responses, timeouts and network errors), and a client-side limit on
+ * calls per minute. Every failure surfaces as a ProviderError. The wrapped
+ * provider is told the timeout with each call and given a signal that is
+ * aborted when it runs out, so a retry never overlaps the request it replaces.
+ */
+export class ResilientProvider implements LLMProvider {
+  private readonly provider: LLMProvider;
+  private readonly clock: ResilienceClock;
+  private options: Required<Omit<ResilienceOptions, 'requestsPerMinute'>> & { requestsPerMinute?: number };
+  // Start times of the calls in the current rate window, oldest first
+  private started: number[] = [];
+
+  constructor(provider: LLMProvider, options: ResilienceOptions = {}, clock: ResilienceClock = systemClock) {
+    this.provider = provider;
+    this.clock = clock;
+    // Options left undefined keep their defaults
+    this.options = {
+      timeoutMs: options.timeoutMs === undefined ? 30000 : options.timeoutMs,
+      retries: options.retries === undefined ? 2 : options.retries,
+      backoffMs: options.backoffMs === undefined ? 500 : options.backoffMs,
+      maxBackoffMs: options.maxBackoffMs === undefined ? 8000 : options.maxBackoffMs,
+      requestsPerMinute: options.requestsPerMinute
+    };
+  }
+
+  // The wrapper answers for the provider it wraps
+  get name(): string | undefined {
+    return providerName(this.provider);
+  }
+
+  configure(config: Record<string, any>): void {
+    this.provider.configure(config);
+  }
+
+  getSettings(): ProviderSettings {
+    return this.provider.getSettings ? this.provider.getSettings() : {};
+  }
+
+  async generateVocabularySuggestions(input: ExpressionInput): Promise<(string | Candidate)[]> {
+    return (await this.generateAttributedSuggestions(input)).candidates;
+  }
+
+  async generateAttributedSuggestions(input: ExpressionInput): Promise<AttributedSuggestions> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquireSlot();
+      const controller = new AbortController();
+      try {
+        return await this.withTimeout(generateAttributed(this.provider, input, this.callOptions(controller)), () => controller.abort());
+      } catch (error) {
+        const failure = toProviderError(error);
+        if (!failure.retryable || attempt >= this.options.retries) {
+          throw failure;
+        }
+        await this.clock.sleep(this.backoff(attempt));
+      }
+    }
+  }
+
+  /**
+   * Streams from the wrapped provider, or yields its whole reply when it
+   * cannot stream. The timeout applies to the wait for each candidate, and
+   * only a stream that fails before its first candidate is retried, since
+   * candidates already passed on cannot be taken back. A stream that times
+   * out is aborted through the signal passed to the wrapped provider.
+   */
+  async *streamVocabularySuggestions(input: ExpressionInput): AsyncGenerator<string | Candidate> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquireSlot();
+      const controller = new AbortController();
+      const stream = this.openStream(input, this.callOptions(controller))[Symbol.asyncIterator]();
+      let started = false;
+      try {
+        for (;;) {
+          const next = await this.withTimeout(stream.next(), () => controller.abort());
+          if (next.done) {
+            return;
+          }
+          started = true;
+          yield next.value;
+        }
+      } catch (error) {
+        const failure = toProviderError(error);
+        if (started || !failure.retryable || attempt >= this.options.retries) {
+          throw failure;
+        }
+      } finally {
+        // Stops a stream left behind by a timeout, a failure or a caller that stopped reading
+        const closing = stream.return && stream.return(undefined);
+        if (closing) {
+          closing.catch(() => undefined);
+        }
+      }
+      await this.clock.sleep(this.backoff(attempt));
+    }
+  }
+
+  // The underlying provider that calls are passed to
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  private async *openStream(input: ExpressionInput, options: ProviderCallOptions): AsyncGenerator<string | Candidate> {
+    if (this.provider.streamVocabularySuggestions) {
+      yield* this.provider.streamVocabularySuggestions(input, options);
+    } else {
+      yield* await this.provider.generateVocabularySuggestions(input, options);
+    }
+  }
+
+  // What the wrapped provider is told about one attempt: the signal aborted on timeout, and the timeout itself
+  private callOptions(controller: AbortController): ProviderCallOptions {
+    const { timeoutMs } = this.options;
+    return { signal: controller.signal, ...(timeoutMs ? { timeoutMs } : {}) };
+  }
+
+  // Half the exponential delay is fixed and half random, so clients that failed together spread out
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.options.maxBackoffMs, this.options.backoffMs * 2 ** attempt);
+    return ceiling / 2 + this.clock.random() * ceiling / 2;
+  }
+
+  // Wait until a call may start without exceeding requestsPerMinute, then claim it
+  private async acquireSlot(): Promise<void> {
+    const limit = this.options.requestsPerMinute;
+    if (!limit) {
+      return;
+    }
+
+    for (;;) {
+      const now = this.clock.now();
+      this.started = this.started.filter(time => time > now - RATE_WINDOW_MS);
+      if (this.started.length < limit) {
+        this.started.push(now);
+        return;
+      }
+      await this.clock.sleep(this.started[0] + RATE_WINDOW_MS - now);
+    }
+  }
+
+  // Its result is ignored once the timeout has fired; onTimeout may cancel the call itself
+  private withTimeout<T>(call: Promise<T>, onTimeout?: () => void): Promise<T> {
+    const { timeoutMs } = this.options;
+    if (!timeoutMs) {
+      return call;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new ProviderError('timeout', `No reply from the provider within ${timeoutMs} ms`));
+        if (onTimeout) {
+          onTimeout();
+        }
+      }, timeoutMs);
+    });
+    return Promise.race([call, timeout]).finally(() => clearTimeout(timer));
+  }
+}
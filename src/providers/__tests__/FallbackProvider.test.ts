@@ -0,0 +1,198 @@
+import { FallbackProvider } from '../FallbackProvider';
+import { ResilientProvider } from '../ResilientProvider';
+import { MockLLMProvider } from '../MockLLMProvider';
+import { ProviderRegistry } from '../ProviderRegistry';
+import { ProviderError } from '../errors';
+import { VocaEngine } from '../../engine';
+import { ExpressionInput } from '../../models';
+import { InputType, LLMProvider } from '../../types';
+
+// A provider whose next reply is set by the test: candidates, or an error to throw
+function scriptedProvider(): LLMProvider & { calls: number; reply: unknown } {
+  const provider = {
+    calls: 0,
+    reply: ['부드럽게'] as unknown,
+    generateVocabularySuggestions: async () => {
+      provider.calls++;
+      if (provider.reply instanceof Error) {
+        throw provider.reply;
+      }
+      return provider.reply as string[];
+    },
+    configure: jest.fn()
+  };
+  return provider;
+}
+
+describe('FallbackProvider', () => {
+  const input = ExpressionInput.createExpression('노래 소리가 잔잔하게 들린다');
+  let time: number;
+  const now = () => time;
+
+  beforeEach(() => {
+    time = 0;
+  });
+
+  it('should answer with the first provider that succeeds and say which it was', async () => {
+    const hosted = scriptedProvider();
+    const local = scriptedProvider();
+    hosted.reply = new ProviderError('quota', 'You exceeded your current quota', 429);
+    local.reply = ['고요히'];
+    const chain = new FallbackProvider([{ name: 'openai', provider: hosted }, { name: 'ollama', provider: local }], {}, now);
+
+    expect(await chain.generateAttributedSuggestions(input)).toEqual({ candidates: ['고요히'], provider: 'ollama' });
+    expect(await chain.generateVocabularySuggestions(input)).toEqual(['고요히']);
+    expect(hosted.calls).toBe(2);
+  });
+
+  it('should move on when a provider returns no candidates', async () => {
+    const empty = scriptedProvider();
+    empty.reply = [];
+    const chain = new FallbackProvider([{ name: 'empty', provider: empty }, { name: 'mock', provider: new MockLLMProvider() }]);
+
+    expect((await chain.generateAttributedSuggestions(input)).provider).toBe('mock');
+    expect(chain.getHealth()[0].lastError).toEqual({ code: 'invalid-output', message: 'No suggestions generated' });
+  });
+
+  it('should fail with every reason when all providers fail', async () => {
+    const hosted = scriptedProvider();
+    const local = scriptedProvider();
+    hosted.reply = new ProviderError('auth', 'No OpenAI API key configured');
+    local.reply = new ProviderError('network', 'Could not reach http://localhost:11434/v1/chat/completions');
+    const chain = new FallbackProvider([{ name: 'openai', provider: hosted }, { name: 'ollama', provider: local }]);
+
+    await expect(chain.generateVocabularySuggestions(input)).rejects.toMatchObject({
+      code: 'unavailable',
+      message: 'Every provider failed. openai: No OpenAI API key configured; ' +
+        'ollama: Could not reach http://localhost:11434/v1/chat/completions'
+    });
+  });
+
+  it('should open the circuit after repeated failures and try again after the cooldown', async () => {
+    const hosted = scriptedProvider();
+    hosted.reply = new ProviderError('server', 'overloaded', 503);
+    const chain = new FallbackProvider(
+      [{ name: 'openai', provider: hosted }, { name: 'mock', provider: new MockLLMProvider() }],
+      { failureThreshold: 2, cooldownMs: 1000 },
+      now
+    );
+
+    await chain.generateVocabularySuggestions(input);
+    await chain.generateVocabularySuggestions(input);
+    expect(chain.getHealth()[0]).toMatchObject({ state: 'open', failures: 2, consecutiveFailures: 2, openUntil: new Date(1000) });
+
+    // Skipped while open
+    await chain.generateVocabularySuggestions(input);
+    expect(hosted.calls).toBe(2);
+
+    // One trial call after the cooldown; its failure reopens the circuit at once
+    time = 1000;
+    expect(chain.getHealth()[0].state).toBe('half-open');
+    await chain.generateVocabularySuggestions(input);
+    expect(hosted.calls).toBe(3);
+    expect(chain.getHealth()[0]).toMatchObject({ state: 'open', openUntil: new Date(2000) });
+
+    // A successful trial closes it again
+    time = 2000;
+    hosted.reply = ['부드럽게'];
+    expect((await chain.generateAttributedSuggestions(input)).provider).toBe('openai');
+    expect(chain.getHealth()[0]).toMatchObject({ state: 'closed', successes: 1, consecutiveFailures: 0, lastSuccessAt: new Date(2000) });
+    expect(chain.getHealth()[0].openUntil).toBeUndefined();
+    expect(chain.getHealth()[1]).toMatchObject({ name: 'mock', state: 'closed', successes: 4, failures: 0 });
+  });
+
+  it('should keep the name reported by a nested chain or wrapper', async () => {
+    const local = scriptedProvider();
+    const inner = new FallbackProvider([{ name: 'ollama', provider: local }]);
+    const chain = new FallbackProvider([{ name: 'local', provider: new ResilientProvider(inner) }]);
+
+    expect((await chain.generateAttributedSuggestions(input)).provider).toBe('ollama');
+  });
+
+  it('should pass configuration to every provider', () => {
+    const first = scriptedProvider();
+    const second = scriptedProvider();
+    new FallbackProvider([{ name: 'a', provider: first }, { name: 'b', provider: second }]).configure({ suggestionCount: 3 });
+
+    expect(first.configure).toHaveBeenCalledWith({ suggestionCount: 3 });
+    expect(second.configure).toHaveBeenCalledWith({ suggestionCount: 3 });
+  });
+
+  it('should need at least one provider', () => {
+    expect(() => new FallbackProvider([])).toThrow('A fallback chain needs at least one provider');
+  });
+
+  describe('with VocaEngine', () => {
+    it('should record on each suggestion the provider that produced it', async () => {
+      const hosted = scriptedProvider();
+      const registry = new ProviderRegistry();
+      registry.register('hosted', () => hosted);
+      registry.register('mock', () => new MockLLMProvider());
+      const engine = new VocaEngine({
+        provider: 'hosted',
+        providerRegistry: registry,
+        fallbackProviders: [{ provider: 'mock' }]
+      });
+      const added = await engine.addInput(InputType.Expression, '잔잔하게');
+
+      expect((await engine.generateSuggestions(added.id)).provider).toBe('hosted');
+
+      hosted.reply = new ProviderError('quota', 'You exceeded your current quota', 429);
+      const fallback = await engine.generateSuggestions(added.id);
+      expect(fallback.provider).toBe('mock');
+      expect((await engine.getSuggestionById(fallback.id))?.provider).toBe('mock');
+      expect(engine.getProviderHealth().map(health => [health.name, health.failures])).toEqual([['hosted', 1], ['mock', 0]]);
+    });
+
+    it('should record the provider name without a fallback chain', async () => {
+      const engine = new VocaEngine({ provider: 'mock' });
+      const added = await engine.addInput(InputType.Expression, '잔잔하게');
+
+      expect((await engine.generateSuggestions(added.id)).provider).toBe('mock');
+      expect(engine.getProviderHealth()).toEqual([]);
+    });
+
+    it('should record the name of a provider instance, or its class name', async () => {
+      class HostedProvider implements LLMProvider {
+        async generateVocabularySuggestions() {
+          return ['고요히'];
+        }
+        configure() {}
+      }
+      const named = async (llmProvider: LLMProvider) => {
+        const engine = new VocaEngine({ llmProvider });
+        const added = await engine.addInput(InputType.Expression, '잔잔하게');
+        return (await engine.generateSuggestions(added.id)).provider;
+      };
+
+      expect(await named(new MockLLMProvider())).toBe('mock');
+      expect(await named(new ResilientProvider(new HostedProvider()))).toBe('HostedProvider');
+      expect(await named(scriptedProvider())).toBeUndefined();
+    });
+
+    it('should answer with the cached reply when every provider before the cache fails', async () => {
+      const hosted = scriptedProvider();
+      const registry = new ProviderRegistry();
+      registry.register('hosted', () => hosted);
+      const engine = new VocaEngine({
+        provider: 'hosted',
+        providerRegistry: registry,
+        fallbackProviders: [{ provider: 'cache' }],
+        suggestionCache: {}
+      });
+      const added = await engine.addInput(InputType.Expression, '잔잔하게');
+      const other = await engine.addInput(InputType.Expression, '고요하게');
+      await engine.generateSuggestions(added.id);
+
+      hosted.reply = new ProviderError('server', 'overloaded', 503);
+      const cached = await engine.generateSuggestions(added.id, { refresh: true });
+      expect(cached).toMatchObject({ provider: 'cache', candidates: [{ text: '부드럽게' }] });
+      await expect(engine.generateSuggestions(other.id)).rejects.toThrow(
+        'Every provider failed. hosted: overloaded; cache: No cached suggestions for this input'
+      );
+
+      expect(() => new VocaEngine({ provider: 'hosted', providerRegistry: registry, fallbackProviders: [{ provider: 'cache' }] }))
+        .toThrow('The "cache" fallback provider needs suggestionCache in the engine config');
+    });
+  });
+});
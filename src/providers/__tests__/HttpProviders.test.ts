@@ -0,0 +1,334 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ChatCompletionsProvider } from '../ChatCompletionsProvider';
+import { AnthropicProvider } from '../AnthropicProvider';
+import { MockLLMProvider } from '../MockLLMProvider';
+import { ResilientProvider } from '../ResilientProvider';
+import { FetchFunction } from '../http';
+import { ExpressionInput } from '../../models';
+import { Candidate } from '../../types';
+
+interface StubRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+// A local server that records each request and answers with the next queued reply
+describe('HTTP providers', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let requests: StubRequest[];
+  let replies: { status: number; body: any }[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body: JSON.parse(raw) });
+        const reply = replies.shift() || { status: 500, body: { error: 'no reply queued' } };
+        // A string body is sent as it is, as the server-sent events of a streamed reply
+        const streamed = typeof reply.body === 'string';
+        res.writeHead(reply.status, { 'content-type': streamed ? 'text/event-stream' : 'application/json' });
+        res.end(streamed ? reply.body : JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    replies = [];
+  });
+
+  const input = ExpressionInput.createExpression('노래 소리가 잔잔하게 들린다');
+  const texts = (candidates: Candidate[]) => candidates.map(candidate => candidate.text);
+  const chatReply = (data: unknown) => ({ status: 200, body: { choices: [{ message: { content: JSON.stringify(data) } }] } });
+
+  describe('ChatCompletionsProvider', () => {
+    it('should post a chat completion to the configured server and parse the reply', async () => {
+      replies.push(chatReply({
+        candidates: [
+          { text: '부드럽게', gloss: '거칠지 않고 순하게', example: null, register: '중립', partOfSpeech: '부사', hanja: null },
+          '고요히',
+          { text: '은은하게', hanja: '隱隱' }
+        ]
+      }));
+      const provider = new ChatCompletionsProvider({ baseURL: `${baseURL}/v1/`, model: 'llama3.1', suggestionCount: 3 });
+
+      const suggestions = await provider.generateVocabularySuggestions(input);
+
+      expect(suggestions).toEqual([
+        { text: '부드럽게', gloss: '거칠지 않고 순하게', register: '중립', partOfSpeech: '부사' },
+        { text: '고요히' },
+        { text: '은은하게', hanja: '隱隱' }
+      ]);
+      expect(requests).toHaveLength(1);
+      expect(requests[0].method).toBe('POST');
+      expect(requests[0].url).toBe('/v1/chat/completions');
+      expect(requests[0].headers.authorization).toBeUndefined();
+      expect(requests[0].body.model).toBe('llama3.1');
+      expect(requests[0].body.messages.map((message: { role: string }) => message.role)).toEqual(['system', 'user']);
+      expect(requests[0].body.messages[1].content).toContain(input.content);
+      expect(requests[0].body.response_format).toEqual({ type: 'json_object' });
+    });
+
+    it('should allow enough reply tokens for every candidate with all its details', async () => {
+      // A full reply to the schema, as the mock provider's candidates for this input would be sent
+      const candidates = (await new MockLLMProvider().generateVocabularySuggestions(input)).map(candidate => ({
+        text: candidate.text,
+        gloss: candidate.gloss || null,
+        example: candidate.example || null,
+        register: candidate.register || null,
+        partOfSpeech: candidate.partOfSpeech || null,
+        hanja: candidate.hanja || null
+      }));
+      const reply = JSON.stringify({ candidates });
+      // Byte-level tokenizers take up to three tokens for a Hangul or Hanja character, and one for about four others
+      const [wide, narrow] = [reply.replace(/[\x00-\x7f]/g, '').length, reply.replace(/[^\x00-\x7f]/g, '').length];
+      replies.push(chatReply({ candidates }), chatReply({ candidates: [...candidates, ...candidates].map((candidate, index) => ({ ...candidate, text: `${candidate.text}${index}` })) }));
+
+      await new ChatCompletionsProvider({ baseURL, model: 'llama3.1' }).generateVocabularySuggestions(input);
+      await new ChatCompletionsProvider({ baseURL, model: 'llama3.1', suggestionCount: 10 }).generateVocabularySuggestions(input);
+
+      expect(candidates).toHaveLength(5);
+      expect(requests[0].body.max_tokens).toBeGreaterThanOrEqual(3 * wide + Math.ceil(narrow / 4));
+      expect(requests[1].body.max_tokens).toBe(2 * requests[0].body.max_tokens);
+    });
+
+    it('should ask again when a reply is not valid, keeping what it already has', async () => {
+      replies.push({ status: 200, body: { choices: [{ message: { content: '1. 부드럽게\n2. 고요히' } }] } });
+      replies.push(chatReply({ candidates: ['부드럽게'] }));
+      replies.push(chatReply({ candidates: ['부드럽게', '고요히'] }));
+      const provider = new ChatCompletionsProvider({ baseURL, model: 'm', suggestionCount: 2, repairAttempts: 2 });
+
+      const suggestions = await provider.generateVocabularySuggestions(input);
+
+      expect(texts(suggestions)).toEqual(['부드럽게', '고요히']);
+      expect(requests).toHaveLength(3);
+      const repair = requests[1].body.messages;
+      expect(repair.map((message: { role: string }) => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+      expect(repair[2].content).toBe('1. 부드럽게\n2. 고요히');
+      expect(repair[3].content).toContain('the reply is not valid JSON');
+      expect(requests[2].body.messages[5].content).toContain('2 different candidates were asked for, 1 were given');
+    });
+
+    it('should fail rather than pad when the model keeps under-delivering', async () => {
+      replies.push(chatReply({ candidates: ['부드럽게'] }), chatReply({ candidates: ['부드럽게'] }));
+      const provider = new ChatCompletionsProvider({ baseURL, model: 'm', suggestionCount: 3 });
+
+      await expect(provider.generateVocabularySuggestions(input))
+        .rejects.toThrow('Expected 3 suggestions but received 1: 3 different candidates were asked for, 1 were given');
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should return a short list when partial results are allowed', async () => {
+      replies.push(chatReply({ candidates: ['부드럽게'] }), chatReply({ candidates: ['은은하게'] }));
+      const provider = new ChatCompletionsProvider({ baseURL, model: 'm', suggestionCount: 3, allowPartial: true });
+
+      expect(texts(await provider.generateVocabularySuggestions(input))).toEqual(['부드럽게', '은은하게']);
+    });
+
+    it('should send the API key as a bearer token when one is configured', async () => {
+      replies.push(chatReply({ candidates: ['부드럽게'] }));
+      const provider = new ChatCompletionsProvider({ baseURL, model: 'served-model', apiKey: 'secret', suggestionCount: 1 });
+
+      await provider.generateVocabularySuggestions(input);
+
+      expect(requests[0].url).toBe('/chat/completions');
+      expect(requests[0].headers.authorization).toBe('Bearer secret');
+    });
+
+    it('should report the status and body of an error response', async () => {
+      replies.push({ status: 404, body: { error: 'model not found' } });
+      const provider = new ChatCompletionsProvider({ baseURL, model: 'missing' });
+
+      await expect(provider.generateVocabularySuggestions(input)).rejects.toThrow(/404.*model not found/);
+    });
+
+    it('should require a base URL and a model', async () => {
+      await expect(new ChatCompletionsProvider({ model: 'm' }).generateVocabularySuggestions(input))
+        .rejects.toThrow('No base URL configured for the chat completions provider');
+      await expect(new ChatCompletionsProvider({ baseURL }).generateVocabularySuggestions(input))
+        .rejects.toThrow('No model configured for the chat completions provider');
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    it('should post to the Messages API and read the candidates from the forced tool call', async () => {
+      replies.push({
+        status: 200,
+        body: {
+          content: [{ type: 'tool_use', id: 'toolu_1', name: 'suggest_vocabulary', input: { candidates: ['부드럽게', '고요히', '은은하게'] } }]
+        }
+      });
+      const provider = new AnthropicProvider('test-key');
+      provider.configure({ baseURL, suggestionCount: 3 });
+
+      const suggestions = await provider.generateVocabularySuggestions(input);
+
+      expect(texts(suggestions)).toEqual(['부드럽게', '고요히', '은은하게']);
+      expect(requests[0].url).toBe('/v1/messages');
+      expect(requests[0].headers['x-api-key']).toBe('test-key');
+      expect(requests[0].headers['anthropic-version']).toBe('2023-06-01');
+      expect(requests[0].body.model).toBe(provider.getModel());
+      expect(typeof requests[0].body.system).toBe('string');
+      expect(requests[0].body.messages).toHaveLength(1);
+      expect(requests[0].body.messages[0].role).toBe('user');
+      expect(requests[0].body.max_tokens).toBeGreaterThan(0);
+      expect(requests[0].body.tools[0].name).toBe('suggest_vocabulary');
+      expect(requests[0].body.tool_choice).toEqual({ type: 'tool', name: 'suggest_vocabulary' });
+    });
+
+    it('should fail on an error response', async () => {
+      replies.push({ status: 401, body: { type: 'error', error: { type: 'authentication_error' } } });
+      const provider = new AnthropicProvider('wrong-key');
+      provider.configure({ baseURL });
+
+      await expect(provider.generateVocabularySuggestions(input)).rejects.toThrow(/401.*authentication_error/);
+      replies.push({ status: 401, body: { type: 'error', error: { type: 'authentication_error' } } });
+      await expect(provider.generateVocabularySuggestions(input)).rejects.toMatchObject({ code: 'auth', status: 401 });
+    });
+  });
+
+  describe('streaming', () => {
+    const events = (...data: unknown[]) => ({
+      status: 200,
+      body: data.map(item => `data: ${typeof item === 'string' ? item : JSON.stringify(item)}\n\n`).join('')
+    });
+    // The reply cut into pieces of a few characters, as a model streams it
+    const pieces = (reply: unknown) => JSON.stringify(reply).match(/[\s\S]{1,7}/g)!;
+    const collect = async (stream: AsyncIterable<Candidate>) => {
+      const candidates: Candidate[] = [];
+      for await (const candidate of stream) {
+        candidates.push(candidate);
+      }
+      return candidates;
+    };
+
+    it('should stream chat completion deltas as candidates', async () => {
+      const reply = { candidates: [{ text: '부드럽게', gloss: '거칠지 않고 순하게', hanja: null }, '고요히', '은은하게'] };
+      replies.push(events(
+        { choices: [{ delta: { role: 'assistant' } }] },
+        ...pieces(reply).map(content => ({ choices: [{ delta: { content } }] })),
+        '[DONE]'
+      ));
+      const provider = new ChatCompletionsProvider({ baseURL, model: 'llama3.1', suggestionCount: 3 });
+
+      const candidates = await collect(provider.streamVocabularySuggestions(input));
+
+      expect(candidates).toEqual([{ text: '부드럽게', gloss: '거칠지 않고 순하게' }, { text: '고요히' }, { text: '은은하게' }]);
+      expect(requests[0].url).toBe('/chat/completions');
+      expect(requests[0].headers.accept).toBe('text/event-stream');
+      expect(requests[0].body.stream).toBe(true);
+      expect(requests[0].body.response_format).toEqual({ type: 'json_object' });
+    });
+
+    it('should stream the input of the forced Anthropic tool call', async () => {
+      const reply = { candidates: ['부드럽게', '고요히'] };
+      replies.push(events(
+        { type: 'message_start', message: { id: 'msg_1' } },
+        { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', name: 'suggest_vocabulary', input: {} } },
+        ...pieces(reply).map(partial_json => ({ type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json } })),
+        { type: 'content_block_stop', index: 0 },
+        { type: 'message_stop' }
+      ));
+      const provider = new AnthropicProvider('test-key');
+      provider.configure({ baseURL, suggestionCount: 2 });
+
+      expect(texts(await collect(provider.streamVocabularySuggestions(input)))).toEqual(['부드럽게', '고요히']);
+      expect(requests[0].url).toBe('/v1/messages');
+      expect(requests[0].body.stream).toBe(true);
+      expect(requests[0].body.tool_choice).toEqual({ type: 'tool', name: 'suggest_vocabulary' });
+    });
+
+    it('should code failures before and during the stream', async () => {
+      replies.push(
+        { status: 429, body: { error: { message: 'Rate limit reached for requests' } } },
+        events({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } })
+      );
+      const provider = new AnthropicProvider('test-key');
+      provider.configure({ baseURL });
+
+      await expect(collect(provider.streamVocabularySuggestions(input))).rejects.toMatchObject({ code: 'rate-limit', status: 429 });
+      await expect(collect(provider.streamVocabularySuggestions(input)))
+        .rejects.toMatchObject({ code: 'server', message: 'Anthropic stream failed: Overloaded' });
+    });
+
+    it('should cancel the request of a stream that times out', async () => {
+      let signal: AbortSignal | undefined;
+      // Headers arrive, then nothing more until the request is aborted
+      const fetch: FetchFunction = async (_url, init) => {
+        signal = init.signal;
+        const reader = {
+          read: () => new Promise((_, reject) => signal!.addEventListener('abort', () => reject(new Error('aborted')))),
+          cancel: async () => undefined
+        };
+        return { ok: true, status: 200, text: async () => '', body: { getReader: () => reader as ReadableStreamDefaultReader<Uint8Array> } };
+      };
+      const provider = new ResilientProvider(new ChatCompletionsProvider({ baseURL, model: 'llama3.1', fetch }), { timeoutMs: 20, retries: 0 });
+
+      await expect(provider.streamVocabularySuggestions(input).next()).rejects.toMatchObject({ code: 'timeout' });
+      expect(signal!.aborted).toBe(true);
+    });
+
+    it('should cancel the request of a call that times out', async () => {
+      let signal: AbortSignal | undefined;
+      // No response at all until the request is aborted
+      const fetch: FetchFunction = (_url, init) => {
+        signal = init.signal;
+        return new Promise((_, reject) => signal!.addEventListener('abort', () => reject(new Error('aborted'))));
+      };
+      const provider = new ResilientProvider(new AnthropicProvider('test-key'), { timeoutMs: 20, retries: 0 });
+      provider.configure({ fetch });
+
+      await expect(provider.generateVocabularySuggestions(input)).rejects.toMatchObject({ code: 'timeout' });
+      expect(signal!.aborted).toBe(true);
+    });
+  });
+
+  describe('error codes', () => {
+    const provider = () => new ChatCompletionsProvider({ baseURL, model: 'llama3.1', repairAttempts: 0 });
+
+    it('should code error responses by status', async () => {
+      replies.push(
+        { status: 429, body: { error: { message: 'Rate limit reached for requests' } } },
+        { status: 429, body: { error: { code: 'insufficient_quota', message: 'You exceeded your current quota' } } },
+        { status: 503, body: { error: 'overloaded' } }
+      );
+
+      await expect(provider().generateVocabularySuggestions(input)).rejects.toMatchObject({ code: 'rate-limit', retryable: true });
+      await expect(provider().generateVocabularySuggestions(input)).rejects.toMatchObject({ code: 'quota', retryable: false });
+      await expect(provider().generateVocabularySuggestions(input)).rejects.toMatchObject({ code: 'server', status: 503 });
+    });
+
+    it('should code replies without usable candidates as invalid output', async () => {
+      replies.push({ status: 200, body: { choices: [{ message: { content: 'no idea' } }] } });
+
+      await expect(provider().generateVocabularySuggestions(input)).rejects.toMatchObject({ code: 'invalid-output' });
+    });
+
+    it('should code unreachable servers and missing settings', async () => {
+      const unreachable = new ChatCompletionsProvider({
+        baseURL,
+        model: 'llama3.1',
+        fetch: async () => { throw new TypeError('fetch failed'); }
+      });
+
+      await expect(unreachable.generateVocabularySuggestions(input)).rejects.toMatchObject({ code: 'network' });
+      await expect(new ChatCompletionsProvider({ baseURL }).generateVocabularySuggestions(input))
+        .rejects.toMatchObject({ code: 'config' });
+      const keyless = new AnthropicProvider();
+      keyless.configure({ apiKey: undefined });
+      await expect(keyless.generateVocabularySuggestions(input)).rejects.toMatchObject({ code: 'auth' });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { ProviderRegistry, createProviderRegistry } from '../ProviderRegistry';
+import { ChatCompletionsProvider } from '../ChatCompletionsProvider';
+import { AnthropicProvider } from '../AnthropicProvider';
+import { OpenAIProvider } from '../OpenAIProvider';
+import { MockLLMProvider } from '../MockLLMProvider';
+import { VocaEngine } from '../../engine';
+import { InputType, LLMProvider } from '../../types';
+
+describe('ProviderRegistry', () => {
+  it('should create the built-in providers by name', () => {
+    const registry = createProviderRegistry();
+
+    expect(registry.names()).toEqual(['openai', 'anthropic', 'openai-compatible', 'ollama', 'mock']);
+    expect(registry.create('openai', { apiKey: 'key' })).toBeInstanceOf(OpenAIProvider);
+    expect(registry.create('anthropic', { apiKey: 'key' })).toBeInstanceOf(AnthropicProvider);
+    expect(registry.create('openai-compatible', { baseURL: 'http://localhost:8000/v1', model: 'm' }))
+      .toBeInstanceOf(ChatCompletionsProvider);
+    expect(registry.create('mock')).toBeInstanceOf(MockLLMProvider);
+  });
+
+  it('should pass settings to the provider, leaving out undefined ones', () => {
+    const registry = createProviderRegistry();
+
+    const openai = registry.create('openai', { apiKey: 'key', model: 'gpt-4o-mini' }) as OpenAIProvider;
+    expect(openai.getModel()).toBe('gpt-4o-mini');
+
+    const anthropic = registry.create('anthropic', { apiKey: 'key', model: undefined }) as AnthropicProvider;
+    expect(anthropic.getModel()).toBe('claude-3-5-haiku-latest');
+
+    const ollama = registry.create('ollama', { model: 'llama3.1', baseURL: undefined }) as ChatCompletionsProvider;
+    expect(ollama.getModel()).toBe('llama3.1');
+  });
+
+  it('should name the available providers when one is unknown', () => {
+    const registry = createProviderRegistry();
+
+    expect(registry.has('gemini')).toBe(false);
+    expect(() => registry.create('gemini')).toThrow(
+      'Unknown provider: gemini. Available providers: openai, anthropic, openai-compatible, ollama, mock'
+    );
+  });
+
+  it('should let custom providers be registered and replace built-in ones', () => {
+    const registry = new ProviderRegistry();
+    const custom: LLMProvider = {
+      generateVocabularySuggestions: async () => ['맞춤'],
+      configure: () => undefined
+    };
+    const factory = jest.fn(() => custom);
+
+    registry.register('custom', factory);
+
+    expect(registry.has('custom')).toBe(true);
+    expect(registry.create('custom', { model: 'x' })).toBe(custom);
+    expect(factory).toHaveBeenCalledWith({ model: 'x' });
+  });
+
+  it('should load the OpenAI SDK only when an openai provider is created', () => {
+    jest.isolateModules(() => {
+      jest.doMock('openai', () => {
+        throw new Error('openai loaded');
+      });
+      const { createProviderRegistry: create } = require('../ProviderRegistry') as typeof import('../ProviderRegistry');
+      require('../../engine');
+
+      expect(() => create().create('mock')).not.toThrow();
+      expect(() => create().create('openai', { apiKey: 'key' })).toThrow('openai loaded');
+    });
+  });
+
+  it('should let the engine pick its provider by name', async () => {
+    const registry = new ProviderRegistry();
+    registry.register('fixed', () => ({
+      generateVocabularySuggestions: async () => ['부드럽게', '고요히'],
+      configure: () => undefined
+    }));
+    const engine = new VocaEngine({ provider: 'fixed', providerRegistry: registry });
+
+    const input = await engine.addInput(InputType.Expression, '잔잔한 노래');
+    const suggestion = await engine.generateSuggestions(input.id);
+
+    expect(suggestion.candidates).toEqual([{ text: '부드럽게' }, { text: '고요히' }]);
+    expect(() => new VocaEngine({ provider: 'missing', providerRegistry: registry }))
+      .toThrow('Unknown provider: missing. Available providers: fixed');
+    expect(() => new VocaEngine({})).toThrow('No LLM provider configured. Pass llmProvider or a provider name');
+  });
+});
@@ -0,0 +1,299 @@
+import { ResilientProvider, ResilienceClock } from '../ResilientProvider';
+import { ProviderError, toProviderError } from '../errors';
+import { VocaEngine } from '../../engine';
+import { ExpressionInput } from '../../models';
+import { InputType, LLMProvider, ProviderCallOptions } from '../../types';
+
+// A clock that only moves when the provider sleeps, recording each wait
+function fakeClock(): ResilienceClock & { time: number; waits: number[] } {
+  const clock = {
+    time: 0,
+    waits: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.waits.push(ms);
+      clock.time += ms;
+    },
+    random: () => 0.5
+  };
+  return clock;
+}
+
+// A provider that fails with the given errors, in order, and then succeeds
+function flakyProvider(...failures: unknown[]): LLMProvider & { calls: number } {
+  const provider = {
+    calls: 0,
+    generateVocabularySuggestions: async () => {
+      const failure = failures[provider.calls++];
+      if (failure) {
+        throw failure;
+      }
+      return ['부드럽게', '조용히'];
+    },
+    configure: jest.fn()
+  };
+  return provider;
+}
+
+describe('ResilientProvider', () => {
+  const input = ExpressionInput.createExpression('노래 소리가 잔잔하게 들린다');
+
+  it('should retry retryable failures with growing, jittered delays', async () => {
+    const inner = flakyProvider(
+      new ProviderError('rate-limit', 'slow down', 429),
+      new ProviderError('server', 'overloaded', 503),
+      new ProviderError('network', 'connection reset')
+    );
+    const clock = fakeClock();
+    const provider = new ResilientProvider(inner, { retries: 3, backoffMs: 100, maxBackoffMs: 300 }, clock);
+
+    expect(await provider.generateVocabularySuggestions(input)).toEqual(['부드럽게', '조용히']);
+    expect(inner.calls).toBe(4);
+    // Each delay is between half and all of min(maxBackoffMs, backoffMs * 2^attempt)
+    expect(clock.waits).toEqual([75, 150, 225]);
+  });
+
+  it('should give up after the configured retries with the last failure', async () => {
+    const inner = flakyProvider(...Array(5).fill(new ProviderError('server', 'overloaded', 503)));
+    const provider = new ResilientProvider(inner, { retries: 2 }, fakeClock());
+
+    await expect(provider.generateVocabularySuggestions(input)).rejects.toMatchObject({ code: 'server', status: 503 });
+    expect(inner.calls).toBe(3);
+  });
+
+  it('should not retry failures that waiting will not fix', async () => {
+    for (const code of ['auth', 'quota', 'invalid-output', 'config'] as const) {
+      const inner = flakyProvider(new ProviderError(code, code));
+      const provider = new ResilientProvider(inner, { retries: 3 }, fakeClock());
+
+      await expect(provider.generateVocabularySuggestions(input)).rejects.toMatchObject({ code });
+      expect(inner.calls).toBe(1);
+    }
+  });
+
+  it('should time out calls that take too long, abort them and retry', async () => {
+    const calls: ProviderCallOptions[] = [];
+    const inner: LLMProvider = {
+      generateVocabularySuggestions: (_input, options) => {
+        calls.push(options!);
+        return calls.length === 1 ? new Promise(() => undefined) : Promise.resolve(['고요히']);
+      },
+      configure: () => undefined
+    };
+    const provider = new ResilientProvider(inner, { timeoutMs: 20, retries: 1 }, fakeClock());
+
+    expect(await provider.generateVocabularySuggestions(input)).toEqual(['고요히']);
+    expect(calls).toHaveLength(2);
+    expect(calls.map(options => options.timeoutMs)).toEqual([20, 20]);
+    // The first request was cancelled before the retry started
+    expect(calls.map(options => options.signal!.aborted)).toEqual([true, false]);
+
+    const stuck = new ResilientProvider({ ...inner, generateVocabularySuggestions: () => new Promise(() => undefined) },
+      { timeoutMs: 20, retries: 0 });
+    await expect(stuck.generateVocabularySuggestions(input))
+      .rejects.toMatchObject({ code: 'timeout', message: 'No reply from the provider within 20 ms' });
+  });
+
+  it('should hold calls back to the rate limit, counting retries', async () => {
+    const inner = flakyProvider(new ProviderError('rate-limit', 'slow down', 429));
+    const clock = fakeClock();
+    const provider = new ResilientProvider(inner, { requestsPerMinute: 2, backoffMs: 1000 }, clock);
+
+    await provider.generateVocabularySuggestions(input);
+    expect(clock.waits).toEqual([750]);
+
+    // Both calls of the current minute are used, so the next waits for the first to leave the window
+    await provider.generateVocabularySuggestions(input);
+    expect(clock.waits).toEqual([750, 59250]);
+    expect(clock.time).toBe(60000);
+  });
+
+  describe('streaming', () => {
+    const collect = async (stream: AsyncIterable<unknown>) => {
+      const values: unknown[] = [];
+      for await (const value of stream) {
+        values.push(value);
+      }
+      return values;
+    };
+    // A streaming provider whose streams fail as given, in order: before the first candidate, after it, or not at all
+    function streamingProvider(...failures: ('before' | 'after' | undefined)[]): LLMProvider & { streams: number } {
+      const provider = {
+        streams: 0,
+        generateVocabularySuggestions: async () => ['부드럽게', '조용히'],
+        streamVocabularySuggestions: async function* () {
+          const failure = failures[provider.streams++];
+          if (failure === 'before') {
+            throw new ProviderError('network', 'connection reset');
+          }
+          yield '부드럽게';
+          if (failure === 'after') {
+            throw new ProviderError('network', 'connection reset');
+          }
+          yield '조용히';
+        },
+        configure: () => undefined
+      };
+      return provider;
+    }
+
+    it('should retry a stream that fails before its first candidate', async () => {
+      const inner = streamingProvider('before', undefined);
+      const clock = fakeClock();
+      const provider = new ResilientProvider(inner, { retries: 1, backoffMs: 100 }, clock);
+
+      expect(await collect(provider.streamVocabularySuggestions(input))).toEqual(['부드럽게', '조용히']);
+      expect(inner.streams).toBe(2);
+      expect(clock.waits).toEqual([75]);
+    });
+
+    it('should not retry a stream that already passed on candidates', async () => {
+      const inner = streamingProvider('after', undefined);
+      const provider = new ResilientProvider(inner, { retries: 1 }, fakeClock());
+      const received: unknown[] = [];
+
+      const failure = await (async () => {
+        for await (const value of provider.streamVocabularySuggestions(input)) {
+          received.push(value);
+        }
+      })().catch(error => error);
+
+      expect(received).toEqual(['부드럽게']);
+      expect(failure).toMatchObject({ code: 'network' });
+      expect(inner.streams).toBe(1);
+    });
+
+    it('should time out the wait for each candidate', async () => {
+      const inner: LLMProvider = {
+        generateVocabularySuggestions: async () => [],
+        streamVocabularySuggestions: async function* () {
+          yield '부드럽게';
+          await new Promise(() => undefined);
+        },
+        configure: () => undefined
+      };
+      const provider = new ResilientProvider(inner, { timeoutMs: 20, retries: 0 });
+
+      await expect(collect(provider.streamVocabularySuggestions(input)))
+        .rejects.toMatchObject({ code: 'timeout', message: 'No reply from the provider within 20 ms' });
+    });
+
+    it('should abort a stream that times out', async () => {
+      let signal: AbortSignal | undefined;
+      const inner: LLMProvider = {
+        generateVocabularySuggestions: async () => [],
+        streamVocabularySuggestions: async function* (_input, options) {
+          signal = options && options.signal;
+          yield '부드럽게';
+          // A reply that never comes, until the request is aborted
+          await new Promise((_, reject) => signal!.addEventListener('abort', () => reject(new Error('aborted'))));
+        },
+        configure: () => undefined
+      };
+      const provider = new ResilientProvider(inner, { timeoutMs: 20, retries: 0 });
+
+      await expect(collect(provider.streamVocabularySuggestions(input))).rejects.toMatchObject({ code: 'timeout' });
+      expect(signal!.aborted).toBe(true);
+    });
+
+    it('should yield the whole reply of a provider that cannot stream', async () => {
+      const provider = new ResilientProvider(flakyProvider(), {}, fakeClock());
+
+      expect(await collect(provider.streamVocabularySuggestions(input))).toEqual(['부드럽게', '조용히']);
+    });
+  });
+
+  it('should pass configuration to the wrapped provider without adding its own', () => {
+    const inner = flakyProvider();
+    new ResilientProvider(inner).configure({ model: 'gpt-4o-mini' });
+
+    expect(inner.configure).toHaveBeenCalledTimes(1);
+    expect(inner.configure).toHaveBeenCalledWith({ model: 'gpt-4o-mini' });
+  });
+
+  it('should leave retries to itself and give the OpenAI SDK its timeout and signal with each call', async () => {
+    const clients: Record<string, any>[] = [];
+    const requests: Record<string, any>[] = [];
+    let OpenAIProvider!: typeof import('../OpenAIProvider').OpenAIProvider;
+    jest.isolateModules(() => {
+      jest.doMock('openai', () => ({
+        OpenAI: class {
+          chat = {
+            completions: {
+              create: async (_body: unknown, options: Record<string, any>) => {
+                requests.push(options);
+                return { choices: [{ message: { content: '{"candidates": ["부드럽게"]}' } }] };
+              }
+            }
+          };
+          constructor(options: Record<string, any>) {
+            clients.push(options);
+          }
+        }
+      }));
+      ({ OpenAIProvider } = require('../OpenAIProvider') as typeof import('../OpenAIProvider'));
+    });
+    const openai = new OpenAIProvider('key');
+    openai.configure({ suggestionCount: 1 });
+
+    await new ResilientProvider(openai, { timeoutMs: 45000 }).generateVocabularySuggestions(input);
+    expect(clients).toEqual([expect.objectContaining({ maxRetries: 0 })]);
+    expect(requests).toEqual([{ signal: expect.any(AbortSignal), timeout: 45000 }]);
+  });
+
+  describe('toProviderError', () => {
+    it('should code errors from SDKs by status and name', () => {
+      expect(toProviderError(Object.assign(new Error('401 Incorrect API key'), { status: 401 })).code).toBe('auth');
+      expect(toProviderError(Object.assign(new Error('429 You exceeded your current quota'), { status: 429, code: 'insufficient_quota' })).code)
+        .toBe('quota');
+      expect(toProviderError(Object.assign(new Error('500 Internal error'), { status: 500 })).code).toBe('server');
+      expect(toProviderError(new Error('Request timed out.')).code).toBe('timeout');
+      expect(toProviderError(new Error('Connection error.')).code).toBe('network');
+      expect(toProviderError('something else')).toMatchObject({ code: 'unknown', message: 'something else' });
+    });
+
+    it('should code embedding failures like those of the other providers', async () => {
+      let OpenAIEmbeddingProvider!: typeof import('../OpenAIEmbeddingProvider').OpenAIEmbeddingProvider;
+      jest.isolateModules(() => {
+        jest.doMock('openai', () => ({
+          OpenAI: class {
+            embeddings = { create: async () => { throw Object.assign(new Error('401 Incorrect API key'), { status: 401 }); } };
+          }
+        }));
+        ({ OpenAIEmbeddingProvider } = require('../OpenAIEmbeddingProvider') as typeof import('../OpenAIEmbeddingProvider'));
+      });
+
+      await expect(new OpenAIEmbeddingProvider('key').embed(['잔잔하게']))
+        .rejects.toMatchObject({ code: 'auth', message: '401 Incorrect API key' });
+      const keyless = new OpenAIEmbeddingProvider();
+      keyless.configure({ apiKey: '' });
+      await expect(keyless.embed(['잔잔하게'])).rejects.toMatchObject({ code: 'auth' });
+    });
+  });
+
+  describe('with VocaEngine', () => {
+    it('should report the code of a failure without wrapping the message twice', async () => {
+      const inner = flakyProvider(...Array(3).fill(new ProviderError('auth', 'No Anthropic API key configured')));
+      const engine = new VocaEngine({ llmProvider: inner, resilience: { retries: 2 } });
+      const added = await engine.addInput(InputType.Expression, '잔잔하게');
+
+      const failure = await engine.generateSuggestions(added.id).catch(error => error);
+
+      expect(failure).toBeInstanceOf(ProviderError);
+      expect(failure.code).toBe('auth');
+      expect(failure.message).toBe('Failed to generate suggestions: No Anthropic API key configured');
+      expect(inner.calls).toBe(1);
+    });
+
+    it('should retry through the wrapper the engine was configured with', async () => {
+      const inner = flakyProvider(new ProviderError('server', 'overloaded', 503));
+      const engine = new VocaEngine({ llmProvider: inner, resilience: { retries: 1, backoffMs: 1 } });
+      const added = await engine.addInput(InputType.Expression, '잔잔하게');
+
+      const suggestion = await engine.generateSuggestions(added.id);
+
+      expect(suggestion.candidates.map(candidate => candidate.text)).toEqual(['부드럽게', '조용히']);
+      expect(inner.calls).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { parseSuggestions, requestSuggestions, streamSuggestions, buildPrompt, ChatMessage, CandidateStreamParser } from '../prompts';
+import { ExpressionInput } from '../../models';
+import { Candidate } from '../../types';
+
+const texts = (candidates: Candidate[]) => candidates.map(candidate => candidate.text);
+
+describe('parseSuggestions', () => {
+  it('should read candidates with their details, leaving out null ones', () => {
+    const reply = JSON.stringify({
+      candidates: [
+        { text: '선율', gloss: '소리의 흐름', example: '피아노 선율이 흘렀다.', register: '문어체', partOfSpeech: '명사', hanja: '旋律' },
+        { text: ' 가락 ', gloss: '소리의 장단', example: null, register: null, partOfSpeech: '명사', hanja: null },
+        { text: '' }
+      ]
+    });
+
+    expect(parseSuggestions(reply)).toEqual([
+      { text: '선율', gloss: '소리의 흐름', example: '피아노 선율이 흘렀다.', register: '문어체', partOfSpeech: '명사', hanja: '旋律' },
+      { text: '가락', gloss: '소리의 장단', partOfSpeech: '명사' }
+    ]);
+  });
+
+  it('should tolerate a code fence, a bare array and plain strings', () => {
+    expect(parseSuggestions('```json\n{"candidates": ["부드럽게"]}\n```')).toEqual([{ text: '부드럽게' }]);
+    expect(texts(parseSuggestions('["부드럽게", {"text": "고요히"}]'))).toEqual(['부드럽게', '고요히']);
+  });
+
+  it('should keep candidates with colons and numbers, and drop repeats', () => {
+    expect(texts(parseSuggestions('{"candidates": ["3월의 바람", "비유: 봄비처럼", "고요히", "고요히."]}')))
+      .toEqual(['3월의 바람', '비유: 봄비처럼', '고요히']);
+  });
+
+  it('should say what is wrong with a reply it cannot use', () => {
+    expect(() => parseSuggestions('부드럽게\n고요히')).toThrow('the reply is not valid JSON');
+    expect(() => parseSuggestions('{"words": []}')).toThrow('the reply has no "candidates" array');
+    expect(() => parseSuggestions('null')).toThrow('the reply has no "candidates" array');
+    expect(() => parseSuggestions('{"candidates": ["부드럽게", 3]}')).toThrow('candidate 2 has no text');
+    expect(() => parseSuggestions('{"candidates": [{"gloss": "뜻"}]}')).toThrow('candidate 1 has no text');
+  });
+});
+
+describe('requestSuggestions', () => {
+  const input = ExpressionInput.createExpression('잔잔한 노래');
+
+  it('should ask for the count in JSON and return exactly that many', async () => {
+    const complete = jest.fn(async () => '{"candidates": ["가", "나", "다", "라"]}');
+
+    const candidates = await requestSuggestions(input, 3, { repairAttempts: 1, allowPartial: false }, complete);
+
+    expect(texts(candidates)).toEqual(['가', '나', '다']);
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(buildPrompt(input, 3)).toContain('{"candidates"');
+  });
+
+  it('should repair an invalid reply with the conversation so far', async () => {
+    const conversations: ChatMessage[][] = [];
+    const replies = ['가, 나', '{"candidates": ["가", "나"]}'];
+    const complete = async (messages: ChatMessage[]) => {
+      conversations.push([...messages]);
+      return replies.shift()!;
+    };
+
+    const candidates = await requestSuggestions(input, 2, { repairAttempts: 1, allowPartial: false }, complete);
+
+    expect(texts(candidates)).toEqual(['가', '나']);
+    expect(conversations[1]).toHaveLength(3);
+    expect(conversations[1][1]).toEqual({ role: 'assistant', content: '가, 나' });
+    expect(conversations[1][2].content).toContain('the reply is not valid JSON');
+  });
+
+  it('should fail once the repair attempts run out', async () => {
+    const complete = jest.fn(async () => 'not json');
+
+    await expect(requestSuggestions(input, 2, { repairAttempts: 2, allowPartial: true }, complete))
+      .rejects.toThrow('Expected 2 suggestions but received 0: the reply is not valid JSON');
+    expect(complete).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('CandidateStreamParser', () => {
+  it('should return each candidate once it is complete, however the reply is split', () => {
+    const reply = '```json\n{"candidates": [{"text": "부드럽게", "gloss": "거칠지 않게 \\"순하게\\""}, "고요히", {"text": "선율", "examples": ["[가]", "{나}"]}]}\n```';
+    const parser = new CandidateStreamParser();
+    const found = Array.from(reply).map(char => parser.push(char));
+
+    expect(found.flat()).toEqual([{ text: '부드럽게', gloss: '거칠지 않게 "순하게"' }, '고요히', { text: '선율', examples: ['[가]', '{나}'] }]);
+    // The first candidate is returned by the chunk that closes it, before the rest has arrived
+    expect(found.findIndex(chunk => chunk.length > 0)).toBe(reply.indexOf('}'));
+    expect(parser.getText()).toBe(reply);
+  });
+
+  it('should read a bare array and skip elements without text', () => {
+    const parser = new CandidateStreamParser();
+
+    expect(parser.push('[{"gloss": "뜻만"}, "가", ')).toEqual(['가']);
+    expect(parser.push('"나"] ["다"]')).toEqual(['나']);
+  });
+
+  it('should pass over arrays before the candidates key', () => {
+    const parser = new CandidateStreamParser();
+
+    expect(parser.push('{"note": ["x", {"text": "y"}], "tags": [], "candidates": ["부드럽게", {"text": "고요히", "examples": ["z"]}]}'))
+      .toEqual(['부드럽게', { text: '고요히', examples: ['z'] }]);
+  });
+});
+
+describe('streamSuggestions', () => {
+  const input = ExpressionInput.createExpression('잔잔한 노래');
+  const collect = async (stream: AsyncIterable<Candidate>) => {
+    const candidates: Candidate[] = [];
+    for await (const candidate of stream) {
+      candidates.push(candidate);
+    }
+    return candidates;
+  };
+  async function* pieces(...chunks: string[]) {
+    yield* chunks;
+  }
+
+  it('should yield new candidates as they arrive and stop reading at the count', async () => {
+    let finished = false;
+    const stream = jest.fn(async function* () {
+      yield* pieces('{"candidates": ["가", "가 "', ', "나", "다"');
+      yield ', "라"]}';
+      finished = true;
+    });
+
+    const candidates = await collect(streamSuggestions(input, 3, { repairAttempts: 1, allowPartial: false }, stream));
+
+    expect(texts(candidates)).toEqual(['가', '나', '다']);
+    expect(stream).toHaveBeenCalledTimes(1);
+    expect(finished).toBe(false);
+  });
+
+  it('should repair a short reply, yielding only what is new', async () => {
+    const conversations: ChatMessage[][] = [];
+    const replies = [['{"candidates": ["가"', ']}'], ['{"candidates": ["가", "나"]}']];
+    const stream = (messages: ChatMessage[]) => {
+      conversations.push([...messages]);
+      return pieces(...replies.shift()!);
+    };
+
+    const candidates = await collect(streamSuggestions(input, 2, { repairAttempts: 1, allowPartial: false }, stream));
+
+    expect(texts(candidates)).toEqual(['가', '나']);
+    expect(conversations[1][1]).toEqual({ role: 'assistant', content: '{"candidates": ["가"]}' });
+    expect(conversations[1][2].content).toContain('2 different candidates were asked for, 1 were given');
+  });
+
+  it('should fail once the repair attempts run out, unless partial lists are allowed', async () => {
+    const stream = () => pieces('["가"]');
+
+    await expect(collect(streamSuggestions(input, 2, { repairAttempts: 0, allowPartial: false }, stream)))
+      .rejects.toThrow('Expected 2 suggestions but received 1: 2 different candidates were asked for, 1 were given');
+    expect(texts(await collect(streamSuggestions(input, 2, { repairAttempts: 0, allowPartial: true }, stream)))).toEqual(['가']);
+  });
+});
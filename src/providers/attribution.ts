@@ -0,0 +1,21 @@
+import { LLMProvider, ExpressionInput, AttributedSuggestions, ProviderCallOptions } from '../types';
+
+// The name a provider goes by: its own, or its class name unless it is a plain object
+export function providerName(provider: LLMProvider): string | undefined {
+  if (provider.name) {
+    return provider.name;
+  }
+  return provider.constructor === Object ? undefined : provider.constructor.name;
+}
+
+// Suggestions from any provider, with the name of the one that answered when the provider reports it
+export async function generateAttributed(
+  provider: LLMProvider,
+  input: ExpressionInput,
+  options?: ProviderCallOptions
+): Promise<AttributedSuggestions> {
+  if (provider.generateAttributedSuggestions) {
+    return await provider.generateAttributedSuggestions(input, options);
+  }
+  return { candidates: await provider.generateVocabularySuggestions(input, options) };
+}
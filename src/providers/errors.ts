@@ -0,0 +1,68 @@
+import { ProviderErrorCode } from '../types';
+
+const RETRYABLE_CODES: ProviderErrorCode[] = ['rate-limit', 'timeout', 'network', 'server'];
+
+// A failed provider call, with a code that says what went wrong independently of the provider
+export class ProviderError extends Error {
+  readonly code: ProviderErrorCode;
+  // The HTTP status of the failed response, when there was one
+  readonly status?: number;
+
+  constructor(code: ProviderErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.code = code;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+// The code for an HTTP error status; a 429 that mentions a quota will not clear by retrying
+export function codeForStatus(status: number, body: string = ''): ProviderErrorCode {
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 429) {
+    return /quota|billing|credit/i.test(body) ? 'quota' : 'rate-limit';
+  }
+  if (status === 408) {
+    return 'timeout';
+  }
+  if (status >= 500) {
+    return 'server';
+  }
+  return 'unknown';
+}
+
+/**
+ * Classify any error thrown while calling a provider. ProviderErrors pass
+ * through; errors with an HTTP status, like those of the OpenAI SDK, are
+ * coded by status; connection and timeout errors are recognised by name.
+ */
+export function toProviderError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const details = (error || {}) as { name?: string; status?: unknown; code?: unknown };
+
+  if (typeof details.status === 'number') {
+    return new ProviderError(codeForStatus(details.status, `${details.code || ''} ${message}`), message, details.status);
+  }
+  if (/timeout|timed out/i.test(`${details.name} ${message}`)) {
+    return new ProviderError('timeout', message);
+  }
+  if (/connection|fetch failed|ECONNREFUSED|ENOTFOUND|ECONNRESET/i.test(`${details.name} ${details.code} ${message}`)) {
+    return new ProviderError('network', message);
+  }
+  return new ProviderError('unknown', message);
+}
+
+// The stable code of an error, for reporting; undefined when it is not a provider failure
+export function errorCode(error: unknown): ProviderErrorCode | undefined {
+  return error instanceof ProviderError ? error.code : undefined;
+}
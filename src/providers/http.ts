@@ -0,0 +1,134 @@
+import { ProviderError, codeForStatus } from './errors';
+
+// The fetch function providers call; injectable so tests and older runtimes can supply their own
+export type FetchFunction = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: string; signal?: AbortSignal }
+) => Promise<FetchResponse>;
+
+// The part of a fetch Response providers use; body is only read for streamed replies
+export interface FetchResponse {
+  ok: boolean;
+  status: number;
+  text(): Promise<string>;
+  body?: { getReader(): ReadableStreamDefaultReader<Uint8Array> } | null;
+}
+
+// An environment variable in Node.js; browsers have none, so there keys come from the config alone
+export function environmentVariable(name: string): string | undefined {
+  const runtime = (globalThis as { process?: { env?: Record<string, string | undefined> } }).process;
+  return runtime && runtime.env ? runtime.env[name] : undefined;
+}
+
+export function defaultFetch(): FetchFunction {
+  const globalFetch = (globalThis as { fetch?: FetchFunction }).fetch;
+  if (!globalFetch) {
+    throw new ProviderError('config', 'fetch is not available in this environment; pass one in the provider config');
+  }
+  return globalFetch;
+}
+
+// POST a JSON body and parse the JSON reply, failing with a ProviderError coded by what went wrong; signal cancels the request
+export async function postJSON(
+  fetchFn: FetchFunction,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, any>,
+  signal?: AbortSignal
+): Promise<any> {
+  const text = await (await post(fetchFn, url, headers, body, signal)).text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ProviderError('invalid-output', `${url} responded with invalid JSON: ${text.slice(0, 200)}`);
+  }
+}
+
+/**
+ * POST a JSON body and yield the JSON data of each server-sent event as it
+ * arrives, until the stream ends or sends [DONE]. Stopping early cancels
+ * the response, so the server stops generating; so does aborting signal,
+ * even while a read is waiting.
+ */
+export async function* postEventStream(
+  fetchFn: FetchFunction,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, any>,
+  signal?: AbortSignal
+): AsyncGenerator<any> {
+  const response = await post(fetchFn, url, { accept: 'text/event-stream', ...headers }, body, signal);
+  if (!response.body) {
+    throw new ProviderError('config', 'The fetch in use cannot stream responses; pass one in the provider config');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      // The last piece may be a line still being received
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        if (!line.startsWith('data:')) {
+          continue;
+        }
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') {
+          return;
+        }
+        let event;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          throw new ProviderError('invalid-output', `${url} streamed invalid JSON: ${data.slice(0, 200)}`);
+        }
+        yield event;
+      }
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+async function post(
+  fetchFn: FetchFunction,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, any>,
+  signal?: AbortSignal
+): Promise<FetchResponse> {
+  let response;
+  try {
+    response = await fetchFn(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      ...(signal ? { signal } : {})
+    });
+  } catch (error) {
+    throw new ProviderError('network', `Could not reach ${url}: ${(error as Error).message}`);
+  }
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new ProviderError(
+      codeForStatus(response.status, text),
+      `${url} responded with ${response.status}: ${text}`,
+      response.status
+    );
+  }
+  return response;
+}
+
+// Join a base URL and a path without doubling or dropping the slash between them
+export function joinURL(baseURL: string, path: string): string {
+  return `${baseURL.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
@@ -1,2 +1,12 @@
 export { MockLLMProvider } from './MockLLMProvider';
-export { OpenAIProvider } from './OpenAIProvider';
\ No newline at end of file
+export { OpenAIProvider } from './OpenAIProvider';
+export { ChatCompletionsProvider } from './ChatCompletionsProvider';
+export { AnthropicProvider } from './AnthropicProvider';
+export { ProviderRegistry, createProviderRegistry } from './ProviderRegistry';
+export { MockEmbeddingProvider } from './MockEmbeddingProvider';
+export { OpenAIEmbeddingProvider } from './OpenAIEmbeddingProvider';
+export { ResilientProvider } from './ResilientProvider';
+export type { ResilienceClock } from './ResilientProvider';
+export { FallbackProvider } from './FallbackProvider';
+export type { FallbackMember } from './FallbackProvider';
+export { ProviderError, toProviderError, errorCode } from './errors';
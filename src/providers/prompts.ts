@@ -0,0 +1,352 @@
+import { Candidate, ExpressionInput, InputType } from '../types';
+import { uniqueCandidates } from '../utils/Duplicates';
+import { ProviderError } from './errors';
+
+// Raise whenever the prompts or schema change, so replies cached for the old prompts are not reused
+export const PROMPT_VERSION = 1;
+
+export const SYSTEM_PROMPT = '당신은 한국어 어휘 향상을 돕는 전문가입니다. 사용자의 입력에 대해 더 다양하고 풍부한 어휘 표현을 제안해주세요. 응답은 항상 지정된 형식의 JSON 객체로만 작성합니다.';
+
+// Details are nullable rather than optional, since strict schemas require every property
+const detail = (description: string) => ({ type: ['string', 'null'], description });
+
+// The shape every provider asks for, as JSON mode, a response schema or a tool's input
+export const SUGGESTIONS_SCHEMA = {
+  type: 'object',
+  properties: {
+    candidates: {
+      type: 'array',
+      description: '서로 다른 어휘 대안',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string', description: '어휘 또는 표현' },
+          gloss: detail('짧은 뜻풀이'),
+          example: detail('이 어휘를 사용한 예문'),
+          register: detail('격식체, 문어체, 구어체 등 말의 격이나 뉘앙스'),
+          partOfSpeech: detail('품사'),
+          hanja: detail('한자어인 경우 한자 표기')
+        },
+        required: ['text', 'gloss', 'example', 'register', 'partOfSpeech', 'hanja'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['candidates'],
+  additionalProperties: false
+};
+
+// Reply tokens allowed per candidate: one with every detail filled in takes 100 or more, as Hangul and Hanja cost up to three tokens a character
+export const TOKENS_PER_CANDIDATE = 200;
+
+// The max_tokens of a request: the configured maxTokens, or enough for suggestionCount full candidates
+export function replyTokenLimit(suggestionCount: number, maxTokens?: number): number {
+  return maxTokens === undefined ? TOKENS_PER_CANDIDATE * suggestionCount : maxTokens;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface StructuredRequestOptions {
+  // Requests allowed after the first one to fix an unusable or short reply
+  repairAttempts: number;
+  // Return the candidates received so far instead of failing when fewer than asked for
+  allowPartial: boolean;
+}
+
+function getInputTypeDescription(type: InputType): string {
+  switch (type) {
+    case InputType.Expression:
+      return '표현';
+    case InputType.Explanation:
+      return '상황 설명';
+    case InputType.Image:
+      return '이미지';
+    default:
+      return '입력';
+  }
+}
+
+function describeReplyFormat(suggestionCount: number): string {
+  return `서로 다른 후보 ${suggestionCount}개를 {"candidates": [{"text": "어휘", "gloss": "짧은 뜻풀이", "example": "예문", "register": "격식체/문어체/구어체 등", "partOfSpeech": "품사", "hanja": "한자 표기 또는 null"}]} 형식의 JSON 객체로만 응답해주세요.`;
+}
+
+// The user prompt asking for suggestionCount alternatives as a JSON object
+export function buildPrompt(input: ExpressionInput, suggestionCount: number): string {
+  const baseInstruction = `다음 ${getInputTypeDescription(input.type)}에 대해 ${suggestionCount}개의 어휘 대안을 제안해주세요.`;
+
+  switch (input.type) {
+    case InputType.Expression:
+      return `${baseInstruction}
+
+표현: "${input.content}"
+
+위 표현을 더 풍부하고 다양하게 표현할 수 있는 어휘나 구문을 제안해주세요. ${describeReplyFormat(suggestionCount)}`;
+
+    case InputType.Explanation:
+      return `${baseInstruction}
+
+상황 설명: "${input.content}"
+
+위 상황을 표현할 때 사용할 수 있는 감각적이고 생동감 있는 어휘나 표현을 제안해주세요. ${describeReplyFormat(suggestionCount)}`;
+
+    case InputType.Image:
+      return `${baseInstruction}
+
+이미지 정보: "${input.content}"
+
+위 이미지를 묘사할 때 사용할 수 있는 시각적이고 표현력이 풍부한 어휘나 구문을 제안해주세요. ${describeReplyFormat(suggestionCount)}`;
+
+    default:
+      return `${baseInstruction}
+
+내용: "${input.content}"
+
+위 내용과 관련된 다양한 어휘 표현을 제안해주세요. ${describeReplyFormat(suggestionCount)}`;
+  }
+}
+
+// Sent after a reply that could not be used, saying what was wrong with it
+export function buildRepairPrompt(problem: string, suggestionCount: number): string {
+  return `이전 응답을 사용할 수 없습니다: ${problem}. ${describeReplyFormat(suggestionCount)}`;
+}
+
+/**
+ * The candidates of a reply matching SUGGESTIONS_SCHEMA. A Markdown code
+ * fence around the JSON, a bare array and plain strings for candidates are
+ * tolerated; anything else that does not match throws, saying what is
+ * wrong. Null details are left out and repeats removed; there is never any
+ * padding.
+ */
+export function parseSuggestions(content: string): Candidate[] {
+  const json = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('the reply is not valid JSON');
+  }
+
+  const candidates = Array.isArray(data) ? data : (data as { candidates?: unknown } | null)?.candidates;
+  if (!Array.isArray(candidates)) {
+    throw new Error('the reply has no "candidates" array');
+  }
+  candidates.forEach((candidate, index) => {
+    const text = typeof candidate === 'string' ? candidate : candidate?.text;
+    if (typeof text !== 'string') {
+      throw new Error(`candidate ${index + 1} has no text`);
+    }
+  });
+
+  return uniqueCandidates(candidates);
+}
+
+/**
+ * Ask for suggestionCount candidates through complete(), which sends the
+ * conversation so far and returns the model's raw reply. A reply that does
+ * not parse, or that brings the total short of the count, is answered with
+ * a repair prompt; candidates from every attempt are pooled. Fails when the
+ * attempts run out, unless allowPartial accepts a shorter list.
+ */
+export async function requestSuggestions(
+  input: ExpressionInput,
+  suggestionCount: number,
+  options: StructuredRequestOptions,
+  complete: (messages: ChatMessage[]) => Promise<string>
+): Promise<Candidate[]> {
+  const messages: ChatMessage[] = [{ role: 'user', content: buildPrompt(input, suggestionCount) }];
+  let candidates: Candidate[] = [];
+  let problem = '';
+
+  for (let attempt = 0; attempt <= options.repairAttempts; attempt++) {
+    const reply = await complete(messages);
+    try {
+      candidates = uniqueCandidates([...candidates, ...parseSuggestions(reply)]);
+      if (candidates.length >= suggestionCount) {
+        return candidates.slice(0, suggestionCount);
+      }
+      problem = `${suggestionCount} different candidates were asked for, ${candidates.length} were given`;
+    } catch (error) {
+      problem = (error as Error).message;
+    }
+    messages.push({ role: 'assistant', content: reply }, { role: 'user', content: buildRepairPrompt(problem, suggestionCount) });
+  }
+
+  if (options.allowPartial && candidates.length > 0) {
+    return candidates;
+  }
+  throw new ProviderError('invalid-output', `Expected ${suggestionCount} suggestions but received ${candidates.length}: ${problem}`);
+}
+
+/**
+ * Reads the candidates array of a reply while it is still arriving: each
+ * candidate object or string is returned by push as soon as it is complete.
+ * The candidates are a top-level array or the value of a top-level
+ * "candidates" key; other arrays in the reply are passed over. Elements
+ * without text are skipped here and reported by parseSuggestions once the
+ * reply is complete.
+ */
+export class CandidateStreamParser {
+  private text = '';
+  private position = 0;
+  // Nesting of the reply: 1 directly inside a top-level object or array
+  private depth = 0;
+  // The depth of the candidates array's elements; 0 before it opens and after it closes
+  private arrayDepth = 0;
+  private closed = false;
+  private inString = false;
+  private escaped = false;
+  private stringStart = 0;
+  private elementStart = 0;
+  // The last string in the top-level object, and the key whose value is being read
+  private lastString = '';
+  private key: string | undefined;
+
+  push(chunk: string): (string | Candidate)[] {
+    this.text += chunk;
+    const found: (string | Candidate)[] = [];
+
+    for (; this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+      const inElements = this.arrayDepth > 0 && this.depth === this.arrayDepth;
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.collect(found, inElements);
+          this.lastString = this.depth === 1 ? this.text.slice(this.stringStart + 1, this.position) : this.lastString;
+        }
+      } else if (char === '"') {
+        this.inString = true;
+        this.stringStart = this.position;
+        this.elementStart = inElements ? this.position : this.elementStart;
+      } else if (char === ':' && this.depth === 1) {
+        this.key = this.lastString;
+      } else if (char === ',' && this.depth === 1) {
+        this.key = undefined;
+      } else if (char === '{' || char === '[') {
+        const opensCandidates = char === '[' && !this.closed && this.arrayDepth === 0
+          && (this.depth === 0 || (this.depth === 1 && this.key === 'candidates'));
+        this.elementStart = inElements ? this.position : this.elementStart;
+        this.depth++;
+        this.arrayDepth = opensCandidates ? this.depth : this.arrayDepth;
+      } else if ((char === '}' || char === ']') && this.depth > 0) {
+        this.depth--;
+        if (this.arrayDepth > 0 && this.depth < this.arrayDepth) {
+          this.arrayDepth = 0;
+          this.closed = true;
+        } else {
+          this.collect(found, this.arrayDepth > 0 && this.depth === this.arrayDepth);
+        }
+      }
+    }
+    return found;
+  }
+
+  // Everything received so far
+  getText(): string {
+    return this.text;
+  }
+
+  private collect(found: (string | Candidate)[], elementEnded: boolean): void {
+    if (!elementEnded) {
+      return;
+    }
+    try {
+      const value = JSON.parse(this.text.slice(this.elementStart, this.position + 1));
+      if (typeof value === 'string' || typeof value?.text === 'string') {
+        found.push(value);
+      }
+    } catch {
+      // Left for parseSuggestions to report
+    }
+  }
+}
+
+/**
+ * requestSuggestions for replies that arrive in pieces: stream() sends the
+ * conversation so far and yields the reply as it is generated. Candidates
+ * are yielded as soon as they are complete, new ones only and no more than
+ * suggestionCount; repairs and failures work as in requestSuggestions.
+ */
+export async function* streamSuggestions(
+  input: ExpressionInput,
+  suggestionCount: number,
+  options: StructuredRequestOptions,
+  stream: (messages: ChatMessage[]) => AsyncIterable<string>
+): AsyncGenerator<Candidate> {
+  const messages: ChatMessage[] = [{ role: 'user', content: buildPrompt(input, suggestionCount) }];
+  let candidates: Candidate[] = [];
+  let problem = '';
+
+  for (let attempt = 0; attempt <= options.repairAttempts; attempt++) {
+    const parser = new CandidateStreamParser();
+    for await (const chunk of stream(messages)) {
+      for (const value of parser.push(chunk)) {
+        const added = addCandidate(candidates, value);
+        if (added) {
+          candidates = [...candidates, added];
+          yield added;
+          if (candidates.length >= suggestionCount) {
+            return;
+          }
+        }
+      }
+    }
+
+    // The complete reply may hold candidates the parser could not pick out on the way
+    const reply = parser.getText();
+    try {
+      for (const value of parseSuggestions(reply)) {
+        const added = addCandidate(candidates, value);
+        if (added) {
+          candidates = [...candidates, added];
+          yield added;
+          if (candidates.length >= suggestionCount) {
+            return;
+          }
+        }
+      }
+      problem = `${suggestionCount} different candidates were asked for, ${candidates.length} were given`;
+    } catch (error) {
+      problem = (error as Error).message;
+    }
+    messages.push({ role: 'assistant', content: reply }, { role: 'user', content: buildRepairPrompt(problem, suggestionCount) });
+  }
+
+  if (options.allowPartial && candidates.length > 0) {
+    return;
+  }
+  throw new ProviderError('invalid-output', `Expected ${suggestionCount} suggestions but received ${candidates.length}: ${problem}`);
+}
+
+// The value as a candidate when it is not a repeat of one already given
+function addCandidate(candidates: Candidate[], value: string | Candidate): Candidate | undefined {
+  const unique = uniqueCandidates([...candidates, value]);
+  return unique.length > candidates.length ? unique[unique.length - 1] : undefined;
+}
+
+// How a chat completions request asks for JSON: 'json_schema' where the server enforces schemas, 'json_object' for plain JSON mode, 'text' for neither
+export type ResponseFormat = 'json_schema' | 'json_object' | 'text';
+
+// The response_format of a chat completions request; the shapes match the OpenAI SDK's ResponseFormat types
+export type ChatResponseFormat =
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; schema: Record<string, unknown>; strict: boolean } };
+
+export function chatResponseFormat(format: ResponseFormat): ChatResponseFormat | undefined {
+  switch (format) {
+    case 'json_schema':
+      return { type: 'json_schema', json_schema: { name: 'vocabulary_suggestions', schema: SUGGESTIONS_SCHEMA, strict: true } };
+    case 'json_object':
+      return { type: 'json_object' };
+    default:
+      return undefined;
+  }
+}
@@ -16,44 +16,308 @@ export interface ExpressionInput {
   createdAt: Date;
 }
 
+// A suggested word or phrase with what a learner needs to use it; only text is required
+export interface Candidate {
+  text: string;
+  // A short definition
+  gloss?: string;
+  // A sentence using the candidate
+  example?: string;
+  // Register or nuance, such as 'formal', 'literary' or 'casual'
+  register?: string;
+  // Part of speech, such as '부사' or '동사'
+  partOfSpeech?: string;
+  // The hanja spelling of a Sino-Korean word
+  hanja?: string;
+}
+
 export interface Suggestion {
   id: string;
   inputId: string;
-  candidates: string[];
+  candidates: Candidate[];
   generatedAt: Date;
+  // Name of the provider that produced the candidates, when known
+  provider?: string;
 }
 
 export interface Collection {
   id: string;
   name: string;
   createdAt: Date;
+  archivedAt?: Date;
+  // Set while the collection is in the trash
+  deletedAt?: Date;
+  // Shared with the entries trashed along with the collection, so restoring it finds them
+  deletionId?: string;
 }
 
 export interface Entry {
   id: string;
   input: ExpressionInput;
   suggestion: Suggestion;
+  // Home collection; always the first of collectionIds
   collectionId: string;
+  // Every collection the entry appears in
+  collectionIds: string[];
   tags: string[];
+  // Curated candidates in display order; starts as the suggestion's candidates
+  candidates: Candidate[];
+  // Texts of the candidates marked as chosen, a subset of candidates
+  favorites: string[];
+  note?: string;
+  example?: string;
   savedAt: Date;
+  // Last time the entry's content was edited
+  updatedAt?: Date;
+  // Set while the entry is in the trash
+  deletedAt?: Date;
+  // Set when the entry was trashed by deleting a collection with cascade
+  deletionId?: string;
 }
 
 // Operation types for engine interface
 export interface VocaEngineOperations {
-  addInput(type: InputType, content: string): Promise<ExpressionInput>;
-  generateSuggestions(inputId: string): Promise<Suggestion>;
+  addInput(type: InputType, content: string, options?: AddInputOptions): Promise<ExpressionInput>;
+  generateSuggestions(inputId: string, options?: GenerateSuggestionsOptions): Promise<Suggestion>;
+  streamSuggestions(inputId: string, options?: GenerateSuggestionsOptions): AsyncGenerator<Candidate, Suggestion, undefined>;
   createCollection(name: string): Promise<Collection>;
-  listCollections(): Promise<Collection[]>;
-  saveEntry(inputId: string, suggestionId: string, collectionId: string, tags?: string[]): Promise<Entry>;
+  listCollections(options?: ListCollectionsOptions): Promise<Collection[]>;
+  saveEntry(
+    inputId: string,
+    suggestionId: string,
+    collectionId: string,
+    tags?: string[],
+    options?: SaveEntryOptions
+  ): Promise<Entry>;
   listEntries(collectionId: string): Promise<Entry[]>;
   deleteEntry(entryId: string): Promise<void>;
-  searchEntries(collectionId: string, query: string): Promise<Entry[]>;
+  searchEntries(collectionId: string, query: string, options?: { fuzzy?: number }): Promise<Entry[]>;
+  rankedSearch(query: string, options?: RankedSearchOptions): Promise<SearchResult[]>;
+  findSimilarEntries(text: string, k?: number, options?: FindSimilarOptions): Promise<SimilarEntry[]>;
+  listTags(): Promise<TagCount[]>;
+  renameTag(tag: string, newTag: string): Promise<Entry[]>;
+  mergeTags(tags: string[], into: string): Promise<Entry[]>;
+  deleteTag(tag: string): Promise<Entry[]>;
+  findDuplicates(options?: DedupeOptions): Promise<DuplicateGroup[]>;
+  dedupe(options?: DedupeOptions): Promise<DedupeReport>;
   renameCollection(collectionId: string, newName: string): Promise<Collection>;
+  deleteCollection(collectionId: string, options?: DeleteCollectionOptions): Promise<void>;
+  archiveCollection(collectionId: string): Promise<Collection>;
+  unarchiveCollection(collectionId: string): Promise<Collection>;
+  moveEntry(entryId: string, collectionId: string): Promise<Entry>;
+  moveEntries(entryIds: string[], collectionId: string): Promise<Entry[]>;
+  copyEntry(entryId: string, collectionId: string): Promise<Entry>;
+  copyEntries(entryIds: string[], collectionId: string): Promise<Entry[]>;
+  addEntryToCollection(entryId: string, collectionId: string): Promise<Entry>;
+  removeEntryFromCollection(entryId: string, collectionId: string): Promise<Entry>;
+  updateEntry(entryId: string, updates: UpdateEntryOptions): Promise<Entry>;
+  addCandidate(entryId: string, candidate: string | Candidate, position?: number): Promise<Entry>;
+  removeCandidate(entryId: string, candidate: string): Promise<Entry>;
+  reorderCandidates(entryId: string, candidates: string[]): Promise<Entry>;
+  favoriteCandidate(entryId: string, candidate: string): Promise<Entry>;
+  unfavoriteCandidate(entryId: string, candidate: string): Promise<Entry>;
+  listTrash(): Promise<TrashContents>;
+  restoreEntry(entryId: string): Promise<Entry>;
+  restoreCollection(collectionId: string): Promise<Collection>;
+  purgeTrash(options?: PurgeTrashOptions): Promise<PurgeReport>;
+  undo(): Promise<JournalRecord | null>;
+  redo(): Promise<JournalRecord | null>;
+  history(entityId: string): Promise<JournalRecord[]>;
+}
+
+// Deleted entries and collections waiting to be restored or purged
+export interface TrashContents {
+  collections: Collection[];
+  entries: Entry[];
+}
+
+export interface PurgeTrashOptions {
+  // Only purge items deleted before this time; everything in the trash by default
+  before?: Date;
+  // Only purge these entries and collections
+  entryIds?: string[];
+  collectionIds?: string[];
+}
+
+export interface PurgeReport {
+  collections: number;
+  entries: number;
+}
+
+// Fields of a saved entry that can be edited; omitted fields are left as they are
+export interface UpdateEntryOptions {
+  // Replaces the curated candidates, e.g. to keep only some or add alternatives;
+  // a plain text keeps the details of the current candidate with that text
+  candidates?: (string | Candidate)[];
+  favorites?: string[];
+  tags?: string[];
+  // An empty string or null clears the note or example
+  note?: string | null;
+  example?: string | null;
+}
+
+export interface AddInputOptions {
+  // Return a stored input of the same type and normalized content instead of adding another
+  reuseExisting?: boolean;
+}
+
+// What saveEntry does when the collection already holds an entry for the same input content
+export type DuplicatePolicy = 'allow' | 'warn' | 'refuse';
+
+export interface SaveEntryOptions {
+  // Overrides the engine's duplicatePolicy for this call
+  duplicates?: DuplicatePolicy;
+}
+
+// Entries that repeat the same input content in a shared collection, earliest saved first
+export interface DuplicateGroup {
+  content: string;
+  entries: Entry[];
+}
+
+export interface DedupeOptions {
+  // Only look for duplicates among the entries of this collection
+  collectionId?: string;
+}
+
+export interface DedupeReport {
+  // The earliest entry of each group, with the others folded into it
+  merged: Entry[];
+  // Ids of the entries folded in, now in the trash
+  trashed: string[];
+}
+
+export interface ListCollectionsOptions {
+  // Archived collections are hidden unless this is set
+  includeArchived?: boolean;
+}
+
+// What happens to a collection's entries when it is deleted
+export interface DeleteCollectionOptions {
+  cascade?: boolean;
+  moveTo?: string;
+}
+
+// Limits a caller such as ResilientProvider sets on a single provider call
+export interface ProviderCallOptions {
+  // Once aborted, the provider cancels its request and the call or stream fails
+  signal?: AbortSignal;
+  // How long the caller waits; providers with a timeout of their own (such as the OpenAI SDK's) use it for this call
+  timeoutMs?: number;
 }
 
 // LLM Provider interface
 export interface LLMProvider {
-  generateVocabularySuggestions(input: ExpressionInput): Promise<string[]>;
+  // Recorded on the suggestions it produces; the engine falls back to the class name
+  name?: string;
+  // Plain strings are accepted as candidates without details
+  generateVocabularySuggestions(input: ExpressionInput, options?: ProviderCallOptions): Promise<(string | Candidate)[]>;
+  // Composite providers implement this to say which of their providers answered
+  generateAttributedSuggestions?(input: ExpressionInput, options?: ProviderCallOptions): Promise<AttributedSuggestions>;
+  // Candidates as soon as each is complete; without it callers get them all at once from generateVocabularySuggestions
+  streamVocabularySuggestions?(input: ExpressionInput, options?: ProviderCallOptions): AsyncIterable<string | Candidate>;
+  // The settings replies depend on besides the input; part of the suggestion cache key
+  getSettings?(): ProviderSettings;
+  configure(config: Record<string, any>): void;
+}
+
+export interface ProviderSettings {
+  // The server asked, so replies from different servers are cached apart
+  baseURL?: string;
+  model?: string;
+  temperature?: number;
+  suggestionCount?: number;
+}
+
+// Candidates together with the name of the provider that produced them, when it is known
+export interface AttributedSuggestions {
+  candidates: (string | Candidate)[];
+  provider?: string;
+}
+
+/**
+ * Why a provider call failed, as a stable code the CLI reports alongside the
+ * message. 'rate-limit', 'timeout', 'network' and 'server' are worth retrying;
+ * 'quota' is a 429 that will not clear by waiting, such as an exhausted plan.
+ * 'unavailable' means every provider of a fallback chain failed or was skipped,
+ * or that the chain's cache member had no reply for the input.
+ */
+export type ProviderErrorCode =
+  | 'auth'
+  | 'quota'
+  | 'rate-limit'
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'invalid-output'
+  | 'config'
+  | 'unavailable'
+  | 'unknown';
+
+// Limits ResilientProvider applies around each call to the provider it wraps
+export interface ResilienceOptions {
+  // Give up on a call after this long; 0 waits forever. 30 seconds by default
+  timeoutMs?: number;
+  // Further attempts after a retryable failure; 2 by default
+  retries?: number;
+  // Delay before the first retry, doubling with each one up to maxBackoffMs
+  backoffMs?: number;
+  maxBackoffMs?: number;
+  // Calls started in any 60 seconds, retries included; unlimited when unset
+  requestsPerMinute?: number;
+}
+
+// A provider tried after the ones before it in a fallback chain, by registry name
+export interface FallbackProviderConfig {
+  provider: string;
+  providerConfig?: Record<string, any>;
+}
+
+// When FallbackProvider stops calling a failing provider, and for how long
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit; 3 by default
+  failureThreshold?: number;
+  // How long an open circuit skips the provider before one trial call; 60 seconds by default
+  cooldownMs?: number;
+}
+
+/**
+ * 'closed' providers are called as usual, 'open' ones are skipped until
+ * their cooldown ends, and a 'half-open' one gets a single trial call that
+ * closes the circuit on success or opens it again on failure.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderHealth {
+  name: string;
+  state: CircuitState;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastSuccessAt?: Date;
+  lastFailureAt?: Date;
+  lastError?: { code: ProviderErrorCode; message: string };
+  // When an open circuit allows its trial call
+  openUntil?: Date;
+}
+
+// Named provider factories, so configuration can pick a provider by name
+export interface LLMProviderRegistry {
+  register(name: string, factory: LLMProviderFactory): void;
+  has(name: string): boolean;
+  names(): string[];
+  create(name: string, config?: Record<string, any>): LLMProvider;
+}
+
+// Builds a provider from its settings, such as model, baseURL and apiKey; registered under a name
+export type LLMProviderFactory = (config: Record<string, any>) => LLMProvider;
+
+// Embedding provider interface: maps text to vectors that lie close together when the texts mean similar things
+export interface EmbeddingProvider {
+  // Vectors are only compared with vectors from the same model
+  getModel(): string;
+  // One vector per text, in the order given
+  embed(texts: string[]): Promise<number[][]>;
   configure(config: Record<string, any>): void;
 }
 
@@ -65,20 +329,182 @@ export interface SuggestionContext {
   tags?: string[];
 }
 
+// Parsed search query syntax, e.g. `tag:카페 -type:image "잔잔한 소리" OR 선율`
+
+// A word or quoted phrase, matched anywhere in the entry or in one field (content:, candidate:)
+export interface TextQuery {
+  kind: 'text';
+  text: string;
+  phrase: boolean;
+  field?: 'content' | 'candidates';
+}
+
+export interface TagQuery {
+  kind: 'tag';
+  tag: string;
+}
+
+export interface TypeQuery {
+  kind: 'type';
+  inputType: InputType;
+}
+
+// Saved from (inclusive) and/or before (exclusive) a day boundary
+export interface SavedQuery {
+  kind: 'saved';
+  from?: Date;
+  before?: Date;
+}
+
+export interface CollectionQuery {
+  kind: 'collection';
+  collectionId: string;
+}
+
+export interface NotQuery {
+  kind: 'not';
+  operand: SearchQueryNode;
+}
+
+export interface BooleanQuery {
+  kind: 'and' | 'or';
+  operands: SearchQueryNode[];
+}
+
+export type SearchQueryNode = TextQuery | TagQuery | TypeQuery | SavedQuery | CollectionQuery | NotQuery | BooleanQuery;
+
 // Search options
 export interface SearchOptions {
   query: string;
   collectionId?: string;
+  excludeCollectionIds?: string[];
+  // Search the trash instead of live entries
+  trashed?: boolean;
+  // Entries must carry every tag, or a tag below it: '장소' matches '장소/카페'
   tags?: string[];
   limit?: number;
   offset?: number;
+  // Also match within this many jamo (or letter) edits of the query, ranked after exact matches
+  fuzzy?: number;
+  // Parsed query syntax the entries must also match
+  filter?: SearchQueryNode;
+}
+
+// Fields of an entry covered by full-text search
+export type SearchField = 'content' | 'candidates' | 'tags';
+
+// Where the query matched in one field value; ranges are [start, end) string offsets
+export interface SearchHighlight {
+  field: SearchField;
+  text: string;
+  ranges: Array<[number, number]>;
+}
+
+export interface SearchResult {
+  entry: Entry;
+  // Higher is more relevant; 0 when no query was given
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+// A tag and the number of live entries filed under it or a tag below it
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// An entry text's vector under one embedding model, stored so it is embedded only once
+export interface StoredEmbedding {
+  model: string;
+  text: string;
+  vector: number[];
+}
+
+// A provider reply kept for reuse, under a key built from the input and the provider's settings
+export interface CachedSuggestion {
+  key: string;
+  candidates: Candidate[];
+  provider?: string;
+  cachedAt: Date;
+}
+
+// Where the suggestion cache keeps replies; any StorageProvider will do
+export type SuggestionCacheStore = Pick<StorageProvider, 'getCachedSuggestion' | 'saveCachedSuggestion' | 'clearSuggestionCache'>;
+
+export interface SuggestionCacheOptions {
+  // How long a reply is reused; 7 days by default, 0 keeps replies until the cache is cleared
+  ttlMs?: number;
+  // The engine's storage by default; pass an InMemoryStorage to keep replies for this process only
+  store?: SuggestionCacheStore;
+}
+
+export interface GenerateSuggestionsOptions {
+  // false neither reads nor writes the cache
+  cache?: boolean;
+  // Ask the provider even when a reply is cached, and cache the new reply
+  refresh?: boolean;
+}
+
+// Counted since the engine was created
+export interface SuggestionCacheMetrics {
+  hits: number;
+  misses: number;
+  writes: number;
+}
+
+export interface SimilarEntry {
+  entry: Entry;
+  // Cosine similarity of the closest text to the query, up to 1
+  score: number;
+  // The input content or candidate closest to the query
+  match: { field: 'content' | 'candidates'; text: string };
+}
+
+export interface FindSimilarOptions {
+  // Search one collection; otherwise every collection except hidden ones
+  collectionId?: string;
+  includeArchived?: boolean;
+}
+
+export interface RankedSearchOptions {
+  // Search one collection; otherwise every collection except hidden ones
+  collectionId?: string;
+  tags?: string[];
+  limit?: number;
+  offset?: number;
+  includeArchived?: boolean;
+  fuzzy?: number;
 }
 
 // Configuration options for VocaEngine
 export interface VocaEngineConfig {
-  llmProvider: LLMProvider;
+  // Either a provider instance, or the name of one to create from providerRegistry
+  llmProvider?: LLMProvider;
+  provider?: string;
+  // Settings passed to the named provider's factory
+  providerConfig?: Record<string, any>;
+  // Where provider names are looked up; the built-in providers by default
+  providerRegistry?: LLMProviderRegistry;
+  // Wrap the provider with timeouts, retries and a rate limit; each provider of a fallback chain is wrapped alone
+  resilience?: ResilienceOptions;
+  // Providers tried in order when the one above fails, such as a local model and then 'mock'
+  fallbackProviders?: FallbackProviderConfig[];
+  circuitBreaker?: CircuitBreakerOptions;
+  // Reuse replies for the same content and provider settings instead of asking the provider again
+  suggestionCache?: SuggestionCacheOptions;
+  // Needed for findSimilarEntries
+  embeddingProvider?: EmbeddingProvider;
   storage?: StorageProvider;
   defaultSuggestionCount?: number;
+  // Purge trashed items automatically once they are older than this many days; checked
+  // whenever the trash is listed, added to or restored from, and by getStats
+  trashRetentionDays?: number;
+  // Recorded as the actor of every journal record
+  actor?: string;
+  // What saveEntry does with duplicate entries; 'warn' by default
+  duplicatePolicy?: DuplicatePolicy;
+  // Receives warnings such as duplicate entries; without it they are dropped
+  onWarning?: (message: string) => void;
 }
 
 // Storage provider interface for data persistence
@@ -92,10 +518,118 @@ export interface StorageProvider {
   listCollections(): Promise<Collection[]>;
   saveEntry(entry: Entry): Promise<Entry>;
   getEntry(id: string): Promise<Entry | null>;
+  // Entries whose collectionIds include the collection, not just its home entries;
+  // trashed entries are left out here and in searchEntries unless options.trashed
   listEntries(collectionId: string): Promise<Entry[]>;
   deleteEntry(entryId: string): Promise<void>;
   searchEntries(options: SearchOptions): Promise<Entry[]>;
+  // Full-text search with the filters of searchEntries, most relevant first, with highlights
+  searchRanked(options: SearchOptions): Promise<SearchResult[]>;
   updateCollection(id: string, updates: Partial<Collection>): Promise<Collection>;
+  deleteCollection(id: string): Promise<void>;
+  // Tags of live entries with how many are filed under each, parent tags included
+  listTags(): Promise<TagCount[]>;
+  // Move tags at or below any of the given ones to the replacement in every entry, trashed
+  // ones included, or remove them when it is null; returns the entries that changed
+  replaceTags(tags: string[], replacement: string | null): Promise<Entry[]>;
+  // Stored embeddings of the given texts under a model; texts without one are left out.
+  // Like the journal, embeddings survive clear()
+  getEmbeddings(model: string, texts: string[]): Promise<StoredEmbedding[]>;
+  saveEmbeddings(embeddings: StoredEmbedding[]): Promise<void>;
+  // Removes the stored embeddings of the given texts under every model
+  deleteEmbeddings(texts: string[]): Promise<void>;
+  // Cached provider replies by key, which also survive clear(); a new reply replaces the old one
+  getCachedSuggestion(key: string): Promise<CachedSuggestion | null>;
+  saveCachedSuggestion(cached: CachedSuggestion): Promise<void>;
+  // Removes every cached reply and returns how many there were
+  clearSuggestionCache(): Promise<number>;
+
+  // Bulk access used by export/import, bulk entry operations and undo/redo
+  exportRecords<K extends StorageRecordKind>(kind: K): AsyncIterable<StorageRecordMap[K]>;
+  importRecords<K extends StorageRecordKind>(kind: K, records: StorageRecordMap[K][]): Promise<void>;
+  deleteRecords(kind: StorageRecordKind, ids: string[]): Promise<void>;
+  // Removes every record; the journal is kept
+  clear(): Promise<void>;
+
+  // Append-only journal of engine operations, listed oldest first
+  appendJournal(record: JournalRecord): Promise<void>;
+  listJournal(entityId?: string): Promise<JournalRecord[]>;
+}
+
+// Record kinds a storage provider holds, in the order they are imported
+export type StorageRecordKind = 'collections' | 'inputs' | 'suggestions' | 'entries';
+
+export interface StorageRecordMap {
+  inputs: ExpressionInput;
+  suggestions: Suggestion;
+  collections: Collection;
+  entries: Entry;
+}
+
+// Versioned JSON document produced by VocaEngine.exportData (see README "Export Format")
+export interface ExportPayload {
+  format: 'voca-engine-export';
+  version: number;
+  exportedAt: string;
+  data: {
+    collections: Record<string, any>[];
+    inputs: Record<string, any>[];
+    suggestions: Record<string, any>[];
+    entries: Record<string, any>[];
+  };
+}
+
+// How VocaEngine.importData combines an export document with stored data
+export type ImportMode = 'replace' | 'merge';
+
+// Which record wins when an imported record has the same id as a stored one
+export type MergeStrategy = 'keep-ours' | 'take-theirs' | 'newest' | 'duplicate';
+
+export interface ImportOptions {
+  mode?: ImportMode;
+  strategy?: MergeStrategy;
+  mergeCollectionsByName?: boolean;
+}
+
+export interface ImportConflict {
+  kind: StorageRecordKind;
+  id: string;
+  resolution: 'kept-ours' | 'took-theirs' | 'duplicated' | 'merged-by-name';
+  // Id of the stored record that holds the result, when it differs from id
+  targetId?: string;
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  added: Record<StorageRecordKind, number>;
+  updated: Record<StorageRecordKind, number>;
+  skipped: Record<StorageRecordKind, number>;
+  conflicts: ImportConflict[];
+}
+
+// How a journal record came about: a normal operation, or undoing/redoing one
+export type JournalAction = 'apply' | 'undo' | 'redo';
+
+// One record changed by an operation, as JSON snapshots; null means it did not exist
+export interface JournalChange {
+  kind: StorageRecordKind;
+  id: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+}
+
+export interface JournalRecord {
+  id: string;
+  // Name of the VocaEngine method, e.g. 'renameCollection'
+  operation: string;
+  action: JournalAction;
+  // For undo/redo, the id of the record being undone or redone
+  targetId?: string;
+  actor?: string;
+  timestamp: Date;
+  // False for operations that cannot be undone, such as a replacing importData
+  reversible: boolean;
+  changes: JournalChange[];
 }
 
 // CLI-specific types
@@ -0,0 +1,31 @@
+import { Candidate } from '../types';
+
+const DETAIL_FIELDS = ['gloss', 'example', 'register', 'partOfSpeech', 'hanja'] as const;
+
+/**
+ * A candidate from a plain string, as stored before candidates had details,
+ * or from a candidate object. Text and details are trimmed; empty details
+ * are left out.
+ */
+export function toCandidate(value: string | Candidate): Candidate {
+  if (typeof value === 'string') {
+    return { text: value.trim() };
+  }
+
+  const candidate: Candidate = { text: String(value.text || '').trim() };
+  for (const field of DETAIL_FIELDS) {
+    const detail = value[field];
+    if (typeof detail === 'string' && detail.trim().length > 0) {
+      candidate[field] = detail.trim();
+    }
+  }
+  return candidate;
+}
+
+export function candidateTexts(candidates: Candidate[]): string[] {
+  return candidates.map(candidate => candidate.text);
+}
+
+export function findCandidate(candidates: Candidate[], text: string): Candidate | undefined {
+  return candidates.find(candidate => candidate.text === text);
+}
@@ -0,0 +1,115 @@
+import { Candidate, Entry, InputType } from '../types';
+import { Entry as EntryModel } from '../models';
+import { toCandidate } from './Candidates';
+
+/**
+ * Canonical form of a text for duplicate detection: NFC, lower case, with
+ * whitespace, punctuation and symbols removed, so '노래 소리가 잔잔하게.' and
+ * '노래소리가 잔잔하게' compare equal. Text made only of punctuation is kept
+ * as it is, trimmed.
+ */
+export function normalizeContent(text: string): string {
+  const nfc = text.normalize('NFC').toLowerCase();
+  const stripped = nfc.replace(/[\s\p{P}\p{S}]+/gu, '');
+  return stripped.length > 0 ? stripped : nfc.trim();
+}
+
+// Inputs, and entries through their input, repeat each other when their type and normalized content match
+export function contentKey(type: InputType, content: string): string {
+  return `${type}:${normalizeContent(content)}`;
+}
+
+export function isSameContent(a: Entry, b: Entry): boolean {
+  return contentKey(a.input.type, a.input.content) === contentKey(b.input.type, b.input.content);
+}
+
+// Values without the ones that repeat an earlier value once normalized; the first spelling is kept
+export function uniqueByContent(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = normalizeContent(value);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// Candidates without empty texts or ones whose text repeats an earlier candidate once normalized
+export function uniqueCandidates(values: (string | Candidate)[]): Candidate[] {
+  const seen = new Set<string>();
+  return values.map(toCandidate).filter(candidate => {
+    const key = normalizeContent(candidate.text);
+    if (candidate.text.length === 0 || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Groups of entries that repeat the same input and share a collection,
+ * directly or through another entry of the group. Each group lists the
+ * earliest saved entry first; entries without duplicates are left out.
+ */
+export function findDuplicateGroups(entries: Entry[]): Entry[][] {
+  const byContent = new Map<string, Entry[]>();
+  for (const entry of entries) {
+    const key = contentKey(entry.input.type, entry.input.content);
+    byContent.set(key, [...(byContent.get(key) || []), entry]);
+  }
+
+  const groups: Entry[][] = [];
+  for (const sameContent of byContent.values()) {
+    const remaining = [...sameContent];
+    while (remaining.length > 0) {
+      // Grow a group from one entry until no remaining entry shares a collection with it
+      const group = remaining.splice(0, 1);
+      const collections = new Set(group[0].collectionIds);
+      let grown = true;
+      while (grown) {
+        grown = false;
+        for (let i = 0; i < remaining.length; i++) {
+          if (remaining[i].collectionIds.some(id => collections.has(id))) {
+            const [joined] = remaining.splice(i--, 1);
+            joined.collectionIds.forEach(id => collections.add(id));
+            group.push(joined);
+            grown = true;
+          }
+        }
+      }
+      if (group.length > 1) {
+        groups.push(group.sort((a, b) => a.savedAt.getTime() - b.savedAt.getTime()));
+      }
+    }
+  }
+
+  return groups.sort((a, b) => a[0].savedAt.getTime() - b[0].savedAt.getTime());
+}
+
+/**
+ * Fold duplicates into the first entry, which keeps its id, home collection
+ * and savedAt. Candidates, favorites, tags and collections are unioned in
+ * order, and a note or example it lacks is taken from the others. Of
+ * candidates with the same text, the first one's details are kept.
+ */
+export function mergeDuplicates(entries: Entry[]): EntryModel {
+  const [keeper] = entries;
+  const candidates = uniqueCandidates(entries.flatMap(entry => entry.candidates));
+  const favorites = entries.flatMap(entry => entry.favorites).map(favorite => normalizeContent(favorite));
+
+  return EntryModel.fromJSON({
+    ...EntryModel.fromJSON(keeper).toJSON(),
+    collectionIds: Array.from(new Set(entries.flatMap(entry => entry.collectionIds))),
+    tags: Array.from(new Set(entries.flatMap(entry => entry.tags))),
+    candidates,
+    favorites: candidates
+      .filter(candidate => favorites.includes(normalizeContent(candidate.text)))
+      .map(candidate => candidate.text),
+    note: entries.find(entry => entry.note)?.note,
+    example: entries.find(entry => entry.example)?.example,
+    updatedAt: new Date()
+  });
+}
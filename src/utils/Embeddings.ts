@@ -0,0 +1,58 @@
+import { Entry, SimilarEntry } from '../types';
+
+// The texts of an entry that similarity search compares with the query
+export function embeddedTexts(entry: Entry): SimilarEntry['match'][] {
+  return [
+    { field: 'content' as const, text: entry.input.content },
+    ...entry.candidates.map(candidate => ({ field: 'candidates' as const, text: candidate.text }))
+  ];
+}
+
+// Cosine of the angle between two vectors: 1 for the same direction, 0 when unrelated or empty
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare embeddings of ${a.length} and ${b.length} dimensions`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * The k entries whose closest text is most similar to the query vector.
+ * `vectors` maps each entry text to its embedding; texts without one are
+ * skipped. Ties keep the order the entries were given in.
+ */
+export function nearestEntries(
+  query: number[],
+  entries: Entry[],
+  vectors: Map<string, number[]>,
+  k: number
+): SimilarEntry[] {
+  const results: SimilarEntry[] = [];
+  for (const entry of entries) {
+    let best: SimilarEntry | null = null;
+    for (const match of embeddedTexts(entry)) {
+      const vector = vectors.get(match.text);
+      if (!vector) {
+        continue;
+      }
+      const score = cosineSimilarity(query, vector);
+      if (!best || score > best.score) {
+        best = { entry, score, match };
+      }
+    }
+    if (best) {
+      results.push(best);
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, k);
+}
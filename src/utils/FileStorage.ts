@@ -0,0 +1,250 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ExpressionInput,
+  Suggestion,
+  Collection,
+  Entry,
+  StorageRecordKind,
+  StorageRecordMap,
+  JournalRecord,
+  StoredEmbedding,
+  CachedSuggestion
+} from '../types';
+import {
+  ExpressionInput as ExpressionInputModel,
+  Suggestion as SuggestionModel,
+  Collection as CollectionModel,
+  Entry as EntryModel,
+  JournalRecord as JournalRecordModel
+} from '../models';
+import { InMemoryStorage } from './InMemoryStorage';
+
+const ENTITY_FILES: Record<StorageRecordKind, string> = {
+  inputs: 'inputs.json',
+  suggestions: 'suggestions.json',
+  collections: 'collections.json',
+  entries: 'entries.json'
+};
+
+// One JSON record per line, so appending never rewrites earlier history
+const JOURNAL_FILE = 'journal.jsonl';
+
+// Embeddings are appended the same way; the file is rewritten only when some are deleted
+const EMBEDDINGS_FILE = 'embeddings.jsonl';
+
+// Cached replies are appended too; a later line for the same key replaces an earlier one,
+// and the file is rewritten without the replaced lines once they outnumber the rest
+const SUGGESTION_CACHE_FILE = 'suggestion-cache.jsonl';
+
+/**
+ * JSON file-backed storage for Node.js environments.
+ *
+ * Keeps the same in-memory indexes as InMemoryStorage and writes the
+ * affected entity file into the workspace directory after every mutation,
+ * so data survives between CLI invocations.
+ */
+export class FileStorage extends InMemoryStorage {
+  private readonly dataDir: string;
+  // Lines in the suggestion cache file, replaced ones included
+  private cacheLines = 0;
+
+  constructor(dataDir: string) {
+    super();
+    this.dataDir = path.resolve(dataDir);
+    fs.mkdirSync(this.dataDir, { recursive: true });
+    this.load();
+  }
+
+  getDataDir(): string {
+    return this.dataDir;
+  }
+
+  async saveInput(input: ExpressionInput): Promise<ExpressionInput> {
+    const saved = await super.saveInput(input);
+    this.persist('inputs');
+    return saved;
+  }
+
+  async saveSuggestion(suggestion: Suggestion): Promise<Suggestion> {
+    const saved = await super.saveSuggestion(suggestion);
+    this.persist('suggestions');
+    return saved;
+  }
+
+  async saveCollection(collection: Collection): Promise<Collection> {
+    const saved = await super.saveCollection(collection);
+    this.persist('collections');
+    return saved;
+  }
+
+  async updateCollection(id: string, updates: Partial<Collection>): Promise<Collection> {
+    const updated = await super.updateCollection(id, updates);
+    this.persist('collections');
+    return updated;
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    await super.deleteCollection(id);
+    this.persist('collections');
+  }
+
+  async saveEntry(entry: Entry): Promise<Entry> {
+    const saved = await super.saveEntry(entry);
+    this.persist('entries');
+    return saved;
+  }
+
+  async deleteEntry(entryId: string): Promise<void> {
+    await super.deleteEntry(entryId);
+    this.persist('entries');
+  }
+
+  async importRecords<K extends StorageRecordKind>(kind: K, records: StorageRecordMap[K][]): Promise<void> {
+    await super.importRecords(kind, records);
+    this.persist(kind);
+  }
+
+  async deleteRecords(kind: StorageRecordKind, ids: string[]): Promise<void> {
+    await super.deleteRecords(kind, ids);
+    this.persist(kind);
+  }
+
+  async clear(): Promise<void> {
+    await super.clear();
+    this.persistAll();
+  }
+
+  async appendJournal(record: JournalRecord): Promise<void> {
+    await super.appendJournal(record);
+    const line = JSON.stringify(JournalRecordModel.fromJSON(record).toJSON());
+    fs.appendFileSync(path.join(this.dataDir, JOURNAL_FILE), `${line}\n`, 'utf8');
+  }
+
+  async saveEmbeddings(embeddings: StoredEmbedding[]): Promise<void> {
+    await super.saveEmbeddings(embeddings);
+    const lines = embeddings.map(embedding => `${JSON.stringify(embedding)}\n`).join('');
+    fs.appendFileSync(path.join(this.dataDir, EMBEDDINGS_FILE), lines, 'utf8');
+  }
+
+  async deleteEmbeddings(texts: string[]): Promise<void> {
+    await super.deleteEmbeddings(texts);
+    const kept: StoredEmbedding[] = [];
+    this.embeddings.forEach((vectors, model) => vectors.forEach((vector, text) => kept.push({ model, text, vector })));
+    this.rewriteLines(EMBEDDINGS_FILE, kept);
+  }
+
+  async saveCachedSuggestion(cached: CachedSuggestion): Promise<void> {
+    await super.saveCachedSuggestion(cached);
+    fs.appendFileSync(path.join(this.dataDir, SUGGESTION_CACHE_FILE), `${JSON.stringify(cached)}\n`, 'utf8');
+    this.cacheLines++;
+    this.compactSuggestionCache();
+  }
+
+  async clearSuggestionCache(): Promise<number> {
+    const count = await super.clearSuggestionCache();
+    fs.rmSync(path.join(this.dataDir, SUGGESTION_CACHE_FILE), { force: true });
+    this.cacheLines = 0;
+    return count;
+  }
+
+  private load(): void {
+    this.readFile('inputs').forEach(data => {
+      const input = ExpressionInputModel.fromJSON(data);
+      this.inputs.set(input.id, input);
+    });
+
+    this.readFile('suggestions').forEach(data => {
+      const suggestion = SuggestionModel.fromJSON(data);
+      this.suggestions.set(suggestion.id, suggestion);
+    });
+
+    this.readFile('collections').forEach(data => {
+      const collection = CollectionModel.fromJSON(data);
+      this.collections.set(collection.id, collection);
+    });
+
+    this.readFile('entries').forEach(data => {
+      const entry = EntryModel.fromJSON(data);
+      this.entries.set(entry.id, entry);
+    });
+
+    this.journal = this.readLines(JOURNAL_FILE, data => JournalRecordModel.fromJSON(data));
+    // A later line for the same model and text replaces an earlier one
+    this.addEmbeddings(this.readLines(EMBEDDINGS_FILE, data => data as StoredEmbedding));
+    const cached = this.readLines(SUGGESTION_CACHE_FILE, data => ({ ...data, cachedAt: new Date(data.cachedAt) }) as CachedSuggestion);
+    cached.forEach(reply => this.suggestionCache.set(reply.key, reply));
+    this.cacheLines = cached.length;
+    this.compactSuggestionCache();
+  }
+
+  private compactSuggestionCache(): void {
+    if (this.cacheLines > 2 * this.suggestionCache.size) {
+      this.rewriteLines(SUGGESTION_CACHE_FILE, Array.from(this.suggestionCache.values()));
+      this.cacheLines = this.suggestionCache.size;
+    }
+  }
+
+  // Read a file of one JSON record per line
+  private readLines<T>(fileName: string, parse: (data: any) => T): T[] {
+    const filePath = path.join(this.dataDir, fileName);
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    return fs.readFileSync(filePath, 'utf8')
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map((line, index) => {
+        try {
+          return parse(JSON.parse(line));
+        } catch (error) {
+          throw new Error(`Failed to read ${filePath} line ${index + 1}: ${(error as Error).message}`);
+        }
+      });
+  }
+
+  // Replace a file of one JSON record per line, through a temp file like persist()
+  private rewriteLines(fileName: string, records: object[]): void {
+    const filePath = path.join(this.dataDir, fileName);
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, records.map(record => `${JSON.stringify(record)}\n`).join(''), 'utf8');
+    fs.renameSync(tempPath, filePath);
+  }
+
+  private readFile(kind: StorageRecordKind): any[] {
+    const filePath = path.join(this.dataDir, ENTITY_FILES[kind]);
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    const raw = fs.readFileSync(filePath, 'utf8');
+    if (raw.trim().length === 0) {
+      return [];
+    }
+
+    try {
+      const data = JSON.parse(raw);
+      if (!Array.isArray(data)) {
+        throw new Error('expected a JSON array');
+      }
+      return data;
+    } catch (error) {
+      throw new Error(`Failed to read ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  private persist(kind: StorageRecordKind): void {
+    const values = Array.from(this.recordsOf(kind).values());
+    const filePath = path.join(this.dataDir, ENTITY_FILES[kind]);
+    const tempPath = `${filePath}.tmp`;
+
+    // Write to a temp file first so a crash never leaves a truncated file behind
+    fs.writeFileSync(tempPath, JSON.stringify(values, null, 2), 'utf8');
+    fs.renameSync(tempPath, filePath);
+  }
+
+  private persistAll(): void {
+    (Object.keys(ENTITY_FILES) as StorageRecordKind[]).forEach(kind => this.persist(kind));
+  }
+}
@@ -0,0 +1,185 @@
+import { Entry, SearchHighlight, SearchOptions, SearchResult } from '../types';
+import { decompose, matchesChoseong } from './Hangul';
+import { SEARCH_FIELDS, fieldValues } from './SearchIndex';
+
+// Edits are capped at one per this many query jamo, so short queries do not match everything
+const JAMO_PER_EDIT = 4;
+
+export interface FuzzyMatch {
+  // Jamo edits between the query and the matched part of the text
+  distance: number;
+  // [start, end) string offsets of the matched part of the text
+  start: number;
+  end: number;
+}
+
+interface Spelling {
+  jamo: string[];
+  // String offsets of the character each jamo came from
+  starts: number[];
+  ends: number[];
+}
+
+// Lowercase and spell out Hangul syllables, remembering where each jamo came from
+function spell(text: string): Spelling {
+  const spelling: Spelling = { jamo: [], starts: [], ends: [] };
+  let offset = 0;
+
+  for (const char of Array.from(text.toLowerCase())) {
+    const syllable = decompose(char);
+    const parts = syllable ? [syllable.initial, syllable.medial, syllable.final].filter(Boolean) : [char];
+    parts.forEach(part => {
+      spelling.jamo.push(part);
+      spelling.starts.push(offset);
+      spelling.ends.push(offset + char.length);
+    });
+    offset += char.length;
+  }
+
+  return spelling;
+}
+
+// Most edits a query may be off by for a given tolerance
+export function maxEdits(query: string, fuzzy: number): number {
+  return Math.min(fuzzy, Math.floor(spell(query.normalize('NFC')).jamo.length / JAMO_PER_EDIT));
+}
+
+/**
+ * Find the part of the text closest to the query, counting edits over
+ * decomposed jamo, so '잔잔하계' is one edit away from '잔잔하게'. Latin and
+ * other text is compared letter by letter. Null when no part of the text is
+ * within maxDistance edits.
+ */
+export function fuzzyFind(text: string, query: string, maxDistance: number): FuzzyMatch | null {
+  const source = spell(text.normalize('NFC'));
+  const pattern = spell(query.normalize('NFC')).jamo;
+  if (pattern.length === 0) {
+    return null;
+  }
+
+  // Approximate substring matching: the match may start anywhere in the text at no cost
+  const n = source.jamo.length;
+  let costs = new Array<number>(n + 1).fill(0);
+  let starts = Array.from({ length: n + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= pattern.length; i++) {
+    const nextCosts = [i];
+    const nextStarts = [0];
+    for (let j = 1; j <= n; j++) {
+      const substitute = costs[j - 1] + (pattern[i - 1] === source.jamo[j - 1] ? 0 : 1);
+      const skipPattern = costs[j] + 1;
+      const skipText = nextCosts[j - 1] + 1;
+
+      if (substitute <= skipPattern && substitute <= skipText) {
+        nextCosts.push(substitute);
+        nextStarts.push(starts[j - 1]);
+      } else if (skipPattern <= skipText) {
+        nextCosts.push(skipPattern);
+        nextStarts.push(starts[j]);
+      } else {
+        nextCosts.push(skipText);
+        nextStarts.push(nextStarts[j - 1]);
+      }
+    }
+    costs = nextCosts;
+    starts = nextStarts;
+  }
+
+  // The closest match wins; on a tie, one running straight on from it ('melodi' takes all of 'melody')
+  let best = -1;
+  for (let j = 1; j <= n; j++) {
+    if (costs[j] <= maxDistance && (best === -1 || costs[j] < costs[best] || (costs[j] === costs[best] && j === best + 1))) {
+      best = j;
+    }
+  }
+  if (best === -1 || starts[best] >= best) {
+    return null;
+  }
+
+  return {
+    distance: costs[best],
+    start: source.starts[starts[best]],
+    end: source.ends[best - 1]
+  };
+}
+
+/**
+ * How far an entry is from a query: 0 when its content or candidates contain
+ * the query (initial consonants included) or a tag does, otherwise the fewest
+ * jamo edits to any field value within the fuzzy tolerance. Null when it
+ * does not match.
+ */
+export function matchDistance(entry: Entry, query: string, fuzzy: number = 0): number | null {
+  const lowerQuery = query.toLowerCase();
+  if (matchesChoseong(entry.input.content, query) ||
+      entry.candidates.some(candidate => matchesChoseong(candidate.text, query)) ||
+      entry.tags.some(tag => tag.toLowerCase().includes(lowerQuery))) {
+    return 0;
+  }
+
+  const limit = maxEdits(query, fuzzy);
+  if (limit === 0) {
+    return null;
+  }
+
+  let best: number | null = null;
+  for (const field of SEARCH_FIELDS) {
+    for (const value of fieldValues(entry, field)) {
+      const match = fuzzyFind(value, query, limit);
+      if (match && (best === null || match.distance < best)) {
+        best = match.distance;
+      }
+    }
+  }
+  return best;
+}
+
+// Keep the entries matching a query, exact matches first; the given order breaks ties
+export function rankByDistance<T extends Entry>(entries: T[], query: string, fuzzy: number = 0): T[] {
+  return entries
+    .map(entry => ({ entry, distance: matchDistance(entry, query, fuzzy) }))
+    .filter(item => item.distance !== null)
+    .sort((a, b) => a.distance! - b.distance!)
+    .map(item => item.entry);
+}
+
+// Highlight the closest part of each field value within the tolerance
+function fuzzyHighlights(entry: Entry, query: string, limit: number): SearchHighlight[] {
+  const highlights: SearchHighlight[] = [];
+  for (const field of SEARCH_FIELDS) {
+    for (const text of fieldValues(entry, field)) {
+      const match = fuzzyFind(text, query, limit);
+      if (match) {
+        highlights.push({ field, text, ranges: [[match.start, match.end]] });
+      }
+    }
+  }
+  return highlights;
+}
+
+/**
+ * Add near-misses to ranked results and paginate. Matches the index missed
+ * score just below the lowest ranked result, closer ones first, so a typo
+ * never outranks an exact match.
+ */
+export function mergeFuzzyResults(ranked: SearchResult[], matches: Entry[], options: SearchOptions): SearchResult[] {
+  const fuzzy = options.fuzzy || 0;
+  const limit = maxEdits(options.query, fuzzy);
+  const rankedIds = new Set(ranked.map(result => result.entry.id));
+  const floor = ranked.length > 0 ? ranked[ranked.length - 1].score : 1;
+
+  const nearMisses = rankByDistance(matches.filter(entry => !rankedIds.has(entry.id)), options.query, fuzzy)
+    .map(entry => {
+      const distance = matchDistance(entry, options.query, fuzzy)!;
+      return {
+        entry,
+        score: floor * (1 - (distance + 1) / (limit + 2)),
+        highlights: fuzzyHighlights(entry, options.query, limit)
+      };
+    });
+
+  const results = [...ranked, ...nearMisses];
+  const offset = options.offset || 0;
+  const count = options.limit || results.length;
+  return results.slice(offset, offset + count);
+}
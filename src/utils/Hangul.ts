@@ -0,0 +1,96 @@
+// Precomposed Hangul syllables: 19 initials x 21 medials x 28 finals (including none)
+const SYLLABLE_BASE = 0xac00;
+const SYLLABLE_LAST = 0xd7a3;
+const MEDIAL_COUNT = 21;
+const FINAL_COUNT = 28;
+
+// Compatibility jamo, the forms keyboards produce, in Unicode syllable order
+const INITIALS = ['ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+const MEDIALS = [
+  'ㅏ', 'ㅐ', 'ㅑ', 'ㅒ', 'ㅓ', 'ㅔ', 'ㅕ', 'ㅖ', 'ㅗ', 'ㅘ', 'ㅙ',
+  'ㅚ', 'ㅛ', 'ㅜ', 'ㅝ', 'ㅞ', 'ㅟ', 'ㅠ', 'ㅡ', 'ㅢ', 'ㅣ'
+];
+const FINALS = [
+  '', 'ㄱ', 'ㄲ', 'ㄳ', 'ㄴ', 'ㄵ', 'ㄶ', 'ㄷ', 'ㄹ', 'ㄺ', 'ㄻ', 'ㄼ', 'ㄽ', 'ㄾ',
+  'ㄿ', 'ㅀ', 'ㅁ', 'ㅂ', 'ㅄ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'
+];
+
+export interface HangulSyllable {
+  initial: string;
+  medial: string;
+  // Empty when the syllable has no final consonant
+  final: string;
+}
+
+export function isHangulSyllable(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return char.length === 1 && code >= SYLLABLE_BASE && code <= SYLLABLE_LAST;
+}
+
+// Whether a character is an initial consonant as typed on its own, e.g. 'ㄴ'
+export function isChoseong(char: string): boolean {
+  return INITIALS.includes(char);
+}
+
+// Split a precomposed syllable into its jamo; null for anything else
+export function decompose(char: string): HangulSyllable | null {
+  if (!isHangulSyllable(char)) {
+    return null;
+  }
+
+  const offset = char.charCodeAt(0) - SYLLABLE_BASE;
+  return {
+    initial: INITIALS[Math.floor(offset / (MEDIAL_COUNT * FINAL_COUNT))],
+    medial: MEDIALS[Math.floor(offset / FINAL_COUNT) % MEDIAL_COUNT],
+    final: FINALS[offset % FINAL_COUNT]
+  };
+}
+
+// Replace each syllable with its initial consonant: '노래 소리' -> 'ㄴㄹ ㅅㄹ'
+export function getChoseong(text: string): string {
+  return Array.from(text.normalize('NFC'))
+    .map(char => decompose(char)?.initial || char)
+    .join('');
+}
+
+// Spell text out as a sequence of jamo: '잔잔' -> 'ㅈㅏㄴㅈㅏㄴ'
+export function toJamo(text: string): string {
+  return Array.from(text.normalize('NFC'))
+    .map(char => {
+      const syllable = decompose(char);
+      return syllable ? syllable.initial + syllable.medial + syllable.final : char;
+    })
+    .join('');
+}
+
+export function containsChoseong(text: string): boolean {
+  return Array.from(text).some(isChoseong);
+}
+
+/**
+ * Case-insensitive substring match where an initial consonant in the query
+ * stands for any syllable that starts with it, so 'ㄴㄹ' finds '노래' and
+ * '잔ㅈ' finds '잔잔하게'. Queries without initial consonants match as plain
+ * substrings.
+ */
+export function matchesChoseong(text: string, query: string): boolean {
+  const chars = Array.from(text.normalize('NFC').toLowerCase());
+  const pattern = Array.from(query.normalize('NFC').toLowerCase());
+  if (pattern.length === 0) {
+    return true;
+  }
+
+  for (let start = 0; start + pattern.length <= chars.length; start++) {
+    if (pattern.every((char, i) => matchesChar(chars[start + i], char))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function matchesChar(char: string, pattern: string): boolean {
+  if (char === pattern) {
+    return true;
+  }
+  return isChoseong(pattern) && decompose(char)?.initial === pattern;
+}
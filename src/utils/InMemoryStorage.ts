@@ -4,14 +4,31 @@ import {
   Suggestion, 
   Collection, 
   Entry, 
-  SearchOptions 
+  SearchOptions,
+  SearchResult,
+  StorageRecordKind,
+  StorageRecordMap,
+  JournalRecord,
+  TagCount,
+  StoredEmbedding,
+  CachedSuggestion
 } from '../types';
+import { SearchIndex, collectSearchResults, unrankedResults } from './SearchIndex';
+import { mergeFuzzyResults, rankByDistance } from './Fuzzy';
+import { matchesSearchQuery, rankFilteredResults } from './SearchQuery';
+import { countTags, matchesTags, retagEntry } from './Tags';
 
 export class InMemoryStorage implements StorageProvider {
-  private inputs: Map<string, ExpressionInput> = new Map();
-  private suggestions: Map<string, Suggestion> = new Map();
-  private collections: Map<string, Collection> = new Map();
-  private entries: Map<string, Entry> = new Map();
+  protected inputs: Map<string, ExpressionInput> = new Map();
+  protected suggestions: Map<string, Suggestion> = new Map();
+  protected collections: Map<string, Collection> = new Map();
+  protected entries: Map<string, Entry> = new Map();
+  protected journal: JournalRecord[] = [];
+  // Vectors by model, then by text
+  protected embeddings: Map<string, Map<string, number[]>> = new Map();
+  protected suggestionCache: Map<string, CachedSuggestion> = new Map();
+  // Built on the first ranked search, then kept up to date by every entry write
+  private searchIndex: SearchIndex | null = null;
 
   async saveInput(input: ExpressionInput): Promise<ExpressionInput> {
     this.inputs.set(input.id, input);
@@ -47,6 +64,7 @@ export class InMemoryStorage implements StorageProvider {
 
   async saveEntry(entry: Entry): Promise<Entry> {
     this.entries.set(entry.id, entry);
+    this.searchIndex?.add(entry);
     return entry;
   }
 
@@ -56,57 +74,50 @@ export class InMemoryStorage implements StorageProvider {
 
   async listEntries(collectionId: string): Promise<Entry[]> {
     return Array.from(this.entries.values())
-      .filter(entry => entry.collectionId === collectionId)
+      .filter(entry => entry.collectionIds.includes(collectionId) && !entry.deletedAt)
       .sort((a, b) => b.savedAt.getTime() - a.savedAt.getTime()); // Most recent first
   }
 
   async deleteEntry(entryId: string): Promise<void> {
     this.entries.delete(entryId);
+    this.searchIndex?.remove(entryId);
   }
 
   async searchEntries(options: SearchOptions): Promise<Entry[]> {
-    let results = Array.from(this.entries.values());
+    // Live entries, or only the trash when asked
+    let results = Array.from(this.entries.values())
+      .filter(entry => !!entry.deletedAt === !!options.trashed);
 
     // Filter by collection if specified
     if (options.collectionId) {
-      results = results.filter(entry => entry.collectionId === options.collectionId);
+      results = results.filter(entry => entry.collectionIds.includes(options.collectionId!));
     }
 
-    // Filter by query
-    if (options.query) {
-      const query = options.query.toLowerCase();
-      results = results.filter(entry => {
-        // Search in input content
-        if (entry.input.content.toLowerCase().includes(query)) {
-          return true;
-        }
-        
-        // Search in suggestion candidates
-        if (entry.suggestion.candidates.some(candidate => 
-          candidate.toLowerCase().includes(query)
-        )) {
-          return true;
-        }
-        
-        // Search in tags
-        if (entry.tags.some(tag => tag.toLowerCase().includes(query))) {
-          return true;
-        }
-        
-        return false;
-      });
+    // Entries stay visible while any of their collections is not excluded
+    if (options.excludeCollectionIds && options.excludeCollectionIds.length > 0) {
+      results = results.filter(entry =>
+        entry.collectionIds.some(id => !options.excludeCollectionIds!.includes(id))
+      );
     }
 
     // Filter by tags if specified
     if (options.tags && options.tags.length > 0) {
-      results = results.filter(entry => 
-        options.tags!.every(tag => entry.tags.includes(tag))
-      );
+      results = results.filter(entry => matchesTags(entry.tags, options.tags!));
+    }
+
+    // Filter by the parsed query syntax
+    if (options.filter) {
+      results = results.filter(entry => matchesSearchQuery(entry, options.filter!, options.fuzzy));
     }
 
     // Sort by most recent first
     results.sort((a, b) => b.savedAt.getTime() - a.savedAt.getTime());
 
+    // Filter by query in content, candidates and tags; near-misses follow exact matches
+    if (options.query) {
+      results = rankByDistance(results, options.query, options.fuzzy);
+    }
+
     // Apply pagination
     const offset = options.offset || 0;
     const limit = options.limit || results.length;
@@ -114,6 +125,72 @@ export class InMemoryStorage implements StorageProvider {
     return results.slice(offset, offset + limit);
   }
 
+  async searchRanked(options: SearchOptions): Promise<SearchResult[]> {
+    if (options.filter) {
+      const index = this.getSearchIndex();
+      const entries = await this.searchEntries({ ...options, limit: undefined, offset: undefined });
+      return rankFilteredResults(entries, term => index.search(term), options);
+    }
+    if (!options.query || options.query.trim().length === 0) {
+      return unrankedResults(await this.searchEntries(options));
+    }
+
+    const hits = this.getSearchIndex().search(options.query);
+    const load = async (id: string) => this.entries.get(id) || null;
+    if (!options.fuzzy) {
+      return await collectSearchResults(hits, load, options);
+    }
+
+    const all = { ...options, limit: undefined, offset: undefined };
+    return mergeFuzzyResults(await collectSearchResults(hits, load, all), await this.searchEntries(all), options);
+  }
+
+  async listTags(): Promise<TagCount[]> {
+    return countTags(Array.from(this.entries.values())
+      .filter(entry => !entry.deletedAt)
+      .map(entry => entry.tags));
+  }
+
+  async replaceTags(tags: string[], replacement: string | null): Promise<Entry[]> {
+    const changed = Array.from(this.entries.values())
+      .map(entry => retagEntry(entry, tags, replacement))
+      .filter((entry): entry is Entry => entry !== null);
+    await this.importRecords('entries', changed);
+    return changed;
+  }
+
+  async getEmbeddings(model: string, texts: string[]): Promise<StoredEmbedding[]> {
+    const vectors = this.embeddings.get(model);
+    if (!vectors) {
+      return [];
+    }
+    return texts
+      .filter(text => vectors.has(text))
+      .map(text => ({ model, text, vector: vectors.get(text)! }));
+  }
+
+  async saveEmbeddings(embeddings: StoredEmbedding[]): Promise<void> {
+    this.addEmbeddings(embeddings);
+  }
+
+  async deleteEmbeddings(texts: string[]): Promise<void> {
+    this.embeddings.forEach(vectors => texts.forEach(text => vectors.delete(text)));
+  }
+
+  async getCachedSuggestion(key: string): Promise<CachedSuggestion | null> {
+    return this.suggestionCache.get(key) || null;
+  }
+
+  async saveCachedSuggestion(cached: CachedSuggestion): Promise<void> {
+    this.suggestionCache.set(cached.key, cached);
+  }
+
+  async clearSuggestionCache(): Promise<number> {
+    const count = this.suggestionCache.size;
+    this.suggestionCache.clear();
+    return count;
+  }
+
   async updateCollection(id: string, updates: Partial<Collection>): Promise<Collection> {
     const existing = this.collections.get(id);
     if (!existing) {
@@ -131,14 +208,50 @@ export class InMemoryStorage implements StorageProvider {
     return updated;
   }
 
-  // Utility methods for testing and debugging
-  clear(): void {
+  async deleteCollection(id: string): Promise<void> {
+    this.collections.delete(id);
+  }
+
+  async *exportRecords<K extends StorageRecordKind>(kind: K): AsyncIterable<StorageRecordMap[K]> {
+    yield* Array.from(this.recordsOf(kind).values());
+  }
+
+  async importRecords<K extends StorageRecordKind>(kind: K, records: StorageRecordMap[K][]): Promise<void> {
+    const map = this.recordsOf(kind);
+    records.forEach(record => map.set(record.id, record));
+    if (kind === 'entries') {
+      records.forEach(record => this.searchIndex?.add(record as Entry));
+    }
+  }
+
+  async deleteRecords(kind: StorageRecordKind, ids: string[]): Promise<void> {
+    const map = this.recordsOf(kind);
+    ids.forEach(id => map.delete(id));
+    if (kind === 'entries') {
+      ids.forEach(id => this.searchIndex?.remove(id));
+    }
+  }
+
+  async clear(): Promise<void> {
     this.inputs.clear();
     this.suggestions.clear();
     this.collections.clear();
     this.entries.clear();
+    this.searchIndex?.clear();
+  }
+
+  async appendJournal(record: JournalRecord): Promise<void> {
+    this.journal.push(record);
+  }
+
+  async listJournal(entityId?: string): Promise<JournalRecord[]> {
+    if (!entityId) {
+      return [...this.journal];
+    }
+    return this.journal.filter(record => record.changes.some(change => change.id === entityId));
   }
 
+  // Utility methods for testing and debugging
   getStats(): { inputs: number; suggestions: number; collections: number; entries: number } {
     return {
       inputs: this.inputs.size,
@@ -148,32 +261,24 @@ export class InMemoryStorage implements StorageProvider {
     };
   }
 
-  exportData(): Record<string, any> {
-    return {
-      inputs: Array.from(this.inputs.values()),
-      suggestions: Array.from(this.suggestions.values()),
-      collections: Array.from(this.collections.values()),
-      entries: Array.from(this.entries.values())
-    };
+  private getSearchIndex(): SearchIndex {
+    if (!this.searchIndex) {
+      this.searchIndex = new SearchIndex();
+      this.entries.forEach(entry => this.searchIndex!.add(entry));
+    }
+    return this.searchIndex;
   }
 
-  importData(data: Record<string, any>): void {
-    this.clear();
-    
-    if (data.inputs) {
-      data.inputs.forEach((input: ExpressionInput) => this.inputs.set(input.id, input));
-    }
-    
-    if (data.suggestions) {
-      data.suggestions.forEach((suggestion: Suggestion) => this.suggestions.set(suggestion.id, suggestion));
-    }
-    
-    if (data.collections) {
-      data.collections.forEach((collection: Collection) => this.collections.set(collection.id, collection));
-    }
-    
-    if (data.entries) {
-      data.entries.forEach((entry: Entry) => this.entries.set(entry.id, entry));
+  protected addEmbeddings(embeddings: StoredEmbedding[]): void {
+    for (const { model, text, vector } of embeddings) {
+      if (!this.embeddings.has(model)) {
+        this.embeddings.set(model, new Map());
+      }
+      this.embeddings.get(model)!.set(text, vector);
     }
   }
+
+  protected recordsOf<K extends StorageRecordKind>(kind: K): Map<string, StorageRecordMap[K]> {
+    return this[kind] as Map<string, StorageRecordMap[K]>;
+  }
 }
\ No newline at end of file
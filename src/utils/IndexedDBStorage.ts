@@ -0,0 +1,588 @@
+import {
+  StorageProvider,
+  ExpressionInput,
+  Suggestion,
+  Collection,
+  Entry,
+  SearchOptions,
+  SearchResult,
+  StorageRecordKind,
+  StorageRecordMap,
+  JournalRecord,
+  TagCount,
+  StoredEmbedding,
+  CachedSuggestion
+} from '../types';
+import {
+  ExpressionInput as ExpressionInputModel,
+  Suggestion as SuggestionModel,
+  Collection as CollectionModel,
+  Entry as EntryModel,
+  JournalRecord as JournalRecordModel
+} from '../models';
+import { SearchIndex, collectSearchResults, unrankedResults } from './SearchIndex';
+import { mergeFuzzyResults, rankByDistance } from './Fuzzy';
+import { matchesSearchQuery, rankFilteredResults } from './SearchQuery';
+import { TAG_SEPARATOR, countTags, matchesTags, retagEntry } from './Tags';
+
+const DB_VERSION = 5;
+
+const STORES = {
+  inputs: 'inputs',
+  suggestions: 'suggestions',
+  collections: 'collections',
+  entries: 'entries'
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+// Kept apart from STORES so clear() leaves the history, embeddings and cached replies in place
+const JOURNAL_STORE = 'journal';
+const EMBEDDINGS_STORE = 'embeddings';
+const SUGGESTION_CACHE_STORE = 'suggestionCache';
+
+export interface IndexedDBStorageOptions {
+  dbName?: string;
+  // Defaults to the global indexedDB; pass a shim such as fake-indexeddb in Node.js
+  indexedDB?: IDBFactory;
+  // Defaults to the global IDBKeyRange; pass the shim's along with its indexedDB
+  IDBKeyRange?: typeof IDBKeyRange;
+}
+
+// Schema upgrades, applied in order from the stored version up to DB_VERSION
+const UPGRADES: Record<number, (db: IDBDatabase, transaction: IDBTransaction) => void> = {
+  1: db => {
+    const inputs = db.createObjectStore(STORES.inputs, { keyPath: 'id' });
+    inputs.createIndex('type', 'type');
+    inputs.createIndex('createdAt', 'createdAt');
+
+    const suggestions = db.createObjectStore(STORES.suggestions, { keyPath: 'id' });
+    suggestions.createIndex('inputId', 'inputId');
+    suggestions.createIndex('generatedAt', 'generatedAt');
+
+    const collections = db.createObjectStore(STORES.collections, { keyPath: 'id' });
+    collections.createIndex('name', 'name');
+    collections.createIndex('createdAt', 'createdAt');
+
+    const entries = db.createObjectStore(STORES.entries, { keyPath: 'id' });
+    entries.createIndex('collectionId', 'collectionId');
+    entries.createIndex('savedAt', 'savedAt');
+    entries.createIndex('tags', 'tags', { multiEntry: true });
+    entries.createIndex('inputId', 'input.id');
+  },
+  2: (_db, transaction) => {
+    // Entries can belong to several collections; backfill the membership list
+    const entries = transaction.objectStore(STORES.entries);
+    entries.createIndex('collectionIds', 'collectionIds', { multiEntry: true });
+
+    const request = entries.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        return;
+      }
+      if (!Array.isArray(cursor.value.collectionIds)) {
+        cursor.update({ ...cursor.value, collectionIds: [cursor.value.collectionId] });
+      }
+      cursor.continue();
+    };
+  },
+  3: db => {
+    // Auto-incremented keys keep the journal in append order
+    const journal = db.createObjectStore(JOURNAL_STORE, { keyPath: 'seq', autoIncrement: true });
+    journal.createIndex('entityIds', 'entityIds', { multiEntry: true });
+  },
+  4: db => {
+    db.createObjectStore(EMBEDDINGS_STORE, { keyPath: ['model', 'text'] });
+  },
+  5: db => {
+    db.createObjectStore(SUGGESTION_CACHE_STORE, { keyPath: 'key' });
+  }
+};
+
+// Rehydrate stored values through the models' fromJSON methods
+const FROM_STORED: { [K in StorageRecordKind]: (data: any) => StorageRecordMap[K] } = {
+  inputs: data => ExpressionInputModel.fromJSON(data),
+  suggestions: data => SuggestionModel.fromJSON(data),
+  collections: data => CollectionModel.fromJSON(data),
+  entries: data => EntryModel.fromJSON(data)
+};
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * IndexedDB-backed storage for browser environments.
+ *
+ * Each model has its own object store keyed by id, with indexes for the
+ * lookups the engine performs (entries by collection, tag and savedAt,
+ * suggestions by input). Values are stored as structured clones and
+ * rehydrated through the models' fromJSON methods.
+ */
+export class IndexedDBStorage implements StorageProvider {
+  private readonly dbName: string;
+  private readonly factory: IDBFactory;
+  // Without it, tag searches read every entry instead of the tags index
+  private readonly keyRange?: typeof IDBKeyRange;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(options: IndexedDBStorageOptions = {}) {
+    const factory = options.indexedDB || (globalThis as { indexedDB?: IDBFactory }).indexedDB;
+    if (!factory) {
+      throw new Error('IndexedDB is not available in this environment');
+    }
+
+    this.dbName = options.dbName || 'voca-engine';
+    this.factory = factory;
+    this.keyRange = options.IDBKeyRange || (globalThis as { IDBKeyRange?: typeof IDBKeyRange }).IDBKeyRange;
+  }
+
+  async saveInput(input: ExpressionInput): Promise<ExpressionInput> {
+    await this.put(STORES.inputs, this.serializeInput(input));
+    return input;
+  }
+
+  async getInput(id: string): Promise<ExpressionInput | null> {
+    const data = await this.get(STORES.inputs, id);
+    return data ? ExpressionInputModel.fromJSON(data) : null;
+  }
+
+  async saveSuggestion(suggestion: Suggestion): Promise<Suggestion> {
+    await this.put(STORES.suggestions, this.serializeSuggestion(suggestion));
+    return suggestion;
+  }
+
+  async getSuggestion(id: string): Promise<Suggestion | null> {
+    const data = await this.get(STORES.suggestions, id);
+    return data ? SuggestionModel.fromJSON(data) : null;
+  }
+
+  async saveCollection(collection: Collection): Promise<Collection> {
+    await this.put(STORES.collections, this.serializeCollection(collection));
+    return collection;
+  }
+
+  async getCollection(id: string): Promise<Collection | null> {
+    const data = await this.get(STORES.collections, id);
+    return data ? CollectionModel.fromJSON(data) : null;
+  }
+
+  async listCollections(): Promise<Collection[]> {
+    const db = await this.open();
+    const store = db.transaction(STORES.collections, 'readonly').objectStore(STORES.collections);
+    const rows = await promisify(store.index('createdAt').getAll());
+    return rows.map(data => CollectionModel.fromJSON(data));
+  }
+
+  async saveEntry(entry: Entry): Promise<Entry> {
+    await this.put(STORES.entries, this.serializeEntry(entry));
+    return entry;
+  }
+
+  async getEntry(id: string): Promise<Entry | null> {
+    const data = await this.get(STORES.entries, id);
+    return data ? EntryModel.fromJSON(data) : null;
+  }
+
+  async listEntries(collectionId: string): Promise<Entry[]> {
+    const db = await this.open();
+    const store = db.transaction(STORES.entries, 'readonly').objectStore(STORES.entries);
+    const rows = await promisify(store.index('collectionIds').getAll(collectionId));
+    return this.sortBySavedAt(rows.filter(data => !data.deletedAt).map(data => EntryModel.fromJSON(data)));
+  }
+
+  async deleteEntry(entryId: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORES.entries, 'readwrite');
+    transaction.objectStore(STORES.entries).delete(entryId);
+    await transactionDone(transaction);
+  }
+
+  async searchEntries(options: SearchOptions): Promise<Entry[]> {
+    const db = await this.open();
+    const store = db.transaction(STORES.entries, 'readonly').objectStore(STORES.entries);
+
+    // Narrow the candidate set with the collection index, or else the tags index;
+    // an entry must carry every filter tag, so the first one is enough to look up
+    let rows: any[];
+    if (options.collectionId) {
+      rows = await promisify(store.index('collectionIds').getAll(options.collectionId));
+    } else if (options.tags && options.tags.length > 0) {
+      rows = await this.rowsUnderTags(store, options.tags.slice(0, 1));
+    } else {
+      rows = await promisify(store.getAll());
+    }
+
+    // Live entries, or only the trash when asked
+    let results = rows
+      .filter(data => !!data.deletedAt === !!options.trashed)
+      .map(data => EntryModel.fromJSON(data));
+
+    // Filter by collection if specified
+    if (options.collectionId) {
+      results = results.filter(entry => entry.belongsTo(options.collectionId!));
+    }
+
+    // Entries stay visible while any of their collections is not excluded
+    if (options.excludeCollectionIds && options.excludeCollectionIds.length > 0) {
+      results = results.filter(entry =>
+        entry.collectionIds.some(id => !options.excludeCollectionIds!.includes(id))
+      );
+    }
+
+    // Filter by tags if specified
+    if (options.tags && options.tags.length > 0) {
+      results = results.filter(entry => matchesTags(entry.tags, options.tags!));
+    }
+
+    // Filter by the parsed query syntax
+    if (options.filter) {
+      results = results.filter(entry => matchesSearchQuery(entry, options.filter!, options.fuzzy));
+    }
+
+    results = this.sortBySavedAt(results);
+
+    // Filter by query; near-misses follow exact matches
+    if (options.query) {
+      results = rankByDistance(results, options.query, options.fuzzy);
+    }
+
+    // Apply pagination
+    const offset = options.offset || 0;
+    const limit = options.limit || results.length;
+
+    return results.slice(offset, offset + limit);
+  }
+
+  async searchRanked(options: SearchOptions): Promise<SearchResult[]> {
+    if (options.filter) {
+      const index = await this.loadSearchIndex();
+      const entries = await this.searchEntries({ ...options, limit: undefined, offset: undefined });
+      return rankFilteredResults(entries, term => index.search(term), options);
+    }
+    if (!options.query || options.query.trim().length === 0) {
+      return unrankedResults(await this.searchEntries(options));
+    }
+
+    const hits = (await this.loadSearchIndex()).search(options.query);
+    if (!options.fuzzy) {
+      return await collectSearchResults(hits, id => this.getEntry(id), options);
+    }
+
+    const all = { ...options, limit: undefined, offset: undefined };
+    return mergeFuzzyResults(await collectSearchResults(hits, id => this.getEntry(id), all), await this.searchEntries(all), options);
+  }
+
+  async listTags(): Promise<TagCount[]> {
+    const db = await this.open();
+    const store = db.transaction(STORES.entries, 'readonly').objectStore(STORES.entries);
+    const rows = await promisify(store.getAll());
+    return countTags(rows.filter(data => !data.deletedAt).map(data => data.tags));
+  }
+
+  async replaceTags(tags: string[], replacement: string | null): Promise<Entry[]> {
+    const db = await this.open();
+    const store = db.transaction(STORES.entries, 'readonly').objectStore(STORES.entries);
+    const rows = await this.rowsUnderTags(store, tags);
+
+    const changed = rows
+      .map(data => retagEntry(EntryModel.fromJSON(data), tags, replacement))
+      .filter((entry): entry is EntryModel => entry !== null);
+    await this.importRecords('entries', changed);
+    return changed;
+  }
+
+  async getEmbeddings(model: string, texts: string[]): Promise<StoredEmbedding[]> {
+    const db = await this.open();
+    const store = db.transaction(EMBEDDINGS_STORE, 'readonly').objectStore(EMBEDDINGS_STORE);
+    const rows = await Promise.all(texts.map(text => promisify(store.get([model, text]))));
+    return rows.filter((row): row is StoredEmbedding => row !== undefined);
+  }
+
+  async saveEmbeddings(embeddings: StoredEmbedding[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(EMBEDDINGS_STORE, 'readwrite');
+    const store = transaction.objectStore(EMBEDDINGS_STORE);
+    embeddings.forEach(embedding => store.put(embedding));
+    await transactionDone(transaction);
+  }
+
+  // Keys lead with the model, so look up each text under every stored model
+  async deleteEmbeddings(texts: string[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(EMBEDDINGS_STORE, 'readwrite');
+    const store = transaction.objectStore(EMBEDDINGS_STORE);
+    const keys = (await promisify(store.getAllKeys())) as [string, string][];
+    const removed = new Set(texts);
+    keys.filter(([, text]) => removed.has(text)).forEach(key => store.delete(key));
+    await transactionDone(transaction);
+  }
+
+  async getCachedSuggestion(key: string): Promise<CachedSuggestion | null> {
+    const db = await this.open();
+    const store = db.transaction(SUGGESTION_CACHE_STORE, 'readonly').objectStore(SUGGESTION_CACHE_STORE);
+    const row = await promisify(store.get(key));
+    return row || null;
+  }
+
+  async saveCachedSuggestion(cached: CachedSuggestion): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(SUGGESTION_CACHE_STORE, 'readwrite');
+    transaction.objectStore(SUGGESTION_CACHE_STORE).put(cached);
+    await transactionDone(transaction);
+  }
+
+  async clearSuggestionCache(): Promise<number> {
+    const db = await this.open();
+    const transaction = db.transaction(SUGGESTION_CACHE_STORE, 'readwrite');
+    const store = transaction.objectStore(SUGGESTION_CACHE_STORE);
+    const count = await promisify(store.count());
+    store.clear();
+    await transactionDone(transaction);
+    return count;
+  }
+
+  async updateCollection(id: string, updates: Partial<Collection>): Promise<Collection> {
+    const db = await this.open();
+    const transaction = db.transaction(STORES.collections, 'readwrite');
+    const store = transaction.objectStore(STORES.collections);
+
+    const existing = await promisify(store.get(id));
+    if (!existing) {
+      transaction.abort();
+      throw new Error(`Collection with id ${id} not found`);
+    }
+
+    const updated: Collection = {
+      ...CollectionModel.fromJSON(existing),
+      ...updates,
+      id: existing.id, // Ensure ID cannot be changed
+      createdAt: existing.createdAt // Ensure createdAt cannot be changed
+    };
+
+    store.put(this.serializeCollection(updated));
+    await transactionDone(transaction);
+    return CollectionModel.fromJSON(updated);
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORES.collections, 'readwrite');
+    transaction.objectStore(STORES.collections).delete(id);
+    await transactionDone(transaction);
+  }
+
+  async *exportRecords<K extends StorageRecordKind>(kind: K): AsyncIterable<StorageRecordMap[K]> {
+    const db = await this.open();
+    const store = db.transaction(kind, 'readonly').objectStore(kind);
+    const rows = await promisify(store.getAll());
+
+    for (const data of rows) {
+      yield FROM_STORED[kind](data);
+    }
+  }
+
+  async importRecords<K extends StorageRecordKind>(kind: K, records: StorageRecordMap[K][]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(kind, 'readwrite');
+    const store = transaction.objectStore(kind);
+    records.forEach(record => store.put(this.serialize(kind, record)));
+    await transactionDone(transaction);
+  }
+
+  async deleteRecords(kind: StorageRecordKind, ids: string[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(kind, 'readwrite');
+    const store = transaction.objectStore(kind);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const names = Object.values(STORES);
+    const transaction = db.transaction(names, 'readwrite');
+    names.forEach(name => transaction.objectStore(name).clear());
+    await transactionDone(transaction);
+  }
+
+  async appendJournal(record: JournalRecord): Promise<void> {
+    const model = JournalRecordModel.fromJSON(record);
+    const db = await this.open();
+    const transaction = db.transaction(JOURNAL_STORE, 'readwrite');
+    transaction.objectStore(JOURNAL_STORE).add({ ...model.toJSON(), entityIds: model.getEntityIds() });
+    await transactionDone(transaction);
+  }
+
+  async listJournal(entityId?: string): Promise<JournalRecord[]> {
+    const db = await this.open();
+    const store = db.transaction(JOURNAL_STORE, 'readonly').objectStore(JOURNAL_STORE);
+    const rows = entityId
+      ? await promisify(store.index('entityIds').getAll(entityId))
+      : await promisify(store.getAll());
+    // Index lookups come back in key order, which is append order
+    return rows.map(data => JournalRecordModel.fromJSON(data));
+  }
+
+  async close(): Promise<void> {
+    if (this.dbPromise) {
+      const db = await this.dbPromise;
+      db.close();
+      this.dbPromise = null;
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = this.factory.open(this.dbName, DB_VERSION);
+
+        request.onupgradeneeded = event => {
+          const db = request.result;
+          for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+            UPGRADES[version](db, request.transaction!);
+          }
+        };
+
+        request.onsuccess = () => {
+          const db = request.result;
+          // Let a newer version of the app in another tab upgrade the schema
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          resolve(db);
+        };
+
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+
+        request.onblocked = () => {
+          this.dbPromise = null;
+          reject(new Error(`Upgrade of IndexedDB database ${this.dbName} is blocked by another open connection`));
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Built afresh for every ranked search: other tabs and instances write to the same database
+  private async loadSearchIndex(): Promise<SearchIndex> {
+    const index = new SearchIndex();
+    for await (const entry of this.exportRecords('entries')) {
+      index.add(entry);
+    }
+    return index;
+  }
+
+  // Stored entries filed under any of the tags or a tag below one, each once
+  private async rowsUnderTags(store: IDBObjectStore, tags: string[]): Promise<any[]> {
+    if (!this.keyRange) {
+      return await promisify(store.getAll());
+    }
+
+    const index = store.index('tags');
+    const rows = new Map<string, any>();
+    for (const tag of tags) {
+      const below = this.keyRange.bound(tag + TAG_SEPARATOR, tag + TAG_SEPARATOR + '\uffff');
+      for (const query of [tag, below]) {
+        (await promisify(index.getAll(query))).forEach(row => rows.set(row.id, row));
+      }
+    }
+    return Array.from(rows.values());
+  }
+
+  private async get(storeName: StoreName, id: string): Promise<any> {
+    const db = await this.open();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    return await promisify(store.get(id));
+  }
+
+  private async put(storeName: StoreName, value: Record<string, any>): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(value);
+    await transactionDone(transaction);
+  }
+
+  private sortBySavedAt<T extends Entry>(entries: T[]): T[] {
+    return entries.sort((a, b) => b.savedAt.getTime() - a.savedAt.getTime()); // Most recent first
+  }
+
+  private serialize<K extends StorageRecordKind>(kind: K, record: StorageRecordMap[K]): Record<string, any> {
+    switch (kind) {
+      case 'inputs':
+        return this.serializeInput(record as ExpressionInput);
+      case 'suggestions':
+        return this.serializeSuggestion(record as Suggestion);
+      case 'collections':
+        return this.serializeCollection(record as Collection);
+      default:
+        return this.serializeEntry(record as Entry);
+    }
+  }
+
+  // Dates are stored as Date objects so the createdAt/savedAt indexes sort chronologically
+  private serializeInput(input: ExpressionInput): Record<string, any> {
+    return {
+      id: input.id,
+      type: input.type,
+      content: input.content,
+      createdAt: input.createdAt
+    };
+  }
+
+  private serializeSuggestion(suggestion: Suggestion): Record<string, any> {
+    return {
+      id: suggestion.id,
+      inputId: suggestion.inputId,
+      candidates: suggestion.candidates.map(candidate => ({ ...candidate })),
+      generatedAt: suggestion.generatedAt,
+      provider: suggestion.provider
+    };
+  }
+
+  private serializeCollection(collection: Collection): Record<string, any> {
+    return {
+      id: collection.id,
+      name: collection.name,
+      createdAt: collection.createdAt,
+      archivedAt: collection.archivedAt,
+      deletedAt: collection.deletedAt,
+      deletionId: collection.deletionId
+    };
+  }
+
+  private serializeEntry(entry: Entry): Record<string, any> {
+    return {
+      id: entry.id,
+      input: this.serializeInput(entry.input),
+      suggestion: this.serializeSuggestion(entry.suggestion),
+      collectionId: entry.collectionId,
+      collectionIds: [...entry.collectionIds],
+      tags: [...entry.tags],
+      candidates: entry.candidates.map(candidate => ({ ...candidate })),
+      favorites: [...entry.favorites],
+      note: entry.note,
+      example: entry.example,
+      savedAt: entry.savedAt,
+      updatedAt: entry.updatedAt,
+      deletedAt: entry.deletedAt,
+      deletionId: entry.deletionId
+    };
+  }
+}
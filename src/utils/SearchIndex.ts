@@ -0,0 +1,293 @@
+import { Entry, SearchField, SearchHighlight, SearchOptions, SearchResult } from '../types';
+import { matchesTags } from './Tags';
+
+export const SEARCH_FIELDS: SearchField[] = ['content', 'candidates', 'tags'];
+
+// A candidate match outranks a match in the input content, which outranks a tag match
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  candidates: 3,
+  content: 2,
+  tags: 1
+};
+
+// BM25 term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Runs of letters and digits; everything else separates words
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+type FieldCounts = Record<SearchField, number>;
+
+interface IndexedDocument {
+  lengths: FieldCounts;
+  tokens: string[];
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+}
+
+export function splitWords(text: string): string[] {
+  return text.normalize('NFC').toLowerCase().match(WORD_PATTERN) || [];
+}
+
+/**
+ * Tokenize text for the index. Korean attaches particles and endings to
+ * words ("노래가", "노래를"), so whole words alone rarely match; every word
+ * also yields its characters and character bigrams, which match inside
+ * longer words. Whole words of three or more characters are kept as well,
+ * so exact word matches score higher.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of splitWords(text)) {
+    const chars = Array.from(word);
+    tokens.push(...chars);
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i] + chars[i + 1]);
+    }
+    if (chars.length > 2) {
+      tokens.push(word);
+    }
+  }
+  return tokens;
+}
+
+// Every query word must match: by its bigrams, or the character itself for one-character words
+function requiredTokens(word: string): string[] {
+  const chars = Array.from(word);
+  if (chars.length === 1) {
+    return chars;
+  }
+  return chars.slice(1).map((char, i) => chars[i] + char);
+}
+
+export function fieldValues(entry: Entry, field: SearchField): string[] {
+  switch (field) {
+    case 'content':
+      return [entry.input.content];
+    case 'candidates':
+      return entry.candidates.map(candidate => candidate.text);
+    default:
+      return entry.tags;
+  }
+}
+
+function emptyCounts(): FieldCounts {
+  return { content: 0, candidates: 0, tags: 0 };
+}
+
+/**
+ * In-process inverted index over entry content, candidates and tags, scored
+ * with BM25 weighted per field. Storage providers without native full-text
+ * search keep one up to date by calling add on every saved entry and remove
+ * on every deleted one; it holds ids and token counts only, not entries.
+ */
+export class SearchIndex {
+  private postings: Map<string, Map<string, FieldCounts>> = new Map();
+  private documents: Map<string, IndexedDocument> = new Map();
+  private totalLengths: FieldCounts = emptyCounts();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  // Index an entry, replacing what was indexed under its id before
+  add(entry: Entry): void {
+    this.remove(entry.id);
+
+    const lengths = emptyCounts();
+    const seen = new Set<string>();
+    for (const field of SEARCH_FIELDS) {
+      const tokens = fieldValues(entry, field).flatMap(value => tokenize(value));
+      lengths[field] = tokens.length;
+      this.totalLengths[field] += tokens.length;
+
+      for (const token of tokens) {
+        let posting = this.postings.get(token);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(token, posting);
+        }
+        const counts = posting.get(entry.id) || emptyCounts();
+        counts[field]++;
+        posting.set(entry.id, counts);
+        seen.add(token);
+      }
+    }
+
+    this.documents.set(entry.id, { lengths, tokens: Array.from(seen) });
+  }
+
+  remove(entryId: string): void {
+    const document = this.documents.get(entryId);
+    if (!document) {
+      return;
+    }
+
+    for (const token of document.tokens) {
+      const posting = this.postings.get(token)!;
+      posting.delete(entryId);
+      if (posting.size === 0) {
+        this.postings.delete(token);
+      }
+    }
+    SEARCH_FIELDS.forEach(field => {
+      this.totalLengths[field] -= document.lengths[field];
+    });
+    this.documents.delete(entryId);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+    this.totalLengths = emptyCounts();
+  }
+
+  // Ids of entries matching every query word, most relevant first
+  search(query: string): SearchHit[] {
+    const words = splitWords(query);
+    if (words.length === 0) {
+      return [];
+    }
+
+    const required = Array.from(new Set(words.flatMap(requiredTokens)));
+    const scored = Array.from(new Set([...required, ...words.filter(word => Array.from(word).length > 2)]));
+
+    // Intersect starting from the rarest token to keep the candidate set small
+    const postings = required.map(token => this.postings.get(token));
+    if (postings.some(posting => !posting)) {
+      return [];
+    }
+    const [rarest, ...rest] = (postings as Map<string, FieldCounts>[]).sort((a, b) => a.size - b.size);
+    const ids = Array.from(rarest.keys()).filter(id => rest.every(posting => posting.has(id)));
+
+    return ids
+      .map(id => ({ id, score: this.score(id, scored) }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private score(id: string, tokens: string[]): number {
+    const document = this.documents.get(id)!;
+    const count = this.documents.size;
+    let score = 0;
+
+    for (const token of tokens) {
+      const posting = this.postings.get(token);
+      const counts = posting && posting.get(id);
+      if (!counts) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (count - posting!.size + 0.5) / (posting!.size + 0.5));
+      for (const field of SEARCH_FIELDS) {
+        if (counts[field] === 0) {
+          continue;
+        }
+        const averageLength = this.totalLengths[field] / count || 1;
+        const norm = 1 - B + B * (document.lengths[field] / averageLength);
+        score += FIELD_WEIGHTS[field] * idf * (counts[field] * (K1 + 1)) / (counts[field] + K1 * norm);
+      }
+    }
+
+    return score;
+  }
+}
+
+/**
+ * Find where the query words occur in an entry, one highlight per matching
+ * content, candidate or tag value. Matching is case-insensitive. Values are
+ * normalized to NFC like the query words, and the highlight carries the
+ * normalized text its ranges point into.
+ */
+export function highlightEntry(entry: Entry, query: string): SearchHighlight[] {
+  const words = splitWords(query);
+  const highlights: SearchHighlight[] = [];
+
+  for (const field of SEARCH_FIELDS) {
+    for (const value of fieldValues(entry, field)) {
+      const text = value.normalize('NFC');
+      const ranges = findRanges(text, words);
+      if (ranges.length > 0) {
+        highlights.push({ field, text, ranges });
+      }
+    }
+  }
+
+  return highlights;
+}
+
+function findRanges(text: string, words: string[]): Array<[number, number]> {
+  const lower = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+
+  for (const word of words) {
+    let index = lower.indexOf(word);
+    while (index !== -1) {
+      ranges.push([index, index + word.length]);
+      index = lower.indexOf(word, index + word.length);
+    }
+  }
+
+  // Merge overlapping ranges so each character is highlighted once
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<Array<[number, number]>>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push(range);
+    }
+    return merged;
+  }, []);
+}
+
+// Whether an entry passes the non-query filters of a search
+export function matchesSearchFilters(entry: Entry, options: SearchOptions): boolean {
+  if (!!entry.deletedAt !== !!options.trashed) {
+    return false;
+  }
+  if (options.collectionId && !entry.collectionIds.includes(options.collectionId)) {
+    return false;
+  }
+  if (options.excludeCollectionIds && options.excludeCollectionIds.length > 0 &&
+      !entry.collectionIds.some(id => !options.excludeCollectionIds!.includes(id))) {
+    return false;
+  }
+  if (options.tags && !matchesTags(entry.tags, options.tags)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Turn index hits into search results: load each entry, apply the search
+ * filters, attach highlights and paginate. Equal scores fall back to the
+ * most recently saved entry first.
+ */
+export async function collectSearchResults(
+  hits: SearchHit[],
+  load: (id: string) => Promise<Entry | null>,
+  options: SearchOptions
+): Promise<SearchResult[]> {
+  const results: SearchResult[] = [];
+  for (const hit of hits) {
+    const entry = await load(hit.id);
+    if (entry && matchesSearchFilters(entry, options)) {
+      results.push({ entry, score: hit.score, highlights: highlightEntry(entry, options.query) });
+    }
+  }
+
+  results.sort((a, b) => b.score - a.score || b.entry.savedAt.getTime() - a.entry.savedAt.getTime());
+
+  const offset = options.offset || 0;
+  const limit = options.limit || results.length;
+  return results.slice(offset, offset + limit);
+}
+
+// Results for a search without a query: everything the filters allow, unscored
+export function unrankedResults(entries: Entry[]): SearchResult[] {
+  return entries.map(entry => ({ entry, score: 0, highlights: [] }));
+}
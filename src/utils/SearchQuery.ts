@@ -0,0 +1,319 @@
+import { Entry, InputType, SearchOptions, SearchQueryNode, SearchResult, TextQuery } from '../types';
+import { matchesChoseong } from './Hangul';
+import { fuzzyFind, matchDistance, maxEdits } from './Fuzzy';
+import { SearchHit, fieldValues, highlightEntry } from './SearchIndex';
+import { matchesTags } from './Tags';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FIELD_PATTERN = /^([a-z]+):(.*)$/i;
+const FIELDS = ['tag', 'type', 'saved', 'collection', 'content', 'candidate'];
+
+type Token =
+  | { type: 'text'; value: string; phrase: boolean; position: number }
+  | { type: 'field'; field: string; value: string; position: number }
+  | { type: 'not' | 'or' | 'open' | 'close'; position: number };
+
+function fail(message: string, position: number, hint?: string): never {
+  throw new Error(`Invalid search query: ${message} at character ${position}${hint ? `; ${hint}` : ''}`);
+}
+
+function lex(query: string): Token[] {
+  const chars = Array.from(query);
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // Read a quoted string starting at the opening quote, leaving i after the closing one
+  const readQuoted = (): string => {
+    const start = i;
+    const end = chars.indexOf('"', i + 1);
+    if (end === -1) {
+      fail('unclosed quote', start + 1);
+    }
+    i = end + 1;
+    return chars.slice(start + 1, end).join('');
+  };
+
+  while (i < chars.length) {
+    const char = chars[i];
+    const position = i + 1;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', position });
+      i++;
+    } else if (char === '-' && i + 1 < chars.length && !/[\s)]/.test(chars[i + 1])) {
+      tokens.push({ type: 'not', position });
+      i++;
+    } else if (char === '"') {
+      const value = readQuoted();
+      if (value.trim().length === 0) {
+        fail('empty phrase', position);
+      }
+      tokens.push({ type: 'text', value, phrase: true, position });
+    } else {
+      let word = '';
+      while (i < chars.length && !/[\s()"]/.test(chars[i])) {
+        word += chars[i++];
+      }
+
+      const field = word.match(FIELD_PATTERN);
+      if (field) {
+        // A field value may be quoted: tag:"잔잔한 소리"
+        const value = field[2] === '' && chars[i] === '"' ? readQuoted() : field[2];
+        tokens.push({ type: 'field', field: field[1].toLowerCase(), value, position });
+      } else if (word === 'OR') {
+        tokens.push({ type: 'or', position });
+      } else if (word !== 'AND') {
+        // Words are joined with AND already, so an explicit AND is skipped
+        tokens.push({ type: 'text', value: word, phrase: false, position });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function parseDay(value: string, position: number): Date {
+  const day = new Date(`${value}T00:00:00Z`);
+  if (!DAY_PATTERN.test(value) || isNaN(day.getTime()) || day.toISOString().slice(0, 10) !== value) {
+    fail(`invalid date "${value}"`, position, 'use YYYY-MM-DD');
+  }
+  return day;
+}
+
+// saved:2026-01-01, saved:>2026-01-01 (also >=, <, <=) or saved:2026-01-01..2026-01-31, in UTC days
+function parseSaved(value: string, position: number): SearchQueryNode {
+  const range = value.split('..');
+  if (range.length === 2) {
+    const from = parseDay(range[0], position);
+    const last = parseDay(range[1], position);
+    if (last < from) {
+      fail(`date range "${value}" ends before it starts`, position);
+    }
+    return { kind: 'saved', from, before: new Date(last.getTime() + DAY_MS) };
+  }
+
+  const [, operator, date] = value.match(/^(>=|<=|>|<|=)?(.*)$/)!;
+  const day = parseDay(date, position);
+  const next = new Date(day.getTime() + DAY_MS);
+  switch (operator) {
+    case '>':
+      return { kind: 'saved', from: next };
+    case '>=':
+      return { kind: 'saved', from: day };
+    case '<':
+      return { kind: 'saved', before: day };
+    case '<=':
+      return { kind: 'saved', before: next };
+    default:
+      return { kind: 'saved', from: day, before: next };
+  }
+}
+
+function parseField(token: Extract<Token, { type: 'field' }>): SearchQueryNode {
+  const { field, value, position } = token;
+  if (!FIELDS.includes(field)) {
+    fail(`unknown field "${field}:"`, position, `use ${FIELDS.join(', ')}, or quote the term to search for it as text`);
+  }
+  if (value.trim().length === 0) {
+    fail(`missing value after "${field}:"`, position);
+  }
+
+  switch (field) {
+    case 'tag':
+      return { kind: 'tag', tag: value };
+    case 'type': {
+      const inputType = Object.values(InputType).find(type => type === value.toLowerCase());
+      if (!inputType) {
+        fail(`unknown type "${value}"`, position, `use ${Object.values(InputType).join(', ')}`);
+      }
+      return { kind: 'type', inputType };
+    }
+    case 'saved':
+      return parseSaved(value, position);
+    case 'collection':
+      return { kind: 'collection', collectionId: value };
+    default:
+      return { kind: 'text', text: value, phrase: false, field: field === 'content' ? 'content' : 'candidates' };
+  }
+}
+
+/**
+ * Parse the search query syntax into a tree. Terms are joined with AND;
+ * OR binds looser than AND, '-' negates a term and parentheses group:
+ *
+ *   tag:카페 -tag:draft type:image saved:>2026-01-01 "잔잔한 소리" OR 선율
+ *
+ * Fields are tag:, type:, saved:, collection:, content: and candidate:.
+ * Returns null for an empty query; malformed queries throw with the position
+ * of the problem.
+ */
+export function parseSearchQuery(query: string): SearchQueryNode | null {
+  const tokens = lex(query);
+  let next = 0;
+
+  const peek = (): Token | undefined => tokens[next];
+
+  const parseOr = (): SearchQueryNode => {
+    const operands = [parseAnd()];
+    while (peek()?.type === 'or') {
+      const or = tokens[next++];
+      const following = peek();
+      if (!following || following.type === 'or' || following.type === 'close') {
+        fail('expected a search term after OR', or.position);
+      }
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'or', operands };
+  };
+
+  const parseAnd = (): SearchQueryNode => {
+    const operands: SearchQueryNode[] = [];
+    let token = peek();
+    while (token && token.type !== 'or' && token.type !== 'close') {
+      operands.push(parseUnary());
+      token = peek();
+    }
+    if (operands.length === 0) {
+      if (!token) {
+        fail('expected a search term', Array.from(query).length + 1);
+      }
+      fail(token.type === 'or' ? 'expected a search term before OR' : 'unexpected ")"', token.position);
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'and', operands };
+  };
+
+  const parseUnary = (): SearchQueryNode => {
+    const token = tokens[next++];
+    switch (token.type) {
+      case 'not': {
+        const following = peek();
+        if (!following || following.type === 'or' || following.type === 'close') {
+          fail('expected a search term after "-"', token.position);
+        }
+        return { kind: 'not', operand: parseUnary() };
+      }
+      case 'open': {
+        if (peek()?.type === 'close') {
+          fail('empty group', token.position);
+        }
+        const group = parseOr();
+        if (peek()?.type !== 'close') {
+          fail('unclosed "("', token.position);
+        }
+        next++;
+        return group;
+      }
+      case 'field':
+        return parseField(token);
+      case 'text':
+        return { kind: 'text', text: token.value, phrase: token.phrase };
+      default:
+        return fail('unexpected token', token.position);
+    }
+  };
+
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  const root = parseOr();
+  if (next < tokens.length) {
+    fail('unexpected ")"', tokens[next].position);
+  }
+  return root;
+}
+
+/**
+ * The free text of a query that is one word or phrase, such as '잔잔한' or
+ * '"잔잔한 노래"', which storage searches as before; null otherwise. Several
+ * words each have to match on their own, as they do next to a filter, so
+ * they are searched through the parsed query.
+ */
+export function toPlainQuery(node: SearchQueryNode): string | null {
+  return node.kind === 'text' && !node.field ? node.text : null;
+}
+
+// Text the query looks for, leaving out negated terms; used to score and highlight matches
+export function searchTerms(node: SearchQueryNode): string[] {
+  switch (node.kind) {
+    case 'text':
+      return [node.text];
+    case 'and':
+    case 'or':
+      return node.operands.flatMap(searchTerms);
+    default:
+      return [];
+  }
+}
+
+function matchesText(entry: Entry, node: TextQuery, fuzzy: number): boolean {
+  if (!node.field) {
+    return matchDistance(entry, node.text, fuzzy) !== null;
+  }
+
+  const limit = maxEdits(node.text, fuzzy);
+  return fieldValues(entry, node.field).some(value =>
+    matchesChoseong(value, node.text) || (limit > 0 && fuzzyFind(value, node.text, limit) !== null)
+  );
+}
+
+/**
+ * Whether an entry matches a parsed query. Text matches content, candidates
+ * and tags the way a plain search does, within the fuzzy tolerance if given;
+ * a tag: filter matches that tag and the tags below it.
+ */
+export function matchesSearchQuery(entry: Entry, node: SearchQueryNode, fuzzy: number = 0): boolean {
+  switch (node.kind) {
+    case 'text':
+      return matchesText(entry, node, fuzzy);
+    case 'tag':
+      return matchesTags(entry.tags, [node.tag]);
+    case 'type':
+      return entry.input.type === node.inputType;
+    case 'saved':
+      return (!node.from || entry.savedAt >= node.from) && (!node.before || entry.savedAt < node.before);
+    case 'collection':
+      return entry.collectionIds.includes(node.collectionId);
+    case 'not':
+      return !matchesSearchQuery(entry, node.operand, fuzzy);
+    case 'and':
+      return node.operands.every(operand => matchesSearchQuery(entry, operand, fuzzy));
+    default:
+      return node.operands.some(operand => matchesSearchQuery(entry, operand, fuzzy));
+  }
+}
+
+/**
+ * Rank entries already matched against a parsed query: each search term
+ * adds the score of its full-text hits, and the terms are highlighted.
+ * Entries matched in other ways (a tag or date alone) score 0 and keep their
+ * order, so pass them most recent first.
+ */
+export function rankFilteredResults(
+  entries: Entry[],
+  search: (term: string) => SearchHit[],
+  options: SearchOptions
+): SearchResult[] {
+  const terms = [options.query, ...(options.filter ? searchTerms(options.filter) : [])].filter(Boolean);
+  const scores = new Map<string, number>();
+  for (const term of terms) {
+    for (const hit of search(term)) {
+      scores.set(hit.id, (scores.get(hit.id) || 0) + hit.score);
+    }
+  }
+
+  const results = entries
+    .map(entry => ({
+      entry,
+      score: scores.get(entry.id) || 0,
+      highlights: terms.length > 0 ? highlightEntry(entry, terms.join(' ')) : []
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const offset = options.offset || 0;
+  const limit = options.limit || results.length;
+  return results.slice(offset, offset + limit);
+}
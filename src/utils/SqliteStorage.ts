@@ -0,0 +1,902 @@
+import type Database from 'better-sqlite3';
+import {
+  StorageProvider,
+  ExpressionInput,
+  Suggestion,
+  Collection,
+  Entry,
+  SearchOptions,
+  SearchResult,
+  SearchField,
+  SearchQueryNode,
+  TagCount,
+  StoredEmbedding,
+  CachedSuggestion,
+  StorageRecordKind,
+  StorageRecordMap,
+  JournalRecord
+} from '../types';
+import {
+  ExpressionInput as ExpressionInputModel,
+  Suggestion as SuggestionModel,
+  Collection as CollectionModel,
+  Entry as EntryModel,
+  JournalRecord as JournalRecordModel
+} from '../models';
+import { SEARCH_FIELDS, SearchHit, SearchIndex, highlightEntry } from './SearchIndex';
+import { containsChoseong, matchesChoseong } from './Hangul';
+import { maxEdits, mergeFuzzyResults, rankByDistance } from './Fuzzy';
+import { matchesSearchQuery, rankFilteredResults } from './SearchQuery';
+import { TAG_SEPARATOR, countTags, retagEntry } from './Tags';
+
+// Trigram FTS only matches queries of at least this many characters
+const MIN_FTS_QUERY_LENGTH = 3;
+
+// bm25 column weights for entry_id, content, candidates and tags; a candidate match ranks highest
+const BM25_WEIGHTS = '0.0, 2.0, 3.0, 1.0';
+
+// Separator used when flattening lists into a single FTS column
+const FTS_SEPARATOR = '\u001f';
+
+// Loaded on first use, so importing the engine does not load the native addon of an optional dependency
+function openDatabase(filename: string): Database.Database {
+  let Sqlite: typeof Database;
+  try {
+    Sqlite = require('better-sqlite3') as typeof Database;
+  } catch (error) {
+    throw new Error(`SqliteStorage needs the better-sqlite3 package, which runs on Node.js 20 or later: ${(error as Error).message}`);
+  }
+  return new Sqlite(filename);
+}
+
+// Rows fetched per query while exporting, so large tables are never loaded at once
+const EXPORT_PAGE_SIZE = 500;
+
+// Schema migrations; entry N upgrades a database from user_version N to N + 1
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE IF NOT EXISTS inputs (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    content TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS suggestions (
+    id TEXT PRIMARY KEY,
+    input_id TEXT NOT NULL,
+    candidates TEXT NOT NULL,
+    generated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_suggestions_input_id ON suggestions(input_id);
+
+  CREATE TABLE IF NOT EXISTS collections (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS entries (
+    id TEXT PRIMARY KEY,
+    input_id TEXT NOT NULL REFERENCES inputs(id),
+    suggestion_id TEXT NOT NULL REFERENCES suggestions(id),
+    collection_id TEXT NOT NULL,
+    tags TEXT NOT NULL,
+    saved_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_entries_collection_id ON entries(collection_id, saved_at);
+  CREATE INDEX IF NOT EXISTS idx_entries_saved_at ON entries(saved_at);
+
+  CREATE TABLE IF NOT EXISTS entry_tags (
+    entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (entry_id, tag)
+  );
+  CREATE INDEX IF NOT EXISTS idx_entry_tags_tag ON entry_tags(tag);
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS entries_fts USING fts5(
+    entry_id UNINDEXED,
+    content,
+    candidates,
+    tags,
+    tokenize = 'trigram'
+  );
+  `,
+  `
+  ALTER TABLE collections ADD COLUMN archived_at INTEGER;
+  `,
+  `
+  ALTER TABLE entries ADD COLUMN collection_ids TEXT;
+  UPDATE entries SET collection_ids = json_array(collection_id);
+
+  CREATE TABLE IF NOT EXISTS entry_collections (
+    entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+    collection_id TEXT NOT NULL,
+    PRIMARY KEY (entry_id, collection_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_entry_collections_collection_id ON entry_collections(collection_id);
+  INSERT INTO entry_collections (entry_id, collection_id) SELECT id, collection_id FROM entries;
+  `,
+  `
+  ALTER TABLE entries ADD COLUMN candidates TEXT;
+  ALTER TABLE entries ADD COLUMN favorites TEXT;
+  ALTER TABLE entries ADD COLUMN note TEXT;
+  ALTER TABLE entries ADD COLUMN example TEXT;
+  ALTER TABLE entries ADD COLUMN updated_at INTEGER;
+  `,
+  `
+  ALTER TABLE entries ADD COLUMN deleted_at INTEGER;
+  ALTER TABLE collections ADD COLUMN deleted_at INTEGER;
+  CREATE INDEX IF NOT EXISTS idx_entries_deleted_at ON entries(deleted_at);
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS journal (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS journal_entities (
+    entity_id TEXT NOT NULL,
+    seq INTEGER NOT NULL REFERENCES journal(seq),
+    PRIMARY KEY (entity_id, seq)
+  );
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS embeddings (
+    model TEXT NOT NULL,
+    text TEXT NOT NULL,
+    vector BLOB NOT NULL,
+    PRIMARY KEY (model, text)
+  );
+  `,
+  `
+  ALTER TABLE suggestions ADD COLUMN provider TEXT;
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS suggestion_cache (
+    key TEXT PRIMARY KEY,
+    candidates TEXT NOT NULL,
+    provider TEXT,
+    cached_at INTEGER NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE entries ADD COLUMN deletion_id TEXT;
+  ALTER TABLE collections ADD COLUMN deletion_id TEXT;
+  `
+];
+
+const SCHEMA_VERSION = MIGRATIONS.length;
+
+// Substring pattern for LIKE ... ESCAPE '\\', with wildcards in the query taken literally
+function likePattern(query: string): string {
+  return `%${query.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+}
+
+const ENTRY_SELECT = `
+  SELECT
+    e.rowid AS row_id, e.id, e.collection_id, e.collection_ids, e.tags, e.saved_at,
+    e.candidates, e.favorites, e.note, e.example, e.updated_at, e.deleted_at, e.deletion_id,
+    i.id AS input_id, i.type AS input_type, i.content AS input_content, i.created_at AS input_created_at,
+    s.id AS suggestion_id, s.input_id AS suggestion_input_id, s.candidates AS suggestion_candidates,
+    s.generated_at AS suggestion_generated_at, s.provider AS suggestion_provider
+  FROM entries e
+  JOIN inputs i ON i.id = e.input_id
+  JOIN suggestions s ON s.id = e.suggestion_id
+`;
+
+interface InputRow {
+  id: string;
+  type: string;
+  content: string;
+  created_at: number;
+}
+
+interface SuggestionRow {
+  id: string;
+  input_id: string;
+  candidates: string;
+  generated_at: number;
+  provider: string | null;
+}
+
+interface CachedSuggestionRow {
+  key: string;
+  candidates: string;
+  provider: string | null;
+  cached_at: number;
+}
+
+interface CollectionRow {
+  id: string;
+  name: string;
+  created_at: number;
+  archived_at: number | null;
+  deleted_at: number | null;
+  deletion_id: string | null;
+}
+
+interface EntryRow {
+  id: string;
+  collection_id: string;
+  collection_ids: string | null;
+  tags: string;
+  saved_at: number;
+  // Curation columns are NULL for entries written before they existed
+  candidates: string | null;
+  favorites: string | null;
+  note: string | null;
+  example: string | null;
+  updated_at: number | null;
+  deleted_at: number | null;
+  deletion_id: string | null;
+  input_id: string;
+  input_type: string;
+  input_content: string;
+  input_created_at: number;
+  suggestion_id: string;
+  suggestion_input_id: string;
+  suggestion_candidates: string;
+  suggestion_generated_at: number;
+  suggestion_provider: string | null;
+}
+
+/**
+ * SQLite-backed storage for Node.js environments.
+ *
+ * Entries are stored in normalized tables with indexes on collection membership,
+ * tags and savedAt, and a trigram full-text index over input content, candidates
+ * and tags, so listing and searching large collections does not scan every entry.
+ */
+export class SqliteStorage implements StorageProvider {
+  private db: Database.Database;
+
+  constructor(filename: string = ':memory:') {
+    this.db = openDatabase(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    // Initial-consonant matching has no index; it runs over the FTS table's text columns
+    this.db.function('choseong_match', { deterministic: true }, (text: unknown, query: unknown) =>
+      String(text).split(FTS_SEPARATOR).some(value => matchesChoseong(value, String(query))) ? 1 : 0);
+    this.migrate();
+  }
+
+  async saveInput(input: ExpressionInput): Promise<ExpressionInput> {
+    this.upsertInput(input);
+    return input;
+  }
+
+  async getInput(id: string): Promise<ExpressionInput | null> {
+    const row = this.db.prepare('SELECT * FROM inputs WHERE id = ?').get(id) as InputRow | undefined;
+    return row ? this.toInput(row) : null;
+  }
+
+  async saveSuggestion(suggestion: Suggestion): Promise<Suggestion> {
+    this.upsertSuggestion(suggestion);
+    return suggestion;
+  }
+
+  async getSuggestion(id: string): Promise<Suggestion | null> {
+    const row = this.db.prepare('SELECT * FROM suggestions WHERE id = ?').get(id) as SuggestionRow | undefined;
+    return row ? this.toSuggestion(row) : null;
+  }
+
+  async saveCollection(collection: Collection): Promise<Collection> {
+    this.upsertCollection(collection);
+    return collection;
+  }
+
+  async getCollection(id: string): Promise<Collection | null> {
+    const row = this.db.prepare('SELECT * FROM collections WHERE id = ?').get(id) as CollectionRow | undefined;
+    return row ? this.toCollection(row) : null;
+  }
+
+  async listCollections(): Promise<Collection[]> {
+    const rows = this.db.prepare('SELECT * FROM collections ORDER BY created_at ASC, rowid ASC').all() as CollectionRow[];
+    return rows.map(row => this.toCollection(row));
+  }
+
+  async saveEntry(entry: Entry): Promise<Entry> {
+    this.db.transaction((item: Entry) => this.writeEntry(item))(entry);
+    return entry;
+  }
+
+  async getEntry(id: string): Promise<Entry | null> {
+    const row = this.db.prepare(`${ENTRY_SELECT} WHERE e.id = ?`).get(id) as EntryRow | undefined;
+    return row ? this.toEntry(row) : null;
+  }
+
+  async listEntries(collectionId: string): Promise<Entry[]> {
+    const rows = this.db.prepare(`
+      ${ENTRY_SELECT}
+      WHERE e.id IN (SELECT entry_id FROM entry_collections WHERE collection_id = ?)
+        AND e.deleted_at IS NULL
+      ORDER BY e.saved_at DESC, e.rowid ASC
+    `).all(collectionId) as EntryRow[];
+    return rows.map(row => this.toEntry(row));
+  }
+
+  async deleteEntry(entryId: string): Promise<void> {
+    const remove = this.db.transaction((id: string) => {
+      this.db.prepare('DELETE FROM entries_fts WHERE entry_id = ?').run(id);
+      this.db.prepare('DELETE FROM entries WHERE id = ?').run(id);
+    });
+    remove(entryId);
+  }
+
+  async searchEntries(options: SearchOptions): Promise<Entry[]> {
+    // Near-misses are out of reach of the index: apply the other filters here and match the rest
+    if ((options.query && maxEdits(options.query, options.fuzzy || 0) > 0) || (options.filter && options.fuzzy)) {
+      const entries = await this.searchEntries({
+        ...options, query: '', filter: undefined, fuzzy: undefined, limit: undefined, offset: undefined
+      });
+      let results = options.query ? rankByDistance(entries, options.query, options.fuzzy) : entries;
+      if (options.filter) {
+        results = results.filter(entry => matchesSearchQuery(entry, options.filter!, options.fuzzy));
+      }
+      const offset = options.offset || 0;
+      const limit = options.limit || results.length;
+      return results.slice(offset, offset + limit);
+    }
+
+    // Live entries, or only the trash when asked
+    const conditions: string[] = [options.trashed ? 'e.deleted_at IS NOT NULL' : 'e.deleted_at IS NULL'];
+    const params: unknown[] = [];
+
+    // Filter by collection if specified
+    if (options.collectionId) {
+      conditions.push('e.id IN (SELECT entry_id FROM entry_collections WHERE collection_id = ?)');
+      params.push(options.collectionId);
+    }
+
+    // Entries stay visible while any of their collections is not excluded
+    if (options.excludeCollectionIds && options.excludeCollectionIds.length > 0) {
+      conditions.push(`e.id IN (
+        SELECT entry_id FROM entry_collections
+        WHERE collection_id NOT IN (${options.excludeCollectionIds.map(() => '?').join(', ')})
+      )`);
+      params.push(...options.excludeCollectionIds);
+    }
+
+    // Filter by query
+    if (options.query) {
+      conditions.push(this.textCondition(options.query, SEARCH_FIELDS, params));
+    }
+
+    // Filter by tags if specified
+    if (options.tags && options.tags.length > 0) {
+      Array.from(new Set(options.tags)).forEach(tag => conditions.push(this.tagCondition(tag, params)));
+    }
+
+    // Filter by the parsed query syntax
+    if (options.filter) {
+      conditions.push(this.filterCondition(options.filter, params));
+    }
+
+    // Apply pagination; SQLite treats LIMIT -1 as unbounded
+    const rows = this.db.prepare(`
+      ${ENTRY_SELECT}
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY e.saved_at DESC, e.rowid ASC
+      LIMIT ? OFFSET ?
+    `).all(...params, options.limit || -1, options.offset || 0) as EntryRow[];
+
+    return rows.map(row => this.toEntry(row));
+  }
+
+  // Ranks with the FTS index's own bm25; queries too short for it are not scored
+  async searchRanked(options: SearchOptions): Promise<SearchResult[]> {
+    const all = { ...options, limit: undefined, offset: undefined };
+    if (options.filter) {
+      const filtered = await this.searchEntries(all);
+      return rankFilteredResults(filtered, term => this.textHits(term, filtered), options);
+    }
+
+    const entries = await this.searchEntries({ ...all, fuzzy: undefined });
+    const query = (options.query || '').trim();
+    const scores = new Map(this.textHits(query, entries).map(hit => [hit.id, hit.score]));
+
+    // searchEntries already orders by savedAt, and sort is stable
+    const results = entries
+      .map(entry => ({
+        entry,
+        score: scores.get(entry.id) || 0,
+        highlights: query ? highlightEntry(entry, query) : []
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    if (options.fuzzy && query) {
+      return mergeFuzzyResults(results, await this.searchEntries(all), options);
+    }
+
+    const offset = options.offset || 0;
+    const limit = options.limit || results.length;
+    return results.slice(offset, offset + limit);
+  }
+
+  /**
+   * Score entries for a query with bm25. Queries too short for the trigram
+   * index are scored the way the other providers score every query, with a
+   * SearchIndex over the entries the search already matched.
+   */
+  private textHits(query: string, matched: Entry[]): SearchHit[] {
+    if (!query) {
+      return [];
+    }
+    if (Array.from(query).length < MIN_FTS_QUERY_LENGTH) {
+      const index = new SearchIndex();
+      matched.forEach(entry => index.add(entry));
+      return index.search(query);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT entry_id, bm25(entries_fts, ${BM25_WEIGHTS}) AS rank FROM entries_fts WHERE entries_fts MATCH ?
+    `).all(`"${query.replace(/"/g, '""')}"`) as Array<{ entry_id: string; rank: number }>;
+    // bm25 is lower for better matches
+    return rows.map(row => ({ id: row.entry_id, score: -row.rank }));
+  }
+
+  // Condition for entries whose given full-text columns contain the text
+  private textCondition(text: string, columns: SearchField[], params: unknown[]): string {
+    let match: string;
+    if (containsChoseong(text)) {
+      // Initial consonants match whole syllables in content and candidates; tags match as written
+      match = columns.map(column => column === 'tags' ? `tags LIKE ? ESCAPE '\\'` : `choseong_match(${column}, ?)`).join(' OR ');
+      params.push(...columns.map(column => column === 'tags' ? likePattern(text) : text));
+    } else if (Array.from(text).length >= MIN_FTS_QUERY_LENGTH) {
+      const phrase = `"${text.replace(/"/g, '""')}"`;
+      match = 'entries_fts MATCH ?';
+      params.push(columns.length === SEARCH_FIELDS.length ? phrase : `{${columns.join(' ')}} : ${phrase}`);
+    } else {
+      // Text too short for the trigram index falls back to a substring scan
+      match = columns.map(column => `${column} LIKE ? ESCAPE '\\'`).join(' OR ');
+      params.push(...columns.map(() => likePattern(text)));
+    }
+    return `e.id IN (SELECT entry_id FROM entries_fts WHERE ${match})`;
+  }
+
+  // Condition for entries filed under a tag: the tag itself or any tag below it
+  private tagCondition(tag: string, params: unknown[]): string {
+    params.push(tag, tag + TAG_SEPARATOR);
+    return 'e.id IN (SELECT entry_id FROM entry_tags WHERE tag = ? OR instr(tag, ?) = 1)';
+  }
+
+  // Compile a parsed query into a condition on entries e joined with inputs i
+  private filterCondition(node: SearchQueryNode, params: unknown[]): string {
+    switch (node.kind) {
+      case 'text':
+        return this.textCondition(node.text, node.field ? [node.field] : SEARCH_FIELDS, params);
+      case 'tag':
+        return this.tagCondition(node.tag, params);
+      case 'type':
+        params.push(node.inputType);
+        return 'i.type = ?';
+      case 'saved': {
+        const bounds: string[] = [];
+        if (node.from) {
+          bounds.push('e.saved_at >= ?');
+          params.push(node.from.getTime());
+        }
+        if (node.before) {
+          bounds.push('e.saved_at < ?');
+          params.push(node.before.getTime());
+        }
+        return `(${bounds.join(' AND ')})`;
+      }
+      case 'collection':
+        params.push(node.collectionId);
+        return 'e.id IN (SELECT entry_id FROM entry_collections WHERE collection_id = ?)';
+      case 'not':
+        return `NOT (${this.filterCondition(node.operand, params)})`;
+      default:
+        return `(${node.operands.map(operand => this.filterCondition(operand, params)).join(node.kind === 'and' ? ' AND ' : ' OR ')})`;
+    }
+  }
+
+  async listTags(): Promise<TagCount[]> {
+    const rows = this.db.prepare(`
+      SELECT t.entry_id, t.tag FROM entry_tags t
+      JOIN entries e ON e.id = t.entry_id
+      WHERE e.deleted_at IS NULL
+    `).all() as Array<{ entry_id: string; tag: string }>;
+
+    const tagsByEntry = new Map<string, string[]>();
+    rows.forEach(row => tagsByEntry.set(row.entry_id, [...(tagsByEntry.get(row.entry_id) || []), row.tag]));
+    return countTags(Array.from(tagsByEntry.values()));
+  }
+
+  async replaceTags(tags: string[], replacement: string | null): Promise<Entry[]> {
+    const params: unknown[] = [];
+    const conditions = tags.map(tag => this.tagCondition(tag, params));
+    const ids = tags.length === 0 ? [] : (this.db.prepare(`
+      SELECT e.id FROM entries e WHERE ${conditions.join(' OR ')}
+    `).all(...params) as Array<{ id: string }>).map(row => row.id);
+
+    const changed: Entry[] = [];
+    for (const id of ids) {
+      const retagged = retagEntry((await this.getEntry(id))!, tags, replacement);
+      if (retagged) {
+        changed.push(retagged);
+      }
+    }
+    await this.importRecords('entries', changed);
+    return changed;
+  }
+
+  async getEmbeddings(model: string, texts: string[]): Promise<StoredEmbedding[]> {
+    const select = this.db.prepare('SELECT vector FROM embeddings WHERE model = ? AND text = ?');
+    const found: StoredEmbedding[] = [];
+    for (const text of texts) {
+      const row = select.get(model, text) as { vector: Buffer } | undefined;
+      if (row) {
+        const { buffer, byteOffset, byteLength } = row.vector;
+        found.push({ model, text, vector: Array.from(new Float64Array(buffer.slice(byteOffset, byteOffset + byteLength))) });
+      }
+    }
+    return found;
+  }
+
+  async saveEmbeddings(embeddings: StoredEmbedding[]): Promise<void> {
+    const insert = this.db.prepare('INSERT OR REPLACE INTO embeddings (model, text, vector) VALUES (?, ?, ?)');
+    this.db.transaction(() => {
+      // Stored as doubles so vectors come back exactly as they were given
+      embeddings.forEach(({ model, text, vector }) => insert.run(model, text, Buffer.from(new Float64Array(vector).buffer)));
+    })();
+  }
+
+  async deleteEmbeddings(texts: string[]): Promise<void> {
+    const remove = this.db.prepare('DELETE FROM embeddings WHERE text = ?');
+    this.db.transaction(() => {
+      texts.forEach(text => remove.run(text));
+    })();
+  }
+
+  async getCachedSuggestion(key: string): Promise<CachedSuggestion | null> {
+    const row = this.db.prepare('SELECT * FROM suggestion_cache WHERE key = ?').get(key) as CachedSuggestionRow | undefined;
+    if (!row) {
+      return null;
+    }
+    return {
+      key: row.key,
+      candidates: JSON.parse(row.candidates),
+      ...(row.provider !== null ? { provider: row.provider } : {}),
+      cachedAt: new Date(row.cached_at)
+    };
+  }
+
+  async saveCachedSuggestion(cached: CachedSuggestion): Promise<void> {
+    this.db.prepare('INSERT OR REPLACE INTO suggestion_cache (key, candidates, provider, cached_at) VALUES (?, ?, ?, ?)')
+      .run(cached.key, JSON.stringify(cached.candidates), cached.provider === undefined ? null : cached.provider, cached.cachedAt.getTime());
+  }
+
+  async clearSuggestionCache(): Promise<number> {
+    return this.db.prepare('DELETE FROM suggestion_cache').run().changes;
+  }
+
+  async updateCollection(id: string, updates: Partial<Collection>): Promise<Collection> {
+    const existing = await this.getCollection(id);
+    if (!existing) {
+      throw new Error(`Collection with id ${id} not found`);
+    }
+
+    const updated: Collection = {
+      ...existing,
+      ...updates,
+      id: existing.id, // Ensure ID cannot be changed
+      createdAt: existing.createdAt // Ensure createdAt cannot be changed
+    };
+
+    const result = CollectionModel.fromJSON(updated);
+    this.upsertCollection(result);
+    return result;
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM collections WHERE id = ?').run(id);
+  }
+
+  async *exportRecords<K extends StorageRecordKind>(kind: K): AsyncIterable<StorageRecordMap[K]> {
+    // Page by rowid so rows written while the export is consumed do not shift pages
+    const statement = this.db.prepare(kind === 'entries'
+      ? `${ENTRY_SELECT} WHERE e.rowid > ? ORDER BY e.rowid LIMIT ?`
+      : `SELECT rowid AS row_id, * FROM ${kind} WHERE rowid > ? ORDER BY rowid LIMIT ?`);
+
+    let lastRowId = 0;
+    for (;;) {
+      const rows = statement.all(lastRowId, EXPORT_PAGE_SIZE) as Array<{ row_id: number }>;
+      for (const row of rows) {
+        yield this.toRecord(kind, row);
+      }
+      if (rows.length < EXPORT_PAGE_SIZE) {
+        return;
+      }
+      lastRowId = rows[rows.length - 1].row_id;
+    }
+  }
+
+  async importRecords<K extends StorageRecordKind>(kind: K, records: StorageRecordMap[K][]): Promise<void> {
+    this.db.transaction(() => {
+      records.forEach(record => {
+        switch (kind) {
+          case 'inputs':
+            this.upsertInput(record as ExpressionInput);
+            break;
+          case 'suggestions':
+            this.upsertSuggestion(record as Suggestion);
+            break;
+          case 'collections':
+            this.upsertCollection(record as Collection);
+            break;
+          case 'entries':
+            this.writeEntry(record as Entry);
+            break;
+        }
+      });
+    })();
+  }
+
+  async deleteRecords(kind: StorageRecordKind, ids: string[]): Promise<void> {
+    this.db.transaction(() => {
+      ids.forEach(id => {
+        if (kind === 'entries') {
+          this.db.prepare('DELETE FROM entries_fts WHERE entry_id = ?').run(id);
+        }
+        this.db.prepare(`DELETE FROM ${kind} WHERE id = ?`).run(id);
+      });
+    })();
+  }
+
+  async clear(): Promise<void> {
+    this.db.exec(`
+      DELETE FROM entries_fts;
+      DELETE FROM entry_tags;
+      DELETE FROM entry_collections;
+      DELETE FROM entries;
+      DELETE FROM collections;
+      DELETE FROM suggestions;
+      DELETE FROM inputs;
+    `);
+  }
+
+  async appendJournal(record: JournalRecord): Promise<void> {
+    const model = JournalRecordModel.fromJSON(record);
+    this.db.transaction(() => {
+      const { lastInsertRowid } = this.db.prepare('INSERT INTO journal (id, data) VALUES (?, ?)').run(
+        model.id,
+        JSON.stringify(model.toJSON())
+      );
+      const insertEntity = this.db.prepare('INSERT OR IGNORE INTO journal_entities (entity_id, seq) VALUES (?, ?)');
+      model.getEntityIds().forEach(entityId => insertEntity.run(entityId, lastInsertRowid));
+    })();
+  }
+
+  async listJournal(entityId?: string): Promise<JournalRecord[]> {
+    const rows = (entityId
+      ? this.db.prepare(`
+          SELECT j.data FROM journal j
+          WHERE j.seq IN (SELECT seq FROM journal_entities WHERE entity_id = ?)
+          ORDER BY j.seq ASC
+        `).all(entityId)
+      : this.db.prepare('SELECT data FROM journal ORDER BY seq ASC').all()) as Array<{ data: string }>;
+    return rows.map(row => JournalRecordModel.fromJSON(JSON.parse(row.data)));
+  }
+
+  // Utility methods for testing and debugging
+  getStats(): { inputs: number; suggestions: number; collections: number; entries: number } {
+    const count = (table: string): number =>
+      (this.db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+
+    return {
+      inputs: count('inputs'),
+      suggestions: count('suggestions'),
+      collections: count('collections'),
+      entries: count('entries')
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version > SCHEMA_VERSION) {
+      throw new Error(`Database schema version ${version} is newer than supported version ${SCHEMA_VERSION}`);
+    }
+
+    for (let step = version; step < SCHEMA_VERSION; step++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[step]);
+        this.db.pragma(`user_version = ${step + 1}`);
+      })();
+    }
+  }
+
+  private writeEntry(entry: Entry): void {
+    // The entry embeds its input and suggestion; keep the referenced rows in sync
+    this.upsertInput(entry.input);
+    this.upsertSuggestion(entry.suggestion);
+
+    this.db.prepare(`
+      INSERT INTO entries (
+        id, input_id, suggestion_id, collection_id, collection_ids, tags, saved_at,
+        candidates, favorites, note, example, updated_at, deleted_at, deletion_id
+      )
+      VALUES (
+        @id, @inputId, @suggestionId, @collectionId, @collectionIds, @tags, @savedAt,
+        @candidates, @favorites, @note, @example, @updatedAt, @deletedAt, @deletionId
+      )
+      ON CONFLICT(id) DO UPDATE SET
+        input_id = excluded.input_id,
+        suggestion_id = excluded.suggestion_id,
+        collection_id = excluded.collection_id,
+        collection_ids = excluded.collection_ids,
+        tags = excluded.tags,
+        saved_at = excluded.saved_at,
+        candidates = excluded.candidates,
+        favorites = excluded.favorites,
+        note = excluded.note,
+        example = excluded.example,
+        updated_at = excluded.updated_at,
+        deleted_at = excluded.deleted_at,
+        deletion_id = excluded.deletion_id
+    `).run({
+      id: entry.id,
+      inputId: entry.input.id,
+      suggestionId: entry.suggestion.id,
+      collectionId: entry.collectionId,
+      collectionIds: JSON.stringify(entry.collectionIds),
+      tags: JSON.stringify(entry.tags),
+      savedAt: entry.savedAt.getTime(),
+      candidates: JSON.stringify(entry.candidates),
+      favorites: JSON.stringify(entry.favorites),
+      note: entry.note || null,
+      example: entry.example || null,
+      updatedAt: entry.updatedAt ? entry.updatedAt.getTime() : null,
+      deletedAt: entry.deletedAt ? entry.deletedAt.getTime() : null,
+      deletionId: entry.deletionId || null
+    });
+
+    this.db.prepare('DELETE FROM entry_collections WHERE entry_id = ?').run(entry.id);
+    const insertCollection = this.db.prepare(
+      'INSERT OR IGNORE INTO entry_collections (entry_id, collection_id) VALUES (?, ?)'
+    );
+    entry.collectionIds.forEach(collectionId => insertCollection.run(entry.id, collectionId));
+
+    this.db.prepare('DELETE FROM entry_tags WHERE entry_id = ?').run(entry.id);
+    const insertTag = this.db.prepare('INSERT OR IGNORE INTO entry_tags (entry_id, tag) VALUES (?, ?)');
+    entry.tags.forEach(tag => insertTag.run(entry.id, tag));
+
+    this.db.prepare('DELETE FROM entries_fts WHERE entry_id = ?').run(entry.id);
+    this.db.prepare('INSERT INTO entries_fts (entry_id, content, candidates, tags) VALUES (?, ?, ?, ?)').run(
+      entry.id,
+      entry.input.content,
+      entry.candidates.map(candidate => candidate.text).join(FTS_SEPARATOR),
+      entry.tags.join(FTS_SEPARATOR)
+    );
+  }
+
+  private upsertCollection(collection: Collection): void {
+    this.db.prepare(`
+      INSERT INTO collections (id, name, created_at, archived_at, deleted_at, deletion_id)
+      VALUES (@id, @name, @createdAt, @archivedAt, @deletedAt, @deletionId)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        created_at = excluded.created_at,
+        archived_at = excluded.archived_at,
+        deleted_at = excluded.deleted_at,
+        deletion_id = excluded.deletion_id
+    `).run({
+      id: collection.id,
+      name: collection.name,
+      createdAt: collection.createdAt.getTime(),
+      archivedAt: collection.archivedAt ? collection.archivedAt.getTime() : null,
+      deletedAt: collection.deletedAt ? collection.deletedAt.getTime() : null,
+      deletionId: collection.deletionId || null
+    });
+  }
+
+  private upsertInput(input: ExpressionInput): void {
+    this.db.prepare(`
+      INSERT INTO inputs (id, type, content, created_at) VALUES (@id, @type, @content, @createdAt)
+      ON CONFLICT(id) DO UPDATE SET type = excluded.type, content = excluded.content, created_at = excluded.created_at
+    `).run({
+      id: input.id,
+      type: input.type,
+      content: input.content,
+      createdAt: input.createdAt.getTime()
+    });
+  }
+
+  private upsertSuggestion(suggestion: Suggestion): void {
+    this.db.prepare(`
+      INSERT INTO suggestions (id, input_id, candidates, generated_at, provider)
+      VALUES (@id, @inputId, @candidates, @generatedAt, @provider)
+      ON CONFLICT(id) DO UPDATE SET
+        input_id = excluded.input_id,
+        candidates = excluded.candidates,
+        generated_at = excluded.generated_at,
+        provider = excluded.provider
+    `).run({
+      id: suggestion.id,
+      inputId: suggestion.inputId,
+      candidates: JSON.stringify(suggestion.candidates),
+      generatedAt: suggestion.generatedAt.getTime(),
+      provider: suggestion.provider || null
+    });
+  }
+
+  private toRecord<K extends StorageRecordKind>(kind: K, row: unknown): StorageRecordMap[K] {
+    switch (kind) {
+      case 'inputs':
+        return this.toInput(row as InputRow) as StorageRecordMap[K];
+      case 'suggestions':
+        return this.toSuggestion(row as SuggestionRow) as StorageRecordMap[K];
+      case 'collections':
+        return this.toCollection(row as CollectionRow) as StorageRecordMap[K];
+      default:
+        return this.toEntry(row as EntryRow) as StorageRecordMap[K];
+    }
+  }
+
+  private toInput(row: InputRow): ExpressionInput {
+    return ExpressionInputModel.fromJSON({
+      id: row.id,
+      type: row.type,
+      content: row.content,
+      createdAt: row.created_at
+    });
+  }
+
+  private toSuggestion(row: SuggestionRow): Suggestion {
+    return SuggestionModel.fromJSON({
+      id: row.id,
+      inputId: row.input_id,
+      candidates: JSON.parse(row.candidates),
+      generatedAt: row.generated_at,
+      provider: row.provider
+    });
+  }
+
+  private toCollection(row: CollectionRow): Collection {
+    return CollectionModel.fromJSON({
+      id: row.id,
+      name: row.name,
+      createdAt: row.created_at,
+      archivedAt: row.archived_at,
+      deletedAt: row.deleted_at,
+      deletionId: row.deletion_id
+    });
+  }
+
+  private toEntry(row: EntryRow): Entry {
+    return EntryModel.fromJSON({
+      id: row.id,
+      input: {
+        id: row.input_id,
+        type: row.input_type,
+        content: row.input_content,
+        createdAt: row.input_created_at
+      },
+      suggestion: {
+        id: row.suggestion_id,
+        inputId: row.suggestion_input_id,
+        candidates: JSON.parse(row.suggestion_candidates),
+        generatedAt: row.suggestion_generated_at,
+        provider: row.suggestion_provider
+      },
+      collectionId: row.collection_id,
+      collectionIds: row.collection_ids ? JSON.parse(row.collection_ids) : undefined,
+      tags: JSON.parse(row.tags),
+      candidates: row.candidates ? JSON.parse(row.candidates) : undefined,
+      favorites: row.favorites ? JSON.parse(row.favorites) : undefined,
+      note: row.note,
+      example: row.example,
+      savedAt: row.saved_at,
+      updatedAt: row.updated_at,
+      deletedAt: row.deleted_at,
+      deletionId: row.deletion_id
+    });
+  }
+}
@@ -0,0 +1,77 @@
+import { Entry, TagCount } from '../types';
+import { Entry as EntryModel } from '../models';
+
+// Separates the levels of a hierarchical tag: '장소/카페'
+export const TAG_SEPARATOR = '/';
+
+// Trim a tag and each of its levels, dropping empty ones: ' 장소 / 카페 ' -> '장소/카페'
+export function normalizeTag(tag: string): string {
+  return tag
+    .split(TAG_SEPARATOR)
+    .map(level => level.trim())
+    .filter(level => level.length > 0)
+    .join(TAG_SEPARATOR);
+}
+
+// Whether a tag is the given one or nested below it: '장소/카페' is within '장소'
+export function isWithinTag(tag: string, ancestor: string): boolean {
+  return tag === ancestor || tag.startsWith(ancestor + TAG_SEPARATOR);
+}
+
+// Whether an entry's tags satisfy a tag filter: every filter tag, itself or a tag below it
+export function matchesTags(tags: string[], filter: string[]): boolean {
+  return filter.every(wanted => tags.some(tag => isWithinTag(tag, wanted)));
+}
+
+// Every level of a tag from the top: '장소/카페/실내' -> ['장소', '장소/카페', '장소/카페/실내']
+export function tagPath(tag: string): string[] {
+  const levels = tag.split(TAG_SEPARATOR);
+  return levels.map((_, i) => levels.slice(0, i + 1).join(TAG_SEPARATOR));
+}
+
+/**
+ * Move tags at or below any of the sources to the target, keeping their
+ * lower levels ('장소/카페' renamed from '장소' to '공간' becomes '공간/카페'),
+ * or drop them when the target is null. Duplicates are merged in place.
+ */
+export function replaceTags(tags: string[], sources: string[], target: string | null): string[] {
+  const replaced: string[] = [];
+  for (const tag of tags) {
+    const source = sources.find(candidate => isWithinTag(tag, candidate));
+    if (source !== undefined && target === null) {
+      continue;
+    }
+
+    const next = source !== undefined ? target + tag.slice(source.length) : tag;
+    if (!replaced.includes(next)) {
+      replaced.push(next);
+    }
+  }
+  return replaced;
+}
+
+// The entry with its tags replaced, or null when none of them change
+export function retagEntry(entry: Entry, sources: string[], target: string | null): Entry | null {
+  const tags = replaceTags(entry.tags, sources, target);
+  if (tags.length === entry.tags.length && tags.every((tag, i) => tag === entry.tags[i])) {
+    return null;
+  }
+  return EntryModel.fromJSON(entry).updateTags(tags);
+}
+
+/**
+ * Count the entries filed under each tag, parents included: an entry tagged
+ * '장소/카페' counts once for '장소/카페' and once for '장소'. Most used
+ * first, then by name.
+ */
+export function countTags(tagLists: string[][]): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const tags of tagLists) {
+    for (const tag of new Set(tags.flatMap(tagPath))) {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,73 @@
+import { normalizeContent, uniqueByContent, findDuplicateGroups, mergeDuplicates } from '../Duplicates';
+import { ExpressionInput, Suggestion, Entry } from '../../models';
+
+function makeEntry(content: string, collectionIds: string[], savedAt: string, candidates: string[] = ['후보']): Entry {
+  const input = ExpressionInput.createExpression(content);
+  return Entry.fromJSON({
+    ...new Entry(input, new Suggestion(input.id, candidates), collectionIds[0], [], undefined, collectionIds).toJSON(),
+    savedAt
+  });
+}
+
+describe('normalizeContent', () => {
+  it('should ignore spacing, punctuation, case and Unicode composition', () => {
+    expect(normalizeContent(' 노래 소리가,  잔잔하게 들린다! ')).toBe('노래소리가잔잔하게들린다');
+    expect(normalizeContent('Calm  Song.')).toBe(normalizeContent('calm song'));
+    expect(normalizeContent('가')).toBe('가');
+  });
+
+  it('should keep text made only of punctuation', () => {
+    expect(normalizeContent(' ... ')).toBe('...');
+  });
+});
+
+describe('uniqueByContent', () => {
+  it('should keep the first spelling of each value', () => {
+    expect(uniqueByContent(['조용히', '부드럽게', '조용히.', ' 부드 럽게'])).toEqual(['조용히', '부드럽게']);
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('should group the same input within shared collections, earliest first', () => {
+    const first = makeEntry('잔잔한 노래', ['c1'], '2026-01-02T00:00:00Z');
+    const again = makeEntry('잔잔한 노래.', ['c1', 'c2'], '2026-01-01T00:00:00Z');
+    const linked = makeEntry('잔잔한  노래', ['c2'], '2026-01-03T00:00:00Z');
+    const elsewhere = makeEntry('잔잔한 노래', ['c3'], '2026-01-04T00:00:00Z');
+    const other = makeEntry('비 오는 날', ['c1'], '2026-01-05T00:00:00Z');
+
+    expect(findDuplicateGroups([first, linked, other, again, elsewhere]).map(group => group.map(e => e.id)))
+      .toEqual([[again.id, first.id, linked.id]]);
+  });
+
+  it('should tell input types apart', () => {
+    const expression = makeEntry('카페', ['c1'], '2026-01-01T00:00:00Z');
+    const image = Entry.fromJSON({
+      ...expression.toJSON(),
+      id: 'image-entry',
+      input: { ...ExpressionInput.createImage('카페').toJSON() }
+    });
+
+    expect(findDuplicateGroups([expression, image])).toEqual([]);
+  });
+});
+
+describe('mergeDuplicates', () => {
+  it('should union candidates, favorites, tags and collections into the first entry', () => {
+    const keeper = makeEntry('잔잔한 노래', ['c1'], '2026-01-01T00:00:00Z', ['부드럽게', '조용히'])
+      .updateTags(['음악']);
+    const duplicate = makeEntry('잔잔한 노래', ['c2'], '2026-01-02T00:00:00Z', ['조용히.', '나직이'])
+      .updateTags(['음악', '감성'])
+      .withFavorites(['조용히.'])
+      .withNote('밤에 어울림');
+
+    const merged = mergeDuplicates([keeper, duplicate]);
+
+    expect(merged.id).toBe(keeper.id);
+    expect(merged.savedAt).toEqual(keeper.savedAt);
+    expect(merged.collectionIds).toEqual(['c1', 'c2']);
+    expect(merged.candidates).toEqual([{ text: '부드럽게' }, { text: '조용히' }, { text: '나직이' }]);
+    expect(merged.favorites).toEqual(['조용히']);
+    expect(merged.tags).toEqual(['음악', '감성']);
+    expect(merged.note).toBe('밤에 어울림');
+  });
+});
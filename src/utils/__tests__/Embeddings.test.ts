@@ -0,0 +1,42 @@
+import { cosineSimilarity, nearestEntries } from '../Embeddings';
+import { ExpressionInput, Suggestion, Entry } from '../../models';
+
+describe('cosineSimilarity', () => {
+  it('should compare directions regardless of length', () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 3])).toBe(0);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+
+  it('should refuse vectors of different dimensions', () => {
+    expect(() => cosineSimilarity([1, 0], [1, 0, 0])).toThrow('Cannot compare embeddings of 2 and 3 dimensions');
+  });
+});
+
+describe('nearestEntries', () => {
+  const makeEntry = (content: string, candidates: string[]) => {
+    const input = ExpressionInput.createExpression(content);
+    return new Entry(input, new Suggestion(input.id, candidates), 'c1');
+  };
+
+  it('should score each entry by its closest text and keep the top k', () => {
+    const calm = makeEntry('노래 소리', ['잔잔하게', '선율']);
+    const rain = makeEntry('비 오는 날', ['촉촉한']);
+    const view = makeEntry('풍경', ['경치']);
+    const vectors = new Map([
+      ['노래 소리', [0, 1, 0]],
+      ['잔잔하게', [1, 0.1, 0]],
+      ['선율', [0, 1, 0.2]],
+      ['비 오는 날', [0.5, 0, 0.5]],
+      ['풍경', [0, 0, 1]]
+    ]);
+
+    const results = nearestEntries([1, 0, 0], [view, rain, calm], vectors, 2);
+
+    expect(results.map(r => r.entry.id)).toEqual([calm.id, rain.id]);
+    expect(results[0].match).toEqual({ field: 'candidates', text: '잔잔하게' });
+    expect(results[0].score).toBeCloseTo(1 / Math.sqrt(1.01));
+    expect(results[1].match).toEqual({ field: 'content', text: '비 오는 날' });
+  });
+});
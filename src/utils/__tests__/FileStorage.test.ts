@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorage } from '../FileStorage';
+import { ExpressionInput, Suggestion, Collection, Entry, JournalRecord } from '../../models';
+
+describe('FileStorage', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'voca-engine-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should create the workspace directory if missing', () => {
+    const nested = path.join(dataDir, 'nested', 'workspace');
+    const storage = new FileStorage(nested);
+
+    expect(storage.getDataDir()).toBe(nested);
+    expect(fs.existsSync(nested)).toBe(true);
+  });
+
+  it('should keep data between instances', async () => {
+    const storage = new FileStorage(dataDir);
+    const input = ExpressionInput.createExpression('노래 소리가 잔잔하게 들린다');
+    const suggestion = new Suggestion(input.id, ['부드럽게', '조용히']);
+    const collection = new Collection('일상 표현 모음');
+    const entry = new Entry(input, suggestion, collection.id, ['카페']);
+
+    await storage.saveInput(input);
+    await storage.saveSuggestion(suggestion);
+    await storage.saveCollection(collection);
+    await storage.saveEntry(entry);
+
+    const reopened = new FileStorage(dataDir);
+
+    const restoredInput = await reopened.getInput(input.id);
+    expect(restoredInput?.content).toBe(input.content);
+    expect(restoredInput?.createdAt).toBeInstanceOf(Date);
+
+    const restoredSuggestion = await reopened.getSuggestion(suggestion.id);
+    expect(restoredSuggestion?.candidates).toEqual([{ text: '부드럽게' }, { text: '조용히' }]);
+
+    const collections = await reopened.listCollections();
+    expect(collections.map(c => c.name)).toEqual(['일상 표현 모음']);
+
+    const entries = await reopened.listEntries(collection.id);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].tags).toEqual(['카페']);
+    expect(entries[0].savedAt.getTime()).toBe(entry.savedAt.getTime());
+    expect(entries[0].input.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should load entries saved when candidates were plain strings', async () => {
+    const input = { id: 'in-1', type: 'expression', content: '잔잔하게', createdAt: '2026-01-01T00:00:00.000Z' };
+    const suggestion = { id: 'sg-1', inputId: 'in-1', candidates: ['부드럽게', '조용히'], generatedAt: '2026-01-01T00:00:00.000Z' };
+    fs.writeFileSync(path.join(dataDir, 'suggestions.json'), JSON.stringify([suggestion]));
+    fs.writeFileSync(path.join(dataDir, 'entries.json'), JSON.stringify([{
+      id: 'en-1',
+      input,
+      suggestion,
+      collectionId: 'col-1',
+      tags: [],
+      candidates: ['조용히'],
+      favorites: ['조용히'],
+      savedAt: '2026-01-02T00:00:00.000Z'
+    }]));
+
+    const storage = new FileStorage(dataDir);
+
+    expect((await storage.getSuggestion('sg-1'))?.candidates).toEqual([{ text: '부드럽게' }, { text: '조용히' }]);
+    const entry = await storage.getEntry('en-1');
+    expect(entry?.candidates).toEqual([{ text: '조용히' }]);
+    expect(entry?.favorites).toEqual(['조용히']);
+  });
+
+  it('should persist collection updates and entry deletion', async () => {
+    const storage = new FileStorage(dataDir);
+    const input = ExpressionInput.createExpression('테스트');
+    const suggestion = new Suggestion(input.id, ['시험']);
+    const collection = new Collection('old');
+    const entry = new Entry(input, suggestion, collection.id);
+
+    await storage.saveCollection(collection);
+    await storage.saveEntry(entry);
+    await storage.updateCollection(collection.id, { name: 'new' });
+    await storage.deleteEntry(entry.id);
+
+    const reopened = new FileStorage(dataDir);
+    expect((await reopened.getCollection(collection.id))?.name).toBe('new');
+    expect(await reopened.getEntry(entry.id)).toBeNull();
+  });
+
+  it('should append the journal to a file and read it back', async () => {
+    const storage = new FileStorage(dataDir);
+    const record = new JournalRecord('renameCollection', [
+      { kind: 'collections', id: 'c1', before: { id: 'c1', name: 'old' }, after: { id: 'c1', name: 'new' } }
+    ]);
+    await storage.appendJournal(record);
+    await storage.appendJournal(new JournalRecord('renameCollection', [], { action: 'undo', targetId: record.id }));
+
+    const lines = fs.readFileSync(path.join(dataDir, 'journal.jsonl'), 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(2);
+
+    const reopened = new FileStorage(dataDir);
+    const journal = await reopened.listJournal();
+    expect(journal.map(r => r.action)).toEqual(['apply', 'undo']);
+    expect(journal[1].targetId).toBe(record.id);
+    expect(journal[0].timestamp.getTime()).toBe(record.timestamp.getTime());
+  });
+
+  it('should append embeddings to a file and read them back', async () => {
+    const storage = new FileStorage(dataDir);
+    await storage.saveEmbeddings([{ model: 'm1', text: '잔잔하게', vector: [0.5, 0.5] }]);
+    await storage.saveEmbeddings([{ model: 'm1', text: '잔잔하게', vector: [1, 0] }]);
+
+    const reopened = new FileStorage(dataDir);
+    expect(await reopened.getEmbeddings('m1', ['잔잔하게'])).toEqual([{ model: 'm1', text: '잔잔하게', vector: [1, 0] }]);
+  });
+
+  it('should rewrite the embeddings file without deleted vectors', async () => {
+    const storage = new FileStorage(dataDir);
+    await storage.saveEmbeddings([{ model: 'm1', text: '잔잔하게', vector: [0.5, 0.5] }, { model: 'm1', text: '고요하게', vector: [0, 1] }]);
+    await storage.saveEmbeddings([{ model: 'm1', text: '고요하게', vector: [1, 0] }]);
+    await storage.deleteEmbeddings(['잔잔하게']);
+
+    const lines = fs.readFileSync(path.join(dataDir, 'embeddings.jsonl'), 'utf8').trim().split('\n');
+    expect(lines.map(line => JSON.parse(line))).toEqual([{ model: 'm1', text: '고요하게', vector: [1, 0] }]);
+  });
+
+  it('should append cached suggestions to a file and read the latest back', async () => {
+    const storage = new FileStorage(dataDir);
+    await storage.saveCachedSuggestion({ key: 'a', candidates: [{ text: '조용히' }], cachedAt: new Date('2026-01-01T00:00:00Z') });
+    await storage.saveCachedSuggestion({ key: 'a', candidates: [{ text: '고요히' }], cachedAt: new Date('2026-02-01T00:00:00Z') });
+
+    const reopened = new FileStorage(dataDir);
+    expect(await reopened.getCachedSuggestion('a')).toEqual({
+      key: 'a',
+      candidates: [{ text: '고요히' }],
+      cachedAt: new Date('2026-02-01T00:00:00Z')
+    });
+
+    await reopened.clearSuggestionCache();
+    expect(await new FileStorage(dataDir).getCachedSuggestion('a')).toBeNull();
+  });
+
+  it('should rewrite the cache file once replaced lines outnumber the rest', async () => {
+    const storage = new FileStorage(dataDir);
+    const filePath = path.join(dataDir, 'suggestion-cache.jsonl');
+    const lines = () => fs.readFileSync(filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line).candidates[0].text);
+    for (const text of ['조용히', '고요히']) {
+      await storage.saveCachedSuggestion({ key: 'a', candidates: [{ text }], cachedAt: new Date('2026-01-01T00:00:00Z') });
+    }
+    expect(lines()).toEqual(['조용히', '고요히']);
+
+    await storage.saveCachedSuggestion({ key: 'a', candidates: [{ text: '잠잠히' }], cachedAt: new Date('2026-01-01T00:00:00Z') });
+    expect(lines()).toEqual(['잠잠히']);
+    await storage.saveCachedSuggestion({ key: 'b', candidates: [{ text: '나직이' }], cachedAt: new Date('2026-01-01T00:00:00Z') });
+    expect(lines()).toEqual(['잠잠히', '나직이']);
+  });
+
+  it('should rewrite a cache file of mostly replaced lines when reading it', async () => {
+    const reply = (text: string) => JSON.stringify({ key: 'a', candidates: [{ text }], cachedAt: '2026-01-01T00:00:00.000Z' });
+    fs.writeFileSync(path.join(dataDir, 'suggestion-cache.jsonl'), ['조용히', '고요히', '잠잠히'].map(reply).join('\n') + '\n');
+
+    new FileStorage(dataDir);
+    expect(fs.readFileSync(path.join(dataDir, 'suggestion-cache.jsonl'), 'utf8')).toBe(`${reply('잠잠히')}\n`);
+  });
+
+  it('should report corrupted files clearly', () => {
+    fs.writeFileSync(path.join(dataDir, 'entries.json'), '{not json', 'utf8');
+
+    expect(() => new FileStorage(dataDir)).toThrow(/Failed to read .*entries\.json/);
+  });
+});
@@ -0,0 +1,52 @@
+import { fuzzyFind, maxEdits, matchDistance, rankByDistance } from '../Fuzzy';
+import { ExpressionInput, Suggestion, Entry } from '../../models';
+
+function makeEntry(content: string, candidates: string[], tags: string[] = []): Entry {
+  const input = ExpressionInput.createExpression(content);
+  return new Entry(input, new Suggestion(input.id, candidates), 'c1', tags);
+}
+
+describe('fuzzyFind', () => {
+  it('should count edits over jamo and locate the match', () => {
+    expect(fuzzyFind('노래 소리가 잔잔하게 들린다', '잔잔하계', 2)).toEqual({ distance: 1, start: 7, end: 11 });
+    expect(fuzzyFind('잔잔하게', '잔잔하게', 0)).toEqual({ distance: 0, start: 0, end: 4 });
+    expect(fuzzyFind('잔잔하게', '잔잔하계', 0)).toBeNull();
+  });
+
+  it('should compare Latin text letter by letter, ignoring case', () => {
+    expect(fuzzyFind('A Calm Melody', 'melodi', 1)).toEqual({ distance: 1, start: 7, end: 13 });
+    expect(fuzzyFind('A Calm Melody', 'harmony', 1)).toBeNull();
+  });
+});
+
+describe('maxEdits', () => {
+  it('should allow one edit per four jamo or letters at most', () => {
+    expect(maxEdits('잔잔하계', 2)).toBe(2);
+    expect(maxEdits('노래', 2)).toBe(1);
+    expect(maxEdits('cat', 2)).toBe(0);
+    expect(maxEdits('잔잔하계', 0)).toBe(0);
+  });
+});
+
+describe('matchDistance', () => {
+  const entry = makeEntry('노래 소리가 잔잔하게 들린다', ['Cozy Moment'], ['감성']);
+
+  it('should be zero for exact and initial consonant matches', () => {
+    expect(matchDistance(entry, '잔잔하게')).toBe(0);
+    expect(matchDistance(entry, 'ㅈㅈㅎㄱ')).toBe(0);
+    expect(matchDistance(entry, '감')).toBe(0);
+  });
+
+  it('should measure near-misses only within the tolerance', () => {
+    expect(matchDistance(entry, '잔잔하계')).toBeNull();
+    expect(matchDistance(entry, '잔잔하계', 1)).toBe(1);
+    expect(matchDistance(entry, 'cosy moment', 2)).toBe(1);
+    expect(matchDistance(entry, '시끄럽게', 2)).toBeNull();
+  });
+
+  it('should rank exact matches before near-misses', () => {
+    const typo = makeEntry('잔잔하계 흐르는 강', []);
+    expect(rankByDistance([typo, entry], '잔잔하게', 1)).toEqual([entry, typo]);
+    expect(rankByDistance([typo, entry], '잔잔하게')).toEqual([entry]);
+  });
+});
@@ -0,0 +1,34 @@
+import { decompose, getChoseong, toJamo, isChoseong, containsChoseong, matchesChoseong } from '../Hangul';
+
+describe('Hangul', () => {
+  it('should decompose syllables into jamo', () => {
+    expect(decompose('잔')).toEqual({ initial: 'ㅈ', medial: 'ㅏ', final: 'ㄴ' });
+    expect(decompose('래')).toEqual({ initial: 'ㄹ', medial: 'ㅐ', final: '' });
+    expect(decompose('힣')).toEqual({ initial: 'ㅎ', medial: 'ㅣ', final: 'ㅎ' });
+    expect(decompose('a')).toBeNull();
+    expect(decompose('ㄴ')).toBeNull();
+  });
+
+  it('should extract initial consonants and spell out jamo', () => {
+    expect(getChoseong('노래 소리가 잔잔하게')).toBe('ㄴㄹ ㅅㄹㄱ ㅈㅈㅎㄱ');
+    expect(getChoseong('Cozy 카페')).toBe('Cozy ㅋㅍ');
+    expect(toJamo('잔잔')).toBe('ㅈㅏㄴㅈㅏㄴ');
+  });
+
+  it('should recognize initial consonants', () => {
+    expect(isChoseong('ㄲ')).toBe(true);
+    expect(isChoseong('ㅏ')).toBe(false);
+    expect(containsChoseong('잔ㅈ')).toBe(true);
+    expect(containsChoseong('잔잔')).toBe(false);
+  });
+
+  it('should match initial consonants, mixed queries and plain substrings', () => {
+    expect(matchesChoseong('노래 소리가 들린다', 'ㄴㄹ')).toBe(true);
+    expect(matchesChoseong('잔잔하게', 'ㅈㅈㅎㄱ')).toBe(true);
+    expect(matchesChoseong('잔잔하게', '잔ㅈ')).toBe(true);
+    expect(matchesChoseong('잔잔하게', '하ㅈ')).toBe(false);
+    expect(matchesChoseong('잔잔하게', 'ㄴㄹ')).toBe(false);
+    expect(matchesChoseong('Cozy Moment', 'cozy m')).toBe(true);
+    expect(matchesChoseong('노래', '')).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { IndexedDBStorage } from '../IndexedDBStorage';
+import { ExpressionInput, Suggestion, Collection, Entry } from '../../models';
+
+describe('IndexedDBStorage', () => {
+  let factory: IDBFactory;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+  });
+
+  it('should keep data across connections', async () => {
+    const storage = new IndexedDBStorage({ indexedDB: factory, dbName: 'vocab' });
+    const input = ExpressionInput.createExpression('노래 소리가 잔잔하게 들린다');
+    const suggestion = new Suggestion(input.id, ['부드럽게', '조용히']);
+    const collection = new Collection('일상 표현 모음');
+    const entry = new Entry(input, suggestion, collection.id, ['카페']);
+
+    await storage.saveCollection(collection);
+    await storage.saveEntry(entry);
+    await storage.close();
+
+    const reopened = new IndexedDBStorage({ indexedDB: factory, dbName: 'vocab' });
+    const entries = await reopened.listEntries(collection.id);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toBeInstanceOf(Entry);
+    expect(entries[0].input.createdAt).toBeInstanceOf(Date);
+    expect(entries[0].savedAt.getTime()).toBe(entry.savedAt.getTime());
+    await reopened.close();
+  });
+
+  it('should rank entries written by another instance of the same database', async () => {
+    const storage = new IndexedDBStorage({ indexedDB: factory, dbName: 'vocab' });
+    const other = new IndexedDBStorage({ indexedDB: factory, dbName: 'vocab' });
+    const input = ExpressionInput.createExpression('노래 소리가 잔잔하게 들린다');
+    const entry = new Entry(input, new Suggestion(input.id, ['부드럽게']), 'c1');
+
+    expect(await storage.searchRanked({ query: '잔잔하게' })).toHaveLength(0);
+    await other.saveEntry(entry);
+    expect((await storage.searchRanked({ query: '잔잔하게' })).map(r => r.entry.id)).toEqual([entry.id]);
+
+    await other.deleteEntry(entry.id);
+    expect(await storage.searchRanked({ query: '잔잔하게' })).toHaveLength(0);
+    await storage.close();
+    await other.close();
+  });
+
+  it('should create the object stores and indexes on first open', async () => {
+    const storage = new IndexedDBStorage({ indexedDB: factory, dbName: 'vocab' });
+    await storage.listCollections();
+    await storage.close();
+
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open('vocab');
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    expect(Array.from(db.objectStoreNames).sort())
+      .toEqual(['collections', 'embeddings', 'entries', 'inputs', 'journal', 'suggestionCache', 'suggestions']);
+
+    const entryIndexes = db.transaction('entries').objectStore('entries').indexNames;
+    expect(Array.from(entryIndexes).sort())
+      .toEqual(['collectionId', 'collectionIds', 'inputId', 'savedAt', 'tags']);
+
+    const journalIndexes = db.transaction('journal').objectStore('journal').indexNames;
+    expect(Array.from(journalIndexes)).toEqual(['entityIds']);
+    db.close();
+  });
+
+  it('should backfill collection membership when upgrading from version 1', async () => {
+    const input = ExpressionInput.createExpression('노래 소리가 잔잔하게 들린다');
+    const suggestion = new Suggestion(input.id, ['부드럽게']);
+    const entry = new Entry(input, suggestion, 'c1');
+
+    // A version 1 database stored entries without collectionIds
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open('vocab', 1);
+      request.onupgradeneeded = () => {
+        const entries = request.result.createObjectStore('entries', { keyPath: 'id' });
+        entries.createIndex('collectionId', 'collectionId');
+        ['inputs', 'suggestions', 'collections'].forEach(name =>
+          request.result.createObjectStore(name, { keyPath: 'id' }));
+        const { collectionIds, ...legacy } = entry.toJSON();
+        entries.put({ ...legacy, savedAt: entry.savedAt });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    db.close();
+
+    const storage = new IndexedDBStorage({ indexedDB: factory, dbName: 'vocab' });
+    const entries = await storage.listEntries('c1');
+
+    expect(entries.map(e => e.id)).toEqual([entry.id]);
+    expect(entries[0].collectionIds).toEqual(['c1']);
+    await storage.close();
+  });
+
+  it('should look up tag searches through the tags index, or read every entry without IDBKeyRange', async () => {
+    const entries = ['장소', '장소/카페', '장소들', '음악'].map(tag => {
+      const input = ExpressionInput.createExpression(tag);
+      return new Entry(input, new Suggestion(input.id, ['후보']), 'c1', [tag]);
+    });
+    for (const withKeyRange of [true, false]) {
+      const storage = new IndexedDBStorage({
+        indexedDB: new IDBFactory(),
+        IDBKeyRange: withKeyRange ? IDBKeyRange : undefined
+      });
+      for (const entry of entries) {
+        await storage.saveEntry(entry);
+      }
+
+      const found = await storage.searchEntries({ query: '', tags: ['장소'] });
+      expect(found.map(e => e.input.content).sort()).toEqual(['장소', '장소/카페']);
+
+      await storage.replaceTags(['장소'], '공간');
+      expect((await storage.listTags()).map(t => t.tag).sort()).toEqual(['공간', '공간/카페', '음악', '장소들']);
+      await storage.close();
+    }
+  });
+
+  it('should throw when IndexedDB is unavailable', () => {
+    expect(() => new IndexedDBStorage()).toThrow('IndexedDB is not available in this environment');
+  });
+});
@@ -0,0 +1,91 @@
+import { SearchIndex, tokenize, highlightEntry } from '../SearchIndex';
+import { ExpressionInput, Suggestion, Entry } from '../../models';
+
+function makeEntry(content: string, candidates: string[], tags: string[] = []): Entry {
+  const input = ExpressionInput.createExpression(content);
+  return new Entry(input, new Suggestion(input.id, candidates), 'c1', tags);
+}
+
+describe('tokenize', () => {
+  it('should emit characters, bigrams and longer words', () => {
+    expect(tokenize('노래가 좋다')).toEqual(['노', '래', '가', '노래', '래가', '노래가', '좋', '다', '좋다']);
+  });
+
+  it('should lowercase and split on punctuation', () => {
+    expect(tokenize('Cozy, mood!')).toContain('cozy');
+    expect(tokenize('Cozy, mood!')).toContain('mood');
+    expect(tokenize('Cozy, mood!')).not.toContain(',');
+  });
+});
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    index = new SearchIndex();
+  });
+
+  it('should match words inside longer Korean words', () => {
+    const entry = makeEntry('노래를 부르는 소리가 들린다', ['가락']);
+    index.add(entry);
+
+    expect(index.search('노래').map(hit => hit.id)).toEqual([entry.id]);
+    expect(index.search('소리').map(hit => hit.id)).toEqual([entry.id]);
+    expect(index.search('노')).toHaveLength(1);
+    expect(index.search('노을')).toHaveLength(0);
+  });
+
+  it('should require every query word to match', () => {
+    const both = makeEntry('잔잔한 노래', ['부드럽게']);
+    const one = makeEntry('신나는 노래', ['경쾌하게']);
+    index.add(both);
+    index.add(one);
+
+    expect(index.search('잔잔한 노래').map(hit => hit.id)).toEqual([both.id]);
+  });
+
+  it('should rank repeated and shorter matches higher', () => {
+    const focused = makeEntry('비 오는 날', ['촉촉한', '비 내음']);
+    const passing = makeEntry('비가 오는 날 카페에 앉아 창밖을 오래 바라보았다', ['아늑한']);
+    index.add(passing);
+    index.add(focused);
+
+    expect(index.search('비').map(hit => hit.id)).toEqual([focused.id, passing.id]);
+  });
+
+  it('should replace an entry added again and forget removed entries', () => {
+    const entry = makeEntry('잔잔한 노래', ['부드럽게']);
+    index.add(entry);
+    index.add(entry.withCandidates(['나직이']));
+
+    expect(index.search('부드럽게')).toHaveLength(0);
+    expect(index.search('나직이')).toHaveLength(1);
+
+    index.remove(entry.id);
+    expect(index.search('노래')).toHaveLength(0);
+    expect(index.size).toBe(0);
+  });
+});
+
+describe('highlightEntry', () => {
+  it('should return merged match ranges per field value', () => {
+    const entry = makeEntry('노래 노래방에서', ['노래하듯'], ['음악']);
+
+    expect(highlightEntry(entry, '노래')).toEqual([
+      { field: 'content', text: '노래 노래방에서', ranges: [[0, 2], [3, 5]] },
+      { field: 'candidates', text: '노래하듯', ranges: [[0, 2]] }
+    ]);
+    expect(highlightEntry(entry, '노래 노래방')).toEqual([
+      { field: 'content', text: '노래 노래방에서', ranges: [[0, 2], [3, 6]] },
+      { field: 'candidates', text: '노래하듯', ranges: [[0, 2]] }
+    ]);
+  });
+
+  it('should give offsets into the NFC form of decomposed text', () => {
+    const entry = makeEntry('잔잔한 노래'.normalize('NFD'), ['부드럽게']);
+
+    expect(highlightEntry(entry, '노래')).toEqual([
+      { field: 'content', text: '잔잔한 노래', ranges: [[4, 6]] }
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import { parseSearchQuery, toPlainQuery, searchTerms, matchesSearchQuery } from '../SearchQuery';
+import { ExpressionInput, Suggestion, Entry } from '../../models';
+import { InputType } from '../../types';
+
+describe('parseSearchQuery', () => {
+  it('should parse fields, negation, phrases and OR', () => {
+    expect(parseSearchQuery('tag:카페 -tag:draft type:image saved:>2026-01-01 "잔잔한 소리" OR 선율')).toEqual({
+      kind: 'or',
+      operands: [
+        {
+          kind: 'and',
+          operands: [
+            { kind: 'tag', tag: '카페' },
+            { kind: 'not', operand: { kind: 'tag', tag: 'draft' } },
+            { kind: 'type', inputType: InputType.Image },
+            { kind: 'saved', from: new Date('2026-01-02T00:00:00Z') },
+            { kind: 'text', text: '잔잔한 소리', phrase: true }
+          ]
+        },
+        { kind: 'text', text: '선율', phrase: false }
+      ]
+    });
+  });
+
+  it('should group with parentheses and accept quoted field values', () => {
+    expect(parseSearchQuery('-(노래 OR 소리) tag:"잔잔한 밤" candidate:선율')).toEqual({
+      kind: 'and',
+      operands: [
+        {
+          kind: 'not',
+          operand: {
+            kind: 'or',
+            operands: [{ kind: 'text', text: '노래', phrase: false }, { kind: 'text', text: '소리', phrase: false }]
+          }
+        },
+        { kind: 'tag', tag: '잔잔한 밤' },
+        { kind: 'text', text: '선율', phrase: false, field: 'candidates' }
+      ]
+    });
+  });
+
+  it('should turn saved dates into UTC day bounds', () => {
+    const day = new Date('2026-01-01T00:00:00Z');
+    const next = new Date('2026-01-02T00:00:00Z');
+    expect(parseSearchQuery('saved:2026-01-01')).toEqual({ kind: 'saved', from: day, before: next });
+    expect(parseSearchQuery('saved:<=2026-01-01')).toEqual({ kind: 'saved', before: next });
+    expect(parseSearchQuery('saved:<2026-01-01')).toEqual({ kind: 'saved', before: day });
+    expect(parseSearchQuery('saved:2025-12-31..2026-01-01')).toEqual({
+      kind: 'saved',
+      from: new Date('2025-12-31T00:00:00Z'),
+      before: next
+    });
+  });
+
+  it('should return null for an empty query', () => {
+    expect(parseSearchQuery('   ')).toBeNull();
+  });
+
+  it('should report where a query is malformed', () => {
+    expect(() => parseSearchQuery('노래 "잔잔한')).toThrow('Invalid search query: unclosed quote at character 4');
+    expect(() => parseSearchQuery('(노래 OR 소리')).toThrow('Invalid search query: unclosed "(" at character 1');
+    expect(() => parseSearchQuery('노래)')).toThrow('Invalid search query: unexpected ")" at character 3');
+    expect(() => parseSearchQuery('노래 OR')).toThrow('expected a search term after OR at character 4');
+    expect(() => parseSearchQuery('OR 노래')).toThrow('expected a search term before OR at character 1');
+    expect(() => parseSearchQuery('mood:calm')).toThrow('unknown field "mood:" at character 1; use tag, type, saved');
+    expect(() => parseSearchQuery('type:video')).toThrow('unknown type "video" at character 1; use expression, explanation, image');
+    expect(() => parseSearchQuery('saved:>2026-13-01')).toThrow('invalid date "2026-13-01" at character 1; use YYYY-MM-DD');
+    expect(() => parseSearchQuery('tag:')).toThrow('missing value after "tag:" at character 1');
+  });
+});
+
+describe('toPlainQuery', () => {
+  it('should keep a single word or phrase as free text', () => {
+    expect(toPlainQuery(parseSearchQuery('잔잔한')!)).toBe('잔잔한');
+    expect(toPlainQuery(parseSearchQuery('"잔잔한 노래"')!)).toBe('잔잔한 노래');
+    expect(toPlainQuery(parseSearchQuery('잔잔한 노래')!)).toBeNull();
+    expect(toPlainQuery(parseSearchQuery('잔잔한 -노래')!)).toBeNull();
+    expect(toPlainQuery(parseSearchQuery('tag:음악')!)).toBeNull();
+  });
+});
+
+describe('matchesSearchQuery', () => {
+  const input = ExpressionInput.createImage('노래 소리가 잔잔하게 들린다');
+  const entry = Entry.fromJSON({
+    ...new Entry(input, new Suggestion(input.id, ['선율']), 'c1', ['음악']).toJSON(),
+    savedAt: '2026-01-05T09:00:00Z'
+  });
+  const matches = (query: string, fuzzy?: number) => matchesSearchQuery(entry, parseSearchQuery(query)!, fuzzy);
+
+  it('should match entry fields', () => {
+    expect(matches('tag:음악 type:image saved:2026-01-05 collection:c1')).toBe(true);
+    expect(matches('tag:음 ')).toBe(false);
+    expect(matches('content:선율')).toBe(false);
+    expect(matches('candidate:선율 -content:바다')).toBe(true);
+    expect(matches('"잔잔하게 들린다" OR 바다')).toBe(true);
+    expect(matches('saved:<2026-01-05 OR type:expression')).toBe(false);
+  });
+
+  it('should apply the fuzzy tolerance to text terms', () => {
+    expect(matches('잔잔하계 tag:음악')).toBe(false);
+    expect(matches('잔잔하계 tag:음악', 1)).toBe(true);
+  });
+
+  it('should collect the terms to score, leaving out negated ones', () => {
+    expect(searchTerms(parseSearchQuery('tag:음악 (잔잔 OR "노래 소리") -바다')!)).toEqual(['잔잔', '노래 소리']);
+  });
+});
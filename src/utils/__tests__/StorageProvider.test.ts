@@ -0,0 +1,656 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { InMemoryStorage } from '../InMemoryStorage';
+import { FileStorage } from '../FileStorage';
+import { SqliteStorage } from '../SqliteStorage';
+import { IndexedDBStorage } from '../IndexedDBStorage';
+import { parseSearchQuery } from '../SearchQuery';
+import { ExpressionInput, Suggestion, Collection, Entry, JournalRecord } from '../../models';
+import { StorageProvider, Entry as IEntry } from '../../types';
+
+interface StorageFixture {
+  storage: StorageProvider;
+  dispose(): void | Promise<void>;
+}
+
+const providers: Array<[string, () => StorageFixture]> = [
+  ['InMemoryStorage', () => ({ storage: new InMemoryStorage(), dispose: () => undefined })],
+  ['FileStorage', () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'voca-engine-'));
+    return {
+      storage: new FileStorage(dataDir),
+      dispose: () => fs.rmSync(dataDir, { recursive: true, force: true })
+    };
+  }],
+  ['SqliteStorage', () => {
+    const storage = new SqliteStorage();
+    return { storage, dispose: () => storage.close() };
+  }],
+  ['IndexedDBStorage', () => {
+    const storage = new IndexedDBStorage({ indexedDB: new IDBFactory(), IDBKeyRange });
+    return { storage, dispose: () => storage.close() };
+  }]
+];
+
+function makeEntry(
+  content: string,
+  candidates: string[],
+  collectionId: string,
+  tags: string[],
+  savedAt: string
+): Entry {
+  const input = ExpressionInput.createExpression(content);
+  const suggestion = new Suggestion(input.id, candidates);
+  return Entry.fromJSON({
+    ...new Entry(input, suggestion, collectionId, tags).toJSON(),
+    savedAt
+  });
+}
+
+describe('SqliteStorage', () => {
+  it('should load better-sqlite3 only when a SqliteStorage is created', () => {
+    jest.isolateModules(() => {
+      jest.doMock('better-sqlite3', () => {
+        throw new Error('better-sqlite3 loaded');
+      });
+      const { SqliteStorage: Storage } = require('../../index') as typeof import('../../index');
+
+      expect(() => new Storage()).toThrow('SqliteStorage needs the better-sqlite3 package, which runs on Node.js 20 or later: better-sqlite3 loaded');
+    });
+    // The contract tests below load the real one
+    jest.dontMock('better-sqlite3');
+  });
+});
+
+describe.each(providers)('%s (StorageProvider contract)', (_name, createFixture) => {
+  let fixture: StorageFixture;
+  let storage: StorageProvider;
+
+  beforeEach(() => {
+    fixture = createFixture();
+    storage = fixture.storage;
+  });
+
+  afterEach(async () => {
+    await fixture.dispose();
+  });
+
+  describe('inputs and suggestions', () => {
+    it('should save and load inputs', async () => {
+      const input = ExpressionInput.createExpression('노래 소리가 잔잔하게 들린다');
+      await storage.saveInput(input);
+
+      const loaded = await storage.getInput(input.id);
+      expect(loaded?.content).toBe(input.content);
+      expect(loaded?.type).toBe(input.type);
+      expect(loaded?.createdAt.getTime()).toBe(input.createdAt.getTime());
+    });
+
+    it('should save and load suggestions', async () => {
+      const suggestion = new Suggestion('input-1', ['부드럽게', '조용히']);
+      await storage.saveSuggestion(suggestion);
+
+      const loaded = await storage.getSuggestion(suggestion.id);
+      expect(loaded?.inputId).toBe('input-1');
+      expect(loaded?.candidates).toEqual([{ text: '부드럽게' }, { text: '조용히' }]);
+    });
+
+    it('should keep the details of candidates', async () => {
+      const suggestion = new Suggestion('input-1', [
+        { text: '선율', gloss: '소리의 흐름', example: '피아노 선율이 흘렀다.', register: '문어체', partOfSpeech: '명사', hanja: '旋律' },
+        '가락'
+      ]);
+      await storage.saveSuggestion(suggestion);
+
+      const loaded = await storage.getSuggestion(suggestion.id);
+      expect(loaded?.candidates).toEqual(suggestion.candidates);
+    });
+
+    it('should keep the provider that produced a suggestion, also inside entries', async () => {
+      const input = ExpressionInput.createExpression('잔잔하게');
+      const suggestion = Suggestion.create(input.id, ['부드럽게'], 'ollama');
+      const entry = new Entry(input, suggestion, 'col-1');
+      await storage.saveInput(input);
+      await storage.saveSuggestion(suggestion);
+      await storage.saveEntry(entry);
+
+      expect((await storage.getSuggestion(suggestion.id))?.provider).toBe('ollama');
+      expect((await storage.getEntry(entry.id))?.suggestion.provider).toBe('ollama');
+    });
+
+    it('should return null for unknown ids', async () => {
+      expect(await storage.getInput('missing')).toBeNull();
+      expect(await storage.getSuggestion('missing')).toBeNull();
+      expect(await storage.getCollection('missing')).toBeNull();
+      expect(await storage.getEntry('missing')).toBeNull();
+    });
+  });
+
+  describe('collections', () => {
+    it('should list collections by creation time', async () => {
+      const later = Collection.fromJSON({ id: 'b', name: '두번째', createdAt: '2026-02-01T00:00:00Z' });
+      const earlier = Collection.fromJSON({ id: 'a', name: '첫번째', createdAt: '2026-01-01T00:00:00Z' });
+      await storage.saveCollection(later);
+      await storage.saveCollection(earlier);
+
+      const collections = await storage.listCollections();
+      expect(collections.map(c => c.id)).toEqual(['a', 'b']);
+    });
+
+    it('should update a collection without changing id or createdAt', async () => {
+      const collection = new Collection('old');
+      await storage.saveCollection(collection);
+
+      const updated = await storage.updateCollection(collection.id, {
+        name: 'new',
+        id: 'other',
+        createdAt: new Date(0)
+      });
+
+      expect(updated.id).toBe(collection.id);
+      expect(updated.name).toBe('new');
+      expect(updated.createdAt.getTime()).toBe(collection.createdAt.getTime());
+      expect((await storage.getCollection(collection.id))?.name).toBe('new');
+    });
+
+    it('should throw when updating an unknown collection', async () => {
+      await expect(storage.updateCollection('missing', { name: 'x' }))
+        .rejects.toThrow('Collection with id missing not found');
+    });
+
+    it('should persist and clear archivedAt', async () => {
+      const collection = new Collection('보관');
+      await storage.saveCollection(collection);
+
+      const archivedAt = new Date('2026-03-01T00:00:00Z');
+      await storage.updateCollection(collection.id, { archivedAt });
+      expect((await storage.getCollection(collection.id))?.archivedAt?.getTime()).toBe(archivedAt.getTime());
+
+      await storage.updateCollection(collection.id, { archivedAt: undefined });
+      expect((await storage.getCollection(collection.id))?.archivedAt).toBeUndefined();
+    });
+
+    it('should persist deletedAt on collections', async () => {
+      const collection = new Collection('휴지통');
+      await storage.saveCollection(collection);
+
+      const deletedAt = new Date('2026-03-01T00:00:00Z');
+      await storage.updateCollection(collection.id, { deletedAt, deletionId: 'batch-1' });
+      expect((await storage.getCollection(collection.id))?.deletedAt?.getTime()).toBe(deletedAt.getTime());
+      expect((await storage.getCollection(collection.id))?.deletionId).toBe('batch-1');
+    });
+
+    it('should delete collections', async () => {
+      const collection = new Collection('삭제');
+      await storage.saveCollection(collection);
+
+      await storage.deleteCollection(collection.id);
+      expect(await storage.getCollection(collection.id)).toBeNull();
+      expect(await storage.listCollections()).toHaveLength(0);
+    });
+  });
+
+  describe('entries', () => {
+    let entries: Entry[];
+
+    beforeEach(async () => {
+      entries = [
+        makeEntry('노래 소리가 잔잔하게 들린다', ['부드럽게', '조용히'], 'c1', ['음악', '감성'], '2026-01-01T00:00:00Z'),
+        makeEntry('카페에서 창을 바라보는 상황', ['아늑한 분위기', 'Cozy Moment'], 'c1', ['카페', '감성'], '2026-01-03T00:00:00Z'),
+        makeEntry('비 오는 날의 풍경', ['촉촉한', '운치 있는'], 'c1', ['날씨'], '2026-01-02T00:00:00Z'),
+        makeEntry('노래방에서 부른 노래', ['열창', '가락'], 'c2', ['음악'], '2026-01-04T00:00:00Z')
+      ];
+      for (const entry of entries) {
+        await storage.saveEntry(entry);
+      }
+    });
+
+    it('should load an entry with its input and suggestion', async () => {
+      const loaded = await storage.getEntry(entries[0].id);
+
+      expect(loaded?.input.content).toBe('노래 소리가 잔잔하게 들린다');
+      expect(loaded?.suggestion.candidates).toEqual([{ text: '부드럽게' }, { text: '조용히' }]);
+      expect(loaded?.tags).toEqual(['음악', '감성']);
+      expect(loaded?.savedAt.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    });
+
+    it('should list entries of a collection, most recent first', async () => {
+      const listed = await storage.listEntries('c1');
+      expect(listed.map(e => e.id)).toEqual([entries[1].id, entries[2].id, entries[0].id]);
+    });
+
+    it('should replace an entry saved again with the same id', async () => {
+      await storage.saveEntry(entries[0].updateTags(['수정됨']));
+
+      const loaded = await storage.getEntry(entries[0].id);
+      expect(loaded?.tags).toEqual(['수정됨']);
+      expect(await storage.listEntries('c1')).toHaveLength(3);
+      expect(await storage.searchEntries({ query: '', tags: ['음악'] })).toHaveLength(1);
+    });
+
+    it('should delete entries', async () => {
+      await storage.deleteEntry(entries[0].id);
+
+      expect(await storage.getEntry(entries[0].id)).toBeNull();
+      expect(await storage.listEntries('c1')).toHaveLength(2);
+      expect(await storage.searchEntries({ query: '잔잔하게' })).toHaveLength(0);
+    });
+
+    it('should search input content, candidates and tags', async () => {
+      const byContent = await storage.searchEntries({ query: '잔잔하게' });
+      expect(byContent.map(e => e.id)).toEqual([entries[0].id]);
+
+      const byCandidate = await storage.searchEntries({ query: '운치' });
+      expect(byCandidate.map(e => e.id)).toEqual([entries[2].id]);
+
+      const byTag = await storage.searchEntries({ query: '날씨' });
+      expect(byTag.map(e => e.id)).toEqual([entries[2].id]);
+    });
+
+    it('should match substrings case-insensitively', async () => {
+      const results = await storage.searchEntries({ query: 'cozy mom' });
+      expect(results.map(e => e.id)).toEqual([entries[1].id]);
+    });
+
+    it('should match initial consonants in content and candidates', async () => {
+      const byContent = await storage.searchEntries({ query: 'ㅈㅈㅎㄱ' });
+      expect(byContent.map(e => e.id)).toEqual([entries[0].id]);
+
+      const mixed = await storage.searchEntries({ query: '잔ㅈ' });
+      expect(mixed.map(e => e.id)).toEqual([entries[0].id]);
+
+      const byCandidate = await storage.searchEntries({ query: 'ㅊㅊ' });
+      expect(byCandidate.map(e => e.id)).toEqual([entries[2].id]);
+
+      const inCollection = await storage.searchEntries({ query: 'ㄴㄹ', collectionId: 'c2' });
+      expect(inCollection.map(e => e.id)).toEqual([entries[3].id]);
+    });
+
+    it('should restrict search to a collection', async () => {
+      const all = await storage.searchEntries({ query: '노래' });
+      expect(all.map(e => e.id)).toEqual([entries[3].id, entries[0].id]);
+
+      const inCollection = await storage.searchEntries({ query: '노래', collectionId: 'c1' });
+      expect(inCollection.map(e => e.id)).toEqual([entries[0].id]);
+    });
+
+    it('should skip excluded collections', async () => {
+      const results = await storage.searchEntries({ query: '노래', excludeCollectionIds: ['c2'] });
+      expect(results.map(e => e.collectionId)).toEqual(['c1']);
+    });
+
+    it('should list and search entries in every collection they belong to', async () => {
+      const linked = Entry.fromJSON({ ...entries[3].toJSON(), collectionIds: ['c2', 'c3'] });
+      await storage.saveEntry(linked);
+
+      expect((await storage.listEntries('c3')).map(e => e.id)).toEqual([linked.id]);
+      expect((await storage.getEntry(linked.id))?.collectionIds).toEqual(['c2', 'c3']);
+
+      const inC3 = await storage.searchEntries({ query: '노래방', collectionId: 'c3' });
+      expect(inC3.map(e => e.id)).toEqual([linked.id]);
+
+      // Still visible through c3 while c2 is excluded
+      const visible = await storage.searchEntries({ query: '노래방', excludeCollectionIds: ['c2'] });
+      expect(visible.map(e => e.id)).toEqual([linked.id]);
+
+      const hidden = await storage.searchEntries({ query: '노래방', excludeCollectionIds: ['c2', 'c3'] });
+      expect(hidden).toHaveLength(0);
+    });
+
+    it('should store curated candidates, favorites, note and example', async () => {
+      const curated = entries[0]
+        .withCandidates(['조용히', '나직이'])
+        .withFavorites(['나직이'])
+        .withNote('잔잔한 장면에')
+        .withExample('음악이 나직이 흘렀다');
+      await storage.saveEntry(curated);
+
+      const loaded = await storage.getEntry(curated.id);
+      expect(loaded?.candidates).toEqual([{ text: '조용히' }, { text: '나직이' }]);
+      expect(loaded?.favorites).toEqual(['나직이']);
+      expect(loaded?.note).toBe('잔잔한 장면에');
+      expect(loaded?.example).toBe('음악이 나직이 흘렀다');
+      expect(loaded?.updatedAt?.getTime()).toBe(curated.updatedAt?.getTime());
+      expect(loaded?.suggestion.candidates).toEqual([{ text: '부드럽게' }, { text: '조용히' }]);
+
+      expect((await storage.searchEntries({ query: '나직이' })).map(e => e.id)).toEqual([curated.id]);
+      expect(await storage.searchEntries({ query: '부드럽게' })).toHaveLength(0);
+    });
+
+    it('should leave trashed entries out unless searching the trash', async () => {
+      const trashed = entries[0].moveToTrash(new Date('2026-02-01T00:00:00Z'), 'batch-1');
+      await storage.saveEntry(trashed);
+
+      expect((await storage.listEntries('c1')).map(e => e.id)).not.toContain(trashed.id);
+      expect((await storage.searchEntries({ query: '잔잔' }))).toHaveLength(0);
+
+      const trash = await storage.searchEntries({ query: '', trashed: true });
+      expect(trash.map(e => e.id)).toEqual([trashed.id]);
+      expect(trash[0].deletedAt?.toISOString()).toBe('2026-02-01T00:00:00.000Z');
+      expect(trash[0].deletionId).toBe('batch-1');
+
+      await storage.saveEntry(trashed.restore());
+      expect((await storage.listEntries('c1')).map(e => e.id)).toContain(trashed.id);
+      expect((await storage.getEntry(trashed.id))?.deletionId).toBeUndefined();
+    });
+
+    it('should drop memberships that are removed from an entry', async () => {
+      const linked = Entry.fromJSON({ ...entries[3].toJSON(), collectionIds: ['c2', 'c3'] });
+      await storage.saveEntry(linked);
+      await storage.saveEntry(linked.removeFromCollection('c3'));
+
+      expect(await storage.listEntries('c3')).toHaveLength(0);
+      expect((await storage.listEntries('c2')).map(e => e.id)).toEqual([linked.id]);
+    });
+
+    it('should rank a candidate match above a tag match and highlight it', async () => {
+      const byCandidate = makeEntry('평범한 문장', ['감성적인'], 'c1', [], '2026-01-05T00:00:00Z');
+      const byTag = makeEntry('다른 문장', ['평범'], 'c1', ['감성적인'], '2026-01-06T00:00:00Z');
+      await storage.saveEntry(byCandidate);
+      await storage.saveEntry(byTag);
+
+      const results = await storage.searchRanked({ query: '감성적인' });
+
+      expect(results.map(r => r.entry.id)).toEqual([byCandidate.id, byTag.id]);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+      expect(results[0].highlights).toEqual([{ field: 'candidates', text: '감성적인', ranges: [[0, 4]] }]);
+      expect(results[1].highlights).toEqual([{ field: 'tags', text: '감성적인', ranges: [[0, 4]] }]);
+    });
+
+    it('should rank queries shorter than three characters the same way', async () => {
+      const byCandidate = makeEntry('평범한 문장', ['아련한'], 'c1', [], '2026-01-05T00:00:00Z');
+      const byTag = makeEntry('다른 문장', ['평범'], 'c1', ['아련한'], '2026-01-06T00:00:00Z');
+      await storage.saveEntry(byCandidate);
+      await storage.saveEntry(byTag);
+
+      const results = await storage.searchRanked({ query: '아련' });
+
+      expect(results.map(r => r.entry.id)).toEqual([byCandidate.id, byTag.id]);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+      expect(results[1].score).toBeGreaterThan(0);
+    });
+
+    it('should apply search filters to ranked results and follow writes', async () => {
+      expect((await storage.searchRanked({ query: '잔잔하게' })).map(r => r.entry.id)).toEqual([entries[0].id]);
+      expect(await storage.searchRanked({ query: '잔잔하게', collectionId: 'c2' })).toHaveLength(0);
+
+      await storage.saveEntry(entries[0].moveToTrash());
+      expect(await storage.searchRanked({ query: '잔잔하게' })).toHaveLength(0);
+      expect(await storage.searchRanked({ query: '잔잔하게', trashed: true })).toHaveLength(1);
+
+      await storage.deleteEntry(entries[0].id);
+      expect(await storage.searchRanked({ query: '잔잔하게', trashed: true })).toHaveLength(0);
+
+      await storage.saveEntry(entries[2].updateTags(['잔잔하게']));
+      expect((await storage.searchRanked({ query: '잔잔하게' })).map(r => r.entry.id)).toEqual([entries[2].id]);
+    });
+
+    it('should match near-misses within the fuzzy tolerance after exact matches', async () => {
+      expect(await storage.searchEntries({ query: '잔잔하계' })).toHaveLength(0);
+      expect((await storage.searchEntries({ query: '잔잔하계', fuzzy: 1 })).map(e => e.id)).toEqual([entries[0].id]);
+      expect((await storage.searchEntries({ query: 'cozy momant', fuzzy: 1 })).map(e => e.id)).toEqual([entries[1].id]);
+
+      const typo = makeEntry('잔잔하계 흐르는 강', ['고요히'], 'c1', [], '2026-01-05T00:00:00Z');
+      await storage.saveEntry(typo);
+
+      const results = await storage.searchEntries({ query: '잔잔하게', fuzzy: 1 });
+      expect(results.map(e => e.id)).toEqual([entries[0].id, typo.id]);
+      expect(await storage.searchEntries({ query: '잔잔하게', fuzzy: 1, collectionId: 'c2' })).toHaveLength(0);
+    });
+
+    it('should rank near-misses below exact matches', async () => {
+      const typo = makeEntry('잔잔하계 흐르는 강', ['고요히'], 'c1', [], '2026-01-05T00:00:00Z');
+      await storage.saveEntry(typo);
+
+      const results = await storage.searchRanked({ query: '잔잔하게', fuzzy: 1 });
+
+      expect(results.map(r => r.entry.id)).toEqual([entries[0].id, typo.id]);
+      expect(results[1].score).toBeLessThan(results[0].score);
+      expect(results[1].highlights).toEqual([{ field: 'content', text: '잔잔하계 흐르는 강', ranges: [[0, 4]] }]);
+      expect((await storage.searchRanked({ query: '잔잔하게', fuzzy: 1, offset: 1 })).map(r => r.entry.id)).toEqual([typo.id]);
+    });
+
+    it('should filter by a parsed query', async () => {
+      const search = async (query: string) =>
+        (await storage.searchEntries({ query: '', filter: parseSearchQuery(query)! })).map(e => e.id);
+
+      expect(await search('tag:감성 -tag:카페')).toEqual([entries[0].id]);
+      expect(await search('"잔잔하게 들린다" OR 운치')).toEqual([entries[2].id, entries[0].id]);
+      expect(await search('saved:>2026-01-02')).toEqual([entries[3].id, entries[1].id]);
+      expect(await search('saved:2026-01-01..2026-01-02 collection:c1')).toEqual([entries[2].id, entries[0].id]);
+      expect(await search('content:노래 -candidate:열창')).toEqual([entries[0].id]);
+      expect(await search('candidate:ㅊㅊ')).toEqual([entries[2].id]);
+      expect(await search('(음악 OR 날씨) -노래방')).toEqual([entries[2].id, entries[0].id]);
+
+      const input = ExpressionInput.createImage('창밖 풍경 사진');
+      const image = Entry.fromJSON({
+        ...new Entry(input, new Suggestion(input.id, ['전경']), 'c1', []).toJSON(),
+        savedAt: '2026-01-05T00:00:00Z'
+      });
+      await storage.saveEntry(image);
+      expect(await search('type:image')).toEqual([image.id]);
+      expect(await search('풍경 -type:image')).toEqual([entries[2].id]);
+    });
+
+    it('should combine a parsed query with fuzzy matching and ranking', async () => {
+      const fuzzy = await storage.searchEntries({ query: '', filter: parseSearchQuery('잔잔하계 tag:음악')!, fuzzy: 1 });
+      expect(fuzzy.map(e => e.id)).toEqual([entries[0].id]);
+
+      const ranked = await storage.searchRanked({ query: '', filter: parseSearchQuery('tag:음악 잔잔하게')! });
+      expect(ranked.map(r => r.entry.id)).toEqual([entries[0].id]);
+      expect(ranked[0].score).toBeGreaterThan(0);
+      expect(ranked[0].highlights).toEqual([{ field: 'content', text: '노래 소리가 잔잔하게 들린다', ranges: [[7, 11]] }]);
+
+      const byTag = await storage.searchRanked({ query: '', filter: parseSearchQuery('tag:음악')!, limit: 1 });
+      expect(byTag.map(r => [r.entry.id, r.score])).toEqual([[entries[3].id, 0]]);
+    });
+
+    it('should return unscored results without a query', async () => {
+      const results = await storage.searchRanked({ query: '', collectionId: 'c1' });
+
+      expect(results.map(r => r.entry.id)).toEqual([entries[1].id, entries[2].id, entries[0].id]);
+      expect(results.every(r => r.score === 0 && r.highlights.length === 0)).toBe(true);
+    });
+
+    it('should require all requested tags', async () => {
+      const results = await storage.searchEntries({ query: '', tags: ['감성', '카페'] });
+      expect(results.map(e => e.id)).toEqual([entries[1].id]);
+
+      const none = await storage.searchEntries({ query: '', tags: ['감성', '날씨'] });
+      expect(none).toHaveLength(0);
+    });
+
+    it('should match tags nested below a requested tag', async () => {
+      const nested = makeEntry('골목의 작은 카페', ['아담한'], 'c2', ['장소/카페'], '2026-01-05T00:00:00Z');
+      const lookalike = makeEntry('카페 이름', ['상호'], 'c2', ['장소카페'], '2026-01-06T00:00:00Z');
+      await storage.saveEntry(nested);
+      await storage.saveEntry(lookalike);
+
+      const results = await storage.searchEntries({ query: '', tags: ['장소'] });
+      expect(results.map(e => e.id)).toEqual([nested.id]);
+
+      const filtered = await storage.searchEntries({ query: '', filter: parseSearchQuery('tag:장소')! });
+      expect(filtered.map(e => e.id)).toEqual([nested.id]);
+    });
+
+    it('should count tags with their parents, leaving out trashed entries', async () => {
+      await storage.saveEntry(makeEntry('골목의 작은 카페', ['아담한'], 'c2', ['장소/카페', '감성'], '2026-01-05T00:00:00Z'));
+      await storage.saveEntry({ ...entries[2], deletedAt: new Date('2026-01-06T00:00:00Z') });
+
+      expect(await storage.listTags()).toEqual([
+        { tag: '감성', count: 3 },
+        { tag: '음악', count: 2 },
+        { tag: '장소', count: 1 },
+        { tag: '장소/카페', count: 1 },
+        { tag: '카페', count: 1 }
+      ]);
+    });
+
+    it('should replace tags on every entry, keeping the levels below them', async () => {
+      const nested = makeEntry('골목의 작은 카페', ['아담한'], 'c2', ['카페/실내', '카페'], '2026-01-05T00:00:00Z');
+      await storage.saveEntry(nested);
+      await storage.saveEntry({ ...entries[0], deletedAt: new Date('2026-01-06T00:00:00Z') });
+
+      const renamed = await storage.replaceTags(['카페', '음악'], '공간');
+      expect(renamed.map(e => e.id).sort()).toEqual([entries[0].id, entries[1].id, entries[3].id, nested.id].sort());
+      expect((await storage.getEntry(nested.id))?.tags).toEqual(['공간/실내', '공간']);
+      expect((await storage.getEntry(entries[0].id))?.tags).toEqual(['공간', '감성']);
+      expect(await storage.searchEntries({ query: '', tags: ['카페'] })).toHaveLength(0);
+
+      const removed = await storage.replaceTags(['감성'], null);
+      expect(removed.map(e => e.id).sort()).toEqual([entries[0].id, entries[1].id].sort());
+      expect((await storage.getEntry(entries[1].id))?.tags).toEqual(['공간']);
+      expect(await storage.replaceTags(['없는 태그'], '공간')).toHaveLength(0);
+    });
+
+    it('should apply limit and offset after sorting', async () => {
+      const firstPage = await storage.searchEntries({ query: '', limit: 2 });
+      expect(firstPage.map(e => e.id)).toEqual([entries[3].id, entries[1].id]);
+
+      const secondPage = await storage.searchEntries({ query: '', limit: 2, offset: 2 });
+      expect(secondPage.map(e => e.id)).toEqual([entries[2].id, entries[0].id]);
+    });
+
+    it('should export every record of a kind', async () => {
+      const exported: IEntry[] = [];
+      for await (const entry of storage.exportRecords('entries')) {
+        exported.push(entry);
+      }
+
+      expect(exported.map(e => e.id).sort()).toEqual(entries.map(e => e.id).sort());
+      expect(exported.every(e => e.savedAt instanceof Date)).toBe(true);
+    });
+
+    it('should import records in bulk and clear everything', async () => {
+      const collection = new Collection('가져온 모음');
+      const imported = makeEntry('가져온 표현', ['새 후보'], collection.id, ['import'], '2026-02-01T00:00:00Z');
+
+      await storage.importRecords('collections', [collection]);
+      await storage.importRecords('inputs', [imported.input]);
+      await storage.importRecords('suggestions', [imported.suggestion]);
+      await storage.importRecords('entries', [imported]);
+
+      expect((await storage.getCollection(collection.id))?.name).toBe('가져온 모음');
+      expect((await storage.getInput(imported.input.id))?.content).toBe('가져온 표현');
+      expect(await storage.listEntries(collection.id)).toHaveLength(1);
+      expect(await storage.searchEntries({ query: '', tags: ['import'] })).toHaveLength(1);
+
+      await storage.clear();
+
+      expect(await storage.listCollections()).toHaveLength(0);
+      expect(await storage.getInput(imported.input.id)).toBeNull();
+      expect(await storage.searchEntries({ query: '' })).toHaveLength(0);
+    });
+
+    it('should treat special characters in queries literally', async () => {
+      expect(await storage.searchEntries({ query: '%' })).toHaveLength(0);
+      expect(await storage.searchEntries({ query: '"노래' })).toHaveLength(0);
+    });
+  });
+
+  describe('journal', () => {
+    it('should append records and list them oldest first, optionally by entity', async () => {
+      const rename = new JournalRecord('renameCollection', [
+        { kind: 'collections', id: 'c1', before: { id: 'c1', name: 'old' }, after: { id: 'c1', name: 'new' } }
+      ], { actor: 'mina' });
+      const save = new JournalRecord('saveEntry', [
+        { kind: 'entries', id: 'e1', before: null, after: { id: 'e1' } },
+        { kind: 'collections', id: 'c1', before: { id: 'c1', name: 'new' }, after: { id: 'c1', name: 'newer' } }
+      ]);
+
+      await storage.appendJournal(rename);
+      await storage.appendJournal(save);
+
+      const all = await storage.listJournal();
+      expect(all.map(record => record.id)).toEqual([rename.id, save.id]);
+      expect(all[0].timestamp).toBeInstanceOf(Date);
+      expect(all[0].actor).toBe('mina');
+      expect(all[0].changes[0].after).toEqual({ id: 'c1', name: 'new' });
+
+      expect((await storage.listJournal('c1')).map(record => record.id)).toEqual([rename.id, save.id]);
+      expect((await storage.listJournal('e1')).map(record => record.id)).toEqual([save.id]);
+      expect(await storage.listJournal('unknown')).toHaveLength(0);
+    });
+
+    it('should keep the journal when clearing records', async () => {
+      await storage.appendJournal(new JournalRecord('createCollection', [
+        { kind: 'collections', id: 'c1', before: null, after: { id: 'c1', name: 'new' } }
+      ]));
+      await storage.clear();
+
+      expect(await storage.listJournal()).toHaveLength(1);
+    });
+  });
+
+  describe('embeddings', () => {
+    it('should store vectors by model and text and keep them when clearing records', async () => {
+      await storage.saveEmbeddings([
+        { model: 'm1', text: '잔잔하게', vector: [0.1, -0.25, 1 / 3] },
+        { model: 'm1', text: '고요하게', vector: [0, 1, 0] },
+        { model: 'm2', text: '잔잔하게', vector: [1, 0] }
+      ]);
+      await storage.saveEmbeddings([{ model: 'm1', text: '고요하게', vector: [0, 0, 1] }]);
+      await storage.clear();
+
+      expect(await storage.getEmbeddings('m1', ['잔잔하게', '없는 말', '고요하게'])).toEqual([
+        { model: 'm1', text: '잔잔하게', vector: [0.1, -0.25, 1 / 3] },
+        { model: 'm1', text: '고요하게', vector: [0, 0, 1] }
+      ]);
+      expect(await storage.getEmbeddings('m2', ['고요하게'])).toEqual([]);
+      expect(await storage.getEmbeddings('m3', ['잔잔하게'])).toEqual([]);
+    });
+
+    it('should delete the vectors of texts under every model', async () => {
+      await storage.saveEmbeddings([
+        { model: 'm1', text: '잔잔하게', vector: [1, 0] },
+        { model: 'm1', text: '고요하게', vector: [0, 1] },
+        { model: 'm2', text: '잔잔하게', vector: [1] }
+      ]);
+      await storage.deleteEmbeddings(['잔잔하게', '없는 말']);
+
+      expect(await storage.getEmbeddings('m1', ['잔잔하게', '고요하게'])).toEqual([{ model: 'm1', text: '고요하게', vector: [0, 1] }]);
+      expect(await storage.getEmbeddings('m2', ['잔잔하게'])).toEqual([]);
+    });
+  });
+
+  describe('suggestion cache', () => {
+    it('should replace replies by key, keep them when clearing records and clear them on their own', async () => {
+      const candidates = [{ text: '부드럽게', gloss: '거칠지 않게' }, { text: '고요히' }];
+      await storage.saveCachedSuggestion({ key: 'a', candidates: [{ text: '조용히' }], cachedAt: new Date('2026-01-01T00:00:00Z') });
+      await storage.saveCachedSuggestion({ key: 'a', candidates, provider: 'openai', cachedAt: new Date('2026-02-01T00:00:00Z') });
+      await storage.saveCachedSuggestion({ key: 'b', candidates: [{ text: '잔잔히' }], cachedAt: new Date('2026-02-01T00:00:00Z') });
+      await storage.clear();
+
+      expect(await storage.getCachedSuggestion('a')).toEqual({
+        key: 'a',
+        candidates,
+        provider: 'openai',
+        cachedAt: new Date('2026-02-01T00:00:00Z')
+      });
+      expect(await storage.getCachedSuggestion('b')).not.toHaveProperty('provider');
+      expect(await storage.getCachedSuggestion('c')).toBeNull();
+
+      expect(await storage.clearSuggestionCache()).toBe(2);
+      expect(await storage.getCachedSuggestion('a')).toBeNull();
+    });
+  });
+
+  describe('deleting records', () => {
+    it('should delete records of a kind by id', async () => {
+      const keep = new Collection('남길 모음');
+      const drop = new Collection('지울 모음');
+      const entry = makeEntry('지울 표현', ['후보'], drop.id, ['tag'], '2026-02-01T00:00:00Z');
+      await storage.importRecords('collections', [keep, drop]);
+      await storage.saveEntry(entry);
+
+      await storage.deleteRecords('entries', [entry.id]);
+      await storage.deleteRecords('collections', [drop.id, 'unknown']);
+
+      expect(await storage.getEntry(entry.id)).toBeNull();
+      expect(await storage.searchEntries({ query: '지울' })).toHaveLength(0);
+      expect((await storage.listCollections()).map(c => c.id)).toEqual([keep.id]);
+    });
+  });
+});
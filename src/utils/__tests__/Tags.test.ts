@@ -0,0 +1,47 @@
+import { normalizeTag, matchesTags, tagPath, replaceTags, countTags } from '../Tags';
+
+describe('normalizeTag', () => {
+  it('should trim each level and drop empty ones', () => {
+    expect(normalizeTag(' 장소 / 카페 ')).toBe('장소/카페');
+    expect(normalizeTag('/장소//카페/')).toBe('장소/카페');
+    expect(normalizeTag(' / ')).toBe('');
+  });
+});
+
+describe('matchesTags', () => {
+  it('should match a tag itself or the tags below it, but not lookalikes', () => {
+    expect(matchesTags(['장소/카페'], ['장소'])).toBe(true);
+    expect(matchesTags(['장소/카페'], ['장소/카페'])).toBe(true);
+    expect(matchesTags(['장소카페'], ['장소'])).toBe(false);
+    expect(matchesTags(['장소'], ['장소/카페'])).toBe(false);
+    expect(matchesTags(['장소/카페', '감성'], ['장소', '감성'])).toBe(true);
+  });
+});
+
+describe('tagPath', () => {
+  it('should list every level from the top', () => {
+    expect(tagPath('장소/카페/실내')).toEqual(['장소', '장소/카페', '장소/카페/실내']);
+  });
+});
+
+describe('replaceTags', () => {
+  it('should rename the levels below a tag and merge duplicates', () => {
+    expect(replaceTags(['장소/카페', '감성'], ['장소'], '공간')).toEqual(['공간/카페', '감성']);
+    expect(replaceTags(['감성', '음악', '감성적'], ['감성적'], '감성')).toEqual(['감성', '음악']);
+  });
+
+  it('should drop a tag and the tags below it without a target', () => {
+    expect(replaceTags(['장소', '장소/카페', '감성'], ['장소'], null)).toEqual(['감성']);
+  });
+});
+
+describe('countTags', () => {
+  it('should count each entry once per tag, parents included', () => {
+    expect(countTags([['장소/카페', '장소/공원'], ['장소'], ['감성']])).toEqual([
+      { tag: '장소', count: 2 },
+      { tag: '감성', count: 1 },
+      { tag: '장소/공원', count: 1 },
+      { tag: '장소/카페', count: 1 }
+    ]);
+  });
+});
@@ -1 +1,14 @@
-export { InMemoryStorage } from './InMemoryStorage';
\ No newline at end of file
+export { InMemoryStorage } from './InMemoryStorage';
+export { FileStorage } from './FileStorage';
+export { SqliteStorage } from './SqliteStorage';
+export { IndexedDBStorage } from './IndexedDBStorage';
+export { SearchIndex, tokenize, highlightEntry } from './SearchIndex';
+export { decompose, getChoseong, toJamo, isChoseong, isHangulSyllable, containsChoseong, matchesChoseong } from './Hangul';
+export type { HangulSyllable } from './Hangul';
+export { fuzzyFind, matchDistance } from './Fuzzy';
+export type { FuzzyMatch } from './Fuzzy';
+export { parseSearchQuery, matchesSearchQuery } from './SearchQuery';
+export { normalizeTag, matchesTags, countTags } from './Tags';
+export { cosineSimilarity } from './Embeddings';
+export { normalizeContent, findDuplicateGroups } from './Duplicates';
+export { toCandidate } from './Candidates';